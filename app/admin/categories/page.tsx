@@ -0,0 +1,291 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useToast } from "@/components/ui/use-toast"
+import { FolderTree, Plus, Edit, Trash2, RefreshCw } from "lucide-react"
+import { CategoryService } from "@/lib/services/category-service"
+import { buildCategoryTree, flattenCategoryTree, getDescendantIds } from "@/lib/product-taxonomy"
+import { Category, CategoryNode } from "@/lib/types/category"
+
+const NO_PARENT = "__root__"
+
+interface CategoryForm {
+  name: string
+  parentId: string
+  shopifyProductType: string
+  position: string
+}
+
+const EMPTY_FORM: CategoryForm = { name: "", parentId: NO_PARENT, shopifyProductType: "", position: "0" }
+
+export default function AdminCategoriesPage() {
+  const [categories, setCategories] = useState<Category[]>([])
+  const [productCounts, setProductCounts] = useState<Record<string, number>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [editing, setEditing] = useState<Category | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [form, setForm] = useState<CategoryForm>(EMPTY_FORM)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchCategories()
+  }, [])
+
+  const fetchCategories = async () => {
+    try {
+      setLoading(true)
+      const [allCategories, counts] = await Promise.all([
+        CategoryService.getCategories(),
+        CategoryService.getProductCounts(),
+      ])
+      setCategories(allCategories)
+      setProductCounts(counts)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const flatTree: CategoryNode[] = flattenCategoryTree(buildCategoryTree(categories))
+
+  // A category cannot become the child of itself or of one of its descendants
+  const parentOptions = editing
+    ? flatTree.filter(node => !getDescendantIds(categories, editing.id).includes(node.id))
+    : flatTree
+
+  const openCreate = (parentId?: string) => {
+    setEditing(null)
+    setForm({ ...EMPTY_FORM, parentId: parentId || NO_PARENT })
+    setIsDialogOpen(true)
+  }
+
+  const openEdit = (category: Category) => {
+    setEditing(category)
+    setForm({
+      name: category.name,
+      parentId: category.parent_id || NO_PARENT,
+      shopifyProductType: category.shopify_product_type || "",
+      position: String(category.position),
+    })
+    setIsDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const payload = {
+        name: form.name,
+        parent_id: form.parentId === NO_PARENT ? null : form.parentId,
+        shopify_product_type: form.shopifyProductType,
+        position: parseInt(form.position) || 0,
+      }
+      const result = editing
+        ? await CategoryService.updateCategory(editing.id, payload)
+        : await CategoryService.createCategory(payload)
+
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      toast({
+        title: editing ? "Category Updated" : "Category Created",
+        description: `${form.name.trim()} has been saved.`,
+      })
+      setIsDialogOpen(false)
+      await fetchCategories()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save category.",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (category: Category) => {
+    const count = productCounts[category.id] || 0
+    const message = count > 0
+      ? `Delete "${category.name}"? ${count} products will become uncategorized.`
+      : `Delete "${category.name}"?`
+    if (!confirm(message)) return
+
+    const result = await CategoryService.deleteCategory(category.id)
+    if (result.success) {
+      toast({
+        title: "Category Deleted",
+        description: `${category.name} has been removed.`,
+      })
+      await fetchCategories()
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to delete category.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Categories</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Organize the catalog; each category sets the Shopify product type when sellers push products
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={fetchCategories} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button onClick={() => openCreate()} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Category
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FolderTree className="h-5 w-5" />
+            Category Tree
+          </CardTitle>
+          <CardDescription>{categories.length} categories</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+            </div>
+          ) : flatTree.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No categories yet. Create one to start organizing products.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Shopify Product Type</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead>Position</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {flatTree.map(node => (
+                  <TableRow key={node.id}>
+                    <TableCell style={{ paddingLeft: `${1 + node.depth * 1.5}rem` }} className="font-medium">
+                      {node.depth > 0 && <span className="text-gray-400 mr-1">└</span>}
+                      {node.name}
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {node.shopify_product_type || <span className="text-gray-400">{node.name} (default)</span>}
+                    </TableCell>
+                    <TableCell>{productCounts[node.id] || 0}</TableCell>
+                    <TableCell>{node.position}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openCreate(node.id)} title="Add subcategory">
+                          <Plus className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(node)} title="Edit">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(node)}
+                          disabled={node.children.length > 0}
+                          title={node.children.length > 0 ? "Remove subcategories first" : "Delete"}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Category" : "New Category"}</DialogTitle>
+            <DialogDescription>
+              Leave the Shopify product type empty to use the category name.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. T-Shirts"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Parent</Label>
+              <Select value={form.parentId} onValueChange={(value) => setForm({ ...form, parentId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                  {parentOptions.map(node => (
+                    <SelectItem key={node.id} value={node.id}>
+                      {"  ".repeat(node.depth)}{node.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="category-type">Shopify product type</Label>
+                <Input
+                  id="category-type"
+                  value={form.shopifyProductType}
+                  onChange={(e) => setForm({ ...form, shopifyProductType: e.target.value })}
+                  placeholder={form.name || "Category name"}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="category-position">Position</Label>
+                <Input
+                  id="category-position"
+                  type="number"
+                  value={form.position}
+                  onChange={(e) => setForm({ ...form, position: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -4,7 +4,7 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/components/ui/use-toast"
-import { Shield, ShoppingCart, Package, Store, Users, Bell, Settings, User } from "lucide-react"
+import { Shield, ShoppingCart, Package, Store, Users, Bell, Settings, User, FolderTree, Webhook, History } from "lucide-react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 
@@ -80,11 +80,29 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
       icon: Package,
       current: pathname === "/admin/products"
     },
+    {
+      name: "Categories",
+      href: "/admin/categories",
+      icon: FolderTree,
+      current: pathname === "/admin/categories"
+    },
     {
       name: "All Suppliers",
       href: "/admin/suppliers",
       icon: Users,
       current: pathname === "/admin/suppliers"
+    },
+    {
+      name: "Webhooks",
+      href: "/admin/webhooks",
+      icon: Webhook,
+      current: pathname === "/admin/webhooks"
+    },
+    {
+      name: "Order Sync",
+      href: "/admin/order-sync",
+      icon: History,
+      current: pathname === "/admin/order-sync"
     }
   ]
 
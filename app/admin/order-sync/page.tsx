@@ -0,0 +1,200 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { History, Play, RefreshCw } from "lucide-react"
+import { OrderSyncRun, OrderSyncRunStatus } from "@/lib/types/order-sync-run"
+
+const ALL_STATUSES = "all"
+
+const getStatusBadge = (status: OrderSyncRunStatus) => {
+  switch (status) {
+    case 'completed':
+      return <Badge className="bg-green-100 text-green-800">Completed</Badge>
+    case 'partial':
+      return <Badge className="bg-yellow-100 text-yellow-800">Partial</Badge>
+    case 'failed':
+      return <Badge className="bg-red-100 text-red-800">Failed</Badge>
+    default:
+      return <Badge className="bg-blue-100 text-blue-800">Running</Badge>
+  }
+}
+
+const formatDuration = (run: OrderSyncRun) => {
+  if (!run.finished_at) return "—"
+  const seconds = Math.round((new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000)
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+export default function AdminOrderSyncPage() {
+  const [runs, setRuns] = useState<OrderSyncRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+  const [status, setStatus] = useState<string>(ALL_STATUSES)
+  const [storeUrl, setStoreUrl] = useState("")
+  const { toast } = useToast()
+
+  const fetchRuns = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (status !== ALL_STATUSES) params.set("status", status)
+      if (storeUrl.trim()) params.set("storeUrl", storeUrl.trim())
+
+      const response = await fetch(`/api/admin/order-sync-runs?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load sync history')
+      }
+      setRuns(data.runs)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load sync history",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [status, storeUrl, toast])
+
+  // The store filter applies on Enter or Refresh rather than on every keystroke
+  useEffect(() => {
+    fetchRuns()
+  }, [status])
+
+  const handleSyncNow = async () => {
+    setSyncing(true)
+    try {
+      const response = await fetch('/api/sync-orders', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to sync orders')
+      }
+
+      const skipped: string[] = data.skippedStores || []
+      toast({
+        title: "Order sync finished",
+        description: `${data.totalOrdersSynced || 0} new orders${skipped.length > 0 ? `; ${skipped.length} store${skipped.length !== 1 ? 's were' : ' was'} already syncing` : ''}`,
+      })
+      await fetchRuns()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sync orders",
+        variant: "destructive",
+      })
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Order Sync</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Every order sync run per store, scheduled or started by hand
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={fetchRuns} variant="outline" size="sm" disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={handleSyncNow} size="sm" disabled={syncing}>
+            <Play className="h-4 w-4 mr-2" />
+            {syncing ? "Syncing..." : "Sync All Stores Now"}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run History</CardTitle>
+          <CardDescription>The 100 most recent runs matching the filters</CardDescription>
+          <div className="flex gap-3 pt-2">
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+                <SelectItem value="running">Running</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="partial">Partial</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              className="max-w-xs"
+              placeholder="Filter by store URL"
+              value={storeUrl}
+              onChange={(e) => setStoreUrl(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && fetchRuns()}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+            </div>
+          ) : runs.length === 0 ? (
+            <div className="text-center py-8">
+              <History className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-500">No sync runs match these filters</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Store</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Fetched</TableHead>
+                  <TableHead>New Orders</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Failed</TableHead>
+                  <TableHead>Errors</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell className="text-sm whitespace-nowrap">{new Date(run.started_at).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">{run.store_url}</TableCell>
+                    <TableCell className="text-sm capitalize">{run.trigger}</TableCell>
+                    <TableCell>{getStatusBadge(run.status)}</TableCell>
+                    <TableCell className="text-sm">{formatDuration(run)}</TableCell>
+                    <TableCell className="text-sm">{run.orders_fetched}</TableCell>
+                    <TableCell className="text-sm">{run.orders_synced}</TableCell>
+                    <TableCell className="text-sm">{run.items_synced}</TableCell>
+                    <TableCell className={`text-sm ${run.failed_orders > 0 ? 'text-red-600 font-medium' : ''}`}>{run.failed_orders}</TableCell>
+                    <TableCell className="text-sm text-red-600 max-w-xs">
+                      {run.errors.length > 0 && (
+                        <div className="truncate" title={run.errors.join('\n')}>
+                          {run.errors[0]}{run.errors.length > 1 && ` (+${run.errors.length - 1} more)`}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
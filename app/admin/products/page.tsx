@@ -7,12 +7,23 @@ import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/components/ui/use-toast"
-import { Search, Filter, Package, CheckCircle, XCircle, Eye, RefreshCw, User } from "lucide-react"
+import { Search, Filter, Package, CheckCircle, XCircle, Eye, RefreshCw, User, Download } from "lucide-react"
 import Image from "next/image"
 import { ProductService } from "@/lib/product-service"
 import { Product } from "@/lib/types/product"
+import { getVariantTitle } from "@/lib/product-variants"
+import { InventoryService } from "@/lib/services/inventory-service"
+import { buildCatalogCsv, CatalogExportFilters, ExportFormat, exportFileName } from "@/lib/catalog-export"
+import { CatalogExportDialog, downloadCsv } from "@/components/catalog-export-dialog"
+import { ModerationHistoryList, RejectionFeedback } from "@/components/moderation-history"
+import { ProductRevisionsPanel } from "@/components/product-revisions"
+import { REJECTION_REASONS } from "@/lib/product-moderation"
+import { ModerationEvent, RejectionReasonCode } from "@/lib/types/moderation"
 
 export default function AdminProductsPage() {
   const [products, setProducts] = useState<Product[]>([])
@@ -23,6 +34,11 @@ export default function AdminProductsPage() {
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [actionLoading, setActionLoading] = useState("")
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [history, setHistory] = useState<ModerationEvent[]>([])
+  const [rejectingProduct, setRejectingProduct] = useState<Product | null>(null)
+  const [rejectReasons, setRejectReasons] = useState<RejectionReasonCode[]>([])
+  const [rejectFeedback, setRejectFeedback] = useState("")
   const { toast } = useToast()
 
   useEffect(() => {
@@ -62,8 +78,10 @@ export default function AdminProductsPage() {
       )
     }
 
-    // Filter by status
-    if (statusFilter !== "all") {
+    // Filter by status; "changes" lists approved products with edits awaiting review
+    if (statusFilter === "changes") {
+      filtered = filtered.filter(product => !!product.pending_revision_id)
+    } else if (statusFilter !== "all") {
       filtered = filtered.filter(product => product.status === statusFilter)
     }
 
@@ -73,7 +91,7 @@ export default function AdminProductsPage() {
   const handleApprove = async (productId: string) => {
     try {
       setActionLoading(`approve-${productId}`)
-      const success = await ProductService.approveProduct(productId)
+      const success = await ProductService.approveProduct(productId, getAdminName())
       
       if (success) {
         toast({
@@ -96,16 +114,35 @@ export default function AdminProductsPage() {
     }
   }
 
-  const handleReject = async (productId: string) => {
+  const getAdminName = () => localStorage.getItem('adminUser') || 'admin'
+
+  const openReject = (product: Product) => {
+    setRejectingProduct(product)
+    setRejectReasons([])
+    setRejectFeedback("")
+  }
+
+  const toggleRejectReason = (code: RejectionReasonCode) => {
+    setRejectReasons(current => current.includes(code) ? current.filter(item => item !== code) : [...current, code])
+  }
+
+  const feedbackRequired = rejectReasons.includes('other')
+  const canReject = rejectReasons.length > 0 && (!feedbackRequired || rejectFeedback.trim().length > 0)
+
+  const handleReject = async () => {
+    if (!rejectingProduct) return
+    const productId = rejectingProduct.id
+
     try {
       setActionLoading(`reject-${productId}`)
-      const success = await ProductService.rejectProduct(productId)
+      const success = await ProductService.rejectProduct(productId, rejectReasons, rejectFeedback, getAdminName())
       
       if (success) {
         toast({
           title: "Product Rejected",
-          description: "The product has been rejected and returned to the supplier.",
+          description: "The product has been rejected and the feedback sent to the supplier.",
         })
+        setRejectingProduct(null)
         await fetchProducts() // Refresh the list
       } else {
         throw new Error("Failed to reject product")
@@ -122,9 +159,46 @@ export default function AdminProductsPage() {
     }
   }
 
-  const viewProduct = (product: Product) => {
+  const handleExport = async (format: ExportFormat, filters: CatalogExportFilters) => {
+    try {
+      const exportProducts = await ProductService.getProductsForExport(filters)
+      if (exportProducts.length === 0) {
+        toast({
+          title: "Nothing to export",
+          description: "No products match the selected filters.",
+        })
+        return
+      }
+
+      const stock = await InventoryService.getAvailableStock(exportProducts.map(product => product.id))
+      downloadCsv(buildCatalogCsv(format, exportProducts, stock), exportFileName(format))
+    } catch (error) {
+      console.error('Error exporting products:', error)
+      toast({
+        title: "Error",
+        description: "Failed to export products.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const supplierOptions = Array.from(
+    new Map(products.map(product => [product.supplier_id, product.supplier_name || product.supplier_id])).entries()
+  ).map(([id, name]) => ({ id, name }))
+
+  const refreshSelectedProduct = async () => {
+    if (selectedProduct) {
+      const updated = await ProductService.getProductById(selectedProduct.id)
+      if (updated) setSelectedProduct(updated)
+    }
+    await fetchProducts()
+  }
+
+  const viewProduct = async (product: Product) => {
     setSelectedProduct(product)
+    setHistory([])
     setIsDialogOpen(true)
+    setHistory(await ProductService.getModerationHistory(product.id))
   }
 
   const getStatusColor = (status: string) => {
@@ -179,12 +253,26 @@ export default function AdminProductsPage() {
             Review and approve products from suppliers
           </p>
         </div>
-        <Button onClick={fetchProducts} variant="outline" size="sm">
-          <RefreshCw className="h-4 w-4 mr-2" />
-          Refresh
-        </Button>
+        <div className="flex gap-2">
+          <Button onClick={() => setIsExportOpen(true)} variant="outline" size="sm">
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button onClick={fetchProducts} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
       </div>
 
+      <CatalogExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        showStatus
+        suppliers={supplierOptions}
+        onExport={handleExport}
+      />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card>
@@ -242,6 +330,7 @@ export default function AdminProductsPage() {
                 <SelectItem value="pending">Pending Review</SelectItem>
                 <SelectItem value="approved">Approved</SelectItem>
                 <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="changes">Changes Pending</SelectItem>
                 <SelectItem value="all">All Statuses</SelectItem>
               </SelectContent>
             </Select>
@@ -312,11 +401,22 @@ export default function AdminProductsPage() {
                     </TableCell>
                     <TableCell className="font-medium">
                       {formatCurrency(product.price)}
+                      {product.variants && product.variants.length > 0 && (
+                        <div className="text-xs text-gray-500 font-normal">
+                          {product.variants.length} variants
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge className={getStatusColor(product.status)}>
                         {product.status}
                       </Badge>
+                      {product.pending_revision_id && (
+                        <Badge variant="outline" className="ml-1 border-yellow-400 text-yellow-700">changes pending</Badge>
+                      )}
+                      {product.submission_count > 1 && (
+                        <div className="text-xs text-gray-500 mt-1">Resubmission #{product.submission_count - 1}</div>
+                      )}
                     </TableCell>
                     <TableCell>{formatDate(product.created_at)}</TableCell>
                     <TableCell>
@@ -346,7 +446,7 @@ export default function AdminProductsPage() {
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => handleReject(product.id)}
+                              onClick={() => openReject(product)}
                               disabled={actionLoading === `reject-${product.id}`}
                               className="text-red-600 hover:text-red-700 hover:bg-red-50"
                             >
@@ -370,7 +470,7 @@ export default function AdminProductsPage() {
 
       {/* Product Detail Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Product Details</DialogTitle>
             <DialogDescription>
@@ -416,6 +516,14 @@ export default function AdminProductsPage() {
                   <span className="text-gray-500">Submitted:</span>
                   <p className="font-medium">{formatDate(selectedProduct.created_at)}</p>
                 </div>
+                <div>
+                  <span className="text-gray-500">Category:</span>
+                  <p className="font-medium">{selectedProduct.category?.name || "Uncategorized"}</p>
+                </div>
+                <div>
+                  <span className="text-gray-500">Tags:</span>
+                  <p className="font-medium">{selectedProduct.tags?.length ? selectedProduct.tags.join(", ") : "None"}</p>
+                </div>
                 <div>
                   <span className="text-gray-500">Last Updated:</span>
                   <p className="font-medium">{formatDate(selectedProduct.updated_at)}</p>
@@ -444,6 +552,61 @@ export default function AdminProductsPage() {
                 </div>
               )}
 
+              {selectedProduct.variants && selectedProduct.variants.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-500 mb-2">
+                    Variants ({(selectedProduct.options || []).map(option => option.name).join(', ')})
+                  </h4>
+                  <div className="border rounded-lg max-h-64 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Variant</TableHead>
+                          <TableHead>SKU</TableHead>
+                          <TableHead>Price</TableHead>
+                          <TableHead>Weight</TableHead>
+                          <TableHead>Stock</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {[...selectedProduct.variants]
+                          .sort((a, b) => a.position - b.position)
+                          .map((variant) => (
+                            <TableRow key={variant.id}>
+                              <TableCell className="font-medium">{getVariantTitle(variant)}</TableCell>
+                              <TableCell className="font-mono text-xs">{variant.sku || '—'}</TableCell>
+                              <TableCell>{formatCurrency(variant.price)}</TableCell>
+                              <TableCell>{variant.weight !== null ? `${variant.weight} ${variant.weight_unit}` : '—'}</TableCell>
+                              <TableCell>{variant.inventory_quantity}</TableCell>
+                            </TableRow>
+                          ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              {selectedProduct.status === 'rejected' && (
+                <RejectionFeedback
+                  reasons={selectedProduct.rejection_reasons || []}
+                  feedback={selectedProduct.rejection_feedback}
+                />
+              )}
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-500 mb-2">Moderation History</h4>
+                <ModerationHistoryList events={history} />
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-500 mb-2">Revisions</h4>
+                <ProductRevisionsPanel
+                  product={selectedProduct}
+                  adminName={getAdminName()}
+                  onReviewed={refreshSelectedProduct}
+                />
+              </div>
+
               {selectedProduct.status === 'pending' && (
                 <div className="flex space-x-3 pt-4 border-t">
                   <Button
@@ -460,7 +623,7 @@ export default function AdminProductsPage() {
                   <Button
                     variant="outline"
                     onClick={() => {
-                      handleReject(selectedProduct.id)
+                      openReject(selectedProduct)
                       setIsDialogOpen(false)
                     }}
                     disabled={actionLoading === `reject-${selectedProduct.id}`}
@@ -475,6 +638,61 @@ export default function AdminProductsPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Reject Dialog */}
+      <Dialog open={!!rejectingProduct} onOpenChange={(open) => !open && setRejectingProduct(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Product</DialogTitle>
+            <DialogDescription>
+              Tell {rejectingProduct?.supplier_name || 'the supplier'} what to fix in &quot;{rejectingProduct?.title}&quot;.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Reasons</Label>
+              {REJECTION_REASONS.map(reason => (
+                <label key={reason.code} className="flex items-start gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={rejectReasons.includes(reason.code)}
+                    onCheckedChange={() => toggleRejectReason(reason.code)}
+                  />
+                  <span>
+                    <span className="font-medium">{reason.label}</span>
+                    <span className="block text-gray-500">{reason.hint}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reject-feedback">
+                Feedback{feedbackRequired ? '' : ' (optional)'}
+              </Label>
+              <Textarea
+                id="reject-feedback"
+                rows={4}
+                value={rejectFeedback}
+                onChange={(e) => setRejectFeedback(e.target.value)}
+                placeholder="Explain what the supplier should change before resubmitting"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectingProduct(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={!canReject || actionLoading === `reject-${rejectingProduct?.id}`}
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Reject Product
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,236 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useToast } from "@/components/ui/use-toast"
+import { Eye, RefreshCw, RotateCcw, Webhook } from "lucide-react"
+import { WebhookEvent, WebhookEventStatus } from "@/lib/types/webhook"
+
+const ALL_STATUSES = "all"
+
+const getStatusBadge = (status: WebhookEventStatus) => {
+  switch (status) {
+    case 'processed':
+      return <Badge className="bg-green-100 text-green-800">Processed</Badge>
+    case 'failed':
+      return <Badge className="bg-red-100 text-red-800">Failed</Badge>
+    case 'ignored':
+      return <Badge className="bg-gray-100 text-gray-800">Ignored</Badge>
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800">Received</Badge>
+  }
+}
+
+const getHmacLabel = (hmacValid: boolean | null) => {
+  if (hmacValid === null) return <span className="text-gray-400">Not checked</span>
+  return hmacValid
+    ? <span className="text-green-600">Valid</span>
+    : <span className="text-red-600">Invalid</span>
+}
+
+export default function AdminWebhooksPage() {
+  const [events, setEvents] = useState<WebhookEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [status, setStatus] = useState<string>("failed")
+  const [shop, setShop] = useState("")
+  const [replaying, setReplaying] = useState<string | null>(null)
+  const [selected, setSelected] = useState<WebhookEvent | null>(null)
+  const { toast } = useToast()
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (status !== ALL_STATUSES) params.set("status", status)
+      if (shop.trim()) params.set("shop", shop.trim())
+
+      const response = await fetch(`/api/admin/webhook-events?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load webhook events')
+      }
+      setEvents(data.events)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load webhook events",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [status, shop, toast])
+
+  // The shop filter applies on Enter or Refresh rather than on every keystroke
+  useEffect(() => {
+    fetchEvents()
+  }, [status])
+
+  const handleReplay = async (event: WebhookEvent) => {
+    setReplaying(event.id)
+    try {
+      const response = await fetch(`/api/admin/webhook-events/${event.id}/replay`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to replay webhook')
+      }
+
+      const replayed: WebhookEvent = data.event
+      setEvents(prev => prev.map(entry => entry.id === replayed.id ? replayed : entry))
+      setSelected(prev => prev?.id === replayed.id ? replayed : prev)
+      toast({
+        title: data.success ? "Webhook replayed" : "Replay failed",
+        description: data.success
+          ? `${replayed.topic} from ${replayed.shop_domain} was processed`
+          : data.error || "Processing failed again",
+        variant: data.success ? "default" : "destructive",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to replay webhook",
+        variant: "destructive",
+      })
+    } finally {
+      setReplaying(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Webhooks</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Deliveries received from Shopify, with their processing outcome
+          </p>
+        </div>
+        <Button onClick={fetchEvents} variant="outline" size="sm" disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Webhook Events</CardTitle>
+          <CardDescription>The 100 most recent deliveries matching the filters</CardDescription>
+          <div className="flex gap-3 pt-2">
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="received">Received</SelectItem>
+                <SelectItem value="processed">Processed</SelectItem>
+                <SelectItem value="ignored">Ignored</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              className="max-w-xs"
+              placeholder="Filter by shop domain"
+              value={shop}
+              onChange={(e) => setShop(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && fetchEvents()}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-8">
+              <Webhook className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-500">No webhook deliveries match these filters</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Topic</TableHead>
+                  <TableHead>Shop</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Signature</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell className="text-sm whitespace-nowrap">{new Date(event.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="font-mono text-sm">{event.topic || "—"}</TableCell>
+                    <TableCell className="text-sm">{event.shop_domain || "—"}</TableCell>
+                    <TableCell>{getStatusBadge(event.status)}</TableCell>
+                    <TableCell className="text-sm">{getHmacLabel(event.hmac_valid)}</TableCell>
+                    <TableCell className="text-sm">{event.attempts}</TableCell>
+                    <TableCell className="text-sm text-red-600 max-w-xs truncate" title={event.error || undefined}>
+                      {event.error || ""}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => setSelected(event)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        {event.status === 'failed' && event.hmac_valid !== false && event.payload && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReplay(event)}
+                            disabled={replaying !== null}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            {replaying === event.id ? "Replaying..." : "Replay"}
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selected?.topic || "Webhook"}</DialogTitle>
+            <DialogDescription>
+              {selected && `${selected.shop_domain || "Unknown shop"} · webhook id ${selected.webhook_id || "not sent"}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-3 text-sm">
+              <div className="flex items-center gap-3">
+                {getStatusBadge(selected.status)}
+                <span>Signature: {getHmacLabel(selected.hmac_valid)}</span>
+                <span className="text-gray-500">
+                  {selected.processed_at ? `Last processed ${new Date(selected.processed_at).toLocaleString()}` : "Not processed yet"}
+                </span>
+              </div>
+              {selected.error && <p className="text-red-600">{selected.error}</p>}
+              <pre className="max-h-[50vh] overflow-auto whitespace-pre-wrap break-all rounded bg-gray-50 p-3 text-xs">
+                {selected.payload ? JSON.stringify(selected.payload, null, 2) : "The payload was not valid JSON"}
+              </pre>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { OrderSyncService } from '@/lib/services/order-sync-service'
+import { OrderSyncRunStatus } from '@/lib/types/order-sync-run'
+
+const STATUSES: OrderSyncRunStatus[] = ['running', 'completed', 'partial', 'failed']
+
+// GET: Recent order sync runs, optionally for one store (?storeUrl=) or status (?status=)
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const storeUrl = searchParams.get('storeUrl')
+    const status = searchParams.get('status')
+
+    if (status && !STATUSES.includes(status as OrderSyncRunStatus)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 })
+    }
+
+    const runs = await OrderSyncService.listRuns({
+      storeUrl: storeUrl || undefined,
+      status: (status as OrderSyncRunStatus) || undefined
+    })
+    if (!runs) {
+      return NextResponse.json({ error: 'Failed to fetch order sync runs' }, { status: 500 })
+    }
+
+    return NextResponse.json({ runs })
+  } catch (error) {
+    console.error('Error in GET /api/admin/order-sync-runs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { WebhookService } from '@/lib/services/webhook-service'
+
+// POST: Process a stored webhook delivery again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const result = await WebhookService.replayEvent(params.id)
+
+    if (!result.event) {
+      if (result.error === 'Webhook event not found') {
+        return NextResponse.json({ error: result.error }, { status: 404 })
+      }
+      if (result.error === 'Failed to fetch webhook event') {
+        return NextResponse.json({ error: result.error }, { status: 500 })
+      }
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    // The event comes back either way so the admin view shows the new status and error
+    return NextResponse.json({ success: result.success, error: result.error, event: result.event })
+  } catch (error) {
+    console.error('Error in POST /api/admin/webhook-events/[id]/replay:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
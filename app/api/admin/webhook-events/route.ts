@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { WebhookService } from '@/lib/services/webhook-service'
+import { WebhookEventStatus } from '@/lib/types/webhook'
+
+const STATUSES: WebhookEventStatus[] = ['received', 'processed', 'failed', 'ignored']
+
+// GET: Recent webhook deliveries, optionally filtered by status, shop or topic
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const shop = searchParams.get('shop')
+    const topic = searchParams.get('topic')
+
+    if (status && !STATUSES.includes(status as WebhookEventStatus)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 })
+    }
+
+    const events = await WebhookService.listEvents({
+      status: (status as WebhookEventStatus) || undefined,
+      shop: shop || undefined,
+      topic: topic || undefined
+    })
+    if (!events) {
+      return NextResponse.json({ error: 'Failed to fetch webhook events' }, { status: 500 })
+    }
+
+    return NextResponse.json({ events })
+  } catch (error) {
+    console.error('Error in GET /api/admin/webhook-events:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
 import { TokenManager } from "@/lib/token-manager"
+import { WebhookService } from "@/lib/services/webhook-service"
 
 // Keep in-memory store as fallback for backward compatibility
 const shopTokens: Record<string, string> = {};
@@ -65,6 +66,12 @@ export async function GET(request: Request) {
       
       // Also store in-memory for backward compatibility
       shopTokens[shop] = tokenData.access_token;
+
+      // Subscribe the store to order webhooks; the connection stands even if this fails, order sync polls as a fallback
+      const webhooks = await WebhookService.registerWebhooks(shop);
+      if (!webhooks.success) {
+        console.warn(`Webhook registration incomplete for ${shop}:`, webhooks.errors);
+      }
       
       // Redirect to dashboard on the public tunnel
       return NextResponse.redirect(`${appUrl}/dashboard?connected=true`);
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+import { StockSyncService } from '@/lib/services/stock-sync-service'
+
+// GET: Stock sync settings and recent results for one of the seller's stores
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const storeUrl = request.nextUrl.searchParams.get('storeUrl')
+    if (!storeUrl) {
+      return NextResponse.json({ error: 'storeUrl is required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const [settings, logs] = await Promise.all([
+      StockSyncService.getSettings(storeUrl),
+      StockSyncService.getLogs(storeUrl)
+    ])
+
+    return NextResponse.json({ settings, logs })
+  } catch (error) {
+    console.error('Error in GET /api/inventory-sync:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT: Change whether listings are set to draft when stock runs out
+export async function PUT(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const { storeUrl, draftWhenOutOfStock } = await request.json()
+    if (!storeUrl || typeof draftWhenOutOfStock !== 'boolean') {
+      return NextResponse.json({ error: 'storeUrl and draftWhenOutOfStock are required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const result = await StockSyncService.updateSettings(storeUrl, { draftWhenOutOfStock })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ settings: result.settings })
+  } catch (error) {
+    console.error('Error in PUT /api/inventory-sync:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { InventoryService } from '@/lib/services/inventory-service'
+
+// GET: Ledger entries for one of the supplier's inventory levels
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'supplier') {
+      return NextResponse.json({ error: 'Supplier authentication required' }, { status: 401 })
+    }
+
+    const level = await InventoryService.getLevel(params.id)
+    if (!level || level.supplier_id !== sessionResult.user.username) {
+      return NextResponse.json({ error: 'Inventory item not found' }, { status: 404 })
+    }
+
+    const movements = await InventoryService.getMovements(params.id)
+    return NextResponse.json({ level, movements })
+  } catch (error) {
+    console.error('Error in GET /api/inventory/[id]/movements:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
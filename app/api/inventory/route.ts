@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { InventoryService } from '@/lib/services/inventory-service'
+
+// GET: Stock levels for the logged-in supplier
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'supplier') {
+      return NextResponse.json({ error: 'Supplier authentication required' }, { status: 401 })
+    }
+
+    const levels = await InventoryService.getSupplierInventory(sessionResult.user.username)
+
+    return NextResponse.json({
+      inventory: levels.map(level => ({
+        ...level,
+        available: level.on_hand - level.reserved
+      }))
+    })
+  } catch (error) {
+    console.error('Error in GET /api/inventory:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST: Adjust on-hand stock for one inventory level
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'supplier') {
+      return NextResponse.json({ error: 'Supplier authentication required' }, { status: 401 })
+    }
+
+    const { levelId, delta, reason } = await request.json()
+    if (!levelId || typeof delta !== 'number') {
+      return NextResponse.json({ error: 'levelId and a numeric delta are required' }, { status: 400 })
+    }
+
+    const result = await InventoryService.adjustStock(levelId, sessionResult.user.username, delta, reason)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, movement: result.movement })
+  } catch (error) {
+    console.error('Error in POST /api/inventory:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { MappingReconciliationService } from '@/lib/services/mapping-reconciliation-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+import { MappingFix } from '@/lib/types/mapping-reconciliation'
+
+// POST: Apply the suggested fix for one reported mapping ({ storeUrl, mappingId, fix })
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const { storeUrl, mappingId, fix } = await request.json() as { storeUrl?: string; mappingId?: string; fix?: MappingFix }
+    if (!storeUrl || !mappingId || (fix !== 'archive' && fix !== 'rebuild_variants')) {
+      return NextResponse.json({ error: 'storeUrl, mappingId and fix (archive or rebuild_variants) are required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const result = await MappingReconciliationService.applyFix(storeUrl, mappingId, fix)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === 'Mapping not found' ? 404 : 502 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in POST /api/mapping-reconciliation/fix:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { MappingReconciliationService } from '@/lib/services/mapping-reconciliation-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+
+// GET: Latest mapping health report for one of the seller's stores
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const storeUrl = request.nextUrl.searchParams.get('storeUrl')
+    if (!storeUrl) {
+      return NextResponse.json({ error: 'storeUrl is required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const run = await MappingReconciliationService.getLatestRun(storeUrl)
+
+    return NextResponse.json({ run })
+  } catch (error) {
+    console.error('Error in GET /api/mapping-reconciliation:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST: Check the store's mappings now ({ storeUrl })
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const { storeUrl } = await request.json()
+    if (!storeUrl) {
+      return NextResponse.json({ error: 'storeUrl is required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const run = await MappingReconciliationService.reconcileStore(storeUrl)
+    if (!run) {
+      return NextResponse.json({ error: 'Failed to check product mappings' }, { status: 500 })
+    }
+
+    return NextResponse.json({ run })
+  } catch (error) {
+    console.error('Error in POST /api/mapping-reconciliation:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron-auth'
+import { MappingReconciliationService } from '@/lib/services/mapping-reconciliation-service'
+
+// POST: Check the mappings of every store with linked products
+export async function POST(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await MappingReconciliationService.reconcileAll()
+
+    return NextResponse.json({ success: true, stores: result.stores, issues: result.issues })
+  } catch (error) {
+    console.error('Error in POST /api/mapping-reconciliation/run:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron-auth'
+import { OrderSyncService } from '@/lib/services/order-sync-service'
+
+// POST: Sync every store that has not been synced within the interval; called by cron or scripts/order-sync-worker.mjs
+export async function POST(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runs, skipped } = await OrderSyncService.syncStores('schedule', true)
+
+    return NextResponse.json({
+      success: true,
+      synced: runs.length,
+      failed: runs.filter(run => run.status === 'failed').length,
+      skipped
+    })
+  } catch (error) {
+    console.error('Error in POST /api/order-sync/run:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// GET: Same as POST, for cron services that can only send GET requests
+export async function GET(request: Request) {
+  return POST(request)
+}
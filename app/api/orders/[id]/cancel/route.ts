@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getShopToken } from '../../../auth/shopify/route';
+import { InventoryService } from '@/lib/services/inventory-service';
 
 // POST to cancel an order
 export async function POST(
@@ -98,6 +99,13 @@ export async function POST(
       financialStatus: data.order?.financial_status
     };
 
+    // Return reserved supplier stock for this order
+    const supplierOrderIds = await InventoryService.getSupplierOrderIds(numericOrderId!, shop);
+    for (const supplierOrderId of supplierOrderIds) {
+      const released = await InventoryService.releaseOrder(supplierOrderId, `Order cancelled: ${reason}`);
+      console.log(`Released ${released} reserved units for supplier order ${supplierOrderId}`);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Order cancelled successfully',
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { PricingRuleService } from '@/lib/services/pricing-rule-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+import { PricingRuleInput } from '@/lib/types/pricing-rule'
+
+async function getSellerId(request: NextRequest): Promise<string | null> {
+  const sessionToken = request.cookies.get('session_token')?.value
+  if (!sessionToken) return null
+
+  const sessionResult = await AuthService.verifySession(sessionToken)
+  if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+    return null
+  }
+
+  return sessionResult.user.username
+}
+
+// PUT: Change one of the seller's pricing rules
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sellerId = await getSellerId(request)
+    if (!sellerId) {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const updates = await request.json() as Partial<PricingRuleInput>
+    if (updates.store_url && !(await SellerStoreService.canAccessStore(sellerId, updates.store_url))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const result = await PricingRuleService.updateRule(params.id, sellerId, updates)
+    if (!result.success) {
+      const status = result.error === 'Pricing rule not found' ? 404 : 400
+      return NextResponse.json({ error: result.error }, { status })
+    }
+
+    return NextResponse.json({ rule: result.rule })
+  } catch (error) {
+    console.error('Error in PUT /api/pricing-rules/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE: Remove one of the seller's pricing rules
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sellerId = await getSellerId(request)
+    if (!sellerId) {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const deleted = await PricingRuleService.deleteRule(params.id, sellerId)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Pricing rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/pricing-rules/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
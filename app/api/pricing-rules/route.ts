@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { PricingRuleService } from '@/lib/services/pricing-rule-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+import { PricingRuleInput } from '@/lib/types/pricing-rule'
+
+// GET: The seller's pricing rules; with ?storeUrl= only the rules that apply to that store
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const storeUrl = request.nextUrl.searchParams.get('storeUrl') || undefined
+    const rules = await PricingRuleService.getRules(sessionResult.user.username, storeUrl)
+
+    return NextResponse.json({ rules })
+  } catch (error) {
+    console.error('Error in GET /api/pricing-rules:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST: Add a pricing rule for all of the seller's stores or for one of them
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const input = await request.json() as PricingRuleInput
+    if (input.store_url && !(await SellerStoreService.canAccessStore(sessionResult.user.username, input.store_url))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const result = await PricingRuleService.createRule(sessionResult.user.username, input)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ rule: result.rule })
+  } catch (error) {
+    console.error('Error in POST /api/pricing-rules:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { ProductLinkService } from '@/lib/services/product-link-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+import { LinkRequest } from '@/lib/types/product-link'
+
+// GET: Unlinked products in one of the seller's stores with proposed supplier matches
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const storeUrl = request.nextUrl.searchParams.get('storeUrl')
+    if (!storeUrl) {
+      return NextResponse.json({ error: 'storeUrl is required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const result = await ProductLinkService.getProposals(storeUrl)
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 502 })
+    }
+
+    return NextResponse.json({ proposals: result.proposals, products: result.products })
+  } catch (error) {
+    console.error('Error in GET /api/product-links:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST: Link confirmed matches ({ storeUrl, links: [{ shopify_product_id, supplier_product_id }] })
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const { storeUrl, links } = await request.json() as { storeUrl?: string; links?: LinkRequest[] }
+    if (!storeUrl || !Array.isArray(links) || links.length === 0 ||
+      !links.every(link => link.shopify_product_id && link.supplier_product_id)) {
+      return NextResponse.json({ error: 'storeUrl and at least one link are required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const results = await ProductLinkService.linkProducts(storeUrl, links)
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('Error in POST /api/product-links:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
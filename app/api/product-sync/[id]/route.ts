@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { ProductContentSyncService } from '@/lib/services/product-content-sync-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+import { isContentSyncField } from '@/lib/product-sync'
+
+// PATCH: Choose which fields of a listing keep the seller's own version instead of the supplier's
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const { storeUrl, overriddenFields } = await request.json()
+    if (!storeUrl || !Array.isArray(overriddenFields) || !overriddenFields.every(isContentSyncField)) {
+      return NextResponse.json({ error: 'storeUrl and a list of overriddenFields are required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const result = await ProductContentSyncService.setOverriddenFields(params.id, storeUrl, overriddenFields)
+    if (!result.success) {
+      const status = result.error === 'Listing not found' ? 404 : 500
+      return NextResponse.json({ error: result.error }, { status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in PATCH /api/product-sync/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
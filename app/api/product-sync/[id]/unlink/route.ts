@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { ListingUnlinkService } from '@/lib/services/listing-unlink-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+import { isUnlinkAction } from '@/lib/product-sync'
+
+// GET: The listing and the open orders that still contain it (?storeUrl=)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const storeUrl = request.nextUrl.searchParams.get('storeUrl')
+    if (!storeUrl) {
+      return NextResponse.json({ error: 'storeUrl is required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const impact = await ListingUnlinkService.getImpact(params.id, storeUrl)
+    if (!impact) {
+      return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(impact)
+  } catch (error) {
+    console.error('Error in GET /api/product-sync/[id]/unlink:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST: Unpublish, delete or just unlink a pushed product ({ storeUrl, action })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const { storeUrl, action } = await request.json()
+    if (!storeUrl || !isUnlinkAction(action)) {
+      return NextResponse.json({ error: 'storeUrl and a valid action are required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const result = await ListingUnlinkService.unlink(params.id, storeUrl, action)
+    if (!result.success) {
+      const status = result.error === 'Listing not found' ? 404 : result.error === 'Failed to unlink listing' ? 500 : 502
+      return NextResponse.json({ error: result.error }, { status })
+    }
+
+    return NextResponse.json({ success: true, openOrders: result.openOrders })
+  } catch (error) {
+    console.error('Error in POST /api/product-sync/[id]/unlink:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
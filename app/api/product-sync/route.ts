@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { isCronRequest } from '@/lib/cron-auth'
+import { ProductContentSyncService } from '@/lib/services/product-content-sync-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+
+// GET: Listings of one of the seller's stores with their overrides, and recent content sync results
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const storeUrl = request.nextUrl.searchParams.get('storeUrl')
+    if (!storeUrl) {
+      return NextResponse.json({ error: 'storeUrl is required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const [listings, logs] = await Promise.all([
+      ProductContentSyncService.getListings(storeUrl),
+      ProductContentSyncService.getLogs(storeUrl)
+    ])
+
+    return NextResponse.json({ listings, logs })
+  } catch (error) {
+    console.error('Error in GET /api/product-sync:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST: Run the content sync job. The scheduler, sending CRON_SECRET, runs everything queued or one product ({ productId });
+// sellers run it for one of their stores ({ storeUrl, productId })
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const productId = typeof body.productId === 'string' ? body.productId : undefined
+
+    if (request.headers.get('authorization')) {
+      if (!isCronRequest(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const result = await ProductContentSyncService.syncPending(productId)
+      return NextResponse.json({ success: true, processed: result.processed })
+    }
+
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const storeUrl = typeof body.storeUrl === 'string' ? body.storeUrl : undefined
+    if (!storeUrl) {
+      return NextResponse.json({ error: 'storeUrl is required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const result = await ProductContentSyncService.syncPending(productId, storeUrl)
+
+    return NextResponse.json({ success: true, processed: result.processed })
+  } catch (error) {
+    console.error('Error in POST /api/product-sync:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
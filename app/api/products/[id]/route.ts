@@ -1,6 +1,20 @@
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
+import { AuthService } from "@/lib/auth-service"
 import { ProductService } from "@/lib/product-service"
-import { UpdateProductData } from "@/lib/types/product"
+import { UpdateSupplierProductData } from "@/lib/types/product"
+
+// Product mutations act as the supplier of the verified session; ownership is checked in ProductService
+async function getSupplierId(request: NextRequest): Promise<string | null> {
+  const sessionToken = request.cookies.get('session_token')?.value
+  if (!sessionToken) return null
+
+  const sessionResult = await AuthService.verifySession(sessionToken)
+  if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'supplier') {
+    return null
+  }
+
+  return sessionResult.user.username
+}
 
 export async function GET(
   request: Request,
@@ -27,23 +41,24 @@ export async function GET(
 }
 
 export async function PATCH(
-  request: Request,
+  request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const body = await request.json()
-    const updateData: UpdateProductData = body
+    const supplierId = await getSupplierId(request)
+    if (!supplierId) {
+      return NextResponse.json({ error: "Supplier authentication required" }, { status: 401 })
+    }
 
-    const product = await ProductService.updateProduct(params.id, updateData)
-    
-    if (!product) {
-      return NextResponse.json(
-        { error: "Product not found or update failed" },
-        { status: 404 }
-      )
+    const updateData: UpdateSupplierProductData = await request.json()
+
+    const result = await ProductService.updateSupplierProduct(params.id, supplierId, updateData)
+    if (!result.success) {
+      const status = result.error === 'Product not found' ? 404 : 400
+      return NextResponse.json({ error: result.error }, { status })
     }
 
-    return NextResponse.json({ product })
+    return NextResponse.json({ product: result.product, pendingReview: result.pendingReview })
   } catch (error) {
     console.error('Error updating product:', error)
     return NextResponse.json(
@@ -54,11 +69,16 @@ export async function PATCH(
 }
 
 export async function DELETE(
-  request: Request,
+  request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const success = await ProductService.deleteProduct(params.id)
+    const supplierId = await getSupplierId(request)
+    if (!supplierId) {
+      return NextResponse.json({ error: "Supplier authentication required" }, { status: 401 })
+    }
+
+    const success = await ProductService.deleteSupplierProduct(params.id, supplierId)
     
     if (!success) {
       return NextResponse.json(
@@ -75,4 +95,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
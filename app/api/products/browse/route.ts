@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { CatalogBrowseService } from '@/lib/services/catalog-browse-service'
+import { CatalogSort } from '@/lib/types/catalog-browse'
+
+const SORTS: CatalogSort[] = ['newest', 'price_asc', 'price_desc', 'title']
+
+function parseList(value: string | null): string[] | undefined {
+  const list = (value || '').split(',').map(item => item.trim()).filter(Boolean)
+  return list.length > 0 ? list : undefined
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+// GET: Approved catalog for sellers with filters and facet counts
+// ?q=&category=&supplier=a,b&tag=x,y&minPrice=&maxPrice=&sort=&page=&pageSize=
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const sort = searchParams.get('sort') as CatalogSort | null
+
+    const result = await CatalogBrowseService.browse({
+      q: searchParams.get('q') || undefined,
+      categoryId: searchParams.get('category') || undefined,
+      supplierIds: parseList(searchParams.get('supplier')),
+      tags: parseList(searchParams.get('tag')),
+      minPrice: parseNumber(searchParams.get('minPrice')),
+      maxPrice: parseNumber(searchParams.get('maxPrice')),
+      sort: sort && SORTS.includes(sort) ? sort : 'newest',
+      page: parseNumber(searchParams.get('page')),
+      pageSize: parseNumber(searchParams.get('pageSize')),
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error in GET /api/products/browse:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
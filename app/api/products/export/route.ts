@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { ProductService } from '@/lib/product-service'
+import { InventoryService } from '@/lib/services/inventory-service'
+import { buildCatalogCsv, CatalogExportFilters, ExportFormat, exportFileName } from '@/lib/catalog-export'
+import { Product } from '@/lib/types/product'
+
+const STATUSES: Product['status'][] = ['pending', 'approved', 'rejected']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// GET: Download the catalog as Shopify product CSV or generic CSV
+// Suppliers export their own products; sellers export the approved catalog
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const format = (searchParams.get('format') || 'shopify') as ExportFormat
+    if (format !== 'shopify' && format !== 'generic') {
+      return NextResponse.json({ error: 'format must be shopify or generic' }, { status: 400 })
+    }
+
+    const status = searchParams.get('status') as Product['status'] | null
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status filter' }, { status: 400 })
+    }
+
+    const from = searchParams.get('from') || undefined
+    const to = searchParams.get('to') || undefined
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json({ error: 'Dates must use YYYY-MM-DD' }, { status: 400 })
+    }
+
+    const filters: CatalogExportFilters = { from, to }
+    if (sessionResult.user.userType === 'supplier') {
+      filters.supplierId = sessionResult.user.username
+      filters.status = status || undefined
+    } else {
+      filters.supplierId = searchParams.get('supplier') || undefined
+      filters.status = 'approved'
+    }
+
+    const products = await ProductService.getProductsForExport(filters)
+    const stock = await InventoryService.getAvailableStock(products.map(product => product.id))
+    const csv = buildCatalogCsv(format, products, stock)
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${exportFileName(format)}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error in GET /api/products/export:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { ProductImageService } from '@/lib/services/product-image-service'
+
+// PATCH: Update the alt text of one of the supplier's images
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'supplier') {
+      return NextResponse.json({ error: 'Supplier authentication required' }, { status: 401 })
+    }
+
+    const { alt_text } = await request.json() as { alt_text?: string }
+    if (typeof alt_text !== 'string') {
+      return NextResponse.json({ error: 'alt_text is required' }, { status: 400 })
+    }
+
+    const result = await ProductImageService.updateAltText(params.id, sessionResult.user.username, alt_text)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 404 })
+    }
+
+    return NextResponse.json({ image: result.image })
+  } catch (error) {
+    console.error('Error in PATCH /api/products/images/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
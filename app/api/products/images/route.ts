@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { ImageUploadService } from '@/lib/services/image-upload-service'
+
+// POST: Upload one product image (multipart field "file", optional "alt")
+// The image is validated, stripped of metadata and stored in every standard size
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'supplier') {
+      return NextResponse.json({ error: 'Supplier authentication required' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 })
+    }
+
+    const alt = formData.get('alt')
+    const result = await ImageUploadService.uploadImage({
+      buffer: Buffer.from(await file.arrayBuffer()),
+      fileName: file.name,
+      contentType: file.type,
+      supplierId: sessionResult.user.username,
+      altText: typeof alt === 'string' ? alt : null
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ image: result.image, duplicate: result.duplicate || null })
+  } catch (error) {
+    console.error('Error in POST /api/products/images:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,8 @@
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
+import { AuthService } from "@/lib/auth-service"
 import { ProductService } from "@/lib/product-service"
 import { CreateProductData } from "@/lib/types/product"
+import { validatePricing } from "@/lib/product-pricing"
 
 export async function GET() {
   try {
@@ -15,8 +17,19 @@ export async function GET() {
   }
 }
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'supplier') {
+      return NextResponse.json({ error: "Supplier authentication required" }, { status: 401 })
+    }
+    const user = sessionResult.user
+
     const body = await request.json()
     const productData: CreateProductData = body
 
@@ -28,7 +41,12 @@ export async function POST(request: Request) {
       )
     }
 
-    const product = await ProductService.createProduct(productData)
+    const pricingError = validatePricing(productData)
+    if (pricingError) {
+      return NextResponse.json({ error: pricingError }, { status: 400 })
+    }
+
+    const product = await ProductService.createSupplierProduct(productData, user.username, user.name || user.username)
     
     if (!product) {
       return NextResponse.json(
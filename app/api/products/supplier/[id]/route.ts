@@ -1,72 +1,95 @@
-import { NextResponse } from "next/server"
-import { supabase } from "@/lib/supabase"
+import { NextRequest, NextResponse } from "next/server"
+import { AuthService } from "@/lib/auth-service"
+import { ProductService } from "@/lib/product-service"
+import { ProductRevisionService } from "@/lib/services/product-revision-service"
+import { UpdateSupplierProductData } from "@/lib/types/product"
 
-export async function DELETE(
-  request: Request,
+async function getSupplierId(request: NextRequest): Promise<string | null> {
+  const sessionToken = request.cookies.get('session_token')?.value
+  if (!sessionToken) return null
+
+  const sessionResult = await AuthService.verifySession(sessionToken)
+  if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'supplier') {
+    return null
+  }
+
+  return sessionResult.user.username
+}
+
+// GET: One of the supplier's products with its moderation history and any change awaiting review
+export async function GET(
+  request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    console.log('Supplier product deletion API called for product:', params.id)
-    
-    // Get the supplier name from query parameters for backwards compatibility
-    const { searchParams } = new URL(request.url)
-    const supplierName = searchParams.get('supplierName')
-    
-    let supplierId: string
-    
-    // Try Supabase authentication first
-    const { data: { user }, error: userError } = await supabase.auth.getUser()
-    
-    console.log('User check for product deletion:', { user: user?.email, error: userError })
-    
-    if (userError || !user) {
-      console.log('No Supabase user found for product deletion, checking supplier name parameter')
-      
-      if (supplierName) {
-        // Use the supplier name from the request parameter (localStorage fallback)
-        supplierId = supplierName
-        console.log('Using supplier name from parameter for product deletion:', supplierId)
-      } else {
-        return NextResponse.json({ error: "Authentication required - no user or supplier name provided" }, { status: 401 })
-      }
-    } else {
-      // Get supplier data from suppliers table using user email
-      const { data: supplierData, error: supplierError } = await supabase
-        .from('suppliers')
-        .select('username')
-        .eq('email', user.email)
-        .single()
+    const supplierId = await getSupplierId(request)
+    if (!supplierId) {
+      return NextResponse.json({ error: "Supplier authentication required" }, { status: 401 })
+    }
 
-      console.log('Supplier data query for product deletion:', { supplierData, error: supplierError, email: user.email })
+    const product = await ProductService.getProductById(params.id)
+    if (!product || product.supplier_id !== supplierId) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 })
+    }
 
-      if (supplierError || !supplierData) {
-        console.log('Supplier not found in database for product deletion, checking supplier name parameter')
-        
-        if (supplierName) {
-          // Fallback to supplier name from parameter
-          supplierId = supplierName
-          console.log('Using supplier name from parameter as fallback for product deletion:', supplierId)
-        } else {
-          return NextResponse.json({ error: `Supplier not found for email: ${user.email}` }, { status: 404 })
-        }
-      } else {
-        // Use the actual username from suppliers table
-        supplierId = supplierData.username
-        console.log('Found supplier ID from database for product deletion:', supplierId)
-      }
+    const [history, pendingRevision] = await Promise.all([
+      ProductService.getModerationHistory(params.id),
+      product.pending_revision_id ? ProductRevisionService.getRevision(product.pending_revision_id) : null
+    ])
+    return NextResponse.json({ product, history, pendingRevision })
+  } catch (error) {
+    console.error('Error in supplier product GET API:', error)
+    return NextResponse.json({ error: "Failed to fetch product" }, { status: 500 })
+  }
+}
+
+// PUT: Edit a product; { resubmit: true } sends a rejected product back for review
+// Material changes to an approved product are held for admin approval ({ pendingReview: true })
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supplierId = await getSupplierId(request)
+    if (!supplierId) {
+      return NextResponse.json({ error: "Supplier authentication required" }, { status: 401 })
     }
 
-    console.log('Deleting product with supplier_id:', supplierId, 'product_id:', params.id)
-    
-    const { error } = await supabase
-      .from('products')
-      .delete()
-      .eq('id', params.id)
-      .eq('supplier_id', supplierId) // Ensure supplier owns the product
+    const { resubmit = false, note, ...updates } = await request.json() as UpdateSupplierProductData & {
+      resubmit?: boolean
+      note?: string
+    }
+
+    const result = await ProductService.updateSupplierProduct(params.id, supplierId, updates, { resubmit, note })
+    if (!result.success) {
+      const status = result.error === 'Product not found' ? 404 : 400
+      return NextResponse.json({ error: result.error }, { status })
+    }
+
+    const [history, pendingRevision] = await Promise.all([
+      ProductService.getModerationHistory(params.id),
+      result.product?.pending_revision_id ? ProductRevisionService.getRevision(result.product.pending_revision_id) : null
+    ])
+    return NextResponse.json({ product: result.product, history, pendingRevision, pendingReview: result.pendingReview })
+  } catch (error) {
+    console.error('Error in supplier product update API:', error)
+    return NextResponse.json({ error: "Failed to update product" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supplierId = await getSupplierId(request)
+    if (!supplierId) {
+      return NextResponse.json({ error: "Supplier authentication required" }, { status: 401 })
+    }
 
-    if (error) {
-      console.error('Error deleting product:', error)
-      return NextResponse.json({ error: "Failed to delete product" }, { status: 500 })
+    const deleted = await ProductService.deleteSupplierProduct(params.id, supplierId)
+    if (!deleted) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 })
     }
 
     console.log('✅ Product deleted successfully:', params.id)
@@ -78,4 +101,4 @@ export async function DELETE(
       error: "Failed to delete product" 
     }, { status: 500 })
   }
-} 
\ No newline at end of file
+}
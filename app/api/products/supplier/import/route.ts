@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { ProductService } from '@/lib/product-service'
+import { buildImportPreview, ColumnMapping, parseDelimited } from '@/lib/catalog-import'
+
+// POST: Validate a catalog file and, unless dryRun is set, create every valid product as pending
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'supplier') {
+      return NextResponse.json({ error: 'Supplier authentication required' }, { status: 401 })
+    }
+
+    const { csv, mapping, dryRun = true } = await request.json() as {
+      csv?: string
+      mapping?: ColumnMapping
+      dryRun?: boolean
+    }
+
+    if (!csv || !mapping) {
+      return NextResponse.json({ error: 'csv and mapping are required' }, { status: 400 })
+    }
+
+    const preview = buildImportPreview(parseDelimited(csv), mapping)
+
+    if (dryRun || preview.errors.length > 0) {
+      return NextResponse.json({ preview })
+    }
+
+    const { username, name } = sessionResult.user
+    const created: { key: string; productId: string }[] = []
+    const failed: { key: string; rows: number[]; error: string }[] = []
+
+    for (const item of preview.products) {
+      if (item.errors.length > 0) continue
+
+      const product = await ProductService.createSupplierProduct(item.product, username, name || username)
+      if (product) {
+        created.push({ key: item.key, productId: product.id })
+      } else {
+        failed.push({ key: item.key, rows: item.rows, error: 'Failed to create product' })
+      }
+    }
+
+    console.log(`✅ Catalog import for ${username}: ${created.length} created, ${failed.length} failed, ${preview.invalidCount} skipped`)
+
+    return NextResponse.json({
+      preview,
+      created,
+      failed,
+      skipped: preview.invalidCount
+    })
+  } catch (error) {
+    console.error('Error in POST /api/products/supplier/import:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
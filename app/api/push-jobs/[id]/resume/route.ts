@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { PushJobService } from '@/lib/services/push-job-service'
+
+// POST: Retry the products of a bulk push that failed or was left stalled
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const result = await PushJobService.resumeJob(params.id, sessionResult.user.username)
+    if (!result.success) {
+      const status = result.error === 'Push job not found' ? 404 : result.error === 'Push job is still running' ? 409 : 500
+      return NextResponse.json({ error: result.error }, { status })
+    }
+
+    PushJobService.processJob(params.id).catch(error => {
+      console.error('Error processing push job:', error)
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in POST /api/push-jobs/[id]/resume:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { PushJobService } from '@/lib/services/push-job-service'
+
+// GET: One of the seller's bulk pushes with the status of each product
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const job = await PushJobService.getJob(params.id, sessionResult.user.username)
+    if (!job) {
+      return NextResponse.json({ error: 'Push job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error('Error in GET /api/push-jobs/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
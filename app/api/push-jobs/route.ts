@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { PushJobService } from '@/lib/services/push-job-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+
+// GET: The seller's recent bulk pushes to a store
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const storeUrl = request.nextUrl.searchParams.get('storeUrl')
+    if (!storeUrl) {
+      return NextResponse.json({ error: 'storeUrl is required' }, { status: 400 })
+    }
+
+    const jobs = await PushJobService.getJobs(sessionResult.user.username, storeUrl)
+
+    return NextResponse.json({ jobs })
+  } catch (error) {
+    console.error('Error in GET /api/push-jobs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST: Queue a bulk push ({ storeUrl, productIds, updateExisting }) and start it in the background
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const { storeUrl, productIds, updateExisting } = await request.json()
+    if (!storeUrl || !Array.isArray(productIds)) {
+      return NextResponse.json({ error: 'storeUrl and productIds are required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const result = await PushJobService.createJob(sessionResult.user.username, storeUrl, productIds, updateExisting === true)
+    if (!result.success || !result.job) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    // Not awaited: the seller follows progress on the push jobs page, and /api/push-jobs/run picks up anything cut short
+    PushJobService.processJob(result.job.id).catch(error => {
+      console.error('Error processing push job:', error)
+    })
+
+    return NextResponse.json({ job: result.job })
+  } catch (error) {
+    console.error('Error in POST /api/push-jobs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
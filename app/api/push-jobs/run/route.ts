@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { isCronRequest } from '@/lib/cron-auth'
+import { PushJobService } from '@/lib/services/push-job-service'
+
+// POST: Run queued bulk pushes and pick up any that were cut off part way
+export async function POST(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await PushJobService.processQueued()
+
+    return NextResponse.json({ success: true, processed: result.processed })
+  } catch (error) {
+    console.error('Error in POST /api/push-jobs/run:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
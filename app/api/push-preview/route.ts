@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { PushPreviewService } from '@/lib/services/push-preview-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+
+// POST: Render the Shopify product a push would send ({ storeUrl, productId, sellingPrice, compareAtPrice? })
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const { storeUrl, productId, sellingPrice, compareAtPrice } = await request.json()
+    const price = Number(sellingPrice)
+    if (!storeUrl || !productId || !(price > 0)) {
+      return NextResponse.json({ error: 'storeUrl, productId and a selling price are required' }, { status: 400 })
+    }
+
+    if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const compareAt = Number(compareAtPrice)
+    const result = await PushPreviewService.preview(storeUrl, productId, price, compareAt > 0 ? compareAt : null)
+    if (!result.preview) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ preview: result.preview })
+  } catch (error) {
+    console.error('Error in POST /api/push-preview:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
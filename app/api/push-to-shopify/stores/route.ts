@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { MultiStorePushService } from '@/lib/services/multi-store-push-service'
+import { SellerStoreService } from '@/lib/services/seller-store-service'
+import { StorePushTarget } from '@/lib/types/multi-store-push'
+
+const toPrice = (value: unknown): number | null => {
+  const price = Number(value)
+  return value === null || value === undefined || value === '' || !(price > 0) ? null : price
+}
+
+// POST: Push one product to several stores ({ productId, stores: [{ store_url, selling_price?, compare_at_price? }], updateExisting? })
+// A store without a selling price is priced with the seller's rules for it
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session_token')?.value
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const sessionResult = await AuthService.verifySession(sessionToken)
+    if (!sessionResult.success || !sessionResult.user || sessionResult.user.userType !== 'seller') {
+      return NextResponse.json({ error: 'Seller authentication required' }, { status: 401 })
+    }
+
+    const { productId, stores, updateExisting } = await request.json()
+    if (!productId || !Array.isArray(stores) || stores.length === 0 || !stores.every(store => store?.store_url)) {
+      return NextResponse.json({ error: 'productId and at least one store are required' }, { status: 400 })
+    }
+
+    const targets = new Map<string, StorePushTarget>()
+    for (const store of stores) {
+      targets.set(store.store_url, {
+        store_url: store.store_url,
+        selling_price: toPrice(store.selling_price),
+        compare_at_price: toPrice(store.compare_at_price)
+      })
+    }
+
+    for (const storeUrl of Array.from(targets.keys())) {
+      if (!(await SellerStoreService.canAccessStore(sessionResult.user.username, storeUrl))) {
+        return NextResponse.json({ error: `Store not found: ${storeUrl}` }, { status: 404 })
+      }
+    }
+
+    const result = await MultiStorePushService.pushToStores(
+      sessionResult.user.username,
+      productId,
+      Array.from(targets.values()),
+      updateExisting === true
+    )
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ results: result.results })
+  } catch (error) {
+    console.error('Error in POST /api/push-to-shopify/stores:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
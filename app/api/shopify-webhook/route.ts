@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
 import crypto from "crypto"
+import { WebhookService } from "@/lib/services/webhook-service"
 
 // Webhook secret from Shopify (you'll need to set this in your environment variables)
 const WEBHOOK_SECRET = process.env.SHOPIFY_WEBHOOK_SECRET || "your-webhook-secret"
@@ -10,60 +11,63 @@ export async function POST(request: Request) {
     const hmacHeader = request.headers.get("x-shopify-hmac-sha256")
     const topicHeader = request.headers.get("x-shopify-topic")
     const shopHeader = request.headers.get("x-shopify-shop-domain")
+    const webhookIdHeader = request.headers.get("x-shopify-webhook-id")
 
     console.log(`Webhook received: ${topicHeader} from ${shopHeader}`)
 
-    // Verify webhook signature (optional but recommended for security)
+    // Verify webhook signature when a secret is configured; null records that it was not checked
+    let hmacValid: boolean | null = null
     if (WEBHOOK_SECRET !== "your-webhook-secret") {
       const expectedHmac = crypto
         .createHmac("sha256", WEBHOOK_SECRET)
         .update(body, "utf8")
         .digest("base64")
 
-      if (hmacHeader !== expectedHmac) {
-        console.error("Webhook signature verification failed")
-        return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
-      }
+      hmacValid = hmacHeader === expectedHmac
     }
 
     // Parse the webhook payload
-    let payload
+    let payload = null
     try {
       payload = JSON.parse(body)
     } catch (error) {
       console.error("Failed to parse webhook payload:", error)
-      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
     }
 
-    // Handle different webhook topics
-    switch (topicHeader) {
-      case "orders/create":
-        console.log("New order created:", payload.id)
-        // Handle new order
-        break
-
-      case "orders/updated":
-        console.log("Order updated:", payload.id)
-        // Handle order update
-        break
+    // Every delivery is kept, including rejected ones, so it can be inspected and replayed from the admin area
+    const recorded = await WebhookService.recordEvent({
+      webhookId: webhookIdHeader,
+      topic: topicHeader,
+      shop: shopHeader,
+      payload,
+      hmacValid
+    })
+    if (!recorded) {
+      // A non-2xx response makes Shopify deliver the webhook again
+      return NextResponse.json({ error: "Failed to record webhook" }, { status: 500 })
+    }
 
-      case "products/create":
-        console.log("New product created:", payload.id)
-        // Handle new product
-        break
+    const { event, duplicate } = recorded
+    if (duplicate && (event.status === "processed" || event.status === "ignored")) {
+      console.log(`Webhook ${webhookIdHeader} already handled, skipping`)
+      return NextResponse.json({ success: true, duplicate: true })
+    }
 
-      case "products/update":
-        console.log("Product updated:", payload.id)
-        // Handle product update
-        break
+    // A rejected repeat leaves the stored delivery as it was
+    if (hmacValid === false) {
+      console.error("Webhook signature verification failed")
+      if (!duplicate) await WebhookService.failEvent(event, "Invalid signature")
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
+    }
 
-      case "app/uninstalled":
-        console.log("App uninstalled from shop:", shopHeader)
-        // Handle app uninstallation
-        break
+    if (payload === null) {
+      if (!duplicate) await WebhookService.failEvent(event, "Invalid JSON")
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
+    }
 
-      default:
-        console.log(`Unhandled webhook topic: ${topicHeader}`)
+    const result = await WebhookService.processEvent(event)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
     }
 
     // Always return 200 to acknowledge receipt
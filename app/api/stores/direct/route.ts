@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { AuthService } from '@/lib/auth-service';
 import { SellerStoreService } from '@/lib/services/seller-store-service';
+import { WebhookService } from '@/lib/services/webhook-service';
 
 export async function POST(request: Request) {
   try {
@@ -125,6 +126,12 @@ export async function POST(request: Request) {
       }
     }
 
+    // Subscribe the store to order webhooks; the connection stands even if this fails, order sync polls as a fallback
+    const webhooks = await WebhookService.registerWebhooks(storeUrl);
+    if (!webhooks.success) {
+      console.warn(`Webhook registration incomplete for ${storeUrl}:`, webhooks.errors);
+    }
+
     // Format the connection data to avoid circular references
     const safeConnection = {
       id: connection.id,
@@ -132,7 +139,8 @@ export async function POST(request: Request) {
       storeName: connection.storeName,
       connectionType: connection.connectionType,
       connectedAt: connection.connectedAt,
-      isActive: connection.isActive
+      isActive: connection.isActive,
+      webhooksRegistered: webhooks.success
     };
 
     // Ensure the response is serializable
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
 import { supabase } from "@/lib/supabase"
+import { OrderSyncService } from "@/lib/services/order-sync-service"
 
 export async function GET(request: Request) {
   try {
@@ -65,20 +66,13 @@ export async function GET(request: Request) {
       console.log('📋 Sample mappings:', allMappings.slice(0, 3))
     }
 
-    // Check if we should sync orders first
+    // Sync on request only; the scheduled runner keeps orders current otherwise, and the per-store lock
+    // stops this from overlapping a run already in progress
     if (forceSync) {
       console.log('🔄 Force sync requested, triggering order sync...')
       try {
-        const syncResponse = await fetch(`${request.url.split('/api')[0]}/api/sync-orders`, {
-          method: 'POST'
-        })
-        const syncResult = await syncResponse.json()
-        console.log('🔄 Sync response:', syncResult)
-        if (syncResponse.ok) {
-          console.log('✅ Order sync completed successfully:', syncResult)
-        } else {
-          console.log('❌ Order sync failed:', syncResult)
-        }
+        const { runs, skipped } = await OrderSyncService.syncStores('manual')
+        console.log(`✅ Order sync finished: ${runs.length} store(s) synced, ${skipped.length} already running`)
       } catch (error) {
         console.log('💥 Error during sync:', error)
       }
@@ -154,65 +148,8 @@ export async function GET(request: Request) {
     console.log(`Found ${supplierOrders?.length || 0} orders for supplier ${supplierId}`)
 
     if (!supplierOrders || supplierOrders.length === 0) {
-      // If no orders found, try to sync once
-      if (!forceSync) {
-        console.log('📭 No orders found, triggering automatic sync...')
-        try {
-          const syncResponse = await fetch(`${request.url.split('/api')[0]}/api/sync-orders`, {
-            method: 'POST'
-          })
-          const syncResult = await syncResponse.json()
-          console.log('🔄 Auto sync response:', syncResult)
-          
-          if (syncResponse.ok) {
-            console.log('✅ Auto sync completed, refetching orders...')
-            // Refetch after sync using the same two-step logic as the main query
-            const { data: freshOrderIds } = await supabase
-              .from('supplier_order_items')
-              .select('supplier_order_id')
-              .in('supplier_product_id', supplierProductIds)
-
-            const freshUniqueOrderIds = [...new Set(freshOrderIds?.map(item => item.supplier_order_id) || [])]
-            
-            if (freshUniqueOrderIds.length > 0) {
-              const { data: freshOrders } = await supabase
-                .from('supplier_orders')
-                .select(`
-                  *,
-                  supplier_order_items (
-                    id,
-                    shopify_line_item_id,
-                    shopify_product_id,
-                    supplier_product_id,
-                    product_name,
-                    quantity,
-                    price,
-                    variant_id,
-                    sku
-                  )
-                `)
-                .in('id', freshUniqueOrderIds)
-                .order('order_date', { ascending: false })
-              
-              console.log(`📦 After sync: Found ${freshOrders?.length || 0} orders`)
-              
-              if (freshOrders && freshOrders.length > 0) {
-                return NextResponse.json({ 
-                  orders: transformSupplierOrdersForResponse(freshOrders, supplierProductIds),
-                  synced: true
-                })
-              }
-            }
-          } else {
-            console.log('❌ Auto sync failed:', syncResult)
-          }
-        } catch (error) {
-          console.log('💥 Auto sync error:', error)
-        }
-      }
-      
       console.log('🚫 Returning empty orders array')
-      return NextResponse.json({ orders: [] })
+      return NextResponse.json({ orders: [], synced: forceSync })
     }
 
     // Transform Supabase orders to match the expected response format
@@ -220,7 +157,7 @@ export async function GET(request: Request) {
 
     console.log(`Returning ${transformedOrders.length} transformed orders`)
 
-    return NextResponse.json({ orders: transformedOrders })
+    return NextResponse.json({ orders: transformedOrders, synced: forceSync })
 
   } catch (error) {
     console.error('Error in supplier orders API:', error)
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { InventoryService } from '@/lib/services/inventory-service';
 
 // GET: Fetch tracking information for orders
 export async function GET(request: Request) {
@@ -128,6 +129,13 @@ export async function POST(request: Request) {
       result = data;
     }
 
+    // A tracking number means the goods have left the supplier: settle reserved stock, only that supplier's
+    // when one sent it, or the whole order's when an admin did
+    const supplierOrderIds = await InventoryService.getSupplierOrderIds(shopifyOrderId.toString(), storeUrl, supplierId || undefined);
+    for (const supplierOrderId of supplierOrderIds) {
+      await InventoryService.shipOrder(supplierOrderId);
+    }
+
     return NextResponse.json({ 
       message: existingTracking ? 'Tracking updated successfully' : 'Tracking created successfully',
       tracking: result 
@@ -0,0 +1,247 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useStore } from "@/contexts/store-context"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { Link2, Package, RefreshCw, Store } from "lucide-react"
+import Image from "next/image"
+import DashboardLayout from "@/components/dashboard-layout"
+import { LinkMatch, LinkProposal, LinkResult } from "@/lib/types/product-link"
+
+const getMatchBadge = (match: LinkMatch | null) => {
+  if (!match) return <Badge className="bg-gray-100 text-gray-800">No match</Badge>
+  switch (match.reason) {
+    case 'sku':
+      return <Badge className="bg-green-100 text-green-800">SKU · {Math.round(match.score * 100)}%</Badge>
+    case 'barcode':
+      return <Badge className="bg-green-100 text-green-800">Barcode · {Math.round(match.score * 100)}%</Badge>
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800">Similar title · {Math.round(match.score * 100)}%</Badge>
+  }
+}
+
+export default function LinkProductsPage() {
+  const { selectedStore, loading: layoutLoading } = useStore()
+  const [proposals, setProposals] = useState<LinkProposal[]>([])
+  const [products, setProducts] = useState<{ id: string; title: string }[]>([])
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [confirmed, setConfirmed] = useState<string[]>([])
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [linking, setLinking] = useState(false)
+  const { toast } = useToast()
+
+  const fetchProposals = useCallback(async () => {
+    if (!selectedStore) return
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/product-links?storeUrl=${encodeURIComponent(selectedStore)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load store products')
+      }
+
+      const loaded: LinkProposal[] = data.proposals || []
+      // Matched listings first, strongest matches at the top
+      loaded.sort((a, b) => (b.match ? 1 : 0) - (a.match ? 1 : 0) || (b.match?.score || 0) - (a.match?.score || 0))
+      setProposals(loaded)
+      setProducts(data.products || [])
+      setChoices(Object.fromEntries(
+        loaded.filter(proposal => proposal.match).map(proposal => [proposal.listing.id, proposal.match!.supplier_product_id])
+      ))
+      // SKU and barcode matches are confirmed up front; title matches need a look first
+      setConfirmed(loaded.filter(proposal => proposal.match && proposal.match.reason !== 'title').map(proposal => proposal.listing.id))
+      setErrors({})
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load store products",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [selectedStore, toast])
+
+  useEffect(() => {
+    if (!layoutLoading && selectedStore) {
+      fetchProposals()
+    } else if (!layoutLoading) {
+      setLoading(false)
+    }
+  }, [selectedStore, layoutLoading, fetchProposals])
+
+  const toggleConfirmed = (listingId: string, checked: boolean) => {
+    setConfirmed(prev => checked ? [...prev, listingId] : prev.filter(id => id !== listingId))
+  }
+
+  const chooseProduct = (listingId: string, productId: string) => {
+    setChoices(prev => ({ ...prev, [listingId]: productId }))
+    toggleConfirmed(listingId, true)
+  }
+
+  const linkable = confirmed.filter(listingId => choices[listingId])
+
+  const handleLink = async () => {
+    if (!selectedStore || linkable.length === 0) return
+    setLinking(true)
+    try {
+      const response = await fetch('/api/product-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          storeUrl: selectedStore,
+          links: linkable.map(listingId => ({ shopify_product_id: listingId, supplier_product_id: choices[listingId] })),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to link products')
+      }
+
+      const results: LinkResult[] = data.results || []
+      const linked = results.filter(result => result.success).map(result => result.shopify_product_id)
+      const failed = results.filter(result => !result.success)
+
+      setProposals(prev => prev.filter(proposal => !linked.includes(proposal.listing.id)))
+      setConfirmed(prev => prev.filter(id => !linked.includes(id)))
+      setErrors(Object.fromEntries(failed.map(result => [result.shopify_product_id, result.error || 'Failed to link'])))
+
+      toast({
+        title: failed.length === 0 ? "Products linked" : "Some products were not linked",
+        description: `${linked.length} linked${failed.length > 0 ? `, ${failed.length} failed` : ''}. Orders for linked products now go to the supplier.`,
+        variant: failed.length > 0 && linked.length === 0 ? "destructive" : "default",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to link products",
+        variant: "destructive",
+      })
+    } finally {
+      setLinking(false)
+    }
+  }
+
+  if (!layoutLoading && !selectedStore) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Store className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">Select a store to link its products</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Link Products</h1>
+            <p className="text-gray-600">Connect products you already sell on {selectedStore} to supplier products</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={fetchProposals} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button onClick={handleLink} disabled={linking || linkable.length === 0} className="bg-green-600 hover:bg-green-700">
+              <Link2 className="h-4 w-4 mr-2" />
+              {linking ? "Linking..." : `Link ${linkable.length} Product${linkable.length !== 1 ? 's' : ''}`}
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Unlinked Store Products</CardTitle>
+            <CardDescription>
+              Matches are proposed by SKU, barcode or similar title. Once linked, the supplier fulfils orders for the
+              product and its Shopify stock follows the supplier&apos;s.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : proposals.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">Every product in this store is already linked</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10"></TableHead>
+                    <TableHead>Store product</TableHead>
+                    <TableHead>Match</TableHead>
+                    <TableHead>Supplier product</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {proposals.map(({ listing, match }) => (
+                    <TableRow key={listing.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={confirmed.includes(listing.id)}
+                          disabled={!choices[listing.id]}
+                          onCheckedChange={(checked) => toggleConfirmed(listing.id, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          {listing.image ? (
+                            <Image src={listing.image} alt={listing.title} width={40} height={40} className="h-10 w-10 rounded object-cover" />
+                          ) : (
+                            <div className="h-10 w-10 rounded bg-gray-100 flex items-center justify-center">
+                              <Package className="h-5 w-5 text-gray-400" />
+                            </div>
+                          )}
+                          <div>
+                            <div className="font-medium">{listing.title}</div>
+                            <div className="text-xs text-gray-500">
+                              {listing.variants.length} variant{listing.variants.length !== 1 ? 's' : ''}
+                              {listing.variants[0]?.sku && ` · SKU ${listing.variants[0].sku}`}
+                            </div>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {getMatchBadge(match)}
+                        {match && match.supplier_product_id === choices[listing.id] && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {match.matched_variants} of {listing.variants.length} variants matched
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="min-w-[240px]">
+                        <Select value={choices[listing.id]} onValueChange={(value) => chooseProduct(listing.id, value)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose a supplier product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.map(product => (
+                              <SelectItem key={product.id} value={product.id}>{product.title}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {errors[listing.id] && <p className="text-xs text-red-600 mt-1">{errors[listing.id]}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,171 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useStore } from "@/contexts/store-context"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/components/ui/use-toast"
+import { Save, Store } from "lucide-react"
+import DashboardLayout from "@/components/dashboard-layout"
+import { DEFAULT_PUSH_TEMPLATE, TEMPLATE_PLACEHOLDERS } from "@/lib/shopify-product"
+import { PushTemplate } from "@/lib/types/push-template"
+
+export default function ListingTemplatePage() {
+  const { selectedStore, loading: layoutLoading } = useStore()
+  const [template, setTemplate] = useState<PushTemplate>(DEFAULT_PUSH_TEMPLATE)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchTemplate = useCallback(async () => {
+    if (!selectedStore) return
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/push-templates?storeUrl=${encodeURIComponent(selectedStore)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load listing template')
+      }
+      setTemplate(data.template)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load listing template",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [selectedStore, toast])
+
+  useEffect(() => {
+    if (!layoutLoading && selectedStore) {
+      fetchTemplate()
+    } else if (!layoutLoading) {
+      setLoading(false)
+    }
+  }, [selectedStore, layoutLoading, fetchTemplate])
+
+  const updateField = (field: keyof PushTemplate, value: string) => {
+    setTemplate(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSave = async () => {
+    if (!selectedStore) return
+    setSaving(true)
+    try {
+      const response = await fetch('/api/push-templates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storeUrl: selectedStore, ...template }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save listing template')
+      }
+      setTemplate(data.template)
+      toast({
+        title: "Template saved",
+        description: "New pushes and content syncs to this store use the updated template",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save listing template",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!layoutLoading && !selectedStore) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Store className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">Select a store to edit its listing template</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Listing Template</h1>
+            <p className="text-gray-600">How supplier products are written when pushed to {selectedStore}</p>
+          </div>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save Template"}
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Template</CardTitle>
+            <CardDescription>
+              Placeholders: {TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}.
+              Use Preview when pushing a product to see the result.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <Label htmlFor="title_template">Title</Label>
+                  <Input
+                    id="title_template"
+                    value={template.title_template}
+                    onChange={(e) => updateField("title_template", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="body_template">Description (HTML)</Label>
+                  <Textarea
+                    id="body_template"
+                    rows={6}
+                    value={template.body_template}
+                    onChange={(e) => updateField("body_template", e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    {"{{description}}"} is the supplier&apos;s description, with plain text turned into paragraphs
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="vendor_template">Vendor</Label>
+                  <Input
+                    id="vendor_template"
+                    value={template.vendor_template}
+                    onChange={(e) => updateField("vendor_template", e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">Leave empty to let Shopify use the store name</p>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="extra_tags">Extra tags</Label>
+                  <Input
+                    id="extra_tags"
+                    value={template.extra_tags}
+                    onChange={(e) => updateField("extra_tags", e.target.value)}
+                    placeholder="dropship, new-arrival"
+                  />
+                  <p className="text-xs text-gray-500">Comma-separated; added to the product&apos;s own tags</p>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
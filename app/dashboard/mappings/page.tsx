@@ -0,0 +1,225 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useStore } from "@/contexts/store-context"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { AlertTriangle, CheckCircle, RefreshCw, ShieldCheck, Store } from "lucide-react"
+import DashboardLayout from "@/components/dashboard-layout"
+import { MappingFix, MappingIssue, MappingIssueType, ReconciliationRun } from "@/lib/types/mapping-reconciliation"
+
+const getIssueBadge = (type: MappingIssueType) => {
+  switch (type) {
+    case 'missing_listing':
+      return <Badge className="bg-red-100 text-red-800">Deleted in Shopify</Badge>
+    case 'missing_product':
+      return <Badge className="bg-red-100 text-red-800">Supplier product deleted</Badge>
+    case 'duplicate':
+      return <Badge className="bg-yellow-100 text-yellow-800">Duplicate</Badge>
+    default:
+      return <Badge className="bg-blue-100 text-blue-800">Variants changed</Badge>
+  }
+}
+
+const FIX_LABELS: Record<MappingFix, string> = {
+  archive: "Archive mapping",
+  rebuild_variants: "Re-pair variants",
+}
+
+export default function MappingHealthPage() {
+  const { selectedStore, loading: layoutLoading } = useStore()
+  const [run, setRun] = useState<ReconciliationRun | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [checking, setChecking] = useState(false)
+  const [fixing, setFixing] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const fetchRun = useCallback(async () => {
+    if (!selectedStore) return
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/mapping-reconciliation?storeUrl=${encodeURIComponent(selectedStore)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load mapping report')
+      }
+      setRun(data.run)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load mapping report",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [selectedStore, toast])
+
+  useEffect(() => {
+    if (!layoutLoading && selectedStore) {
+      fetchRun()
+    } else if (!layoutLoading) {
+      setLoading(false)
+    }
+  }, [selectedStore, layoutLoading, fetchRun])
+
+  const handleCheck = async () => {
+    if (!selectedStore) return
+    setChecking(true)
+    try {
+      const response = await fetch('/api/mapping-reconciliation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storeUrl: selectedStore }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check product mappings')
+      }
+
+      const checked: ReconciliationRun = data.run
+      setRun(checked)
+      toast({
+        title: checked.error ? "Check failed" : "Check complete",
+        description: checked.error || `${checked.checked_mappings} mappings checked, ${checked.issues.length} issue${checked.issues.length !== 1 ? 's' : ''} found`,
+        variant: checked.error ? "destructive" : "default",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check product mappings",
+        variant: "destructive",
+      })
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleFix = async (issue: MappingIssue) => {
+    if (!selectedStore) return
+    setFixing(issue.mapping_id)
+    try {
+      const response = await fetch('/api/mapping-reconciliation/fix', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storeUrl: selectedStore, mappingId: issue.mapping_id, fix: issue.fix }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fix mapping')
+      }
+
+      setRun(prev => prev && { ...prev, issues: prev.issues.filter(entry => entry.mapping_id !== issue.mapping_id) })
+      toast({
+        title: "Mapping fixed",
+        description: issue.fix === 'archive'
+          ? `${issue.product_title || 'The product'} is no longer linked; orders placed before now still go to the supplier.`
+          : `Variants of ${issue.product_title || 'the product'} were paired again.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fix mapping",
+        variant: "destructive",
+      })
+    } finally {
+      setFixing(null)
+    }
+  }
+
+  if (!layoutLoading && !selectedStore) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Store className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">Select a store to check its product mappings</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Mapping Health</h1>
+            <p className="text-gray-600">Find links between supplier products and {selectedStore} that no longer hold</p>
+          </div>
+          <Button onClick={handleCheck} disabled={checking || loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${checking ? 'animate-spin' : ''}`} />
+            {checking ? "Checking..." : "Check Now"}
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Mapping Issues</CardTitle>
+            <CardDescription>
+              {run
+                ? `Last checked ${new Date(run.created_at).toLocaleString()} · ${run.checked_mappings} mapping${run.checked_mappings !== 1 ? 's' : ''} checked`
+                : "This store has not been checked yet"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : !run ? (
+              <div className="text-center py-8">
+                <ShieldCheck className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-500">Run a check to compare every linked product with Shopify</p>
+              </div>
+            ) : run.error ? (
+              <div className="flex items-start gap-3 p-4 rounded-md bg-red-50 text-red-800">
+                <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                <p className="text-sm">The last check could not finish: {run.error}</p>
+              </div>
+            ) : run.issues.length === 0 ? (
+              <div className="text-center py-8">
+                <CheckCircle className="h-10 w-10 text-green-500 mx-auto mb-3" />
+                <p className="text-gray-500">Every mapping matches Shopify and the supplier catalogue</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Issue</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Shopify ID</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">Fix</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {run.issues.map(issue => (
+                    <TableRow key={issue.mapping_id}>
+                      <TableCell>{getIssueBadge(issue.type)}</TableCell>
+                      <TableCell className="font-medium">{issue.product_title || "Deleted product"}</TableCell>
+                      <TableCell className="text-gray-500">{issue.shopify_product_id}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{issue.detail}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleFix(issue)}
+                          disabled={fixing !== null}
+                        >
+                          {fixing === issue.mapping_id ? "Fixing..." : FIX_LABELS[issue.fix]}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
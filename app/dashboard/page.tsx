@@ -6,118 +6,215 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Input } from "@/components/ui/input"
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { useToast } from "@/components/ui/use-toast"
-import { Package, ExternalLink, CheckCircle, AlertCircle, X, Calculator, Store } from "lucide-react"
+import { Package, ExternalLink, CheckCircle, AlertCircle, X, Calculator, Store, Download, Search } from "lucide-react"
 import Image from "next/image"
+import { useRouter } from "next/navigation"
 import DashboardLayout from "@/components/dashboard-layout"
-import { ProductService } from "@/lib/product-service"
-import { Product as SupplierProduct } from "@/lib/types/product"
+import { MapEnforcement, Product as SupplierProduct, ProductCategoryRef, ProductOption, ProductVariant } from "@/lib/types/product"
+import { CatalogBrowseResult, CatalogFacets, CatalogSort } from "@/lib/types/catalog-browse"
+import { CatalogFacetsPanel, CatalogFilters, EMPTY_CATALOG_FILTERS } from "@/components/catalog-facets"
+import { ProductMediaRef } from "@/lib/types/product-image"
+import { getImageSizeUrl } from "@/lib/product-images"
+import { calculateMargin, Margin } from "@/lib/product-pricing"
+import { computeRetailPrice } from "@/lib/pricing-rules"
+import { ComputedPrice, PricingRule } from "@/lib/types/pricing-rule"
+import { StorePushResult } from "@/lib/types/multi-store-push"
+import { PushPreview } from "@/lib/types/push-template"
 import { useStore } from "@/contexts/store-context"
+import { CatalogExportDialog, downloadCatalogExport } from "@/components/catalog-export-dialog"
+import { fetchPushPreview, PushPreviewDialog } from "@/components/push-preview-dialog"
+import { CatalogExportFilters, ExportFormat } from "@/lib/catalog-export"
 
 interface Product {
   id: string
   name: string
-  price: number
+  price: number // Wholesale cost
+  suggestedRetailPrice: number | null
+  mapPrice: number | null
+  mapEnforcement: MapEnforcement
   image: string
   images: string[] // Add full images array for Shopify push
+  media: ProductMediaRef[]
+  options: ProductOption[]
+  variants: ProductVariant[]
   status: "pushed" | "not_pushed"
   description: string
+  category: ProductCategoryRef | null
+  tags: string[]
+  supplierName: string
 }
 
+const PAGE_SIZE = 24
+
+// Prices for a store the product is also pushed to, prefilled from that store's pricing rules
+interface StorePrices {
+  sellingPrice: string
+  compareAtPrice: string
+  rule: ComputedPrice['rule']
+}
+
+// Retail price from the seller's pricing rules for the store, falling back to the supplier's suggestion
+const priceProduct = (product: Product, rules: PricingRule[], storeUrl: string): ComputedPrice =>
+  computeRetailPrice({
+    price: product.price,
+    suggested_retail_price: product.suggestedRetailPrice,
+    map_price: product.mapPrice,
+    category_id: product.category?.id || null,
+  }, rules, storeUrl)
+
 export default function DashboardHome() {
-  const { selectedStore, loading: layoutLoading, checkConnectionStatus } = useStore()
+  const { selectedStore, connectedStores, loading: layoutLoading, checkConnectionStatus } = useStore()
   const [products, setProducts] = useState<Product[]>([])
   const [selectedProducts, setSelectedProducts] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
   const [pushing, setPushing] = useState<string[]>([])
   const { toast } = useToast()
+  const router = useRouter()
   const [isConnected, setIsConnected] = useState(false)
   
   // Modal states
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null)
   const [sellingPrice, setSellingPrice] = useState("")
-  const [margin, setMargin] = useState(0)
+  const [compareAtPrice, setCompareAtPrice] = useState("")
+  const [appliedRule, setAppliedRule] = useState<ComputedPrice['rule']>(null)
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([])
+  const [otherStores, setOtherStores] = useState<Record<string, StorePrices>>({})
+  const [pushResults, setPushResults] = useState<{ productName: string; results: StorePushResult[] } | null>(null)
+  const [preview, setPreview] = useState<PushPreview | null>(null)
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
+  const [previewing, setPreviewing] = useState(false)
+  const [isBulkPreviewOpen, setIsBulkPreviewOpen] = useState(false)
+  const [updateExisting, setUpdateExisting] = useState(false)
+  const [margin, setMargin] = useState<Margin | null>(null)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+
+  // Catalog browsing
+  const [filters, setFilters] = useState<CatalogFilters>(EMPTY_CATALOG_FILTERS)
+  const [searchInput, setSearchInput] = useState("")
+  const [search, setSearch] = useState("")
+  const [sort, setSort] = useState<CatalogSort>("newest")
+  const [page, setPage] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [facets, setFacets] = useState<CatalogFacets | null>(null)
+  const [shopifyTitles, setShopifyTitles] = useState<string[] | null>(null)
 
   // Calculate margin when selling price changes
   useEffect(() => {
-    if (selectedProduct && sellingPrice) {
-      const costPrice = selectedProduct.price
-      const selling = parseFloat(sellingPrice)
-      const calculatedMargin = Math.round(selling - costPrice)
-      setMargin(calculatedMargin)
-    }
+    const selling = parseFloat(sellingPrice)
+    setMargin(selectedProduct && selling > 0 ? calculateMargin(selling, selectedProduct.price) : null)
   }, [sellingPrice, selectedProduct])
 
-  const fetchProducts = useCallback(async () => {
+  const isBelowMap = (price: string) => !!selectedProduct?.mapPrice && parseFloat(price) < selectedProduct.mapPrice
+  const belowMap = isBelowMap(sellingPrice)
+  const blockedByMap = selectedProduct?.mapEnforcement === 'block' &&
+    [sellingPrice, ...Object.values(otherStores).map(prices => prices.sellingPrice)].some(isBelowMap)
+  const targetStores = connectedStores.filter(store => store.shop !== selectedStore && store.isValid !== false)
+
+  // The seller's pricing rules for every store; each price picks the rules that apply to its store
+  useEffect(() => {
+    if (!selectedStore) return
+    fetch('/api/pricing-rules')
+      .then(res => res.ok ? res.json() : { rules: [] })
+      .then(data => setPricingRules(data.rules || []))
+      .catch(() => setPricingRules([]))
+  }, [selectedStore])
+
+  // Titles already in the Shopify store, used to flag products as synced
+  const fetchShopifyTitles = useCallback(async () => {
     if (!selectedStore) return
-    
     try {
-      // Fetch approved products from the database
-      const approvedProducts = await ProductService.getApprovedProducts()
-      
+      // Try unified products API first
+      let shopifyRes = await fetch(`/api/stores/products?storeUrl=${selectedStore}`)
+
+      // If unified API fails, try the original API
+      if (!shopifyRes.ok) {
+        shopifyRes = await fetch(`/api/shopify-products?shop=${selectedStore}`)
+      }
+
+      if (shopifyRes.ok) {
+        const shopifyData = await shopifyRes.json()
+        setShopifyTitles(shopifyData.products.map((p: any) => p.title))
+      } else {
+        setShopifyTitles([])
+      }
+    } catch (error) {
+      console.error('Error checking Shopify sync status:', error)
+      setShopifyTitles([])
+    }
+  }, [selectedStore])
+
+  const fetchProducts = useCallback(async () => {
+    if (!selectedStore || shopifyTitles === null) return
+
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ sort, page: String(page), pageSize: String(PAGE_SIZE) })
+      if (search) params.set('q', search)
+      if (filters.categoryId) params.set('category', filters.categoryId)
+      if (filters.supplierIds.length > 0) params.set('supplier', filters.supplierIds.join(','))
+      if (filters.tags.length > 0) params.set('tag', filters.tags.join(','))
+      const priceRange = facets?.priceRanges.find(range => range.value === filters.priceRange)
+      if (priceRange) {
+        params.set('minPrice', String(priceRange.min))
+        if (priceRange.max !== null) params.set('maxPrice', String(priceRange.max))
+      }
+
+      // Fetch approved products from the browse API
+      const res = await fetch(`/api/products/browse?${params.toString()}`)
+      const data: CatalogBrowseResult & { error?: string } = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load products')
+      }
+
       // Transform supplier products to match the Product interface
-      const transformedProducts: Product[] = approvedProducts.map((supplierProduct: SupplierProduct) => ({
+      const transformedProducts: Product[] = data.products.map((supplierProduct: SupplierProduct) => ({
         id: supplierProduct.id,
         name: supplierProduct.title,
         price: supplierProduct.price,
+        suggestedRetailPrice: supplierProduct.suggested_retail_price ?? null,
+        mapPrice: supplierProduct.map_price ?? null,
+        mapEnforcement: supplierProduct.map_enforcement || 'block',
         image: supplierProduct.images && supplierProduct.images.length > 0 
-          ? supplierProduct.images[0] 
+          ? getImageSizeUrl(supplierProduct.media, supplierProduct.images[0], 'medium')
           : "/placeholder.svg?height=200&width=200",
         images: supplierProduct.images || [], // Add full images array
-        status: "not_pushed" as const, // Will be updated based on Shopify sync
-        description: supplierProduct.description || "No description available"
+        media: supplierProduct.media || [],
+        options: supplierProduct.options || [],
+        variants: supplierProduct.variants || [],
+        status: shopifyTitles.includes(supplierProduct.title) ? "pushed" as const : "not_pushed" as const,
+        description: supplierProduct.description || "No description available",
+        category: supplierProduct.category || null,
+        tags: supplierProduct.tags || [],
+        supplierName: supplierProduct.supplier_name || supplierProduct.supplier_id,
       }))
 
-      // Check Shopify sync status using unified API
-      try {
-        // Try unified products API first
-        let shopifyRes = await fetch(`/api/stores/products?storeUrl=${selectedStore}`)
-        
-        // If unified API fails, try the original API
-        if (!shopifyRes.ok) {
-          shopifyRes = await fetch(`/api/shopify-products?shop=${selectedStore}`)
-        }
-        
-        if (shopifyRes.ok) {
-          const shopifyData = await shopifyRes.json()
-          const shopifyProductTitles = shopifyData.products.map((p: any) => p.title)
-          
-          console.log('Shopify product titles:', shopifyProductTitles)
-          console.log('Local product names:', transformedProducts.map(p => p.name))
-          
-          const syncedProducts = transformedProducts.map(product => {
-            const isSync = shopifyProductTitles.includes(product.name)
-            console.log(`Product "${product.name}" sync status:`, isSync)
-            return {
-              ...product,
-              status: isSync ? "pushed" as const : "not_pushed" as const
-            }
-          })
-          
-          setProducts(syncedProducts)
-        } else {
-          setProducts(transformedProducts)
-        }
-      } catch (error) {
-        console.error('Error checking Shopify sync status:', error)
-        setProducts(transformedProducts)
-      }
-      
-      setLoading(false)
+      setProducts(transformedProducts)
+      setTotal(data.total)
+      setFacets(data.facets)
     } catch (error) {
       console.error('Error fetching products:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load products",
+        variant: "destructive",
+      })
+    } finally {
       setLoading(false)
     }
-  }, [selectedStore])
+    // facets is only read to resolve the chosen price range
+  }, [selectedStore, shopifyTitles, search, sort, page, filters])
 
   useEffect(() => {
     if (selectedStore && !layoutLoading) {
       checkConnectionStatus(selectedStore).then(connected => {
         setIsConnected(connected)
         if (connected) {
-          fetchProducts()
+          fetchShopifyTitles()
         } else {
           setLoading(false)
         }
@@ -126,58 +223,116 @@ export default function DashboardHome() {
       setLoading(false)
       setIsConnected(false)
     }
-  }, [selectedStore, layoutLoading, checkConnectionStatus, fetchProducts])
+  }, [selectedStore, layoutLoading, checkConnectionStatus, fetchShopifyTitles])
+
+  useEffect(() => {
+    fetchProducts()
+  }, [fetchProducts])
+
+  // Debounce the search box so typing does not fire a request per key
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim())
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  const handleFiltersChange = (next: CatalogFilters) => {
+    setFilters(next)
+    setPage(1)
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
 
   const openPushModal = (product: Product) => {
     setSelectedProduct(product)
-    setSellingPrice(Math.round(product.price * 1.5).toString()) // Default 50% markup
+    const computed = priceProduct(product, pricingRules, selectedStore)
+    setSellingPrice(computed.sellingPrice.toString())
+    setCompareAtPrice(computed.compareAtPrice?.toString() || "")
+    setAppliedRule(computed.rule)
+    setOtherStores({})
     setIsModalOpen(true)
   }
 
+  const toggleOtherStore = (storeUrl: string, checked: boolean) => {
+    if (!selectedProduct) return
+    setOtherStores(prev => {
+      const next = { ...prev }
+      if (checked) {
+        const computed = priceProduct(selectedProduct, pricingRules, storeUrl)
+        next[storeUrl] = {
+          sellingPrice: computed.sellingPrice.toString(),
+          compareAtPrice: computed.compareAtPrice?.toString() || "",
+          rule: computed.rule,
+        }
+      } else {
+        delete next[storeUrl]
+      }
+      return next
+    })
+  }
+
+  const setOtherStorePrice = (storeUrl: string, field: "sellingPrice" | "compareAtPrice", value: string) => {
+    setOtherStores(prev => ({ ...prev, [storeUrl]: { ...prev[storeUrl], [field]: value } }))
+  }
+
   const closeModal = () => {
     setIsModalOpen(false)
     setSelectedProduct(null)
     setSellingPrice("")
-    setMargin(0)
+    setCompareAtPrice("")
+    setAppliedRule(null)
+    setOtherStores({})
+    setMargin(null)
   }
 
   const handlePushToShopify = async () => {
     if (!selectedProduct || !sellingPrice || !selectedStore) return
+    if (Object.keys(otherStores).length > 0) {
+      return handleMultiStorePush()
+    }
     
     setPushing((prev) => [...prev, selectedProduct.id])
     closeModal()
     
     const product = selectedProduct
-    const shopifyProduct = {
-      title: product.name,
-      body_html: `<strong>${product.description}</strong>`,
-      vendor: "Your App",
-      product_type: "Widget",
-      images: product.images.filter(img => img && !img.includes('placeholder')).map(img => ({ src: img })), // Add images for Shopify
-      variants: [
-        {
-          price: sellingPrice,
-        },
-      ],
-    }
     
     try {
-      const res = await fetch("/api/push-to-shopify", {
+      // The server renders the payload with the store's template, so the push sends exactly what a preview shows
+      const { product: shopifyProduct } = await fetchPushPreview(
+        selectedStore, product.id, parseFloat(sellingPrice), parseFloat(compareAtPrice) || null
+      )
+      const push = (mode: "create" | "update") => fetch("/api/push-to-shopify", {
         method: "POST",
         headers: { 
           "Content-Type": "application/json",
           "X-Supplier-Product-ID": product.id
         },
-        body: JSON.stringify({ product: shopifyProduct, shop: selectedStore }),
+        body: JSON.stringify({ product: shopifyProduct, shop: selectedStore, mode }),
       })
-      const data = await res.json()
+      let res = await push("create")
+      let data = await res.json()
+
+      // Pushing again never creates a duplicate listing; the seller can update the one already there
+      if (res.status === 409 && data.existing) {
+        if (!confirm(`"${product.name}" is already in ${selectedStore}. Update the existing listing with these details and prices?`)) {
+          return
+        }
+        res = await push("update")
+        data = await res.json()
+      }
+
       if (res.ok) {
         setProducts((prev) =>
           prev.map((p) => (p.id === product.id ? { ...p, status: "pushed" } : p)),
         )
+        const pushed = data.updated ? "Existing Shopify listing updated" : "Product pushed to Shopify"
         toast({
           title: "Success!",
-          description: "Product pushed to Shopify successfully",
+          description: data.warnings?.length
+            ? `${pushed}. ${data.warnings.join('. ')}`
+            : `${pushed} successfully`,
         })
       } else {
         toast({
@@ -189,7 +344,7 @@ export default function DashboardHome() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to push product to Shopify",
+        description: error instanceof Error ? error.message : "Failed to push product to Shopify",
         variant: "destructive",
       })
     } finally {
@@ -197,54 +352,110 @@ export default function DashboardHome() {
     }
   }
 
+  const handlePreview = async () => {
+    if (!selectedProduct || !selectedStore) return
+    setPreviewing(true)
+    try {
+      setPreview(await fetchPushPreview(selectedStore, selectedProduct.id, parseFloat(sellingPrice), parseFloat(compareAtPrice) || null))
+      setIsPreviewOpen(true)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to preview product",
+        variant: "destructive",
+      })
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  // Pushing to several stores goes through the server in one request and reports each store separately
+  const handleMultiStorePush = async () => {
+    if (!selectedProduct || !selectedStore) return
+
+    const product = selectedProduct
+    const stores = [
+      { store_url: selectedStore, selling_price: parseFloat(sellingPrice), compare_at_price: parseFloat(compareAtPrice) || null },
+      ...Object.entries(otherStores).map(([storeUrl, prices]) => ({
+        store_url: storeUrl,
+        selling_price: parseFloat(prices.sellingPrice) || null,
+        compare_at_price: parseFloat(prices.compareAtPrice) || null,
+      })),
+    ]
+    setPushing((prev) => [...prev, product.id])
+    closeModal()
+
+    try {
+      const res = await fetch("/api/push-to-shopify/stores", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ productId: product.id, stores, updateExisting }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to push product to Shopify")
+      }
+
+      const results: StorePushResult[] = data.results || []
+      if (results.some(result => result.store_url === selectedStore && result.success)) {
+        setProducts((prev) =>
+          prev.map((p) => (p.id === product.id ? { ...p, status: "pushed" } : p)),
+        )
+      }
+      setPushResults({ productName: product.name, results })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to push product to Shopify",
+        variant: "destructive",
+      })
+    } finally {
+      setPushing((prev) => prev.filter((id) => id !== product.id))
+    }
+  }
+
+  // Sellers without an API connection can import the approved catalog by hand
+  const handleExport = async (format: ExportFormat, filters: CatalogExportFilters) => {
+    try {
+      await downloadCatalogExport(format, filters)
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export products",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Bulk pushes run as a server-side job so closing the tab does not stop them
   const handleBulkPush = async () => {
     if (selectedProducts.length === 0 || !selectedStore) return
     
+    setIsBulkPreviewOpen(false)
     setPushing(selectedProducts)
     
     try {
-      const productsToPush = products.filter(p => selectedProducts.includes(p.id))
-      
-      for (const product of productsToPush) {
-        const shopifyProduct = {
-          title: product.name,
-          body_html: `<strong>${product.description}</strong>`,
-          vendor: "Your App",
-          product_type: "Widget",
-          images: product.images.filter(img => img && !img.includes('placeholder')).map(img => ({ src: img })), // Add images for Shopify
-          variants: [
-            {
-              price: Math.round(product.price * 1.5).toString(), // 50% markup
-            },
-          ],
-        }
-        
-        const res = await fetch("/api/push-to-shopify", {
-          method: "POST",
-          headers: { 
-            "Content-Type": "application/json",
-            "X-Supplier-Product-ID": product.id
-          },
-          body: JSON.stringify({ product: shopifyProduct, shop: selectedStore }),
-        })
-        
-        if (res.ok) {
-          setProducts((prev) =>
-            prev.map((p) => (p.id === product.id ? { ...p, status: "pushed" } : p)),
-          )
-        }
+      const res = await fetch("/api/push-jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ storeUrl: selectedStore, productIds: selectedProducts, updateExisting }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to start bulk push")
       }
       
       toast({
-        title: "Success!",
-        description: `${selectedProducts.length} products pushed to Shopify`,
+        title: "Bulk push started",
+        description: `${selectedProducts.length} products are being pushed to Shopify in the background`,
       })
       
       setSelectedProducts([])
+      router.push("/dashboard/push-jobs")
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to push products to Shopify",
+        description: error instanceof Error ? error.message : "Failed to push products to Shopify",
         variant: "destructive",
       })
     } finally {
@@ -316,6 +527,10 @@ export default function DashboardHome() {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
             {!isConnected ? (
               <Button onClick={handleConnectToShopify} className="bg-blue-600 hover:bg-blue-700">
                 <Store className="mr-2 h-4 w-4" />
@@ -330,6 +545,12 @@ export default function DashboardHome() {
           </div>
         </div>
 
+        <CatalogExportDialog
+          open={isExportOpen}
+          onOpenChange={setIsExportOpen}
+          onExport={handleExport}
+        />
+
         {/* Bulk Actions */}
         {selectedProducts.length > 0 && (
           <Card>
@@ -347,7 +568,7 @@ export default function DashboardHome() {
                     Clear Selection
                   </Button>
                   <Button
-                    onClick={handleBulkPush}
+                    onClick={() => setIsBulkPreviewOpen(true)}
                     disabled={pushing.length > 0 || !isConnected}
                     size="sm"
                     className="bg-green-600 hover:bg-green-700"
@@ -370,104 +591,165 @@ export default function DashboardHome() {
           </Card>
         )}
 
-        {/* Products Grid */}
-        {loading ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {[...Array(8)].map((_, i) => (
-              <Card key={i} className="animate-pulse">
-                <div className="aspect-square bg-gray-200 rounded-t-lg" />
-                <CardContent className="p-4">
-                  <div className="h-4 bg-gray-200 rounded mb-2" />
-                  <div className="h-3 bg-gray-200 rounded w-1/2" />
+        <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-6">
+          {/* Facets */}
+          <aside>
+            <CatalogFacetsPanel facets={facets} filters={filters} onChange={handleFiltersChange} />
+          </aside>
+
+          <div className="space-y-4">
+            {/* Search and sort */}
+            <div className="flex flex-col sm:flex-row gap-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search products..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={sort} onValueChange={(value) => { setSort(value as CatalogSort); setPage(1) }}>
+                <SelectTrigger className="w-full sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest first</SelectItem>
+                  <SelectItem value="price_asc">Price: low to high</SelectItem>
+                  <SelectItem value="price_desc">Price: high to low</SelectItem>
+                  <SelectItem value="title">Name</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Products Grid */}
+            {loading ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {[...Array(8)].map((_, i) => (
+                  <Card key={i} className="animate-pulse">
+                    <div className="aspect-square bg-gray-200 rounded-t-lg" />
+                    <CardContent className="p-4">
+                      <div className="h-4 bg-gray-200 rounded mb-2" />
+                      <div className="h-3 bg-gray-200 rounded w-1/2" />
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : products.length === 0 ? (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">No Products Available</h3>
+                  <p className="text-gray-600 mb-4">
+                    {search || filters.categoryId || filters.priceRange || filters.supplierIds.length > 0 || filters.tags.length > 0
+                      ? "No approved products match your search and filters."
+                      : "No approved products are available to sync to your Shopify store."}
+                  </p>
+                  <Button variant="outline" onClick={() => window.location.href = '/supplier'}>
+                    <Package className="mr-2 h-4 w-4" />
+                    View Supplier Dashboard
+                  </Button>
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        ) : products.length === 0 ? (
-          <Card>
-            <CardContent className="p-12 text-center">
-              <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">No Products Available</h3>
-              <p className="text-gray-600 mb-4">
-                No approved products are available to sync to your Shopify store.
-              </p>
-              <Button variant="outline" onClick={() => window.location.href = '/supplier'}>
-                <Package className="mr-2 h-4 w-4" />
-                View Supplier Dashboard
-              </Button>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {products.map((product) => (
-              <Card key={product.id} className="group hover:shadow-lg transition-shadow">
-                <div className="relative">
-                  <div className="aspect-square overflow-hidden rounded-t-lg">
-                    <Image
-                      src={product.image}
-                      alt={product.name}
-                      width={300}
-                      height={300}
-                      className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
-                    />
-                  </div>
-                  <div className="absolute top-2 left-2">
-                    <Checkbox
-                      checked={selectedProducts.includes(product.id)}
-                      onCheckedChange={() => toggleProductSelection(product.id)}
-                      className="bg-white/90"
-                    />
-                  </div>
-                  <div className="absolute top-2 right-2">
-                    <Badge
-                      variant={product.status === "pushed" ? "secondary" : "outline"}
-                      className={product.status === "pushed" ? "bg-green-100 text-green-800" : ""}
-                    >
-                      {product.status === "pushed" ? (
-                        <>
-                          <CheckCircle className="mr-1 h-3 w-3" />
-                          Synced
-                        </>
-                      ) : (
-                        <>
-                          <AlertCircle className="mr-1 h-3 w-3" />
-                          Not Synced
-                        </>
-                      )}
-                    </Badge>
-                  </div>
-                </div>
-                <CardContent className="p-4">
-                  <h3 className="font-semibold text-gray-900 mb-1 line-clamp-2">{product.name}</h3>
-                  <p className="text-sm text-gray-600 mb-2 line-clamp-2">{product.description}</p>
-                  <div className="flex items-center justify-between">
-                    <span className="text-lg font-bold text-gray-900">₹{product.price}</span>
-                    <div className="flex items-center gap-1">
-                      {product.status !== "pushed" && (
-                        <Button
-                          onClick={() => openPushModal(product)}
-                          disabled={pushing.includes(product.id) || !isConnected}
-                          size="sm"
-                          className="h-8 px-2 bg-blue-600 hover:bg-blue-700"
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {products.map((product) => (
+                  <Card key={product.id} className="group hover:shadow-lg transition-shadow">
+                    <div className="relative">
+                      <div className="aspect-square overflow-hidden rounded-t-lg">
+                        <Image
+                          src={product.image}
+                          alt={product.name}
+                          width={300}
+                          height={300}
+                          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
+                        />
+                      </div>
+                      <div className="absolute top-2 left-2">
+                        <Checkbox
+                          checked={selectedProducts.includes(product.id)}
+                          onCheckedChange={() => toggleProductSelection(product.id)}
+                          className="bg-white/90"
+                        />
+                      </div>
+                      <div className="absolute top-2 right-2">
+                        <Badge
+                          variant={product.status === "pushed" ? "secondary" : "outline"}
+                          className={product.status === "pushed" ? "bg-green-100 text-green-800" : ""}
                         >
-                          {pushing.includes(product.id) ? (
-                            <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white" />
+                          {product.status === "pushed" ? (
+                            <>
+                              <CheckCircle className="mr-1 h-3 w-3" />
+                              Synced
+                            </>
                           ) : (
                             <>
-                              <Package className="h-3 w-3 mr-1" />
-                              Push
+                              <AlertCircle className="mr-1 h-3 w-3" />
+                              Not Synced
                             </>
                           )}
-                        </Button>
-                      )}
+                        </Badge>
+                      </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        )}
+                    <CardContent className="p-4">
+                      <h3 className="font-semibold text-gray-900 mb-1 line-clamp-2">{product.name}</h3>
+                      <p className="text-xs text-gray-500 mb-1">
+                        {product.category?.name || "Uncategorized"} · {product.supplierName}
+                      </p>
+                      <p className="text-sm text-gray-600 mb-2 line-clamp-2">{product.description}</p>
+                      {product.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {product.tags.slice(0, 4).map(tag => (
+                            <Badge key={tag} variant="outline" className="text-xs font-normal">{tag}</Badge>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex items-center justify-between">
+                        <span className="text-lg font-bold text-gray-900">₹{product.price}</span>
+                        <div className="flex items-center gap-1">
+                          {product.status !== "pushed" && (
+                            <Button
+                              onClick={() => openPushModal(product)}
+                              disabled={pushing.includes(product.id) || !isConnected}
+                              size="sm"
+                              className="h-8 px-2 bg-blue-600 hover:bg-blue-700"
+                            >
+                              {pushing.includes(product.id) ? (
+                                <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white" />
+                              ) : (
+                                <>
+                                  <Package className="h-3 w-3 mr-1" />
+                                  Push
+                                </>
+                              )}
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
 
+            {/* Pagination */}
+            {!loading && total > PAGE_SIZE && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">
+                  {total} products · Page {page} of {totalPages}
+                </span>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
 
       </div>
 
@@ -494,7 +776,18 @@ export default function DashboardHome() {
                 </div>
                 <div>
                   <h3 className="font-semibold text-gray-900">{selectedProduct.name}</h3>
-                  <p className="text-sm text-gray-600">Cost Price: ₹{selectedProduct.price}</p>
+                  <p className="text-sm text-gray-600">Wholesale Cost: ₹{selectedProduct.price}</p>
+                  {selectedProduct.suggestedRetailPrice && (
+                    <p className="text-xs text-gray-500">Suggested retail: ₹{selectedProduct.suggestedRetailPrice}</p>
+                  )}
+                  {selectedProduct.mapPrice && (
+                    <p className="text-xs text-gray-500">Minimum advertised price: ₹{selectedProduct.mapPrice}</p>
+                  )}
+                  {selectedProduct.variants.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      {selectedProduct.variants.length} variants · prices scale with the selling price
+                    </p>
+                  )}
                 </div>
               </div>
               
@@ -508,36 +801,227 @@ export default function DashboardHome() {
                     placeholder="Enter selling price"
                     className="mt-1"
                   />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {appliedRule ? `Priced by your rule "${appliedRule.name}"` : "No pricing rule matches; using the suggested price"}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Compare-at Price</label>
+                  <Input
+                    type="number"
+                    value={compareAtPrice}
+                    onChange={(e) => setCompareAtPrice(e.target.value)}
+                    placeholder="Optional"
+                    className="mt-1"
+                  />
                 </div>
                 
-                {margin !== 0 && (
+                {margin && (
                   <div className="p-3 bg-gray-50 rounded-lg">
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">Profit Margin:</span>
-                      <span className={`font-semibold ${margin > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                        ₹{margin}
+                      <span className={`font-semibold ${margin.amount > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        ₹{margin.amount} ({margin.percent}%)
                       </span>
                     </div>
                   </div>
                 )}
+
+                {belowMap && (
+                  <div className={`flex items-start gap-2 p-3 rounded-lg text-sm ${
+                    selectedProduct.mapEnforcement === 'block' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'
+                  }`}>
+                    <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>
+                      Below the supplier&apos;s minimum advertised price of ₹{selectedProduct.mapPrice}.
+                      {selectedProduct.mapEnforcement === 'block'
+                        ? ' The supplier does not allow pushes at this price.'
+                        : ' The push will go through with a warning.'}
+                    </span>
+                  </div>
+                )}
+
+                {targetStores.length > 0 && (
+                  <div className="space-y-2 pt-2 border-t">
+                    <label className="text-sm font-medium text-gray-700">Also push to</label>
+                    {targetStores.map(store => {
+                      const prices = otherStores[store.shop]
+                      return (
+                        <div key={store.shop} className="space-y-2">
+                          <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <Checkbox
+                              checked={!!prices}
+                              onCheckedChange={(checked) => toggleOtherStore(store.shop, checked === true)}
+                            />
+                            {store.name || store.shop}
+                          </label>
+                          {prices && (
+                            <div className="pl-6 space-y-1">
+                              <div className="flex gap-2">
+                                <Input
+                                  type="number"
+                                  value={prices.sellingPrice}
+                                  onChange={(e) => setOtherStorePrice(store.shop, "sellingPrice", e.target.value)}
+                                  placeholder="Selling price"
+                                />
+                                <Input
+                                  type="number"
+                                  value={prices.compareAtPrice}
+                                  onChange={(e) => setOtherStorePrice(store.shop, "compareAtPrice", e.target.value)}
+                                  placeholder="Compare-at"
+                                />
+                              </div>
+                              <p className={`text-xs ${isBelowMap(prices.sellingPrice) ? 'text-red-600' : 'text-gray-500'}`}>
+                                {isBelowMap(prices.sellingPrice)
+                                  ? `Below the minimum advertised price of ₹${selectedProduct.mapPrice}`
+                                  : prices.rule ? `Priced by your rule "${prices.rule.name}"` : "No pricing rule matches; using the suggested price"}
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      )
+                    })}
+                    {Object.keys(otherStores).length > 0 && (
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <Checkbox checked={updateExisting} onCheckedChange={(checked) => setUpdateExisting(checked === true)} />
+                        Update the listing in stores that already have this product
+                      </label>
+                    )}
+                  </div>
+                )}
               </div>
               
               <div className="flex justify-end gap-2">
                 <Button variant="outline" onClick={closeModal}>
                   Cancel
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={handlePreview}
+                  disabled={previewing || !sellingPrice || parseFloat(sellingPrice) <= 0}
+                >
+                  {previewing ? "Loading..." : "Preview"}
+                </Button>
                 <Button
                   onClick={handlePushToShopify}
-                  disabled={!sellingPrice || parseFloat(sellingPrice) <= 0}
+                  disabled={!sellingPrice || parseFloat(sellingPrice) <= 0 || blockedByMap}
                   className="bg-blue-600 hover:bg-blue-700"
                 >
-                  Push to Shopify
+                  {Object.keys(otherStores).length > 0
+                    ? `Push to ${Object.keys(otherStores).length + 1} Stores`
+                    : "Push to Shopify"}
                 </Button>
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      <PushPreviewDialog
+        open={isPreviewOpen}
+        onOpenChange={setIsPreviewOpen}
+        storeUrl={selectedStore}
+        preview={preview}
+      />
+
+      {/* Multi-store push results */}
+      <Dialog open={!!pushResults} onOpenChange={(open) => !open && setPushResults(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Push Results</DialogTitle>
+            <DialogDescription>
+              {pushResults && `${pushResults.productName}: pushed to ${pushResults.results.filter(result => result.success).length} of ${pushResults.results.length} stores`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {pushResults?.results.map(result => (
+              <div key={result.store_url} className="flex items-start gap-3">
+                {result.success ? (
+                  <CheckCircle className="h-5 w-5 text-green-600 mt-0.5 shrink-0" />
+                ) : (
+                  <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 shrink-0" />
+                )}
+                <div className="text-sm">
+                  <div className="font-medium text-gray-900">{result.store_url}</div>
+                  <div className="text-gray-600">
+                    {!result.success
+                      ? result.error
+                      : result.already_listed
+                        ? "Already in this store; left unchanged"
+                        : `${result.updated ? "Existing listing updated" : "Pushed"} at ₹${result.selling_price}`}
+                  </div>
+                  {!result.already_listed && result.warnings.map(warning => (
+                    <div key={warning} className="text-xs text-yellow-700">{warning}</div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setPushResults(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk Push Preview */}
+      <Dialog open={isBulkPreviewOpen} onOpenChange={setIsBulkPreviewOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Review Prices</DialogTitle>
+            <DialogDescription>
+              Prices come from your pricing rules for {selectedStore}. Adjust the rules to change them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Wholesale</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Selling</TableHead>
+                  <TableHead>Compare-at</TableHead>
+                  <TableHead>Margin</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.filter(p => selectedProducts.includes(p.id)).map(product => {
+                  const computed = priceProduct(product, pricingRules, selectedStore)
+                  const productMargin = calculateMargin(computed.sellingPrice, product.price)
+                  return (
+                    <TableRow key={product.id}>
+                      <TableCell className="font-medium">{product.name}</TableCell>
+                      <TableCell>₹{product.price}</TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {computed.rule?.name || "Suggested price"}
+                        {computed.raisedToMap && <div className="text-xs text-yellow-700">Raised to MAP</div>}
+                      </TableCell>
+                      <TableCell>₹{computed.sellingPrice}</TableCell>
+                      <TableCell>{computed.compareAtPrice !== null ? `₹${computed.compareAtPrice}` : "—"}</TableCell>
+                      <TableCell className={productMargin.amount > 0 ? "text-green-600" : "text-red-600"}>
+                        ₹{productMargin.amount} ({productMargin.percent}%)
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <Checkbox checked={updateExisting} onCheckedChange={(checked) => setUpdateExisting(checked === true)} />
+            Update products that are already in this store (otherwise they are left unchanged)
+          </label>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsBulkPreviewOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleBulkPush} className="bg-green-600 hover:bg-green-700">
+              Push {selectedProducts.length} Product{selectedProducts.length !== 1 ? 's' : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </DashboardLayout>
   )
 }
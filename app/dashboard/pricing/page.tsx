@@ -0,0 +1,456 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useStore } from "@/contexts/store-context"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import DashboardLayout from "@/components/dashboard-layout"
+import { CategoryService } from "@/lib/services/category-service"
+import { buildCategoryTree, flattenCategoryTree } from "@/lib/product-taxonomy"
+import {
+  applyPricingRule, COMPARE_AT_TYPES, describeRuleConditions, describeRuleMarkup, MARKUP_TYPES, PRICE_ENDINGS
+} from "@/lib/pricing-rules"
+import { CategoryNode } from "@/lib/types/category"
+import { CompareAtType, MarkupType, PriceEnding, PricingRule, PricingRuleInput } from "@/lib/types/pricing-rule"
+
+const ALL_STORES = "__all__"
+const ANY_CATEGORY = "__any__"
+
+interface RuleForm {
+  name: string
+  storeUrl: string
+  priority: string
+  categoryId: string
+  minCost: string
+  maxCost: string
+  markupType: MarkupType
+  markupValue: string
+  priceEnding: PriceEnding
+  compareAtType: CompareAtType
+  compareAtValue: string
+  isActive: boolean
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  storeUrl: ALL_STORES,
+  priority: "0",
+  categoryId: ANY_CATEGORY,
+  minCost: "",
+  maxCost: "",
+  markupType: "percent",
+  markupValue: "50",
+  priceEnding: "none",
+  compareAtType: "none",
+  compareAtValue: "",
+  isActive: true,
+}
+
+function toForm(rule: PricingRule): RuleForm {
+  return {
+    name: rule.name,
+    storeUrl: rule.store_url || ALL_STORES,
+    priority: String(rule.priority),
+    categoryId: rule.category_id || ANY_CATEGORY,
+    minCost: rule.min_cost === null ? "" : String(rule.min_cost),
+    maxCost: rule.max_cost === null ? "" : String(rule.max_cost),
+    markupType: rule.markup_type,
+    markupValue: String(rule.markup_value),
+    priceEnding: rule.price_ending,
+    compareAtType: rule.compare_at_type,
+    compareAtValue: rule.compare_at_value === null ? "" : String(rule.compare_at_value),
+    isActive: rule.is_active,
+  }
+}
+
+function toInput(form: RuleForm): PricingRuleInput {
+  const optionalNumber = (value: string) => (value === "" ? null : parseFloat(value))
+  return {
+    name: form.name,
+    store_url: form.storeUrl === ALL_STORES ? null : form.storeUrl,
+    priority: parseInt(form.priority) || 0,
+    category_id: form.categoryId === ANY_CATEGORY ? null : form.categoryId,
+    min_cost: optionalNumber(form.minCost),
+    max_cost: optionalNumber(form.maxCost),
+    markup_type: form.markupType,
+    markup_value: parseFloat(form.markupValue),
+    price_ending: form.priceEnding,
+    compare_at_type: form.compareAtType,
+    compare_at_value: optionalNumber(form.compareAtValue),
+    is_active: form.isActive,
+  }
+}
+
+export default function PricingRulesPage() {
+  const { connectedStores, loading: layoutLoading } = useStore()
+  const [rules, setRules] = useState<PricingRule[]>([])
+  const [categories, setCategories] = useState<CategoryNode[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<RuleForm | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    CategoryService.getCategories().then(all => setCategories(flattenCategoryTree(buildCategoryTree(all))))
+  }, [])
+
+  useEffect(() => {
+    if (!layoutLoading) {
+      fetchRules()
+    }
+  }, [layoutLoading])
+
+  const fetchRules = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/pricing-rules')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load pricing rules')
+      }
+      setRules(data.rules || [])
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load pricing rules",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openEditor = (rule?: PricingRule) => {
+    setEditingId(rule?.id || null)
+    setForm(rule ? toForm(rule) : EMPTY_FORM)
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    try {
+      const response = await fetch(editingId ? `/api/pricing-rules/${editingId}` : '/api/pricing-rules', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toInput(form)),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save pricing rule')
+      }
+      toast({ title: "Saved", description: `Pricing rule "${data.rule.name}" saved` })
+      setForm(null)
+      fetchRules()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save pricing rule",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: PricingRule) => {
+    if (!confirm(`Delete the pricing rule "${rule.name}"?`)) return
+    try {
+      const response = await fetch(`/api/pricing-rules/${rule.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete pricing rule')
+      }
+      setRules(prev => prev.filter(item => item.id !== rule.id))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete pricing rule",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const categoryName = (id: string | null) => categories.find(category => category.id === id)?.name
+  const storeName = (url: string | null) =>
+    url ? connectedStores.find(store => store.shop === url)?.name || url : "All stores"
+
+  // Worked example for the rule being edited, so sellers can check the numbers before saving
+  const exampleCost = parseFloat(form?.minCost || "") || 1000
+  const example = form && form.markupValue !== "" ? applyPricingRule(toInput(form), exampleCost) : null
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Pricing Rules</h1>
+            <p className="text-gray-600">Retail prices are worked out from the supplier&apos;s wholesale cost when you push products</p>
+          </div>
+          <Button onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Rules</CardTitle>
+            <CardDescription>
+              For each product the first matching rule is used: rules for the store being pushed to come before rules for
+              all stores, then lower priority numbers first. Products matching no rule get a 50% markup. Prices never go
+              below the supplier&apos;s minimum advertised price.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : rules.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No pricing rules yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Store</TableHead>
+                    <TableHead>Applies to</TableHead>
+                    <TableHead>Markup</TableHead>
+                    <TableHead>Compare-at</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map(rule => (
+                    <TableRow key={rule.id} className={rule.is_active ? "" : "opacity-60"}>
+                      <TableCell>{rule.priority}</TableCell>
+                      <TableCell className="font-medium">
+                        {rule.name}
+                        {!rule.is_active && <Badge variant="outline" className="ml-2">Paused</Badge>}
+                      </TableCell>
+                      <TableCell>{storeName(rule.store_url)}</TableCell>
+                      <TableCell>{describeRuleConditions(rule, categoryName(rule.category_id))}</TableCell>
+                      <TableCell>{describeRuleMarkup(rule)}</TableCell>
+                      <TableCell>
+                        {rule.compare_at_type === 'percent' && `+${rule.compare_at_value}%`}
+                        {rule.compare_at_type === 'fixed' && `+₹${rule.compare_at_value}`}
+                        {rule.compare_at_type === 'none' && '—'}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(rule)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Pricing Rule" : "Add Pricing Rule"}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2 space-y-1">
+                  <Label htmlFor="rule-name">Name</Label>
+                  <Input
+                    id="rule-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Budget items"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-priority">Priority</Label>
+                  <Input
+                    id="rule-priority"
+                    type="number"
+                    step="1"
+                    value={form.priority}
+                    onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>Store</Label>
+                  <Select value={form.storeUrl} onValueChange={(value) => setForm({ ...form, storeUrl: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_STORES}>All stores</SelectItem>
+                      {connectedStores.map(store => (
+                        <SelectItem key={store.shop} value={store.shop}>{store.name || store.shop}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Category</Label>
+                  <Select value={form.categoryId} onValueChange={(value) => setForm({ ...form, categoryId: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_CATEGORY}>Any category</SelectItem>
+                      {categories.map(category => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {"  ".repeat(category.depth)}{category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="rule-min-cost">Wholesale cost from (₹)</Label>
+                  <Input
+                    id="rule-min-cost"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.minCost}
+                    onChange={(e) => setForm({ ...form, minCost: e.target.value })}
+                    placeholder="Any"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-max-cost">Wholesale cost up to (₹)</Label>
+                  <Input
+                    id="rule-max-cost"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.maxCost}
+                    onChange={(e) => setForm({ ...form, maxCost: e.target.value })}
+                    placeholder="Any"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>Markup</Label>
+                  <Select value={form.markupType} onValueChange={(value) => setForm({ ...form, markupType: value as MarkupType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MARKUP_TYPES.map(type => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule-markup">{form.markupType === 'percent' ? 'Markup (%)' : 'Markup (₹)'}</Label>
+                  <Input
+                    id="rule-markup"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.markupValue}
+                    onChange={(e) => setForm({ ...form, markupValue: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Price ending</Label>
+                <Select value={form.priceEnding} onValueChange={(value) => setForm({ ...form, priceEnding: value as PriceEnding })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRICE_ENDINGS.map(ending => (
+                      <SelectItem key={ending.value} value={ending.value}>{ending.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>Compare-at price</Label>
+                  <Select
+                    value={form.compareAtType}
+                    onValueChange={(value) => setForm({ ...form, compareAtType: value as CompareAtType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COMPARE_AT_TYPES.map(type => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {form.compareAtType !== 'none' && (
+                  <div className="space-y-1">
+                    <Label htmlFor="rule-compare-at">{form.compareAtType === 'percent' ? 'Above by (%)' : 'Above by (₹)'}</Label>
+                    <Input
+                      id="rule-compare-at"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={form.compareAtValue}
+                      onChange={(e) => setForm({ ...form, compareAtValue: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="rule-active">Rule is active</Label>
+                <Switch
+                  id="rule-active"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                />
+              </div>
+
+              {example && (
+                <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3">
+                  Example: a ₹{exampleCost} product sells for ₹{example.sellingPrice}
+                  {example.compareAtPrice !== null && <> with a compare-at price of ₹{example.compareAtPrice}</>}
+                </p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  )
+}
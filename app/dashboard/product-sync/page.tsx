@@ -0,0 +1,381 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useStore } from "@/contexts/store-context"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { AlertCircle, RefreshCw, Store, Unlink } from "lucide-react"
+import DashboardLayout from "@/components/dashboard-layout"
+import { CONTENT_SYNC_FIELDS, UNLINK_ACTIONS } from "@/lib/product-sync"
+import { ContentSyncField, ContentSyncLog, SyncedListing, UnlinkAction, UnlinkImpact } from "@/lib/types/product-sync"
+
+const fieldLabel = (field: ContentSyncField) =>
+  CONTENT_SYNC_FIELDS.find(entry => entry.value === field)?.label || field
+
+export default function ProductSyncPage() {
+  const { selectedStore, loading: layoutLoading } = useStore()
+  const [listings, setListings] = useState<SyncedListing[]>([])
+  const [logs, setLogs] = useState<ContentSyncLog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [retrying, setRetrying] = useState(false)
+  const [unlinkImpact, setUnlinkImpact] = useState<UnlinkImpact | null>(null)
+  const [unlinkAction, setUnlinkAction] = useState<UnlinkAction>('draft')
+  const [unlinking, setUnlinking] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!layoutLoading && selectedStore) {
+      fetchSyncData()
+    } else if (!layoutLoading) {
+      setLoading(false)
+    }
+  }, [selectedStore, layoutLoading])
+
+  const fetchSyncData = async () => {
+    if (!selectedStore) return
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/product-sync?storeUrl=${encodeURIComponent(selectedStore)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load product sync data')
+      }
+      setListings(data.listings || [])
+      setLogs(data.logs || [])
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load product sync data",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleOverride = async (listing: SyncedListing, field: ContentSyncField, overridden: boolean) => {
+    const overriddenFields = overridden
+      ? [...listing.overridden_fields, field]
+      : listing.overridden_fields.filter(item => item !== field)
+
+    setListings(prev => prev.map(item => item.id === listing.id ? { ...item, overridden_fields: overriddenFields } : item))
+    try {
+      const response = await fetch(`/api/product-sync/${listing.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storeUrl: selectedStore, overriddenFields }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save override')
+      }
+    } catch (error) {
+      setListings(prev => prev.map(item => item.id === listing.id ? listing : item))
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save override",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Send changes that could not be delivered earlier, e.g. while the store was disconnected
+  const retryPending = async () => {
+    const productIds = Array.from(new Set(
+      listings.filter(listing => listing.pending_content_fields.length > 0).map(listing => listing.supplier_product_id)
+    ))
+    setRetrying(true)
+    try {
+      for (const productId of productIds) {
+        await fetch('/api/product-sync', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ storeUrl: selectedStore, productId }),
+        })
+      }
+      await fetchSyncData()
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  // Show what removing the listing affects before doing it
+  const openUnlinkDialog = async (listing: SyncedListing) => {
+    try {
+      const response = await fetch(`/api/product-sync/${listing.id}/unlink?storeUrl=${encodeURIComponent(selectedStore!)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load listing')
+      }
+      setUnlinkAction('draft')
+      setUnlinkImpact(data)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load listing",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const confirmUnlink = async () => {
+    if (!unlinkImpact) return
+    setUnlinking(true)
+    try {
+      const response = await fetch(`/api/product-sync/${unlinkImpact.listing.id}/unlink`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storeUrl: selectedStore, action: unlinkAction }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove listing')
+      }
+      toast({
+        title: "Listing removed",
+        description: data.openOrders > 0
+          ? `${data.openOrders} open order${data.openOrders !== 1 ? 's' : ''} will still be fulfilled by the supplier`
+          : "The product is no longer linked to this store",
+      })
+      setUnlinkImpact(null)
+      await fetchSyncData()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove listing",
+        variant: "destructive",
+      })
+    } finally {
+      setUnlinking(false)
+    }
+  }
+
+  const getStatusBadge = (status: ContentSyncLog['status']) => {
+    switch (status) {
+      case 'success':
+        return <Badge className="bg-green-100 text-green-800">Success</Badge>
+      case 'partial':
+        return <Badge className="bg-yellow-100 text-yellow-800">Partial</Badge>
+      case 'skipped':
+        return <Badge className="bg-gray-100 text-gray-800">Skipped</Badge>
+      default:
+        return <Badge className="bg-red-100 text-red-800">Failed</Badge>
+    }
+  }
+
+  const pendingCount = listings.filter(listing => listing.pending_content_fields.length > 0).length
+
+  if (!layoutLoading && !selectedStore) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Store className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">Select a store to review product sync</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Product Sync</h1>
+            <p className="text-gray-600">Supplier changes to title, description, images and price are sent to the products you listed on {selectedStore}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {pendingCount > 0 && (
+              <Button variant="outline" onClick={retryPending} disabled={retrying}>
+                {retrying ? "Sending..." : `Send ${pendingCount} pending`}
+              </Button>
+            )}
+            <Button variant="outline" onClick={fetchSyncData} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Listings</CardTitle>
+            <CardDescription>
+              Tick a field to keep your own version in Shopify; supplier changes to it will no longer be sent.
+              Price changes move your retail price by the same proportion as the supplier&apos;s cost.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : listings.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No products have been pushed to this store yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    {CONTENT_SYNC_FIELDS.map(field => (
+                      <TableHead key={field.value}>Keep my {field.label.toLowerCase()}</TableHead>
+                    ))}
+                    <TableHead>Last synced</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {listings.map(listing => (
+                    <TableRow key={listing.id}>
+                      <TableCell>
+                        <div className="font-medium">{listing.product_title || "Deleted product"}</div>
+                        <div className="text-xs text-gray-500 font-mono">{listing.shopify_product_id}</div>
+                        {listing.pending_content_fields.length > 0 && (
+                          <Badge variant="outline" className="mt-1">
+                            Pending: {listing.pending_content_fields.map(fieldLabel).join(", ")}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      {CONTENT_SYNC_FIELDS.map(field => (
+                        <TableCell key={field.value}>
+                          <Checkbox
+                            checked={listing.overridden_fields.includes(field.value)}
+                            onCheckedChange={(checked) => toggleOverride(listing, field.value, checked === true)}
+                          />
+                        </TableCell>
+                      ))}
+                      <TableCell className="whitespace-nowrap text-sm text-gray-600">
+                        {listing.content_synced_at ? new Date(listing.content_synced_at).toLocaleString() : "Never"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => openUnlinkDialog(listing)}>
+                          <Unlink className="h-4 w-4 mr-1" />
+                          Remove
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sync Log</CardTitle>
+            <CardDescription>Most recent content updates sent to this store</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : logs.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No content updates have been sent yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Shopify Product</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.map(log => (
+                    <TableRow key={log.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(log.created_at).toLocaleString()}</TableCell>
+                      <TableCell className="font-mono text-sm">{log.shopify_product_id}</TableCell>
+                      <TableCell>{getStatusBadge(log.status)}</TableCell>
+                      <TableCell>{log.synced_fields.length > 0 ? log.synced_fields.map(fieldLabel).join(", ") : "—"}</TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {log.skipped_fields.length > 0 && (
+                          <div>Kept your {log.skipped_fields.map(field => fieldLabel(field).toLowerCase()).join(", ")}</div>
+                        )}
+                        {log.message && <div>{log.message}</div>}
+                        {log.errors.map((error, index) => (
+                          <div key={index} className="text-red-600">{error}</div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!unlinkImpact} onOpenChange={(open) => !open && setUnlinkImpact(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Remove {unlinkImpact?.listing.product_title || "listing"}</DialogTitle>
+            <DialogDescription>
+              The product stops receiving stock and content updates, and new orders for it are no longer sent to the supplier.
+            </DialogDescription>
+          </DialogHeader>
+          {unlinkImpact && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>In Shopify</Label>
+                <Select value={unlinkAction} onValueChange={(value) => setUnlinkAction(value as UnlinkAction)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNLINK_ACTIONS.map(action => (
+                      <SelectItem key={action.value} value={action.value}>{action.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-600">
+                  {UNLINK_ACTIONS.find(action => action.value === unlinkAction)?.description}
+                </p>
+              </div>
+
+              {unlinkImpact.open_orders.length === 0 ? (
+                <p className="text-sm text-gray-600">No open orders contain this product.</p>
+              ) : (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <p className="mb-2">
+                      {unlinkImpact.open_orders.length} open order{unlinkImpact.open_orders.length !== 1 ? 's' : ''} contain this product.
+                      They were placed before the removal, so the supplier still fulfils them.
+                    </p>
+                    <ul className="space-y-1 text-sm">
+                      {unlinkImpact.open_orders.map(order => (
+                        <li key={order.id}>
+                          {order.order_name || `#${order.order_number}`} · {order.quantity} unit{order.quantity !== 1 ? 's' : ''} · {order.status}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUnlinkImpact(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmUnlink} disabled={unlinking}>
+              {unlinking ? "Removing..." : UNLINK_ACTIONS.find(action => action.value === unlinkAction)?.label}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  )
+}
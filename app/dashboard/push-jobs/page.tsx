@@ -0,0 +1,283 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useStore } from "@/contexts/store-context"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { RefreshCw, RotateCcw, Store } from "lucide-react"
+import DashboardLayout from "@/components/dashboard-layout"
+import { PushJob, PushJobItem, PushJobWithItems } from "@/lib/types/push-job"
+
+const POLL_INTERVAL_MS = 3000
+
+const isActive = (job: PushJob) => job.status === 'queued' || job.status === 'running'
+// Matches the server's STALE_PUSH_MINUTES; a job that has not moved for this long was cut off and can be resumed
+const STALE_PUSH_MINUTES = 10
+const canResume = (job: PushJob) => isActive(job)
+  ? Date.now() - new Date(job.updated_at).getTime() > STALE_PUSH_MINUTES * 60 * 1000
+  : job.failed_items > 0
+
+export default function PushJobsPage() {
+  const { selectedStore, loading: layoutLoading } = useStore()
+  const [jobs, setJobs] = useState<PushJob[]>([])
+  const [selectedJob, setSelectedJob] = useState<PushJobWithItems | null>(null)
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [resuming, setResuming] = useState(false)
+  const { toast } = useToast()
+
+  const fetchJobs = useCallback(async () => {
+    if (!selectedStore) return
+    try {
+      const response = await fetch(`/api/push-jobs?storeUrl=${encodeURIComponent(selectedStore)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load push jobs')
+      }
+      setJobs(data.jobs || [])
+      setSelectedJobId(current => current || data.jobs?.[0]?.id || null)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load push jobs",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [selectedStore, toast])
+
+  const fetchJob = useCallback(async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/push-jobs/${jobId}`)
+      const data = await response.json()
+      if (response.ok) {
+        setSelectedJob(data.job)
+      }
+    } catch (error) {
+      console.error('Error fetching push job:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!layoutLoading && selectedStore) {
+      setLoading(true)
+      setSelectedJobId(null)
+      setSelectedJob(null)
+      fetchJobs()
+    } else if (!layoutLoading) {
+      setLoading(false)
+    }
+  }, [selectedStore, layoutLoading, fetchJobs])
+
+  useEffect(() => {
+    if (selectedJobId) fetchJob(selectedJobId)
+  }, [selectedJobId, fetchJob])
+
+  // Keep following progress while any job is still running
+  const hasActiveJobs = jobs.some(isActive)
+  useEffect(() => {
+    if (!hasActiveJobs) return
+    const timer = setInterval(() => {
+      fetchJobs()
+      if (selectedJobId) fetchJob(selectedJobId)
+    }, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [hasActiveJobs, selectedJobId, fetchJobs, fetchJob])
+
+  const resumeJob = async (jobId: string) => {
+    setResuming(true)
+    try {
+      const response = await fetch(`/api/push-jobs/${jobId}/resume`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resume push')
+      }
+      toast({ title: "Resumed", description: "Failed products are being pushed again" })
+      await fetchJobs()
+      await fetchJob(jobId)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resume push",
+        variant: "destructive",
+      })
+    } finally {
+      setResuming(false)
+    }
+  }
+
+  const getJobBadge = (status: PushJob['status']) => {
+    switch (status) {
+      case 'queued':
+        return <Badge className="bg-gray-100 text-gray-800">Queued</Badge>
+      case 'running':
+        return <Badge className="bg-blue-100 text-blue-800">Running</Badge>
+      case 'completed':
+        return <Badge className="bg-green-100 text-green-800">Completed</Badge>
+      case 'partial':
+        return <Badge className="bg-yellow-100 text-yellow-800">Partly failed</Badge>
+      default:
+        return <Badge className="bg-red-100 text-red-800">Failed</Badge>
+    }
+  }
+
+  const getItemBadge = (status: PushJobItem['status']) => {
+    switch (status) {
+      case 'pending':
+        return <Badge className="bg-gray-100 text-gray-800">Waiting</Badge>
+      case 'pushing':
+        return <Badge className="bg-blue-100 text-blue-800">Pushing</Badge>
+      case 'pushed':
+        return <Badge className="bg-green-100 text-green-800">Pushed</Badge>
+      default:
+        return <Badge className="bg-red-100 text-red-800">Failed</Badge>
+    }
+  }
+
+  const progressOf = (job: PushJob) =>
+    job.total_items > 0 ? Math.round(((job.pushed_items + job.failed_items) / job.total_items) * 100) : 0
+
+  if (!layoutLoading && !selectedStore) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Store className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">Select a store to see its bulk pushes</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Push Jobs</h1>
+            <p className="text-gray-600">Bulk pushes to {selectedStore} keep running after you leave this page</p>
+          </div>
+          <Button variant="outline" onClick={fetchJobs} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Jobs</CardTitle>
+            <CardDescription>Rate-limited and failed Shopify requests are retried automatically</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : jobs.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No bulk pushes yet. Select products on the dashboard to push several at once.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-1/3">Progress</TableHead>
+                    <TableHead>Pushed</TableHead>
+                    <TableHead>Failed</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map(job => (
+                    <TableRow
+                      key={job.id}
+                      className={`cursor-pointer ${job.id === selectedJobId ? 'bg-gray-50' : ''}`}
+                      onClick={() => setSelectedJobId(job.id)}
+                    >
+                      <TableCell className="whitespace-nowrap">{new Date(job.created_at).toLocaleString()}</TableCell>
+                      <TableCell>{getJobBadge(job.status)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Progress value={progressOf(job)} />
+                          <span className="text-xs text-gray-500 whitespace-nowrap">
+                            {job.pushed_items + job.failed_items}/{job.total_items}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{job.pushed_items}</TableCell>
+                      <TableCell className={job.failed_items > 0 ? "text-red-600" : ""}>{job.failed_items}</TableCell>
+                      <TableCell className="text-right">
+                        {canResume(job) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={resuming}
+                            onClick={(event) => {
+                              event.stopPropagation()
+                              resumeJob(job.id)
+                            }}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Resume
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedJob && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Products</CardTitle>
+              <CardDescription>Job started {new Date(selectedJob.created_at).toLocaleString()}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Selling</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedJob.items.map(item => (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium">{item.product_title}</TableCell>
+                      <TableCell>
+                        ₹{item.selling_price}
+                        {item.compare_at_price !== null && (
+                          <span className="ml-1 text-xs text-gray-500 line-through">₹{item.compare_at_price}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{getItemBadge(item.status)}</TableCell>
+                      <TableCell>{item.attempts}</TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {item.shopify_product_id && <div className="font-mono text-xs">{item.shopify_product_id}</div>}
+                        {item.error && <div className={item.status === 'failed' ? "text-red-600" : ""}>{item.error}</div>}
+                        {item.warnings.map((warning, index) => (
+                          <div key={index} className="text-yellow-700">{warning}</div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
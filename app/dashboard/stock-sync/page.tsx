@@ -0,0 +1,196 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useStore } from "@/contexts/store-context"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { RefreshCw, Store } from "lucide-react"
+import DashboardLayout from "@/components/dashboard-layout"
+import { InventorySyncLog, StoreSyncSettings } from "@/lib/types/inventory-sync"
+
+export default function StockSyncPage() {
+  const { selectedStore, loading: layoutLoading } = useStore()
+  const [settings, setSettings] = useState<StoreSyncSettings | null>(null)
+  const [logs, setLogs] = useState<InventorySyncLog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!layoutLoading && selectedStore) {
+      fetchSyncData()
+    } else if (!layoutLoading) {
+      setLoading(false)
+    }
+  }, [selectedStore, layoutLoading])
+
+  const fetchSyncData = async () => {
+    if (!selectedStore) return
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/inventory-sync?storeUrl=${encodeURIComponent(selectedStore)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load stock sync data')
+      }
+      setSettings(data.settings)
+      setLogs(data.logs || [])
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load stock sync data",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDraftToggle = async (checked: boolean) => {
+    if (!selectedStore) return
+    setSaving(true)
+    try {
+      const response = await fetch('/api/inventory-sync', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storeUrl: selectedStore, draftWhenOutOfStock: checked }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save setting')
+      }
+      setSettings(data.settings)
+      toast({
+        title: "Saved",
+        description: checked
+          ? "Products will be set to draft when they run out of stock"
+          : "Products will stay active when they run out of stock",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save setting",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const getStatusBadge = (status: InventorySyncLog['status']) => {
+    switch (status) {
+      case 'success':
+        return <Badge className="bg-green-100 text-green-800">Success</Badge>
+      case 'partial':
+        return <Badge className="bg-yellow-100 text-yellow-800">Partial</Badge>
+      default:
+        return <Badge className="bg-red-100 text-red-800">Failed</Badge>
+    }
+  }
+
+  if (!layoutLoading && !selectedStore) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Store className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">Select a store to review stock sync</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Stock Sync</h1>
+            <p className="text-gray-600">Supplier stock changes are pushed to the products you listed on {selectedStore}</p>
+          </div>
+          <Button variant="outline" onClick={fetchSyncData} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Out of stock behaviour</CardTitle>
+            <CardDescription>Inventory quantities are always kept in step; this controls product visibility</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="draft-when-out-of-stock">
+                Set products to draft when the supplier has no stock left, and re-activate them when stock returns
+              </Label>
+              <Switch
+                id="draft-when-out-of-stock"
+                checked={settings?.draft_when_out_of_stock || false}
+                onCheckedChange={handleDraftToggle}
+                disabled={loading || saving}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sync Log</CardTitle>
+            <CardDescription>Most recent stock updates sent to this store</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : logs.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No stock updates have been sent yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Shopify Product</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Available</TableHead>
+                    <TableHead>Variants</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.map(log => {
+                    const failures = log.details.filter(detail => !detail.success)
+                    return (
+                      <TableRow key={log.id}>
+                        <TableCell className="whitespace-nowrap">{new Date(log.created_at).toLocaleString()}</TableCell>
+                        <TableCell className="font-mono text-sm">{log.shopify_product_id}</TableCell>
+                        <TableCell>{getStatusBadge(log.status)}</TableCell>
+                        <TableCell>{log.total_available}</TableCell>
+                        <TableCell>{log.details.length - failures.length}/{log.details.length} updated</TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {log.product_status_change === 'draft' && <div>Set to draft (out of stock)</div>}
+                          {log.product_status_change === 'active' && <div>Re-activated (back in stock)</div>}
+                          {log.message && <div>{log.message}</div>}
+                          {failures.map(failure => (
+                            <div key={failure.shopify_variant_id} className="text-red-600">
+                              Variant {failure.shopify_variant_id}: {failure.error}
+                            </div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,301 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { Upload, FileSpreadsheet, Download, CheckCircle, AlertCircle } from "lucide-react"
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportPreview,
+  MAX_IMPORT_ROWS,
+  parseDelimited,
+  suggestColumnMapping,
+} from "@/lib/catalog-import"
+
+const UNMAPPED = "__none__"
+
+const TEMPLATE_CSV = [
+  "Handle,Title,Description,Price,Image URLs,Tags,SKU,Stock,Weight,Option1 Name,Option1 Value,Option2 Name,Option2 Value",
+  "classic-tee,Classic Tee,Soft cotton t-shirt,12.50,https://example.com/tee.jpg,\"cotton, summer\",TEE-S-BLK,40,0.2,Size,S,Color,Black",
+  "classic-tee,,,12.50,,,TEE-M-BLK,35,0.2,Size,M,Color,Black",
+  "steel-bottle,Steel Bottle,Insulated 750ml bottle,18.00,https://example.com/bottle.jpg,kitchen,BTL-750,120,0.4,,,,",
+].join("\n")
+
+interface ImportResult {
+  created: { key: string; productId: string }[]
+  failed: { key: string; rows: number[]; error: string }[]
+  skipped: number
+}
+
+export default function BulkImportPage() {
+  const [fileName, setFileName] = useState("")
+  const [csv, setCsv] = useState("")
+  const [headers, setHeaders] = useState<string[]>([])
+  const [rowCount, setRowCount] = useState(0)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const { toast } = useToast()
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const text = await file.text()
+    const rows = parseDelimited(text)
+    if (rows.length === 0) {
+      toast({
+        title: "Empty file",
+        description: "The selected file has no rows",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setFileName(file.name)
+    setCsv(text)
+    setHeaders(rows[0].map((header, index) => header.trim() || `Column ${index + 1}`))
+    setRowCount(rows.length - 1)
+    setMapping(suggestColumnMapping(rows[0]))
+    setPreview(null)
+    setResult(null)
+  }
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (value === UNMAPPED) {
+        delete next[field]
+      } else {
+        next[field] = Number(value)
+      }
+      return next
+    })
+    setPreview(null)
+  }
+
+  const submitImport = async (dryRun: boolean) => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/products/supplier/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv, mapping, dryRun }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed')
+      }
+
+      setPreview(data.preview)
+      if (!dryRun && data.created) {
+        setResult({ created: data.created, failed: data.failed, skipped: data.skipped })
+        toast({
+          title: "Import complete",
+          description: `${data.created.length} products submitted for approval`,
+        })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Import failed",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const downloadTemplate = () => {
+    const blob = new Blob([TEMPLATE_CSV], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'product-import-template.csv'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const resetImport = () => {
+    setFileName("")
+    setCsv("")
+    setHeaders([])
+    setRowCount(0)
+    setMapping({})
+    setPreview(null)
+    setResult(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Bulk Import</h1>
+          <p className="text-gray-600 dark:text-gray-400">Upload a CSV of your catalog and submit every valid product for approval</p>
+        </div>
+        <Button variant="outline" onClick={downloadTemplate}>
+          <Download className="h-4 w-4 mr-2" />
+          Download Template
+        </Button>
+      </div>
+
+      {/* Step 1: File */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            1. Upload File
+          </CardTitle>
+          <CardDescription>
+            CSV or tab-separated text, up to {MAX_IMPORT_ROWS} rows. Spreadsheets (XLSX) can be saved as CSV first.
+            Rows that share a handle are imported as variants of one product.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFileChange} />
+          {fileName && (
+            <p className="text-sm text-gray-600 mt-2 flex items-center gap-2">
+              <FileSpreadsheet className="h-4 w-4" />
+              {fileName}: {headers.length} columns, {rowCount} rows
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Step 2: Column mapping */}
+      {headers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Map Columns</CardTitle>
+            <CardDescription>Choose which column of your file holds each product field</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label>
+                    {field.label}
+                    {field.required && <span className="text-red-600"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] !== undefined ? String(mapping[field.key]) : UNMAPPED}
+                    onValueChange={(value) => handleMappingChange(field.key, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={() => submitImport(true)} disabled={loading}>
+                {loading ? "Checking..." : "Preview Import"}
+              </Button>
+              <Button variant="outline" onClick={resetImport} disabled={loading}>
+                Start Over
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Step 3: Dry-run preview */}
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Review</CardTitle>
+            <CardDescription>
+              {preview.validCount} products ready, {preview.invalidCount} with errors. Products with errors are skipped.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {preview.errors.length > 0 && (
+              <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+                {preview.errors.map((error, index) => (
+                  <div key={index}>Row {error.row}: {error.message}</div>
+                ))}
+              </div>
+            )}
+
+            {preview.products.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rows</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Variants</TableHead>
+                    <TableHead>Images</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.products.map(item => (
+                    <TableRow key={item.key}>
+                      <TableCell className="text-sm text-gray-600">
+                        {item.rows.length > 1 ? `${item.rows[0]}–${item.rows[item.rows.length - 1]}` : item.rows[0]}
+                      </TableCell>
+                      <TableCell className="font-medium">{item.product.title || "—"}</TableCell>
+                      <TableCell>${item.product.price.toFixed(2)}</TableCell>
+                      <TableCell>{item.product.variants?.length || "—"}</TableCell>
+                      <TableCell>{item.product.images?.length || 0}</TableCell>
+                      <TableCell>
+                        {item.errors.length === 0 ? (
+                          <Badge className="bg-green-100 text-green-800">
+                            <CheckCircle className="h-3 w-3 mr-1" />
+                            Ready
+                          </Badge>
+                        ) : (
+                          <div className="space-y-1">
+                            <Badge className="bg-red-100 text-red-800">
+                              <AlertCircle className="h-3 w-3 mr-1" />
+                              {item.errors.length} {item.errors.length === 1 ? "error" : "errors"}
+                            </Badge>
+                            {item.errors.map((error, index) => (
+                              <div key={index} className="text-xs text-red-600">
+                                Row {error.row}: {error.message}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {result ? (
+              <div className="rounded-md bg-green-50 p-4 text-sm text-green-800">
+                {result.created.length} products created as pending and sent for admin review.
+                {result.skipped > 0 && ` ${result.skipped} skipped because of errors.`}
+                {result.failed.length > 0 && ` ${result.failed.length} could not be saved: ${result.failed.map(item => item.key).join(', ')}.`}
+              </div>
+            ) : (
+              <Button onClick={() => submitImport(false)} disabled={loading || preview.validCount === 0}>
+                {loading ? "Importing..." : `Import ${preview.validCount} Products`}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/components/ui/use-toast"
-import { Package, Plus, List, CheckSquare, User, Bell, Settings, ShoppingCart } from "lucide-react"
+import { Package, Plus, List, CheckSquare, User, Bell, Settings, ShoppingCart, Upload } from "lucide-react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { supabase } from "@/lib/supabase"
@@ -178,6 +178,12 @@ export default function SupplierLayout({ children }: SupplierLayoutProps) {
       icon: Plus,
       current: pathname === "/supplier"
     },
+    {
+      name: "Bulk Import",
+      href: "/supplier/import",
+      icon: Upload,
+      current: pathname === "/supplier/import"
+    },
     {
       name: "My Products",
       href: "/supplier/products",
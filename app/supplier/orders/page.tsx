@@ -107,12 +107,6 @@ export default function SupplierOrdersPage() {
           })
         } else {
           console.log('No orders found containing supplier products')
-          if (!forceSync) {
-            // Automatically try to sync if no orders found
-            console.log('No orders found, trying to sync...')
-            await fetchSupplierOrders(true)
-            return
-          }
         }
       } else {
         console.error('API Error:', data)
@@ -1,29 +1,50 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/components/ui/use-toast"
 import { Package, Upload, Plus, Image as ImageIcon } from "lucide-react"
 import { ProductService } from "@/lib/product-service"
-import { CreateProductData } from "@/lib/types/product"
+import { CreateProductData, CreateProductVariantData, MapEnforcement, ProductOption } from "@/lib/types/product"
+import { validateVariants } from "@/lib/product-variants"
 import { supabase } from "@/lib/supabase"
+import { ProductVariantsEditor } from "@/components/product-variants-editor"
+import { CategoryService } from "@/lib/services/category-service"
+import { buildCategoryTree, flattenCategoryTree, normalizeTags } from "@/lib/product-taxonomy"
+import { CategoryNode } from "@/lib/types/category"
+import { ProductImage } from "@/lib/types/product-image"
+import { validateImageFile } from "@/lib/product-images"
+import { MAP_ENFORCEMENT_OPTIONS, validatePricing } from "@/lib/product-pricing"
+
+const NO_CATEGORY = "__none__"
 
 export default function ListProductPage() {
   const [formData, setFormData] = useState<CreateProductData>({
     title: "",
     description: "",
     price: 0,
-    images: []
+    images: [],
+    options: [],
+    variants: []
   })
   const [priceInput, setPriceInput] = useState("") // Separate state for price input
+  const [variantsEditorKey, setVariantsEditorKey] = useState(0) // Bumped to reset the variants editor
+  const [tagsInput, setTagsInput] = useState("") // Comma separated, normalized into formData.tags
+  const [categories, setCategories] = useState<CategoryNode[]>([])
   const [loading, setLoading] = useState(false)
   const [uploading, setUploading] = useState(false)
+  const [uploadedImages, setUploadedImages] = useState<Record<string, ProductImage>>({}) // Keyed by display URL
   const { toast } = useToast()
 
+  useEffect(() => {
+    CategoryService.getCategories().then(all => setCategories(flattenCategoryTree(buildCategoryTree(all))))
+  }, [])
+
   // Test function to check Supabase storage configuration
   const testStorageConnection = async () => {
     try {
@@ -109,35 +130,36 @@ export default function ListProductPage() {
         const file = files[i]
         console.log('Processing file:', file.name, 'Size:', file.size)
         
-        // Validate file size (10MB limit)
-        if (file.size > 10 * 1024 * 1024) {
-          toast({
-            title: "File Too Large",
-            description: `${file.name} is too large. Maximum size is 10MB.`,
-            variant: "destructive",
-          })
-          continue
-        }
-
-        // Validate file type
-        if (!file.type.startsWith('image/')) {
+        // Quick checks before sending; the server validates the decoded image again
+        const fileError = validateImageFile(file)
+        if (fileError) {
           toast({
-            title: "Invalid File Type",
-            description: `${file.name} is not an image file.`,
+            title: "Invalid Image",
+            description: fileError,
             variant: "destructive",
           })
           continue
         }
 
-        const url = await ProductService.uploadImage(file)
-        if (url) {
-          uploadedUrls.push(url)
-          console.log('Successfully uploaded:', file.name, 'URL:', url)
+        const { image, duplicate, error } = await ProductService.uploadImage(file)
+        if (image) {
+          uploadedUrls.push(image.url)
+          setUploadedImages(prev => ({ ...prev, [image.url]: image }))
+          console.log('Successfully uploaded:', file.name, 'URL:', image.url)
+
+          if (duplicate) {
+            toast({
+              title: image.duplicate_type === 'exact' ? "Duplicate Image" : "Similar Image Found",
+              description: image.duplicate_type === 'exact'
+                ? `${file.name} is identical to an image you uploaded before.`
+                : `${file.name} looks very similar to an image you uploaded before.`,
+            })
+          }
         } else {
           console.error('Failed to upload:', file.name)
           toast({
             title: "Upload Failed",
-            description: `Failed to upload ${file.name}. Please try again.`,
+            description: error || `Failed to upload ${file.name}. Please try again.`,
             variant: "destructive",
           })
         }
@@ -166,19 +188,35 @@ export default function ListProductPage() {
     }
   }
 
-  const handleInputChange = (field: keyof CreateProductData, value: string | number) => {
+  const handleInputChange = (field: keyof CreateProductData, value: string | number | null) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
     }))
   }
 
+  const handleTagsChange = (value: string) => {
+    setTagsInput(value)
+    setFormData(prev => ({
+      ...prev,
+      tags: normalizeTags(value)
+    }))
+  }
+
   const handlePriceChange = (value: string) => {
     setPriceInput(value) // Update the input display
     const numValue = parseFloat(value) || 0
     handleInputChange('price', numValue) // Update the form data
   }
 
+  const handleVariantsChange = (options: ProductOption[], variants: CreateProductVariantData[]) => {
+    setFormData(prev => ({
+      ...prev,
+      options,
+      variants
+    }))
+  }
+
   const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files
     if (!files || files.length === 0) {
@@ -194,6 +232,24 @@ export default function ListProductPage() {
     event.target.value = ''
   }
 
+  const handleAltTextChange = (url: string, altText: string) => {
+    setUploadedImages(prev => prev[url] ? { ...prev, [url]: { ...prev[url], alt_text: altText } } : prev)
+  }
+
+  const saveAltText = async (url: string) => {
+    const image = uploadedImages[url]
+    if (!image) return
+
+    const saved = await ProductService.updateImageAltText(image.id, image.alt_text || "")
+    if (!saved) {
+      toast({
+        title: "Error",
+        description: "Failed to save the image description.",
+        variant: "destructive",
+      })
+    }
+  }
+
   const removeImage = (index: number) => {
     setFormData(prev => ({
       ...prev,
@@ -213,26 +269,33 @@ export default function ListProductPage() {
       return
     }
 
+    const pricingError = validatePricing(formData)
+    if (pricingError) {
+      toast({
+        title: "Invalid Pricing",
+        description: pricingError,
+        variant: "destructive",
+      })
+      return
+    }
+
+    const variantErrors = validateVariants(formData.options, formData.variants)
+    if (variantErrors.length > 0) {
+      toast({
+        title: "Invalid Variants",
+        description: variantErrors[0],
+        variant: "destructive",
+      })
+      return
+    }
+
     setLoading(true)
 
     try {
       console.log('Creating product with data:', formData)
       
-      // Get supplier name from localStorage for backwards compatibility
-      const supplierName = localStorage.getItem('supplierName')
-      console.log('Supplier name from localStorage:', supplierName)
-      
-      // Build URL with supplier name parameter for backwards compatibility
-      let url = '/api/products/supplier'
-      const params = new URLSearchParams()
-      
-      if (supplierName) {
-        params.append('supplierName', supplierName)
-      }
-      
-      if (params.toString()) {
-        url += `?${params.toString()}`
-      }
+      // The supplier is resolved from the session cookie on the server
+      const url = '/api/products/supplier'
       
       const response = await fetch(url, {
         method: 'POST',
@@ -255,9 +318,14 @@ export default function ListProductPage() {
           title: "",
           description: "",
           price: 0,
-          images: []
+          images: [],
+          options: [],
+          variants: []
         })
         setPriceInput("") // Reset price input display
+        setTagsInput("")
+        setUploadedImages({})
+        setVariantsEditorKey(prev => prev + 1)
       } else {
         throw new Error(data.error || "Failed to create product")
       }
@@ -265,7 +333,7 @@ export default function ListProductPage() {
       console.error('Error creating product:', error)
       toast({
         title: "Creation Failed",
-        description: "Failed to create product. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to create product. Please try again.",
         variant: "destructive",
       })
     } finally {
@@ -311,7 +379,7 @@ export default function ListProductPage() {
               </div>
               
               <div className="space-y-2">
-                <Label htmlFor="price">Price (₹) *</Label>
+                <Label htmlFor="price">Wholesale Cost (₹) *</Label>
                 <Input
                   id="price"
                   type="number"
@@ -319,12 +387,112 @@ export default function ListProductPage() {
                   step="0.01"
                   value={priceInput}
                   onChange={(e) => handlePriceChange(e.target.value)}
-                  placeholder="Enter price"
+                  placeholder="What sellers pay you"
                   required
                 />
               </div>
             </div>
 
+            {/* Retail pricing guidance for sellers */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="suggested-retail-price">Suggested Retail Price (₹)</Label>
+                <Input
+                  id="suggested-retail-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.suggested_retail_price ?? ""}
+                  onChange={(e) => handleInputChange('suggested_retail_price', parseFloat(e.target.value) || null)}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="map-price">Minimum Advertised Price (₹)</Label>
+                <Input
+                  id="map-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.map_price ?? ""}
+                  onChange={(e) => handleInputChange('map_price', parseFloat(e.target.value) || null)}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Below MAP</Label>
+                <Select
+                  value={formData.map_enforcement || 'block'}
+                  onValueChange={(value) => handleInputChange('map_enforcement', value as MapEnforcement)}
+                  disabled={!formData.map_price}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAP_ENFORCEMENT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}: {option.description.toLowerCase()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Stock (variants carry their own stock) */}
+            {(formData.variants || []).length === 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <Label htmlFor="initial-stock">Stock on hand</Label>
+                  <Input
+                    id="initial-stock"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={formData.initial_stock ?? ""}
+                    onChange={(e) => handleInputChange('initial_stock', parseInt(e.target.value) || 0)}
+                    placeholder="Units available to sell"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Category and tags */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={formData.category_id || NO_CATEGORY}
+                  onValueChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    category_id: value === NO_CATEGORY ? null : value
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {"  ".repeat(category.depth)}{category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tags">Tags</Label>
+                <Input
+                  id="tags"
+                  value={tagsInput}
+                  onChange={(e) => handleTagsChange(e.target.value)}
+                  placeholder="e.g. cotton, summer, bestseller"
+                />
+              </div>
+            </div>
+
             {/* Description */}
             <div className="space-y-2">
               <Label htmlFor="description">Description *</Label>
@@ -338,6 +506,14 @@ export default function ListProductPage() {
               />
             </div>
 
+            {/* Variants */}
+            <ProductVariantsEditor
+              key={variantsEditorKey}
+              basePrice={formData.price}
+              variants={formData.variants || []}
+              onChange={handleVariantsChange}
+            />
+
             {/* Image Upload */}
             <div className="space-y-4">
               <Label>Product Images</Label>
@@ -364,14 +540,14 @@ export default function ListProductPage() {
                     id="image-upload"
                     type="file"
                     multiple
-                    accept="image/*"
+                    accept="image/jpeg,image/png,image/webp,image/gif"
                     onChange={handleImageUpload}
                     className="hidden"
                     disabled={uploading}
                     style={{ display: 'none' }}
                   />
                   <p className="mt-2 text-sm text-gray-500">
-                    Click to select images • PNG, JPG, GIF up to 10MB each
+                    Click to select images • JPG, PNG, WebP or GIF up to 10MB each, at least 200×200
                   </p>
                   <p className="mt-1 text-xs text-gray-400">
                     You can select multiple images at once • Drag & drop also supported
@@ -385,12 +561,21 @@ export default function ListProductPage() {
                   <Label className="text-sm font-medium">Uploaded Images ({formData.images.length})</Label>
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     {formData.images.map((url, index) => (
-                      <div key={index} className="relative group">
+                      <div key={index} className="relative group space-y-1">
                         <img
-                          src={url}
-                          alt={`Product image ${index + 1}`}
+                          src={uploadedImages[url]?.thumbnail_url || url}
+                          alt={uploadedImages[url]?.alt_text || `Product image ${index + 1}`}
                           className="w-full h-32 object-cover rounded-lg border border-gray-200 dark:border-gray-700"
                         />
+                        {uploadedImages[url] && (
+                          <Input
+                            value={uploadedImages[url].alt_text || ""}
+                            onChange={(e) => handleAltTextChange(url, e.target.value)}
+                            onBlur={() => saveAltText(url)}
+                            placeholder="Describe this image"
+                            className="h-8 text-xs"
+                          />
+                        )}
                         <button
                           type="button"
                           onClick={() => removeImage(index)}
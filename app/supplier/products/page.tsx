@@ -6,16 +6,26 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { useToast } from "@/components/ui/use-toast"
-import { Package, Search, Edit, Trash2, Eye, Calendar } from "lucide-react"
+import { Package, Search, Edit, Trash2, Eye, Calendar, Boxes, Download } from "lucide-react"
 import { ProductService } from "@/lib/product-service"
 import { Product } from "@/lib/types/product"
+import { InventoryLevel } from "@/lib/types/inventory"
 import { supabase } from "@/lib/supabase"
+import { StockAdjustmentDialog } from "@/components/stock-adjustment-dialog"
+import { CatalogExportDialog, downloadCatalogExport } from "@/components/catalog-export-dialog"
+import { CatalogExportFilters, ExportFormat } from "@/lib/catalog-export"
+import { ProductEditDialog } from "@/components/product-edit-dialog"
+import { RejectionFeedback } from "@/components/moderation-history"
 
 export default function MyProductsPage() {
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState("")
   const [filterStatus, setFilterStatus] = useState<string>("all")
+  const [inventory, setInventory] = useState<InventoryLevel[]>([])
+  const [stockProduct, setStockProduct] = useState<Product | null>(null)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [editingProductId, setEditingProductId] = useState<string | null>(null)
   const { toast } = useToast()
 
   useEffect(() => {
@@ -23,8 +33,44 @@ export default function MyProductsPage() {
     console.log('🔍 PRODUCTS PAGE - Checking current user...')
     checkCurrentUser()
     fetchProducts()
+    fetchInventory()
   }, [])
 
+  const fetchInventory = async () => {
+    try {
+      const response = await fetch('/api/inventory')
+      const data = await response.json()
+      if (response.ok) {
+        setInventory(data.inventory || [])
+      } else {
+        console.error('Inventory API Error:', data)
+      }
+    } catch (error) {
+      console.error('Error fetching inventory:', error)
+    }
+  }
+
+  const handleExport = async (format: ExportFormat, filters: CatalogExportFilters) => {
+    try {
+      await downloadCatalogExport(format, filters)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export products",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const getProductStock = (productId: string) => {
+    const levels = inventory.filter(level => level.product_id === productId)
+    return {
+      levels,
+      onHand: levels.reduce((total, level) => total + level.on_hand, 0),
+      available: levels.reduce((total, level) => total + level.on_hand - level.reserved, 0),
+    }
+  }
+
   const checkCurrentUser = async () => {
     try {
       console.log('🔍 PRODUCTS PAGE - Full localStorage debug:')
@@ -66,21 +112,8 @@ export default function MyProductsPage() {
                 try {
                   setLoading(true)
                   
-                  // Get supplier name from localStorage for backwards compatibility
-                  const supplierName = localStorage.getItem('supplierName')
-                  console.log('Supplier name from localStorage:', supplierName)
-                  
-                  // Build URL with supplier name parameter for backwards compatibility
-                  let url = '/api/products/supplier'
-                  const params = new URLSearchParams()
-                  
-                  if (supplierName) {
-                    params.append('supplierName', supplierName)
-                  }
-                  
-                  if (params.toString()) {
-                    url += `?${params.toString()}`
-                  }
+                  // The supplier is resolved from the session cookie on the server
+                  const url = '/api/products/supplier'
                   
                   console.log('Fetching products from:', url)
                   
@@ -124,21 +157,7 @@ export default function MyProductsPage() {
                 if (!confirm("Are you sure you want to delete this product?")) return
 
                 try {
-                  // Get supplier name from localStorage for backwards compatibility
-                  const supplierName = localStorage.getItem('supplierName')
-                  console.log('Supplier name from localStorage for delete:', supplierName)
-                  
-                  // Build URL with supplier name parameter for backwards compatibility
-                  let url = `/api/products/supplier/${productId}`
-                  const params = new URLSearchParams()
-                  
-                  if (supplierName) {
-                    params.append('supplierName', supplierName)
-                  }
-                  
-                  if (params.toString()) {
-                    url += `?${params.toString()}`
-                  }
+                  const url = `/api/products/supplier/${productId}`
                   
                   const response = await fetch(url, {
                     method: 'DELETE',
@@ -223,8 +242,19 @@ export default function MyProductsPage() {
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">My Products</h1>
           <p className="text-gray-600 dark:text-gray-400">Manage your product listings</p>
         </div>
+        <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
       </div>
 
+      <CatalogExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        showStatus
+        onExport={handleExport}
+      />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
@@ -350,7 +380,9 @@ export default function MyProductsPage() {
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredProducts.map((product) => (
+          {filteredProducts.map((product) => {
+            const stock = getProductStock(product.id)
+            return (
             <Card key={product.id} className="overflow-hidden">
               {/* Product Image */}
               <div className="aspect-square bg-gray-100 dark:bg-gray-800 relative">
@@ -367,8 +399,11 @@ export default function MyProductsPage() {
                 )}
                 
                 {/* Status Badge */}
-                <div className="absolute top-2 right-2">
+                <div className="absolute top-2 right-2 flex flex-col items-end gap-1">
                   {getStatusBadge(product.status)}
+                  {product.pending_revision_id && (
+                    <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300">Changes in review</Badge>
+                  )}
                 </div>
               </div>
 
@@ -395,15 +430,44 @@ export default function MyProductsPage() {
                     </div>
                   </div>
 
+                  {/* Stock */}
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {product.variants && product.variants.length > 0
+                        ? `${product.variants.length} variants`
+                        : 'Single variant'}
+                    </span>
+                    <span className={stock.available > 0 ? "text-gray-900 dark:text-white" : "text-red-600 dark:text-red-400"}>
+                      {stock.available} available / {stock.onHand} on hand
+                    </span>
+                  </div>
+
+                  {product.status === 'rejected' && (
+                    <RejectionFeedback reasons={product.rejection_reasons || []} feedback={product.rejection_feedback} />
+                  )}
+
                   {/* Actions */}
                   <div className="flex gap-2 pt-2">
-                    <Button variant="outline" size="sm" className="flex-1">
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => setEditingProductId(product.id)}>
                       <Eye className="h-4 w-4 mr-1" />
-                      View
+                      {product.status === 'rejected' ? 'Fix & Resubmit' : 'View'}
                     </Button>
-                    <Button variant="outline" size="sm">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditingProductId(product.id)}
+                      title="Edit"
+                    >
                       <Edit className="h-4 w-4" />
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setStockProduct(product)}
+                      title="Manage stock"
+                    >
+                      <Boxes className="h-4 w-4" />
+                    </Button>
                     <Button 
                       variant="outline" 
                       size="sm"
@@ -416,9 +480,24 @@ export default function MyProductsPage() {
                 </div>
               </CardContent>
             </Card>
-          ))}
+            )
+          })}
         </div>
       )}
+
+      <StockAdjustmentDialog
+        open={!!stockProduct}
+        onOpenChange={(open) => !open && setStockProduct(null)}
+        productTitle={stockProduct?.title || ""}
+        levels={stockProduct ? getProductStock(stockProduct.id).levels : []}
+        onAdjusted={fetchInventory}
+      />
+
+      <ProductEditDialog
+        productId={editingProductId}
+        onOpenChange={(open) => !open && setEditingProductId(null)}
+        onSaved={fetchProducts}
+      />
     </div>
   )
 } 
\ No newline at end of file
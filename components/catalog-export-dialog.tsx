@@ -0,0 +1,155 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download } from "lucide-react"
+import { CatalogExportFilters, ExportFormat, exportFileName } from "@/lib/catalog-export"
+
+const ALL = "all"
+
+interface CatalogExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  showStatus?: boolean
+  suppliers?: { id: string; name: string }[]
+  onExport: (format: ExportFormat, filters: CatalogExportFilters) => Promise<void> | void
+}
+
+// Trigger a browser download for CSV text built on the client
+export function downloadCsv(csv: string, fileName: string) {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Download an export from GET /api/products/export, which scopes the catalog to the signed-in user
+export async function downloadCatalogExport(format: ExportFormat, filters: CatalogExportFilters) {
+  const params = new URLSearchParams({ format })
+  if (filters.status) params.set('status', filters.status)
+  if (filters.supplierId) params.set('supplier', filters.supplierId)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+
+  const response = await fetch(`/api/products/export?${params.toString()}`)
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Failed to export products')
+  }
+
+  downloadCsv(await response.text(), exportFileName(format))
+}
+
+export function CatalogExportDialog({ open, onOpenChange, showStatus = false, suppliers, onExport }: CatalogExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('shopify')
+  const [status, setStatus] = useState<string>(ALL)
+  const [supplierId, setSupplierId] = useState<string>(ALL)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async () => {
+    setExporting(true)
+    try {
+      await onExport(format, {
+        status: status === ALL ? undefined : status as CatalogExportFilters['status'],
+        supplierId: supplierId === ALL ? undefined : supplierId,
+        from: from || undefined,
+        to: to || undefined,
+      })
+      onOpenChange(false)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Catalog</DialogTitle>
+          <DialogDescription>
+            Shopify CSV can be uploaded under Products → Import in any Shopify admin. Generic CSV has one row per variant.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="shopify">Shopify product CSV</SelectItem>
+                <SelectItem value="generic">Generic CSV</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {showStatus && (
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {suppliers && suppliers.length > 0 && (
+            <div className="space-y-1">
+              <Label>Supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All suppliers</SelectItem>
+                  {suppliers.map(supplier => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="export-from">Created from</Label>
+              <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="export-to">Created to</Label>
+              <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { cn } from "@/lib/utils"
+import { CatalogFacets } from "@/lib/types/catalog-browse"
+
+export interface CatalogFilters {
+  categoryId?: string
+  supplierIds: string[]
+  tags: string[]
+  priceRange?: string
+}
+
+export const EMPTY_CATALOG_FILTERS: CatalogFilters = { supplierIds: [], tags: [] }
+
+interface CatalogFacetsPanelProps {
+  facets: CatalogFacets | null
+  filters: CatalogFilters
+  onChange: (filters: CatalogFilters) => void
+}
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter(item => item !== value) : [...list, value]
+}
+
+export function CatalogFacetsPanel({ facets, filters, onChange }: CatalogFacetsPanelProps) {
+  const hasFilters = !!filters.categoryId || !!filters.priceRange || filters.supplierIds.length > 0 || filters.tags.length > 0
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900">Filters</h3>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onChange(EMPTY_CATALOG_FILTERS)}>
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {facets && facets.categories.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Category</h4>
+            <div className="space-y-1">
+              {facets.categories.map(category => (
+                <button
+                  key={category.value}
+                  type="button"
+                  onClick={() => onChange({
+                    ...filters,
+                    categoryId: filters.categoryId === category.value ? undefined : category.value,
+                  })}
+                  className={cn(
+                    "flex w-full items-center justify-between rounded px-2 py-1 text-sm text-left hover:bg-gray-100",
+                    filters.categoryId === category.value && "bg-blue-50 text-blue-700 font-medium"
+                  )}
+                  style={{ paddingLeft: `${0.5 + category.depth * 0.75}rem` }}
+                >
+                  <span className="truncate">{category.label}</span>
+                  <span className="text-xs text-gray-500">{category.count}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {facets && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Price</h4>
+            <div className="space-y-1">
+              {facets.priceRanges.map(range => (
+                <button
+                  key={range.value}
+                  type="button"
+                  disabled={range.count === 0 && filters.priceRange !== range.value}
+                  onClick={() => onChange({
+                    ...filters,
+                    priceRange: filters.priceRange === range.value ? undefined : range.value,
+                  })}
+                  className={cn(
+                    "flex w-full items-center justify-between rounded px-2 py-1 text-sm text-left hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent",
+                    filters.priceRange === range.value && "bg-blue-50 text-blue-700 font-medium"
+                  )}
+                >
+                  <span>{range.label}</span>
+                  <span className="text-xs text-gray-500">{range.count}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {facets && facets.suppliers.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Supplier</h4>
+            <div className="space-y-2">
+              {facets.suppliers.map(supplier => (
+                <label key={supplier.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={filters.supplierIds.includes(supplier.value)}
+                    onCheckedChange={() => onChange({ ...filters, supplierIds: toggle(filters.supplierIds, supplier.value) })}
+                  />
+                  <span className="flex-1 truncate">{supplier.label}</span>
+                  <span className="text-xs text-gray-500">{supplier.count}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {facets && facets.tags.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Tags</h4>
+            <div className="flex flex-wrap gap-1">
+              {facets.tags.map(tag => (
+                <button
+                  key={tag.value}
+                  type="button"
+                  onClick={() => onChange({ ...filters, tags: toggle(filters.tags, tag.value) })}
+                  className={cn(
+                    "rounded-full border px-2 py-0.5 text-xs",
+                    filters.tags.includes(tag.value)
+                      ? "border-blue-600 bg-blue-600 text-white"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-100"
+                  )}
+                >
+                  {tag.label} ({tag.count})
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
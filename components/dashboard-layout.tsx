@@ -7,7 +7,7 @@ import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
-import { Home, Package, Truck, BarChart3, Menu, X, Bell, User, Settings, LogOut, Store, Plus, Trash2, RefreshCw } from "lucide-react"
+import { Home, Package, Truck, BarChart3, Boxes, Percent, Menu, X, Bell, User, Settings, LogOut, Store, Plus, Trash2, RefreshCw, Upload, Link2, ShieldCheck, FileText } from "lucide-react"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { useStore } from "@/contexts/store-context"
@@ -18,6 +18,13 @@ const navigation = [
   { name: "My Stores", href: "/dashboard/stores", icon: Store },
   { name: "Manage Orders", href: "/dashboard/orders", icon: Package },
   { name: "Manage Delivery", href: "/dashboard/delivery", icon: Truck },
+  { name: "Stock Sync", href: "/dashboard/stock-sync", icon: Boxes },
+  { name: "Product Sync", href: "/dashboard/product-sync", icon: RefreshCw },
+  { name: "Push Jobs", href: "/dashboard/push-jobs", icon: Upload },
+  { name: "Link Products", href: "/dashboard/link-products", icon: Link2 },
+  { name: "Mapping Health", href: "/dashboard/mappings", icon: ShieldCheck },
+  { name: "Listing Template", href: "/dashboard/listing-template", icon: FileText },
+  { name: "Pricing Rules", href: "/dashboard/pricing", icon: Percent },
   { name: "Analytics", href: "/dashboard/analytics", icon: BarChart3 },
 ]
 
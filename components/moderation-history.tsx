@@ -0,0 +1,65 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { ModerationAction, ModerationEvent } from "@/lib/types/moderation"
+import { getRejectionReasonLabel } from "@/lib/product-moderation"
+
+const actionLabels: Record<ModerationAction, string> = {
+  submitted: "Submitted",
+  approved: "Approved",
+  rejected: "Rejected",
+  resubmitted: "Resubmitted",
+}
+
+const actionStyles: Record<ModerationAction, string> = {
+  submitted: "bg-blue-100 text-blue-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  resubmitted: "bg-yellow-100 text-yellow-800",
+}
+
+export function RejectionFeedback({ reasons, feedback }: { reasons: string[]; feedback: string | null }) {
+  if (reasons.length === 0 && !feedback) return null
+
+  return (
+    <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 space-y-2">
+      {reasons.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {reasons.map(reason => (
+            <Badge key={reason} variant="outline" className="border-red-300 text-red-700">
+              {getRejectionReasonLabel(reason)}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {feedback && <p className="whitespace-pre-wrap">{feedback}</p>}
+    </div>
+  )
+}
+
+export function ModerationHistoryList({ events }: { events: ModerationEvent[] }) {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No moderation history yet.</p>
+  }
+
+  return (
+    <ol className="space-y-3">
+      {[...events].reverse().map(event => (
+        <li key={event.id} className="border-l-2 border-gray-200 pl-3 text-sm">
+          <div className="flex items-center gap-2">
+            <Badge className={actionStyles[event.action]}>{actionLabels[event.action]}</Badge>
+            <span className="text-gray-500">
+              {new Date(event.created_at).toLocaleString()} · {event.actor_type === 'admin' ? 'Admin' : 'Supplier'} {event.actor}
+            </span>
+          </div>
+          {event.reasons.length > 0 && (
+            <p className="mt-1 text-gray-700">
+              {event.reasons.map(getRejectionReasonLabel).join(", ")}
+            </p>
+          )}
+          {event.feedback && <p className="mt-1 text-gray-600 whitespace-pre-wrap">{event.feedback}</p>}
+        </li>
+      ))}
+    </ol>
+  )
+}
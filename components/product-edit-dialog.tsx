@@ -0,0 +1,471 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { ArrowLeft, ArrowRight, X } from "lucide-react"
+import { ModerationHistoryList, RejectionFeedback } from "@/components/moderation-history"
+import { getPendingChanges, RevisionDiffTable } from "@/components/product-revisions"
+import { CategoryService } from "@/lib/services/category-service"
+import { buildCategoryTree, flattenCategoryTree, normalizeTags } from "@/lib/product-taxonomy"
+import { getVariantTitle } from "@/lib/product-variants"
+import { getImageSizeUrl } from "@/lib/product-images"
+import { MAP_ENFORCEMENT_OPTIONS } from "@/lib/product-pricing"
+import { ProductService } from "@/lib/product-service"
+import { CategoryNode } from "@/lib/types/category"
+import { ModerationEvent } from "@/lib/types/moderation"
+import { MapEnforcement, Product } from "@/lib/types/product"
+import { ProductRevision } from "@/lib/types/product-revision"
+
+const NO_CATEGORY = "__none__"
+
+interface VariantForm {
+  id: string
+  title: string
+  sku: string
+  price: string
+  weight: string
+}
+
+interface ProductForm {
+  title: string
+  description: string
+  price: string
+  suggestedRetailPrice: string
+  mapPrice: string
+  mapEnforcement: MapEnforcement
+  categoryId: string
+  tags: string
+  images: string[]
+  altTexts: Record<string, string> // Keyed by image URL; only processed uploads have alt text
+  variants: VariantForm[]
+}
+
+interface ProductEditDialogProps {
+  productId: string | null
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+function toForm(product: Product): ProductForm {
+  return {
+    title: product.title,
+    description: product.description || "",
+    price: String(product.price),
+    suggestedRetailPrice: product.suggested_retail_price === null ? "" : String(product.suggested_retail_price),
+    mapPrice: product.map_price === null ? "" : String(product.map_price),
+    mapEnforcement: product.map_enforcement || "block",
+    categoryId: product.category_id || NO_CATEGORY,
+    tags: (product.tags || []).join(", "),
+    images: product.images || [],
+    altTexts: Object.fromEntries((product.media || []).map(image => [image.url, image.alt_text || ""])),
+    variants: [...(product.variants || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(variant => ({
+        id: variant.id,
+        title: getVariantTitle(variant),
+        sku: variant.sku || "",
+        price: String(variant.price),
+        weight: variant.weight === null ? "" : String(variant.weight),
+      })),
+  }
+}
+
+export function ProductEditDialog({ productId, onOpenChange, onSaved }: ProductEditDialogProps) {
+  const [product, setProduct] = useState<Product | null>(null)
+  const [history, setHistory] = useState<ModerationEvent[]>([])
+  const [pendingRevision, setPendingRevision] = useState<ProductRevision | null>(null)
+  const [form, setForm] = useState<ProductForm | null>(null)
+  const [categories, setCategories] = useState<CategoryNode[]>([])
+  const [note, setNote] = useState("")
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    CategoryService.getCategories().then(all => setCategories(flattenCategoryTree(buildCategoryTree(all))))
+  }, [])
+
+  useEffect(() => {
+    if (!productId) {
+      setProduct(null)
+      setForm(null)
+      setHistory([])
+      setPendingRevision(null)
+      setNote("")
+      return
+    }
+
+    fetch(`/api/products/supplier/${productId}`)
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load product")
+        setProduct(data.product)
+        setHistory(data.history || [])
+        setPendingRevision(data.pendingRevision || null)
+        setForm(toForm(data.product))
+      })
+      .catch(error => {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load product",
+          variant: "destructive",
+        })
+        onOpenChange(false)
+      })
+  }, [productId])
+
+  const updateVariant = (id: string, field: keyof VariantForm, value: string) => {
+    if (!form) return
+    setForm({
+      ...form,
+      variants: form.variants.map(variant => variant.id === id ? { ...variant, [field]: value } : variant),
+    })
+  }
+
+  const moveImage = (index: number, offset: number) => {
+    if (!form) return
+    const images = [...form.images]
+    const [moved] = images.splice(index, 1)
+    images.splice(index + offset, 0, moved)
+    setForm({ ...form, images })
+  }
+
+  const saveAltText = async (url: string) => {
+    const image = product?.media?.find(item => item.url === url)
+    if (!image || !form) return
+
+    const saved = await ProductService.updateImageAltText(image.id, form.altTexts[url] || "")
+    if (!saved) {
+      toast({
+        title: "Error",
+        description: "Failed to save the image description.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSave = async (resubmit: boolean) => {
+    if (!product || !form) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/products/supplier/${product.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: form.title,
+          description: form.description,
+          price: parseFloat(form.price),
+          suggested_retail_price: form.suggestedRetailPrice === "" ? null : parseFloat(form.suggestedRetailPrice),
+          map_price: form.mapPrice === "" ? null : parseFloat(form.mapPrice),
+          map_enforcement: form.mapEnforcement,
+          category_id: form.categoryId === NO_CATEGORY ? null : form.categoryId,
+          tags: normalizeTags(form.tags),
+          images: form.images,
+          variants: form.variants.map(variant => ({
+            id: variant.id,
+            sku: variant.sku,
+            price: parseFloat(variant.price),
+            weight: variant.weight === "" ? null : parseFloat(variant.weight),
+          })),
+          resubmit,
+          note,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save product")
+
+      toast({
+        title: resubmit ? "Product Resubmitted" : data.pendingReview ? "Changes Submitted" : "Product Saved",
+        description: resubmit
+          ? `${data.product.title} is back in the review queue.`
+          : data.pendingReview
+            ? "Title, price and image changes go live once an admin approves them."
+            : `${data.product.title} has been updated.`,
+      })
+      setProduct(data.product)
+      setHistory(data.history || [])
+      setPendingRevision(data.pendingRevision || null)
+      setForm(toForm(data.product))
+      setNote("")
+      onSaved()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save product",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!productId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Product</DialogTitle>
+          <DialogDescription>
+            {product?.status === "rejected"
+              ? "Address the feedback below, then resubmit the product for review."
+              : product?.status === "approved"
+                ? "Title, price and image changes need admin approval; sellers see the current version until then."
+                : "Changes are saved while the product waits for review."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!product || !form ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {pendingRevision && (
+              <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 space-y-2">
+                <p className="text-sm font-medium text-yellow-900">
+                  Changes awaiting admin approval (submitted {new Date(pendingRevision.created_at).toLocaleString()})
+                </p>
+                <RevisionDiffTable changes={getPendingChanges(product, pendingRevision)} />
+                <p className="text-xs text-yellow-800">New title, price or image changes are added to this request; fields it already changes only need editing to change them again.</p>
+              </div>
+            )}
+
+            {product.status === "rejected" && (
+              <RejectionFeedback reasons={product.rejection_reasons || []} feedback={product.rejection_feedback} />
+            )}
+
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="edit-title">Title</Label>
+                <Input
+                  id="edit-title"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="edit-description">Description</Label>
+                <Textarea
+                  id="edit-description"
+                  rows={4}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="edit-price">Wholesale Cost (₹)</Label>
+                  <Input
+                    id="edit-price"
+                    type="number"
+                    step="0.01"
+                    value={form.price}
+                    onChange={(e) => setForm({ ...form, price: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Category</Label>
+                  <Select
+                    value={form.categoryId}
+                    onValueChange={(value) => setForm({ ...form, categoryId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                      {categories.map(category => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {"  ".repeat(category.depth)}{category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="edit-retail-price">Suggested Retail (₹)</Label>
+                  <Input
+                    id="edit-retail-price"
+                    type="number"
+                    step="0.01"
+                    value={form.suggestedRetailPrice}
+                    onChange={(e) => setForm({ ...form, suggestedRetailPrice: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="edit-map-price">Minimum Advertised (₹)</Label>
+                  <Input
+                    id="edit-map-price"
+                    type="number"
+                    step="0.01"
+                    value={form.mapPrice}
+                    onChange={(e) => setForm({ ...form, mapPrice: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Below MAP</Label>
+                  <Select
+                    value={form.mapEnforcement}
+                    onValueChange={(value) => setForm({ ...form, mapEnforcement: value as MapEnforcement })}
+                    disabled={form.mapPrice === ""}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MAP_ENFORCEMENT_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="edit-tags">Tags</Label>
+                <Input
+                  id="edit-tags"
+                  value={form.tags}
+                  onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                  placeholder="Comma separated, e.g. cotton, summer"
+                />
+              </div>
+            </div>
+
+            {form.images.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-2">Images</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {form.images.map((url, index) => (
+                    <div key={url} className="space-y-1">
+                      <img
+                        src={getImageSizeUrl(product.media, url, "thumbnail")}
+                        alt={form.altTexts[url] || `Product image ${index + 1}`}
+                        className="w-full h-24 object-cover rounded border"
+                      />
+                      <div className="flex gap-1">
+                        <Button type="button" variant="outline" size="sm" className="h-7 px-2" disabled={index === 0} onClick={() => moveImage(index, -1)}>
+                          <ArrowLeft className="h-3 w-3" />
+                        </Button>
+                        <Button type="button" variant="outline" size="sm" className="h-7 px-2" disabled={index === form.images.length - 1} onClick={() => moveImage(index, 1)}>
+                          <ArrowRight className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-red-600"
+                          onClick={() => setForm({ ...form, images: form.images.filter(image => image !== url) })}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      {url in form.altTexts && (
+                        <Input
+                          value={form.altTexts[url]}
+                          onChange={(e) => setForm({ ...form, altTexts: { ...form.altTexts, [url]: e.target.value } })}
+                          onBlur={() => saveAltText(url)}
+                          placeholder="Describe this image"
+                          className="h-7 text-xs"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">The first image is the main product photo. Alt text is saved when you leave the field.</p>
+              </div>
+            )}
+
+            {form.variants.length > 1 && (
+              <div>
+                <h4 className="font-medium mb-2">Variants</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Variant</TableHead>
+                      <TableHead>SKU</TableHead>
+                      <TableHead>Price (₹)</TableHead>
+                      <TableHead>Weight</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {form.variants.map(variant => (
+                      <TableRow key={variant.id}>
+                        <TableCell className="font-medium">{variant.title}</TableCell>
+                        <TableCell>
+                          <Input
+                            value={variant.sku}
+                            onChange={(e) => updateVariant(variant.id, "sku", e.target.value)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={variant.price}
+                            onChange={(e) => updateVariant(variant.id, "price", e.target.value)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={variant.weight}
+                            onChange={(e) => updateVariant(variant.id, "weight", e.target.value)}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {product.status === "rejected" && (
+              <div className="space-y-1">
+                <Label htmlFor="resubmit-note">Note for the reviewer (optional)</Label>
+                <Textarea
+                  id="resubmit-note"
+                  rows={2}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Describe what you changed"
+                />
+              </div>
+            )}
+
+            <div>
+              <h4 className="font-medium mb-2">Moderation History</h4>
+              <ModerationHistoryList events={history} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Close
+          </Button>
+          {product && (
+            <Button variant="outline" onClick={() => handleSave(false)} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          )}
+          {product?.status === "rejected" && (
+            <Button onClick={() => handleSave(true)} disabled={saving}>
+              Save & Resubmit
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
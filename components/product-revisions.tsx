@@ -0,0 +1,230 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { CheckCircle, XCircle } from "lucide-react"
+import { ProductRevisionService } from "@/lib/services/product-revision-service"
+import { buildProductSnapshot, diffSnapshots, formatRevisionValue, getRevisionFieldLabel } from "@/lib/product-revisions"
+import { Product } from "@/lib/types/product"
+import { ProductRevision, ProductRevisionStatus, RevisionFieldChange } from "@/lib/types/product-revision"
+
+const statusStyles: Record<ProductRevisionStatus, string> = {
+  applied: "bg-gray-100 text-gray-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  superseded: "bg-gray-100 text-gray-500",
+}
+
+export function RevisionDiffTable({ changes }: { changes: RevisionFieldChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">No differences.</p>
+  }
+
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            <TableHead>Before</TableHead>
+            <TableHead>After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {changes.map(change => (
+            <TableRow key={change.field}>
+              <TableCell className="font-medium whitespace-nowrap">
+                {change.label}
+                {change.material && <Badge variant="outline" className="ml-2 text-xs">Needs review</Badge>}
+              </TableCell>
+              <TableCell className="text-red-700 line-through break-all">{formatRevisionValue(change.before)}</TableCell>
+              <TableCell className="text-green-700 break-all">{formatRevisionValue(change.after)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+// Changes a pending revision would make to the live product
+export function getPendingChanges(product: Product, revision: ProductRevision): RevisionFieldChange[] {
+  return diffSnapshots(buildProductSnapshot(product), revision.snapshot)
+    .filter(change => revision.changed_fields.includes(change.field))
+}
+
+interface ProductRevisionsPanelProps {
+  product: Product
+  adminName: string
+  onReviewed: () => void
+}
+
+// Admin view of a product's revisions: review the pending change and compare any two revisions
+export function ProductRevisionsPanel({ product, adminName, onReviewed }: ProductRevisionsPanelProps) {
+  const [revisions, setRevisions] = useState<ProductRevision[]>([])
+  const [fromId, setFromId] = useState("")
+  const [toId, setToId] = useState("")
+  const [note, setNote] = useState("")
+  const [reviewing, setReviewing] = useState(false)
+  const { toast } = useToast()
+
+  const loadRevisions = async () => {
+    const all = await ProductRevisionService.getRevisions(product.id)
+    setRevisions(all)
+    setToId(all[0]?.id || "")
+    setFromId(all[1]?.id || all[0]?.id || "")
+  }
+
+  useEffect(() => {
+    loadRevisions()
+  }, [product.id])
+
+  const pending = revisions.find(revision => revision.id === product.pending_revision_id && revision.status === "pending")
+  const from = revisions.find(revision => revision.id === fromId)
+  const to = revisions.find(revision => revision.id === toId)
+
+  const handleReview = async (approve: boolean) => {
+    if (!pending) return
+
+    setReviewing(true)
+    try {
+      const result = approve
+        ? await ProductRevisionService.approveRevision(pending.id, adminName)
+        : await ProductRevisionService.rejectRevision(pending.id, adminName, note)
+      if (!result.success) throw new Error(result.error)
+
+      // Stores that already list the product receive approved changes from the server-side sync job
+      if (approve) {
+        fetch("/api/product-sync", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ productId: product.id }),
+        }).catch(error => console.error("Failed to start content sync:", error))
+      }
+
+      toast({
+        title: approve ? "Changes Approved" : "Changes Rejected",
+        description: approve
+          ? "The live product now shows the supplier's changes."
+          : "The live product was left unchanged.",
+      })
+      setNote("")
+      await loadRevisions()
+      onReviewed()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review changes.",
+        variant: "destructive",
+      })
+    } finally {
+      setReviewing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {pending && (
+        <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-4 space-y-3">
+          <div>
+            <h4 className="font-medium text-yellow-900">Changes awaiting approval (revision {pending.revision_number})</h4>
+            <p className="text-sm text-yellow-800">
+              Submitted by {pending.author} on {new Date(pending.created_at).toLocaleString()}. Sellers see the live version until you approve.
+            </p>
+          </div>
+          <RevisionDiffTable changes={getPendingChanges(product, pending)} />
+          <div className="flex gap-2">
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the supplier if rejecting (optional)"
+            />
+            <Button onClick={() => handleReview(true)} disabled={reviewing}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Approve
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleReview(false)}
+              disabled={reviewing}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Reject
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {revisions.length > 0 && (
+        <div className="border rounded-lg max-h-64 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Changed</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Date</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {revisions.map(revision => (
+                <TableRow key={revision.id}>
+                  <TableCell>{revision.revision_number}</TableCell>
+                  <TableCell>
+                    <Badge className={statusStyles[revision.status]}>{revision.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {revision.changed_fields.length > 0
+                      ? revision.changed_fields.map(field => getRevisionFieldLabel(field, revision.snapshot)).join(", ")
+                      : "Initial version"}
+                    {revision.review_note && <div className="text-xs text-gray-500">{revision.review_note}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm">{revision.author}</TableCell>
+                  <TableCell className="text-sm">{new Date(revision.created_at).toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {revisions.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-500">Compare</span>
+            <Select value={fromId} onValueChange={setFromId}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map(revision => (
+                  <SelectItem key={revision.id} value={revision.id}>Revision {revision.revision_number}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-gray-500">with</span>
+            <Select value={toId} onValueChange={setToId}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map(revision => (
+                  <SelectItem key={revision.id} value={revision.id}>Revision {revision.revision_number}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {from && to && <RevisionDiffTable changes={diffSnapshots(from.snapshot, to.snapshot)} />}
+        </div>
+      )}
+    </div>
+  )
+}
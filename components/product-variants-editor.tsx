@@ -0,0 +1,195 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Plus, Trash2 } from "lucide-react"
+import { CreateProductVariantData, ProductOption } from "@/lib/types/product"
+import {
+  MAX_PRODUCT_OPTIONS,
+  cleanOptions,
+  generateVariantCombinations,
+  getVariantTitle,
+  variantKey,
+} from "@/lib/product-variants"
+
+interface OptionInput {
+  name: string
+  valuesText: string
+}
+
+interface ProductVariantsEditorProps {
+  basePrice: number
+  variants: CreateProductVariantData[]
+  onChange: (options: ProductOption[], variants: CreateProductVariantData[]) => void
+}
+
+function parseOptions(inputs: OptionInput[]): ProductOption[] {
+  return cleanOptions(inputs.map(input => ({
+    name: input.name,
+    values: input.valuesText.split(','),
+  })))
+}
+
+export function ProductVariantsEditor({ basePrice, variants, onChange }: ProductVariantsEditorProps) {
+  const [optionInputs, setOptionInputs] = useState<OptionInput[]>([])
+
+  // Regenerate the variant grid, keeping anything already typed for combinations that still exist
+  const updateOptions = (inputs: OptionInput[]) => {
+    setOptionInputs(inputs)
+    const options = parseOptions(inputs)
+    const existing = new Map(variants.map(variant => [variantKey(variant), variant]))
+
+    const nextVariants = generateVariantCombinations(options).map(combo => {
+      const previous = existing.get(variantKey(combo))
+      return {
+        price: basePrice,
+        inventory_quantity: 0,
+        weight_unit: 'kg' as const,
+        ...previous,
+        ...combo,
+      }
+    })
+
+    onChange(options, nextVariants)
+  }
+
+  const updateVariant = (index: number, changes: Partial<CreateProductVariantData>) => {
+    const nextVariants = variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant))
+    onChange(parseOptions(optionInputs), nextVariants)
+  }
+
+  const addOption = () => {
+    if (optionInputs.length >= MAX_PRODUCT_OPTIONS) return
+    updateOptions([...optionInputs, { name: "", valuesText: "" }])
+  }
+
+  const removeOption = (index: number) => {
+    updateOptions(optionInputs.filter((_, i) => i !== index))
+  }
+
+  const setOptionField = (index: number, field: keyof OptionInput, value: string) => {
+    updateOptions(optionInputs.map((input, i) => (i === index ? { ...input, [field]: value } : input)))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Variants</Label>
+          <p className="text-sm text-gray-500">
+            Add options like Size or Color to sell this product in several variations
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addOption}
+          disabled={optionInputs.length >= MAX_PRODUCT_OPTIONS}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Option
+        </Button>
+      </div>
+
+      {optionInputs.map((input, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-end">
+          <div className="space-y-2">
+            <Label htmlFor={`option-name-${index}`}>Option name</Label>
+            <Input
+              id={`option-name-${index}`}
+              value={input.name}
+              onChange={(e) => setOptionField(index, 'name', e.target.value)}
+              placeholder="e.g. Size"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`option-values-${index}`}>Values (comma separated)</Label>
+            <Input
+              id={`option-values-${index}`}
+              value={input.valuesText}
+              onChange={(e) => setOptionField(index, 'valuesText', e.target.value)}
+              placeholder="e.g. S, M, L, XL"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => removeOption(index)}
+            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            title="Remove option"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {variants.length > 0 && (
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Price (₹)</TableHead>
+                <TableHead>Weight (kg)</TableHead>
+                <TableHead>Stock</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {variants.map((variant, index) => (
+                <TableRow key={variantKey(variant)}>
+                  <TableCell className="font-medium whitespace-nowrap">{getVariantTitle(variant)}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={variant.sku || ""}
+                      onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                      placeholder="SKU"
+                      className="min-w-[120px]"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={variant.price || ""}
+                      onChange={(e) => updateVariant(index, { price: parseFloat(e.target.value) || 0 })}
+                      className="min-w-[100px]"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={variant.weight ?? ""}
+                      onChange={(e) => updateVariant(index, {
+                        weight: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+                      })}
+                      className="min-w-[90px]"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={variant.inventory_quantity ?? 0}
+                      onChange={(e) => updateVariant(index, { inventory_quantity: parseInt(e.target.value) || 0 })}
+                      className="min-w-[80px]"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
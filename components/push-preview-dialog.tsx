@@ -0,0 +1,158 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { getVariantTitle } from "@/lib/product-variants"
+import { PushPreview } from "@/lib/types/push-template"
+
+interface PushPreviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  storeUrl: string
+  preview: PushPreview | null
+}
+
+// Request the product a push would send, rendered on the server with the store's template
+export async function fetchPushPreview(
+  storeUrl: string,
+  productId: string,
+  sellingPrice: number,
+  compareAtPrice: number | null
+): Promise<PushPreview> {
+  const response = await fetch('/api/push-preview', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ storeUrl, productId, sellingPrice, compareAtPrice }),
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to preview product')
+  }
+  return data.preview
+}
+
+export function PushPreviewDialog({ open, onOpenChange, storeUrl, preview }: PushPreviewDialogProps) {
+  const [changesOnly, setChangesOnly] = useState(true)
+  const product = preview?.product
+  const diff = preview?.diff?.filter(entry => !changesOnly || entry.changed) || []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Push Preview</DialogTitle>
+          <DialogDescription>
+            {preview?.existing
+              ? `${storeUrl} already has this product. Updating it would make these changes.`
+              : `This is the product that will be created in ${storeUrl}.`}
+          </DialogDescription>
+        </DialogHeader>
+        {product && (
+          <div className="max-h-[60vh] overflow-y-auto space-y-4">
+            {preview.existing && (
+              preview.diff ? (
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <Checkbox checked={changesOnly} onCheckedChange={(checked) => setChangesOnly(checked === true)} />
+                    Only show fields that change
+                  </label>
+                  {diff.length === 0 ? (
+                    <p className="text-sm text-gray-500">The live listing already matches this push</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Field</TableHead>
+                          <TableHead>Live in Shopify</TableHead>
+                          <TableHead>After push</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {diff.map(entry => (
+                          <TableRow key={entry.field} className={entry.changed ? "bg-yellow-50" : ""}>
+                            <TableCell className="font-medium whitespace-nowrap">{entry.label}</TableCell>
+                            <TableCell className="text-sm text-gray-600 break-all">{entry.live ?? "—"}</TableCell>
+                            <TableCell className="text-sm break-all">{entry.proposed ?? "—"}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-yellow-700">The live listing could not be read from Shopify, so no comparison is shown.</p>
+              )
+            )}
+
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <div className="text-gray-500">Title</div>
+                <div className="font-medium">{product.title}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Vendor</div>
+                <div>{product.vendor || "Store name (set by Shopify)"}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Product type</div>
+                <div>{product.product_type || "—"}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Tags</div>
+                <div className="flex flex-wrap gap-1">
+                  {product.tags
+                    ? product.tags.split(',').map(tag => <Badge key={tag} variant="secondary">{tag.trim()}</Badge>)
+                    : "—"}
+                </div>
+              </div>
+            </div>
+
+            <div className="text-sm">
+              <div className="text-gray-500 mb-1">Description (HTML)</div>
+              <pre className="whitespace-pre-wrap break-all rounded bg-gray-50 p-3 text-xs">{product.body_html || "—"}</pre>
+            </div>
+
+            <div className="text-sm">
+              <div className="text-gray-500 mb-1">Images ({product.images.length})</div>
+              <ul className="text-xs text-gray-600 space-y-1">
+                {product.images.map(image => (
+                  <li key={image.src} className="break-all">{image.src}{image.alt && ` · alt: ${image.alt}`}</li>
+                ))}
+              </ul>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variant</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Compare-at</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {product.variants.map(variant => (
+                  <TableRow key={getVariantTitle(variant)}>
+                    <TableCell>{getVariantTitle(variant)}</TableCell>
+                    <TableCell>{variant.sku || "—"}</TableCell>
+                    <TableCell>₹{variant.price}</TableCell>
+                    <TableCell>{variant.compare_at_price ? `₹${variant.compare_at_price}` : "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
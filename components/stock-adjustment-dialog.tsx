@@ -0,0 +1,218 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { History } from "lucide-react"
+import { InventoryLevel, StockMovement } from "@/lib/types/inventory"
+import { getVariantTitle } from "@/lib/product-variants"
+
+interface StockAdjustmentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  productTitle: string
+  levels: InventoryLevel[]
+  onAdjusted: () => void
+}
+
+const movementLabels: Record<StockMovement['movement_type'], string> = {
+  initial: "Initial",
+  adjustment: "Adjustment",
+  reservation: "Reserved",
+  release: "Released",
+  shipment: "Shipped",
+}
+
+export function StockAdjustmentDialog({ open, onOpenChange, productTitle, levels, onAdjusted }: StockAdjustmentDialogProps) {
+  const [deltas, setDeltas] = useState<Record<string, string>>({})
+  const [reason, setReason] = useState("")
+  const [saving, setSaving] = useState("")
+  const [historyLevelId, setHistoryLevelId] = useState<string | null>(null)
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const { toast } = useToast()
+
+  const sortedLevels = [...levels].sort((a, b) => (a.variant?.position || 0) - (b.variant?.position || 0))
+
+  const loadHistory = async (levelId: string) => {
+    if (historyLevelId === levelId) {
+      setHistoryLevelId(null)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/inventory/${levelId}/movements`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load stock history")
+      setMovements(data.movements || [])
+      setHistoryLevelId(levelId)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load stock history",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleAdjust = async (level: InventoryLevel) => {
+    const delta = parseInt(deltas[level.id] || "")
+    if (!delta) return
+
+    setSaving(level.id)
+    try {
+      const response = await fetch('/api/inventory', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ levelId: level.id, delta, reason }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to adjust stock")
+
+      toast({
+        title: "Stock Updated",
+        description: `${delta > 0 ? 'Added' : 'Removed'} ${Math.abs(delta)} units`,
+      })
+      setDeltas(prev => ({ ...prev, [level.id]: "" }))
+      if (historyLevelId === level.id) {
+        setHistoryLevelId(null)
+      }
+      onAdjusted()
+    } catch (error) {
+      toast({
+        title: "Adjustment Failed",
+        description: error instanceof Error ? error.message : "Failed to adjust stock",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving("")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Manage Stock</DialogTitle>
+          <DialogDescription>{productTitle}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for adjustment (e.g. restock, damaged goods)"
+          />
+
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variant</TableHead>
+                  <TableHead>On hand</TableHead>
+                  <TableHead>Reserved</TableHead>
+                  <TableHead>Available</TableHead>
+                  <TableHead>Adjust by</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedLevels.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                      No stock records for this product yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sortedLevels.map((level) => {
+                    const available = level.on_hand - level.reserved
+                    return (
+                      <TableRow key={level.id}>
+                        <TableCell className="font-medium">
+                          {level.variant ? getVariantTitle(level.variant) : 'Default'}
+                          {level.variant?.sku && (
+                            <div className="text-xs text-gray-500 font-mono">{level.variant.sku}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{level.on_hand}</TableCell>
+                        <TableCell>{level.reserved}</TableCell>
+                        <TableCell>
+                          <Badge className={available > 0 ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+                            {available}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="1"
+                            value={deltas[level.id] || ""}
+                            onChange={(e) => setDeltas(prev => ({ ...prev, [level.id]: e.target.value }))}
+                            placeholder="+10 / -2"
+                            className="w-24"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              onClick={() => handleAdjust(level)}
+                              disabled={!parseInt(deltas[level.id] || "") || saving === level.id}
+                            >
+                              {saving === level.id ? "Saving..." : "Apply"}
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => loadHistory(level.id)} title="Stock history">
+                              <History className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {historyLevelId && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-500">Stock History</h4>
+              <div className="border rounded-lg max-h-60 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>On hand</TableHead>
+                      <TableHead>Reserved</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {movements.map((movement) => (
+                      <TableRow key={movement.id}>
+                        <TableCell className="text-xs">{new Date(movement.created_at).toLocaleString()}</TableCell>
+                        <TableCell>{movementLabels[movement.movement_type]}</TableCell>
+                        <TableCell>
+                          {movement.on_hand_delta !== 0 && `${movement.on_hand_delta > 0 ? '+' : ''}${movement.on_hand_delta} → `}
+                          {movement.on_hand_after}
+                        </TableCell>
+                        <TableCell>
+                          {movement.reserved_delta !== 0 && `${movement.reserved_delta > 0 ? '+' : ''}${movement.reserved_delta} → `}
+                          {movement.reserved_after}
+                        </TableCell>
+                        <TableCell className="text-xs text-gray-500">{movement.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
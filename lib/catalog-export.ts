@@ -0,0 +1,188 @@
+import { Product, ProductVariant, WeightUnit } from './types/product'
+import { buildShopifyProduct } from './shopify-product'
+import { getDefaultSellingPrice } from './product-pricing'
+import { slugify } from './product-taxonomy'
+
+export type ExportFormat = 'shopify' | 'generic'
+
+export interface CatalogExportFilters {
+  supplierId?: string
+  status?: Product['status']
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+}
+
+// Available stock keyed by stockKey(productId, variantId)
+export type StockLookup = Map<string, number>
+
+export function stockKey(productId: string, variantId: string | null): string {
+  return `${productId}:${variantId || ''}`
+}
+
+const GRAMS_PER_UNIT: Record<WeightUnit, number> = { g: 1, kg: 1000, lb: 453.592, oz: 28.3495 }
+
+// Column order of Shopify's product import template
+const SHOPIFY_COLUMNS = [
+  'Handle', 'Title', 'Body (HTML)', 'Vendor', 'Type', 'Tags', 'Published',
+  'Option1 Name', 'Option1 Value', 'Option2 Name', 'Option2 Value', 'Option3 Name', 'Option3 Value',
+  'Variant SKU', 'Variant Grams', 'Variant Inventory Tracker', 'Variant Inventory Qty', 'Variant Inventory Policy',
+  'Variant Fulfillment Service', 'Variant Price', 'Variant Requires Shipping', 'Variant Taxable', 'Variant Weight Unit',
+  'Image Src', 'Image Position', 'Status',
+] as const
+
+// Header names match the bulk import so a generic export can be edited and imported again
+const GENERIC_COLUMNS = [
+  'Product ID', 'Variant ID', 'Handle', 'Title', 'Description', 'Price', 'SKU', 'Stock', 'Weight', 'Weight Unit',
+  'Option1 Name', 'Option1 Value', 'Option2 Name', 'Option2 Value', 'Option3 Name', 'Option3 Value',
+  'Image URLs', 'Category', 'Tags', 'Status', 'Supplier ID', 'Supplier Name', 'Created At', 'Updated At',
+] as const
+
+type Row<Columns extends readonly string[]> = Partial<Record<Columns[number], string | number>>
+
+function escapeCell(value: string | number | undefined): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv<Columns extends readonly string[]>(columns: Columns, rows: Row<Columns>[]): string {
+  const lines = [columns.join(',')]
+  for (const row of rows) {
+    lines.push(columns.map(column => escapeCell(row[column as Columns[number]])).join(','))
+  }
+  return lines.join('\r\n') + '\r\n'
+}
+
+// URL-safe handle; the id suffix keeps products with the same title apart
+export function productHandle(product: Pick<Product, 'id' | 'title'>): string {
+  const slug = slugify(product.title)
+  return `${slug || 'product'}-${product.id.slice(0, 8)}`
+}
+
+function sortedVariants(product: Product): ProductVariant[] {
+  return [...(product.variants || [])].sort((a, b) => a.position - b.position)
+}
+
+function toGrams(weight: number | null | undefined, unit: WeightUnit): number | undefined {
+  if (weight === null || weight === undefined) return undefined
+  return Math.round(weight * GRAMS_PER_UNIT[unit])
+}
+
+// Shopify product CSV: the first row carries the product, further rows add variants and images under the same handle
+export function buildShopifyCsv(products: Product[], stock: StockLookup = new Map()): string {
+  const rows: Row<typeof SHOPIFY_COLUMNS>[] = []
+
+  for (const product of products) {
+    const handle = productHandle(product)
+    // Listed at the supplier's suggested retail price so imported listings respect MAP
+    const payload = buildShopifyProduct(product, getDefaultSellingPrice(product))
+    const variants = sortedVariants(product)
+    const options = payload.options || []
+
+    const variantRows: Row<typeof SHOPIFY_COLUMNS>[] = payload.variants.map((variant, index) => {
+      const source = variants[index]
+      const available = stock.get(stockKey(product.id, source?.id || null))
+      return {
+        'Handle': handle,
+        'Option1 Name': index === 0 ? options[0]?.name || 'Title' : undefined,
+        'Option1 Value': variant.option1 || (options.length === 0 ? 'Default Title' : undefined),
+        'Option2 Name': index === 0 ? options[1]?.name : undefined,
+        'Option2 Value': variant.option2,
+        'Option3 Name': index === 0 ? options[2]?.name : undefined,
+        'Option3 Value': variant.option3,
+        'Variant SKU': variant.sku,
+        'Variant Grams': toGrams(source?.weight, source?.weight_unit || 'kg'),
+        'Variant Inventory Tracker': 'shopify',
+        'Variant Inventory Qty': available ?? source?.inventory_quantity ?? 0,
+        'Variant Inventory Policy': 'deny',
+        'Variant Fulfillment Service': 'manual',
+        'Variant Price': variant.price,
+        'Variant Requires Shipping': 'TRUE',
+        'Variant Taxable': 'TRUE',
+        'Variant Weight Unit': source?.weight_unit || 'kg',
+      }
+    })
+
+    Object.assign(variantRows[0], {
+      'Title': payload.title,
+      'Body (HTML)': payload.body_html,
+      'Vendor': payload.vendor,
+      'Type': payload.product_type,
+      'Tags': payload.tags || '',
+      'Published': 'TRUE',
+      'Status': 'active',
+    })
+
+    // Images ride along on the variant rows and continue on image-only rows
+    payload.images.forEach((image, index) => {
+      const row = variantRows[index] || { 'Handle': handle }
+      row['Image Src'] = image.src
+      row['Image Position'] = index + 1
+      if (!variantRows[index]) variantRows.push(row)
+    })
+
+    rows.push(...variantRows)
+  }
+
+  return toCsv(SHOPIFY_COLUMNS, rows)
+}
+
+// Flat CSV with one row per variant (or per product without variants)
+export function buildGenericCsv(products: Product[], stock: StockLookup = new Map()): string {
+  const rows: Row<typeof GENERIC_COLUMNS>[] = []
+
+  for (const product of products) {
+    const base: Row<typeof GENERIC_COLUMNS> = {
+      'Product ID': product.id,
+      'Handle': productHandle(product),
+      'Title': product.title,
+      'Description': product.description || '',
+      'Image URLs': product.images.join(' | '),
+      'Category': product.category?.name || '',
+      'Tags': (product.tags || []).join(', '),
+      'Status': product.status,
+      'Supplier ID': product.supplier_id,
+      'Supplier Name': product.supplier_name || '',
+      'Created At': product.created_at,
+      'Updated At': product.updated_at,
+    }
+    const variants = sortedVariants(product)
+
+    if (variants.length === 0) {
+      rows.push({
+        ...base,
+        'Price': product.price,
+        'Stock': stock.get(stockKey(product.id, null)) ?? '',
+      })
+      continue
+    }
+
+    for (const variant of variants) {
+      rows.push({
+        ...base,
+        'Variant ID': variant.id,
+        'Price': variant.price,
+        'SKU': variant.sku || '',
+        'Stock': stock.get(stockKey(product.id, variant.id)) ?? variant.inventory_quantity,
+        'Weight': variant.weight ?? '',
+        'Weight Unit': variant.weight_unit,
+        'Option1 Name': product.options[0]?.name,
+        'Option1 Value': variant.option1 || '',
+        'Option2 Name': product.options[1]?.name,
+        'Option2 Value': variant.option2 || '',
+        'Option3 Name': product.options[2]?.name,
+        'Option3 Value': variant.option3 || '',
+      })
+    }
+  }
+
+  return toCsv(GENERIC_COLUMNS, rows)
+}
+
+export function buildCatalogCsv(format: ExportFormat, products: Product[], stock?: StockLookup): string {
+  return format === 'shopify' ? buildShopifyCsv(products, stock) : buildGenericCsv(products, stock)
+}
+
+export function exportFileName(format: ExportFormat): string {
+  const date = new Date().toISOString().slice(0, 10)
+  return format === 'shopify' ? `shopify-products-${date}.csv` : `products-${date}.csv`
+}
@@ -0,0 +1,341 @@
+import { CreateProductData, ProductOption } from './types/product'
+import { MAX_PRODUCT_OPTIONS, validateVariants } from './product-variants'
+import { normalizeTags } from './product-taxonomy'
+
+// Keep a single import request to a size the API can validate in one go
+export const MAX_IMPORT_ROWS = 2000
+
+export type ImportField =
+  | 'handle'
+  | 'title'
+  | 'description'
+  | 'price'
+  | 'images'
+  | 'tags'
+  | 'sku'
+  | 'stock'
+  | 'weight'
+  | 'option1_name'
+  | 'option1_value'
+  | 'option2_name'
+  | 'option2_value'
+  | 'option3_name'
+  | 'option3_value'
+
+// Column index in the uploaded file for each field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>
+
+export interface ImportFieldDefinition {
+  key: ImportField
+  label: string
+  required?: boolean
+  aliases: string[]
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: 'handle', label: 'Handle (groups variant rows)', aliases: ['handle', 'product handle', 'parent sku', 'group'] },
+  { key: 'title', label: 'Title', required: true, aliases: ['title', 'name', 'product name', 'product title'] },
+  { key: 'description', label: 'Description', aliases: ['description', 'body', 'body (html)', 'body html', 'details'] },
+  { key: 'price', label: 'Price', required: true, aliases: ['price', 'variant price', 'cost', 'unit price'] },
+  { key: 'images', label: 'Image URLs', aliases: ['images', 'image', 'image src', 'image url', 'image urls', 'photos'] },
+  { key: 'tags', label: 'Tags', aliases: ['tags', 'keywords'] },
+  { key: 'sku', label: 'SKU', aliases: ['sku', 'variant sku'] },
+  { key: 'stock', label: 'Stock', aliases: ['stock', 'quantity', 'qty', 'inventory', 'variant inventory qty'] },
+  { key: 'weight', label: 'Weight (kg)', aliases: ['weight', 'weight (kg)', 'variant weight'] },
+  { key: 'option1_name', label: 'Option 1 name', aliases: ['option1 name', 'option 1 name'] },
+  { key: 'option1_value', label: 'Option 1 value', aliases: ['option1 value', 'option 1 value'] },
+  { key: 'option2_name', label: 'Option 2 name', aliases: ['option2 name', 'option 2 name'] },
+  { key: 'option2_value', label: 'Option 2 value', aliases: ['option2 value', 'option 2 value'] },
+  { key: 'option3_name', label: 'Option 3 name', aliases: ['option3 name', 'option 3 name'] },
+  { key: 'option3_value', label: 'Option 3 value', aliases: ['option3 value', 'option 3 value'] },
+]
+
+export interface ImportRowError {
+  row: number // 1-based line in the file, header included
+  field?: ImportField
+  message: string
+}
+
+export interface ImportProductPreview {
+  key: string
+  rows: number[]
+  product: CreateProductData
+  errors: ImportRowError[]
+}
+
+export interface ImportPreview {
+  products: ImportProductPreview[]
+  errors: ImportRowError[] // Problems with the file itself rather than a product
+  validCount: number
+  invalidCount: number
+}
+
+// Pick the delimiter that splits the header line into the most columns (CSV, TSV or Excel's semicolon CSV)
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const candidates = [',', '\t', ';']
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  )
+}
+
+// Parse delimited text into rows of cells, honouring quoted cells with embedded delimiters, quotes and newlines
+export function parseDelimited(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Spreadsheet exports often end with blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''))
+}
+
+// Guess which column holds each field from the header names
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase().replace(/[_-]+/g, ' '))
+  const mapping: ColumnMapping = {}
+
+  for (const field of IMPORT_FIELDS) {
+    const index = normalized.findIndex(header => field.aliases.includes(header))
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[field.key] = index
+    }
+  }
+
+  return mapping
+}
+
+// "1,234" is a thousand and more in some spreadsheets and just over one in others (e.g. Excel's semicolon CSV)
+const AMBIGUOUS_NUMBER = /^-?\d{1,3},\d{3}$/
+
+function cleanNumber(value: string): string {
+  return value.replace(/[^0-9.,\-]/g, '')
+}
+
+// Read 1234.50, 1,234.50, 1.234,50 and 12,5 alike: where both separators appear the last one is the decimal point,
+// and a lone comma is one too unless the value is ambiguous, which is rejected
+function parseNumber(value: string): number | undefined {
+  let cleaned = cleanNumber(value)
+  if (cleaned === '') return undefined
+  if (AMBIGUOUS_NUMBER.test(cleaned)) return NaN
+
+  const lastComma = cleaned.lastIndexOf(',')
+  const lastDot = cleaned.lastIndexOf('.')
+  if (lastComma !== -1 && lastDot !== -1) {
+    cleaned = lastComma > lastDot ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '')
+  } else if (lastComma !== -1) {
+    cleaned = /^-?\d{1,3}(,\d{3})+$/.test(cleaned) ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.')
+  }
+
+  const parsed = Number(cleaned)
+  return Number.isFinite(parsed) ? parsed : NaN
+}
+
+// Appended to the error for a number parseNumber rejected as ambiguous
+function ambiguityHint(value: string): string {
+  return AMBIGUOUS_NUMBER.test(cleanNumber(value)) ? '; write it without a thousands separator, e.g. 1234 or 1.234' : ''
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Validate mapped rows and group them into products; rows sharing a handle (or title) become variants of one product
+export function buildImportPreview(rows: string[][], mapping: ColumnMapping): ImportPreview {
+  const errors: ImportRowError[] = []
+  const missing = IMPORT_FIELDS.filter(field => field.required && mapping[field.key] === undefined)
+  if (missing.length > 0) {
+    errors.push({ row: 1, message: `Map a column for: ${missing.map(field => field.label).join(', ')}` })
+  }
+
+  const dataRows = rows.slice(1)
+  if (dataRows.length === 0) {
+    errors.push({ row: 1, message: 'The file has no product rows' })
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    errors.push({ row: 1, message: `Files are limited to ${MAX_IMPORT_ROWS} rows; split the catalog into several imports` })
+  }
+  if (errors.length > 0) {
+    return { products: [], errors, validCount: 0, invalidCount: 0 }
+  }
+
+  const groups = new Map<string, ImportProductPreview & { variantRows: number[] }>()
+
+  dataRows.forEach((cells, index) => {
+    const rowNumber = index + 2
+    const get = (field: ImportField) => {
+      const column = mapping[field]
+      return column === undefined ? '' : (cells[column] || '').trim()
+    }
+
+    const title = get('title')
+    const key = (get('handle') || title).toLowerCase()
+    if (!key) {
+      errors.push({ row: rowNumber, field: 'title', message: 'Row has no title or handle' })
+      return
+    }
+
+    let group = groups.get(key)
+    if (!group) {
+      group = {
+        key,
+        rows: [],
+        variantRows: [],
+        product: { title, description: get('description'), price: 0, images: [], options: [], variants: [] },
+        errors: []
+      }
+      groups.set(key, group)
+    }
+    group.rows.push(rowNumber)
+
+    // Later rows of a group may leave the product-level columns blank, as in Shopify exports
+    if (!group.product.title && title) group.product.title = title
+    if (!group.product.description && get('description')) group.product.description = get('description')
+    if (get('tags')) group.product.tags = normalizeTags([...(group.product.tags || []), ...normalizeTags(get('tags'))])
+
+    const rowErrors = group.errors
+    const price = parseNumber(get('price'))
+    if (price === undefined || Number.isNaN(price) || price <= 0) {
+      rowErrors.push({ row: rowNumber, field: 'price', message: `Invalid price "${get('price')}"${ambiguityHint(get('price'))}` })
+    }
+
+    const stock = parseNumber(get('stock'))
+    if (stock !== undefined && (!Number.isInteger(stock) || stock < 0)) {
+      rowErrors.push({ row: rowNumber, field: 'stock', message: `Stock must be a whole number of zero or more, got "${get('stock')}"${ambiguityHint(get('stock'))}` })
+    }
+
+    const weight = parseNumber(get('weight'))
+    if (weight !== undefined && (Number.isNaN(weight) || weight < 0)) {
+      rowErrors.push({ row: rowNumber, field: 'weight', message: `Invalid weight "${get('weight')}"${ambiguityHint(get('weight'))}` })
+    }
+
+    // URLs may contain commas, so only whitespace, | and ; separate them
+    for (const url of get('images').split(/[\s|;]+/).filter(Boolean)) {
+      if (!isHttpUrl(url)) {
+        rowErrors.push({ row: rowNumber, field: 'images', message: `Invalid image URL "${url}"` })
+      } else if (!group.product.images!.includes(url)) {
+        group.product.images!.push(url)
+      }
+    }
+
+    const optionValues: (string | undefined)[] = []
+    for (let i = 1; i <= MAX_PRODUCT_OPTIONS; i++) {
+      const name = get(`option${i}_name` as ImportField)
+      const value = get(`option${i}_value` as ImportField)
+      const options = group.product.options!
+
+      if (name && !options[i - 1]) {
+        options[i - 1] = { name, values: [] }
+      }
+      if (value) {
+        if (!options[i - 1]) {
+          rowErrors.push({ row: rowNumber, field: `option${i}_name` as ImportField, message: `Option ${i} value "${value}" has no option name` })
+          continue
+        }
+        if (!options[i - 1].values.includes(value)) options[i - 1].values.push(value)
+      }
+      optionValues.push(value || undefined)
+    }
+
+    const hasOptionValues = optionValues.some(Boolean)
+    if (hasOptionValues) {
+      group.variantRows.push(rowNumber)
+      group.product.variants!.push({
+        sku: get('sku') || undefined,
+        price: price && price > 0 ? price : 0,
+        weight: weight !== undefined && !Number.isNaN(weight) ? weight : undefined,
+        weight_unit: 'kg',
+        inventory_quantity: stock !== undefined && Number.isInteger(stock) && stock >= 0 ? stock : 0,
+        option1: optionValues[0],
+        option2: optionValues[1],
+        option3: optionValues[2]
+      })
+    } else if (group.rows.length > 1) {
+      rowErrors.push({ row: rowNumber, message: 'Additional rows for a product must set option values' })
+    } else {
+      if (price && price > 0) group.product.price = price
+      if (stock !== undefined && Number.isInteger(stock) && stock >= 0) group.product.initial_stock = stock
+    }
+  })
+
+  const products = Array.from(groups.values()).map(({ variantRows, ...group }) => {
+    const product = group.product
+    const variants = product.variants || []
+
+    if (!product.title) {
+      group.errors.push({ row: group.rows[0], field: 'title', message: 'Title is required' })
+    }
+
+    if (variants.length > 0) {
+      // A product row without options may precede its variant rows; the cheapest variant sets the listing price
+      product.price = Math.min(...variants.map(variant => variant.price).filter(value => value > 0), Infinity)
+      if (!Number.isFinite(product.price)) product.price = 0
+      product.options = (product.options as (ProductOption | undefined)[]).filter((option): option is ProductOption => !!option)
+      delete product.initial_stock
+
+      validateVariants(product.options, variants).forEach(message => {
+        const match = message.match(/^Variant (\d+)/)
+        const row = match ? variantRows[Number(match[1]) - 1] : group.rows[0]
+        group.errors.push({ row, message })
+      })
+    } else {
+      product.options = []
+      product.variants = []
+    }
+
+    group.errors.sort((a, b) => a.row - b.row)
+    return group
+  })
+
+  const validCount = products.filter(product => product.errors.length === 0).length
+
+  return {
+    products,
+    errors,
+    validCount,
+    invalidCount: products.length - validCount
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Whether a request to a job endpoint comes from the scheduler: it must send
+ * `Authorization: Bearer <CRON_SECRET>`, and nothing is accepted while CRON_SECRET is unset
+ */
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    console.error('CRON_SECRET is not set; refusing job request')
+    return false
+  }
+
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
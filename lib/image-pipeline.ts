@@ -0,0 +1,107 @@
+import { createHash } from 'crypto'
+import sharp from 'sharp'
+import { ImageSizeName } from './types/product-image'
+import { ALLOWED_IMAGE_TYPES, IMAGE_SIZES, MAX_IMAGE_BYTES, MIN_IMAGE_DIMENSION } from './product-images'
+
+// Server-only: image decoding and resizing run on sharp
+
+const ALLOWED_FORMATS = ['jpeg', 'png', 'webp', 'gif']
+
+export interface ProcessedImageSize {
+  name: ImageSizeName
+  buffer: Buffer
+  width: number
+  height: number
+}
+
+export interface ProcessedImage {
+  sizes: ProcessedImageSize[]
+  width: number
+  height: number
+  contentHash: string
+  perceptualHash: string
+}
+
+export class ImageValidationError extends Error {}
+
+// Decode, validate and re-encode an upload into the standard sizes
+// Re-encoding drops EXIF (including GPS) and other metadata; orientation is applied to the pixels first
+export async function processImage(input: Buffer, declaredType: string): Promise<ProcessedImage> {
+  if (!ALLOWED_IMAGE_TYPES.includes(declaredType)) {
+    throw new ImageValidationError('Unsupported image type. Use JPG, PNG, WebP or GIF.')
+  }
+  if (input.length > MAX_IMAGE_BYTES) {
+    throw new ImageValidationError(`Image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024}MB`)
+  }
+
+  let metadata: sharp.Metadata
+  try {
+    metadata = await sharp(input).metadata()
+  } catch {
+    throw new ImageValidationError('File is not a readable image')
+  }
+
+  // Trust the decoded content, not the browser-supplied type
+  if (!metadata.format || !ALLOWED_FORMATS.includes(metadata.format)) {
+    throw new ImageValidationError('Unsupported image format. Use JPG, PNG, WebP or GIF.')
+  }
+
+  // EXIF orientations 5-8 swap width and height
+  const rotated = (metadata.orientation || 1) >= 5
+  const width = (rotated ? metadata.height : metadata.width) || 0
+  const height = (rotated ? metadata.width : metadata.height) || 0
+  if (Math.min(width, height) < MIN_IMAGE_DIMENSION) {
+    throw new ImageValidationError(`Image must be at least ${MIN_IMAGE_DIMENSION}×${MIN_IMAGE_DIMENSION} pixels`)
+  }
+
+  const sizes: ProcessedImageSize[] = []
+  for (const [name, edge] of Object.entries(IMAGE_SIZES) as [ImageSizeName, number][]) {
+    const pipeline = sharp(input)
+      .rotate()
+      .flatten({ background: '#ffffff' })
+      .resize(
+        name === 'thumbnail'
+          ? { width: edge, height: edge, fit: 'cover', position: 'attention' }
+          : { width: edge, height: edge, fit: 'inside', withoutEnlargement: true }
+      )
+      .jpeg({ quality: 82, progressive: true, mozjpeg: true })
+
+    const { data, info } = await pipeline.toBuffer({ resolveWithObject: true })
+    sizes.push({ name, buffer: data, width: info.width, height: info.height })
+  }
+
+  return {
+    sizes,
+    width,
+    height,
+    contentHash: createHash('sha256').update(input).digest('hex'),
+    perceptualHash: await computePerceptualHash(input),
+  }
+}
+
+// 64-bit difference hash: compares neighbouring pixels of a 9×8 greyscale thumbnail,
+// so re-encoded, resized or slightly recompressed copies of a picture hash (almost) identically
+export async function computePerceptualHash(input: Buffer): Promise<string> {
+  const pixels = await sharp(input)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  let hash = ''
+  let nibble = 0
+  let bits = 0
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      nibble = (nibble << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0)
+      if (++bits === 4) {
+        hash += nibble.toString(16)
+        nibble = 0
+        bits = 0
+      }
+    }
+  }
+  return hash
+}
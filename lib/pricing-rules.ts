@@ -0,0 +1,131 @@
+import { Product } from './types/product'
+import { CompareAtType, ComputedPrice, MarkupType, PriceEnding, PricingRule, PricingRuleInput } from './types/pricing-rule'
+import { getDefaultSellingPrice } from './product-pricing'
+
+export const MARKUP_TYPES: { value: MarkupType; label: string }[] = [
+  { value: 'percent', label: 'Percentage markup' },
+  { value: 'fixed', label: 'Fixed amount markup' },
+]
+
+export const PRICE_ENDINGS: { value: PriceEnding; label: string }[] = [
+  { value: 'none', label: 'No rounding' },
+  { value: '99', label: 'Round up to .99' },
+  { value: '49', label: 'Round up to .49 or .99' },
+]
+
+export const COMPARE_AT_TYPES: { value: CompareAtType; label: string }[] = [
+  { value: 'none', label: 'No compare-at price' },
+  { value: 'percent', label: 'Percentage above selling price' },
+  { value: 'fixed', label: 'Fixed amount above selling price' },
+]
+
+type PricedProduct = Pick<Product, 'price' | 'suggested_retail_price' | 'map_price' | 'category_id'>
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Smallest price at or above value that ends in the given cents, e.g. 412.10 -> 412.49 with '49'
+export function applyPriceEnding(value: number, ending: PriceEnding): number {
+  if (ending === 'none') return roundMoney(value)
+
+  const whole = Math.floor(value)
+  const candidates = ending === '99' ? [0.99] : [0.49, 0.99]
+  for (const cents of candidates) {
+    if (roundMoney(whole + cents) >= roundMoney(value)) return roundMoney(whole + cents)
+  }
+  return roundMoney(whole + 1 + candidates[0])
+}
+
+export function ruleMatches(rule: PricingRule, product: PricedProduct): boolean {
+  if (!rule.is_active) return false
+  if (rule.category_id && rule.category_id !== product.category_id) return false
+  if (rule.min_cost !== null && product.price < rule.min_cost) return false
+  if (rule.max_cost !== null && product.price > rule.max_cost) return false
+  return true
+}
+
+// Store-specific rules win over seller-wide ones; within each, the lowest priority number wins
+export function findPricingRule(rules: PricingRule[], product: PricedProduct, storeUrl: string | null): PricingRule | null {
+  const candidates = rules
+    .filter(rule => rule.store_url === null || rule.store_url === storeUrl)
+    .filter(rule => ruleMatches(rule, product))
+    .sort((a, b) =>
+      Number(b.store_url !== null) - Number(a.store_url !== null) ||
+      a.priority - b.priority ||
+      a.created_at.localeCompare(b.created_at)
+    )
+  return candidates[0] || null
+}
+
+type RuleOutcome = Pick<PricingRule, 'markup_type' | 'markup_value' | 'price_ending' | 'compare_at_type' | 'compare_at_value'>
+
+// Prices a rule produces for a wholesale cost; the selling price is raised to the MAP when it would fall below it
+export function applyPricingRule(rule: RuleOutcome, cost: number, mapPrice: number | null = null): Omit<ComputedPrice, 'rule'> {
+  const markedUp = rule.markup_type === 'percent'
+    ? cost * (1 + rule.markup_value / 100)
+    : cost + rule.markup_value
+  let sellingPrice = applyPriceEnding(markedUp, rule.price_ending)
+
+  const raisedToMap = !!mapPrice && sellingPrice < mapPrice
+  if (raisedToMap) {
+    sellingPrice = applyPriceEnding(mapPrice!, rule.price_ending)
+  }
+
+  let compareAtPrice: number | null = null
+  if (rule.compare_at_type !== 'none' && rule.compare_at_value) {
+    const above = rule.compare_at_type === 'percent'
+      ? sellingPrice * (1 + rule.compare_at_value / 100)
+      : sellingPrice + rule.compare_at_value
+    compareAtPrice = applyPriceEnding(above, rule.price_ending)
+  }
+
+  return { sellingPrice, compareAtPrice, raisedToMap }
+}
+
+// Selling and compare-at price for a product from the first matching rule, or the default markup
+export function computeRetailPrice(product: PricedProduct, rules: PricingRule[], storeUrl: string | null): ComputedPrice {
+  const rule = findPricingRule(rules, product, storeUrl)
+  if (!rule) {
+    return { sellingPrice: getDefaultSellingPrice(product), compareAtPrice: null, rule: null, raisedToMap: false }
+  }
+
+  return { ...applyPricingRule(rule, product.price, product.map_price), rule: { id: rule.id, name: rule.name } }
+}
+
+// Returns a problem with the rule, or null when it can be saved
+export function validatePricingRule(rule: Partial<PricingRuleInput>): string | null {
+  if (!rule.name?.trim()) return 'Name is required'
+  if (!MARKUP_TYPES.some(type => type.value === rule.markup_type)) return 'Invalid markup type'
+  if (typeof rule.markup_value !== 'number' || !(rule.markup_value >= 0)) return 'Markup must be zero or more'
+  if (rule.price_ending !== undefined && !PRICE_ENDINGS.some(ending => ending.value === rule.price_ending)) {
+    return 'Invalid price ending'
+  }
+  if (rule.compare_at_type !== undefined && !COMPARE_AT_TYPES.some(type => type.value === rule.compare_at_type)) {
+    return 'Invalid compare-at type'
+  }
+  if (rule.compare_at_type && rule.compare_at_type !== 'none' && !(Number(rule.compare_at_value) > 0)) {
+    return 'Compare-at amount must be greater than zero'
+  }
+  if (rule.min_cost != null && rule.min_cost < 0) return 'Minimum cost cannot be negative'
+  if (rule.min_cost != null && rule.max_cost != null && rule.min_cost > rule.max_cost) {
+    return 'Minimum cost cannot be above the maximum cost'
+  }
+  return null
+}
+
+// Short description of a rule's conditions, e.g. "Cost ₹500–₹1000 · Category"
+export function describeRuleConditions(rule: PricingRule, categoryName?: string): string {
+  const parts: string[] = []
+  if (rule.min_cost !== null && rule.max_cost !== null) parts.push(`Cost ₹${rule.min_cost}–₹${rule.max_cost}`)
+  else if (rule.min_cost !== null) parts.push(`Cost from ₹${rule.min_cost}`)
+  else if (rule.max_cost !== null) parts.push(`Cost up to ₹${rule.max_cost}`)
+  if (rule.category_id) parts.push(categoryName || 'One category')
+  return parts.length > 0 ? parts.join(' · ') : 'All products'
+}
+
+export function describeRuleMarkup(rule: Pick<PricingRule, 'markup_type' | 'markup_value' | 'price_ending'>): string {
+  const markup = rule.markup_type === 'percent' ? `+${rule.markup_value}%` : `+₹${rule.markup_value}`
+  if (rule.price_ending === 'none') return markup
+  return `${markup}, ends in ${rule.price_ending === '99' ? '.99' : '.49 or .99'}`
+}
@@ -0,0 +1,49 @@
+import { ImageSizeName, ProductMediaRef } from './types/product-image'
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+// Smaller uploads look blurry in catalog cards and on Shopify product pages
+export const MIN_IMAGE_DIMENSION = 200
+
+// Longest edge of each generated size; thumbnails are square crops
+export const IMAGE_SIZES: Record<ImageSizeName, number> = {
+  thumbnail: 200,
+  small: 480,
+  medium: 1024,
+  large: 2048,
+}
+
+// Perceptual hashes this many bits apart or fewer are treated as the same picture
+export const NEAR_DUPLICATE_DISTANCE = 6
+
+// URL of a smaller rendition of a product image; falls back to the original for unprocessed images
+export function getImageSizeUrl(media: ProductMediaRef[] | undefined, url: string, size: ImageSizeName): string {
+  const image = media?.find(item => item.url === url)
+  return image?.sizes[size]?.url || url
+}
+
+// Returns a problem with the file, or null when it may be uploaded
+export function validateImageFile(file: { name: string; type: string; size: number }): string | null {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported image. Use JPG, PNG, WebP or GIF.`
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return `${file.name} is too large. Maximum size is ${MAX_IMAGE_BYTES / 1024 / 1024}MB.`
+  }
+  return null
+}
+
+// Number of differing bits between two hex-encoded hashes of equal length
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY
+
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (xor) {
+      distance += xor & 1
+      xor >>= 1
+    }
+  }
+  return distance
+}
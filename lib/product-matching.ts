@@ -0,0 +1,111 @@
+import { Product, ProductVariant } from './types/product'
+import { LinkMatch, ShopifyListing, VariantMapping } from './types/product-link'
+import { variantKey } from './product-variants'
+
+// Title matches below this similarity are not proposed
+export const TITLE_MATCH_THRESHOLD = 0.5
+
+type MatchableProduct = Pick<Product, 'id' | 'title' | 'price' | 'variants'>
+
+interface ShopifyVariantRef {
+  id?: string | number
+  sku?: string | null
+  barcode?: string | null
+  option1?: string | null
+  option2?: string | null
+  option3?: string | null
+  inventory_item_id?: string | number | null
+}
+
+// SKUs and barcodes compared without case, spaces or dashes
+export function normalizeCode(code: string | null | undefined): string {
+  return (code || '').toUpperCase().replace(/[\s-]/g, '')
+}
+
+function titleWords(title: string): Set<string> {
+  return new Set(title.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1))
+}
+
+// Dice coefficient over the words of two titles: 1 for the same words, 0 for none in common
+export function titleSimilarity(a: string, b: string): number {
+  const wordsA = titleWords(a)
+  const wordsB = titleWords(b)
+  if (wordsA.size === 0 || wordsB.size === 0) return 0
+
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length
+  return Math.round((2 * shared / (wordsA.size + wordsB.size)) * 100) / 100
+}
+
+// Supplier products carry no separate barcode, so a Shopify barcode matches when the supplier used it as the SKU
+function findVariantByCode(variants: ProductVariant[], variant: ShopifyVariantRef) {
+  const sku = normalizeCode(variant.sku)
+  const bySku = sku ? variants.find(candidate => normalizeCode(candidate.sku) === sku) : undefined
+  if (bySku) return { variant: bySku, reason: 'sku' as const }
+
+  const barcode = normalizeCode(variant.barcode)
+  const byBarcode = barcode ? variants.find(candidate => normalizeCode(candidate.sku) === barcode) : undefined
+  return byBarcode ? { variant: byBarcode, reason: 'barcode' as const } : null
+}
+
+// Best supplier product for a Shopify listing: most variants matched by SKU or barcode, else the closest title
+export function findLinkMatch(listing: ShopifyListing, products: MatchableProduct[]): LinkMatch | null {
+  let best: LinkMatch | null = null
+
+  for (const product of products) {
+    const matches = listing.variants.map(variant => findVariantByCode(product.variants || [], variant)).filter(Boolean)
+    if (matches.length === 0) continue
+
+    const score = Math.round((matches.length / listing.variants.length) * 100) / 100
+    if (!best || score > best.score) {
+      best = {
+        supplier_product_id: product.id,
+        supplier_title: product.title,
+        reason: matches.some(match => match!.reason === 'sku') ? 'sku' : 'barcode',
+        score,
+        matched_variants: matches.length
+      }
+    }
+  }
+  if (best) return best
+
+  for (const product of products) {
+    const score = titleSimilarity(listing.title, product.title)
+    if (score >= TITLE_MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = {
+        supplier_product_id: product.id,
+        supplier_title: product.title,
+        reason: 'title',
+        score,
+        matched_variants: buildVariantMappings(product, listing.variants).filter(entry => entry.supplier_variant_id).length
+      }
+    }
+  }
+  return best
+}
+
+// Pair each Shopify variant with a supplier variant (by SKU, then barcode, then option values).
+// The wholesale cost recorded here lets content sync move retail prices when the supplier changes theirs
+export function buildVariantMappings(
+  supplierProduct: Pick<Product, 'price' | 'variants'> | null,
+  shopifyVariants: ShopifyVariantRef[]
+): VariantMapping[] {
+  const variants = supplierProduct?.variants || []
+  const byOptions = new Map(variants.map(variant => [variantKey(variant), variant]))
+
+  return shopifyVariants.map(shopifyVariant => {
+    const match = findVariantByCode(variants, shopifyVariant)?.variant ||
+      byOptions.get(variantKey({
+        option1: shopifyVariant.option1 === 'Default Title' ? undefined : shopifyVariant.option1,
+        option2: shopifyVariant.option2 || undefined,
+        option3: shopifyVariant.option3 || undefined
+      }))
+
+    return {
+      supplier_variant_id: match?.id || null,
+      shopify_variant_id: shopifyVariant.id?.toString() || '',
+      shopify_inventory_item_id: shopifyVariant.inventory_item_id?.toString() || null,
+      sku: shopifyVariant.sku || null,
+      supplier_price: match ? match.price : variants.length === 0 ? supplierProduct?.price ?? null : null
+    }
+  })
+}
@@ -0,0 +1,21 @@
+import { RejectionReasonCode } from './types/moderation'
+
+// Reasons an admin can pick when rejecting a product; shown to the supplier with the free-text feedback
+export const REJECTION_REASONS: { code: RejectionReasonCode; label: string; hint: string }[] = [
+  { code: 'poor_images', label: 'Image quality', hint: 'Images are missing, blurry, watermarked or do not show the product' },
+  { code: 'incomplete_description', label: 'Incomplete description', hint: 'Materials, dimensions or usage details are missing' },
+  { code: 'pricing', label: 'Pricing', hint: 'Price looks incorrect or is not competitive' },
+  { code: 'prohibited_item', label: 'Prohibited item', hint: 'The product cannot be sold on the marketplace' },
+  { code: 'duplicate_listing', label: 'Duplicate listing', hint: 'The same product is already listed' },
+  { code: 'incorrect_category', label: 'Wrong category or tags', hint: 'Category or tags do not match the product' },
+  { code: 'variant_issues', label: 'Variant problems', hint: 'Options, SKUs or variant prices need fixing' },
+  { code: 'other', label: 'Other', hint: 'See the feedback for details' },
+]
+
+export function isRejectionReason(code: string): code is RejectionReasonCode {
+  return REJECTION_REASONS.some(reason => reason.code === code)
+}
+
+export function getRejectionReasonLabel(code: string): string {
+  return REJECTION_REASONS.find(reason => reason.code === code)?.label || code
+}
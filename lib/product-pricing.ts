@@ -0,0 +1,98 @@
+import { MapEnforcement, Product, ProductVariant } from './types/product'
+import { getVariantTitle, variantKey } from './product-variants'
+
+// Markup applied to the wholesale cost when the supplier suggests no retail price
+export const DEFAULT_MARKUP = 1.5
+
+export const MAP_ENFORCEMENT_OPTIONS: { value: MapEnforcement; label: string; description: string }[] = [
+  { value: 'block', label: 'Block', description: 'Pushes below the minimum advertised price are refused' },
+  { value: 'warn', label: 'Warn', description: 'Pushes below the minimum advertised price go through with a warning' },
+]
+
+type PricedProduct = Pick<Product, 'price' | 'suggested_retail_price' | 'map_price'>
+
+export interface PricingInput {
+  price?: number
+  suggested_retail_price?: number | null
+  map_price?: number | null
+}
+
+export interface Margin {
+  amount: number
+  percent: number // Share of the selling price kept by the seller
+}
+
+export interface MapViolation {
+  variant: string
+  price: number
+  minimum: number
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Returns a problem with the supplier's prices, or null when they are consistent
+export function validatePricing(pricing: PricingInput): string | null {
+  const { price, suggested_retail_price: retail, map_price: map } = pricing
+
+  if (retail !== undefined && retail !== null && !(retail > 0)) {
+    return 'Suggested retail price must be greater than zero'
+  }
+  if (map !== undefined && map !== null && !(map > 0)) {
+    return 'Minimum advertised price must be greater than zero'
+  }
+  if (price !== undefined && retail && retail < price) {
+    return 'Suggested retail price cannot be below the wholesale cost'
+  }
+  if (price !== undefined && map && map < price) {
+    return 'Minimum advertised price cannot be below the wholesale cost'
+  }
+  if (retail && map && map > retail) {
+    return 'Minimum advertised price cannot be above the suggested retail price'
+  }
+  return null
+}
+
+// Price a seller starts from: the supplier's suggestion, else the default markup, never below MAP
+export function getDefaultSellingPrice(product: PricedProduct): number {
+  const suggested = product.suggested_retail_price || Math.round(product.price * DEFAULT_MARKUP)
+  return Math.max(suggested, product.map_price || 0)
+}
+
+export function calculateMargin(sellingPrice: number, wholesaleCost: number): Margin {
+  const amount = roundMoney(sellingPrice - wholesaleCost)
+  const percent = sellingPrice > 0 ? Math.round((amount / sellingPrice) * 1000) / 10 : 0
+  return { amount, percent }
+}
+
+// MAP is set for the base price; variants priced differently get a proportional minimum
+export function getVariantMapPrice(product: PricedProduct, variant: Pick<ProductVariant, 'price'>): number | null {
+  if (!product.map_price) return null
+  if (!product.price) return product.map_price
+  return roundMoney(product.map_price * (variant.price / product.price))
+}
+
+// Variants of a Shopify payload priced below the minimum advertised price
+export function findMapViolations(
+  product: PricedProduct & Pick<Product, 'variants'>,
+  shopifyVariants: { price: string | number; sku?: string; option1?: string; option2?: string; option3?: string }[]
+): MapViolation[] {
+  if (!product.map_price) return []
+
+  const variants = product.variants || []
+  const violations: MapViolation[] = []
+
+  for (const shopifyVariant of shopifyVariants) {
+    const price = Number(shopifyVariant.price)
+    const source = (shopifyVariant.sku && variants.find(variant => variant.sku === shopifyVariant.sku)) ||
+      variants.find(variant => variantKey(variant) === variantKey(shopifyVariant))
+    const minimum = (source && getVariantMapPrice(product, source)) || product.map_price
+
+    if (!(price >= minimum)) {
+      violations.push({ variant: getVariantTitle(shopifyVariant), price, minimum })
+    }
+  }
+
+  return violations
+}
@@ -0,0 +1,157 @@
+import { getVariantTitle } from './product-variants'
+import { Product, UpdateSupplierProductData } from './types/product'
+import { ProductSnapshot, RevisionFieldChange } from './types/product-revision'
+
+// Fields buyers rely on; changing them on an approved product needs admin approval
+const MATERIAL_FIELDS = ['title', 'price', 'images']
+
+const PRODUCT_FIELDS: { field: keyof Omit<ProductSnapshot, 'variants'>; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'price', label: 'Wholesale cost' },
+  { field: 'suggested_retail_price', label: 'Suggested retail price' },
+  { field: 'map_price', label: 'Minimum advertised price' },
+  { field: 'map_enforcement', label: 'MAP enforcement' },
+  { field: 'images', label: 'Images' },
+  { field: 'category_id', label: 'Category' },
+  { field: 'tags', label: 'Tags' },
+]
+
+type VariantField = 'sku' | 'price' | 'weight'
+
+const VARIANT_FIELDS: { field: VariantField; label: string }[] = [
+  { field: 'sku', label: 'SKU' },
+  { field: 'price', label: 'price' },
+  { field: 'weight', label: 'weight' },
+]
+
+// Variant changes are addressed as "variants.<variant id>.<field>"
+export function parseVariantField(field: string): { id: string; key: VariantField } | null {
+  const match = field.match(/^variants\.([^.]+)\.(sku|price|weight)$/)
+  return match ? { id: match[1], key: match[2] as VariantField } : null
+}
+
+export function isMaterialField(field: string): boolean {
+  return MATERIAL_FIELDS.includes(field) || parseVariantField(field)?.key === 'price'
+}
+
+export function buildProductSnapshot(product: Product): ProductSnapshot {
+  return {
+    title: product.title,
+    description: product.description,
+    price: product.price,
+    suggested_retail_price: product.suggested_retail_price ?? null,
+    map_price: product.map_price ?? null,
+    map_enforcement: product.map_enforcement || 'block',
+    images: product.images || [],
+    category_id: product.category_id || null,
+    tags: product.tags || [],
+    variants: [...(product.variants || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(variant => ({
+        id: variant.id,
+        title: getVariantTitle(variant),
+        sku: variant.sku,
+        price: variant.price,
+        weight: variant.weight,
+      })),
+  }
+}
+
+// The snapshot a set of supplier edits would produce; values are expected to be validated already
+export function applySnapshotUpdates(snapshot: ProductSnapshot, updates: UpdateSupplierProductData): ProductSnapshot {
+  const edits = new Map((updates.variants || []).map(edit => [edit.id, edit]))
+
+  return {
+    title: updates.title !== undefined ? updates.title.trim() : snapshot.title,
+    description: updates.description !== undefined ? updates.description.trim() : snapshot.description,
+    price: updates.price !== undefined ? updates.price : snapshot.price,
+    suggested_retail_price: updates.suggested_retail_price !== undefined ? updates.suggested_retail_price || null : snapshot.suggested_retail_price,
+    map_price: updates.map_price !== undefined ? updates.map_price || null : snapshot.map_price,
+    map_enforcement: updates.map_enforcement !== undefined ? updates.map_enforcement : snapshot.map_enforcement,
+    images: updates.images !== undefined ? updates.images : snapshot.images,
+    category_id: updates.category_id !== undefined ? updates.category_id || null : snapshot.category_id,
+    tags: updates.tags !== undefined ? updates.tags : snapshot.tags,
+    variants: snapshot.variants.map(variant => {
+      const edit = edits.get(variant.id)
+      if (!edit) return variant
+      return {
+        ...variant,
+        sku: edit.sku !== undefined ? edit.sku?.trim() || null : variant.sku,
+        price: edit.price !== undefined ? edit.price : variant.price,
+        weight: edit.weight !== undefined ? edit.weight : variant.weight,
+      }
+    }),
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+// Field-by-field differences between two snapshots; variants are matched by id
+export function diffSnapshots(before: ProductSnapshot, after: ProductSnapshot): RevisionFieldChange[] {
+  const changes: RevisionFieldChange[] = []
+
+  for (const { field, label } of PRODUCT_FIELDS) {
+    if (!sameValue(before[field], after[field])) {
+      changes.push({ field, label, before: before[field], after: after[field], material: isMaterialField(field) })
+    }
+  }
+
+  const beforeVariants = new Map(before.variants.map(variant => [variant.id, variant]))
+  const afterVariants = new Map(after.variants.map(variant => [variant.id, variant]))
+  const variantIds = Array.from(new Set([...Array.from(beforeVariants.keys()), ...Array.from(afterVariants.keys())]))
+
+  for (const id of variantIds) {
+    const previous = beforeVariants.get(id)
+    const next = afterVariants.get(id)
+    const title = next?.title || previous?.title || 'Variant'
+
+    for (const { field, label } of VARIANT_FIELDS) {
+      if (!sameValue(previous?.[field], next?.[field])) {
+        const path = `variants.${id}.${field}`
+        changes.push({ field: path, label: `${title} ${label}`, before: previous?.[field] ?? null, after: next?.[field] ?? null, material: isMaterialField(path) })
+      }
+    }
+  }
+
+  return changes
+}
+
+// Copy the given fields from source onto base, leaving every other field as it is in base
+export function mergeSnapshotFields(base: ProductSnapshot, source: ProductSnapshot, fields: string[]): ProductSnapshot {
+  const merged: ProductSnapshot = { ...base, variants: base.variants.map(variant => ({ ...variant })) }
+
+  for (const field of fields) {
+    const variantField = parseVariantField(field)
+    if (variantField) {
+      const target = merged.variants.find(variant => variant.id === variantField.id)
+      const value = source.variants.find(variant => variant.id === variantField.id)
+      if (target && value) {
+        Object.assign(target, { [variantField.key]: value[variantField.key] })
+      }
+    } else if (PRODUCT_FIELDS.some(entry => entry.field === field)) {
+      Object.assign(merged, { [field]: source[field as keyof ProductSnapshot] })
+    }
+  }
+
+  return merged
+}
+
+// Readable name for a changed field, e.g. "Price" or "M / Red price"
+export function getRevisionFieldLabel(field: string, snapshot: ProductSnapshot): string {
+  const variantField = parseVariantField(field)
+  if (variantField) {
+    const title = snapshot.variants.find(variant => variant.id === variantField.id)?.title || 'Variant'
+    const label = VARIANT_FIELDS.find(entry => entry.field === variantField.key)?.label
+    return `${title} ${label}`
+  }
+  return PRODUCT_FIELDS.find(entry => entry.field === field)?.label || field
+}
+
+export function formatRevisionValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—'
+  return String(value)
+}
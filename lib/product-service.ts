@@ -1,5 +1,19 @@
 import { supabase } from './supabase'
-import { Product, CreateProductData, UpdateProductData } from './types/product'
+import { Product, CreateProductData, CreateProductVariantData, UpdateSupplierProductData } from './types/product'
+import { ModerationAction, ModerationEvent } from './types/moderation'
+import { ProductImage } from './types/product-image'
+import { cleanOptions, toVariantRows, validateVariants } from './product-variants'
+import { normalizeTags } from './product-taxonomy'
+import { isRejectionReason } from './product-moderation'
+import { validatePricing } from './product-pricing'
+import { applySnapshotUpdates, buildProductSnapshot, diffSnapshots, mergeSnapshotFields } from './product-revisions'
+import { ProductRevisionService } from './services/product-revision-service'
+import { ProductImageService } from './services/product-image-service'
+import { InventoryService } from './services/inventory-service'
+import { CatalogExportFilters } from './catalog-export'
+
+// Products are always loaded together with their variants, category and processed images
+export const PRODUCT_SELECT = '*, variants:product_variants(*), category:categories(id, name, shopify_product_type), media:product_images(id, url, thumbnail_url, sizes, alt_text, position, duplicate_type)'
 
 export class ProductService {
   // Get all approved products (for sellers)
@@ -7,7 +21,7 @@ export class ProductService {
     try {
       const { data, error } = await supabase
         .from('products')
-        .select('*')
+        .select(PRODUCT_SELECT)
         .eq('status', 'approved')
         .order('created_at', { ascending: false })
 
@@ -28,7 +42,7 @@ export class ProductService {
     try {
       const { data, error } = await supabase
         .from('products')
-        .select('*')
+        .select(PRODUCT_SELECT)
         .eq('status', 'pending')
         .order('created_at', { ascending: false })
 
@@ -49,7 +63,7 @@ export class ProductService {
     try {
       const { data, error } = await supabase
         .from('products')
-        .select('*')
+        .select(PRODUCT_SELECT)
         .order('created_at', { ascending: false })
 
       if (error) {
@@ -64,111 +78,44 @@ export class ProductService {
     }
   }
 
-  // Get products for current supplier
-  static async getSupplierProducts(): Promise<Product[]> {
+  // Get products matching catalog export filters (supplier, status, created date range)
+  static async getProductsForExport(filters: CatalogExportFilters = {}): Promise<Product[]> {
     try {
-      console.log('🔍 PRODUCT SERVICE - Getting supplier products...')
-      
-      // Try to get supplier ID with multiple fallbacks
-      let supplierId: string | null = null
-      
-      // Method 1: Try Supabase auth first
-      try {
-        const { data: { user }, error: userError } = await supabase.auth.getUser()
-        
-        if (!userError && user) {
-          console.log('✅ PRODUCT SERVICE - Found authenticated user:', user.email)
-          
-          // Get supplier data from suppliers table using user email
-          const { data: supplierData, error: supplierError } = await supabase
-            .from('suppliers')
-            .select('username')
-            .eq('email', user.email)
-            .single()
-
-          if (!supplierError && supplierData) {
-            supplierId = supplierData.username
-            console.log('✅ PRODUCT SERVICE - Found supplier ID from DB:', supplierId)
-          }
-        }
-      } catch (error) {
-        console.log('⚠️ PRODUCT SERVICE - Supabase auth failed, trying session refresh...')
-        try {
-          const { data: refreshData, error: refreshError } = await supabase.auth.refreshSession()
-          if (refreshData.user) {
-            console.log('✅ PRODUCT SERVICE - Session refreshed successfully')
-            
-            // Get supplier data from suppliers table using user email
-            const { data: supplierData, error: supplierError } = await supabase
-              .from('suppliers')
-              .select('username')
-              .eq('email', refreshData.user.email)
-              .single()
-
-            if (!supplierError && supplierData) {
-              supplierId = supplierData.username
-              console.log('✅ PRODUCT SERVICE - Found supplier ID after refresh:', supplierId)
-            }
-          }
-        } catch (refreshErr) {
-          console.log('❌ PRODUCT SERVICE - Session refresh also failed')
-        }
-      }
-      
-      // Method 2: Fallback to localStorage
-      if (!supplierId) {
-        const supplierName = localStorage.getItem('supplierName')
-        if (supplierName) {
-          supplierId = supplierName
-          console.log('📦 PRODUCT SERVICE - Using localStorage fallback:', supplierId)
-        }
-      }
-      
-      // Method 3: Try to get from session token
-      if (!supplierId) {
-        try {
-          const sessionToken = document.cookie.split('; ').find(row => row.startsWith('session_token='))?.split('=')[1]
-          if (sessionToken) {
-            const response = await fetch('/api/auth/verify-session', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ sessionToken })
-            })
-            
-            if (response.ok) {
-              const data = await response.json()
-              if (data.success && data.user) {
-                supplierId = data.user.username
-                console.log('🔐 PRODUCT SERVICE - Found supplier ID from session:', supplierId)
-              }
-            }
-          }
-        } catch (error) {
-          console.log('❌ PRODUCT SERVICE - Session verification failed')
-        }
-      }
-      
-      if (!supplierId) {
-        console.log('❌ PRODUCT SERVICE - No supplier ID found, returning empty array')
+      let query = supabase
+        .from('products')
+        .select(PRODUCT_SELECT)
+        .order('created_at', { ascending: false })
+
+      if (filters.supplierId) query = query.eq('supplier_id', filters.supplierId)
+      if (filters.status) query = query.eq('status', filters.status)
+      if (filters.from) query = query.gte('created_at', `${filters.from}T00:00:00.000Z`)
+      if (filters.to) query = query.lte('created_at', `${filters.to}T23:59:59.999Z`)
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching products for export:', error)
         return []
       }
 
-      console.log('📦 PRODUCT SERVICE - Querying products for supplier_id:', supplierId)
-      
+      return data || []
+    } catch (error) {
+      console.error('Error in getProductsForExport:', error)
+      return []
+    }
+  }
+
+  // Get a supplier's products; supplierId must come from a verified session
+  static async getSupplierProducts(supplierId: string): Promise<Product[]> {
+    try {
       const { data, error } = await supabase
         .from('products')
-        .select('*')
+        .select(PRODUCT_SELECT)
         .eq('supplier_id', supplierId)
         .order('created_at', { ascending: false })
 
-      console.log('📊 PRODUCT SERVICE - Query result:', { 
-        error: error?.message,
-        productCount: data?.length || 0,
-        products: data?.map(p => ({ id: p.id, title: p.title, supplier_id: p.supplier_id, status: p.status })) || []
-      })
-
       if (error) {
-        console.error('❌ Error fetching supplier products:', error)
+        console.error('Error fetching supplier products:', error)
         return []
       }
 
@@ -179,83 +126,36 @@ export class ProductService {
     }
   }
 
-  // Create a new product (now defaults to pending status)
-  static async createProduct(productData: CreateProductData): Promise<Product | null> {
+  // Create a pending product with its variants and opening stock for an already identified supplier
+  static async createSupplierProduct(productData: CreateProductData, supplierId: string, supplierName: string | null): Promise<Product | null> {
     try {
-      // Get supplier ID with multiple fallbacks
-      let supplierId: string | null = null
-      let supplierName: string | null = null
-      
-      // Method 1: Try Supabase auth first
-      try {
-        const { data: { user }, error: userError } = await supabase.auth.getUser()
-        
-        if (!userError && user) {
-          console.log('✅ PRODUCT SERVICE - Creating product with authenticated user:', user.email)
-          
-          // Get supplier data from suppliers table using user email
-          const { data: supplierData, error: supplierError } = await supabase
-            .from('suppliers')
-            .select('username, name')
-            .eq('email', user.email)
-            .single()
-
-          if (!supplierError && supplierData) {
-            supplierId = supplierData.username
-            supplierName = supplierData.name || supplierData.username
-            console.log('✅ PRODUCT SERVICE - Found supplier data from DB:', { supplierId, supplierName })
-          }
-        }
-      } catch (error) {
-        console.log('⚠️ PRODUCT SERVICE - Supabase auth failed during product creation')
-      }
-      
-      // Method 2: Fallback to localStorage
-      if (!supplierId) {
-        const supplierNameFromStorage = localStorage.getItem('supplierName')
-        if (supplierNameFromStorage) {
-          supplierId = supplierNameFromStorage
-          supplierName = supplierNameFromStorage
-          console.log('📦 PRODUCT SERVICE - Using localStorage fallback for product creation:', supplierId)
-        }
-      }
-      
-      // Method 3: Try session token
-      if (!supplierId) {
-        try {
-          const sessionToken = document.cookie.split('; ').find(row => row.startsWith('session_token='))?.split('=')[1]
-          if (sessionToken) {
-            const response = await fetch('/api/auth/verify-session', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ sessionToken })
-            })
-            
-            if (response.ok) {
-              const data = await response.json()
-              if (data.success && data.user) {
-                supplierId = data.user.username
-                supplierName = data.user.name || data.user.username
-                console.log('🔐 PRODUCT SERVICE - Found supplier from session for product creation:', supplierId)
-              }
-            }
-          }
-        } catch (error) {
-          console.log('❌ PRODUCT SERVICE - Session verification failed during product creation')
-        }
+      const { variants = [], initial_stock } = productData
+      const options = cleanOptions(productData.options)
+      const variantErrors = validateVariants(options, variants)
+      if (variantErrors.length > 0) {
+        console.error('❌ PRODUCT SERVICE - Invalid variants:', variantErrors)
+        return null
       }
-      
-      if (!supplierId) {
-        console.error('❌ PRODUCT SERVICE - No supplier ID found for product creation')
+
+      const pricingError = validatePricing(productData)
+      if (pricingError) {
+        console.error('❌ PRODUCT SERVICE - Invalid pricing:', pricingError)
         return null
       }
 
-      console.log('📦 PRODUCT SERVICE - Creating product with supplier_id:', supplierId)
-      
       const { data, error } = await supabase
         .from('products')
         .insert({
-          ...productData,
+          // Built field by field so a request body cannot set the status, id or moderation columns
+          title: productData.title,
+          description: productData.description,
+          price: productData.price,
+          options,
+          tags: normalizeTags(productData.tags),
+          category_id: productData.category_id || null,
+          suggested_retail_price: productData.suggested_retail_price || null,
+          map_price: productData.map_price || null,
+          map_enforcement: productData.map_enforcement || 'block',
           supplier_id: supplierId,
           supplier_name: supplierName,
           status: 'pending', // Changed from 'approved' to 'pending'
@@ -269,21 +169,58 @@ export class ProductService {
         return null
       }
 
+      const createdVariants = await this.createVariants(data.id, variants)
+      if (!createdVariants) {
+        return null
+      }
+
+      const product = { ...data, variants: createdVariants }
+      await InventoryService.initializeProduct(product, initial_stock)
+      await this.recordModerationEvent(data.id, 'submitted', supplierId, 'supplier')
+      await ProductRevisionService.recordInitialRevision(product)
+      await ProductImageService.syncProductImages(data.id, product.images || [])
+
       console.log('✅ PRODUCT SERVICE - Product created successfully:', data.id)
-      return data
+      return product
+    } catch (error) {
+      console.error('Error in createSupplierProduct:', error)
+      return null
+    }
+  }
+
+  // Insert the variants of a freshly created product; removes the product again if that fails
+  static async createVariants(productId: string, variants: CreateProductVariantData[]): Promise<Product['variants'] | null> {
+    if (variants.length === 0) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('product_variants')
+        .insert(toVariantRows(productId, variants))
+        .select()
+
+      if (error) {
+        console.error('Error creating product variants:', error)
+        await supabase.from('products').delete().eq('id', productId)
+        return null
+      }
+
+      return data || []
     } catch (error) {
-      console.error('Error in createProduct:', error)
+      console.error('Error in createVariants:', error)
+      await supabase.from('products').delete().eq('id', productId)
       return null
     }
   }
 
   // Approve a product (admin only)
-  static async approveProduct(productId: string): Promise<boolean> {
+  static async approveProduct(productId: string, adminName = 'admin'): Promise<boolean> {
     try {
       const { error } = await supabase
         .from('products')
         .update({ 
           status: 'approved',
+          rejection_reasons: [],
+          rejection_feedback: null,
           updated_at: new Date().toISOString()
         })
         .eq('id', productId)
@@ -293,6 +230,7 @@ export class ProductService {
         return false
       }
 
+      await this.recordModerationEvent(productId, 'approved', adminName, 'admin')
       return true
     } catch (error) {
       console.error('Error in approveProduct:', error)
@@ -300,13 +238,27 @@ export class ProductService {
     }
   }
 
-  // Reject a product (admin only)
-  static async rejectProduct(productId: string): Promise<boolean> {
+  // Reject a product with one or more structured reasons and optional feedback (admin only)
+  static async rejectProduct(productId: string, reasons: string[], feedback: string, adminName = 'admin'): Promise<boolean> {
     try {
+      const validReasons = Array.from(new Set(reasons.filter(isRejectionReason)))
+      const trimmedFeedback = feedback.trim()
+
+      if (validReasons.length === 0) {
+        console.error('Rejecting a product requires at least one reason')
+        return false
+      }
+      if (validReasons.includes('other') && !trimmedFeedback) {
+        console.error('Feedback is required when the reason is "other"')
+        return false
+      }
+
       const { error } = await supabase
         .from('products')
         .update({ 
           status: 'rejected',
+          rejection_reasons: validReasons,
+          rejection_feedback: trimmedFeedback || null,
           updated_at: new Date().toISOString()
         })
         .eq('id', productId)
@@ -316,6 +268,7 @@ export class ProductService {
         return false
       }
 
+      await this.recordModerationEvent(productId, 'rejected', adminName, 'admin', validReasons, trimmedFeedback || null)
       return true
     } catch (error) {
       console.error('Error in rejectProduct:', error)
@@ -323,52 +276,209 @@ export class ProductService {
     }
   }
 
-  // Update a product
-  static async updateProduct(productId: string, updateData: UpdateProductData): Promise<Product | null> {
+  // Full moderation history of a product, oldest first
+  static async getModerationHistory(productId: string): Promise<ModerationEvent[]> {
     try {
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) return null
-
       const { data, error } = await supabase
+        .from('product_moderation_events')
+        .select('*')
+        .eq('product_id', productId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching moderation history:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getModerationHistory:', error)
+      return []
+    }
+  }
+
+  // Append an entry to a product's moderation history
+  static async recordModerationEvent(
+    productId: string,
+    action: ModerationAction,
+    actor: string,
+    actorType: 'supplier' | 'admin',
+    reasons: string[] = [],
+    feedback: string | null = null
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('product_moderation_events')
+      .insert({
+        product_id: productId,
+        action,
+        reasons,
+        feedback,
+        actor,
+        actor_type: actorType
+      })
+
+    if (error) {
+      console.error('Error recording moderation event:', error)
+    }
+  }
+
+  // Edit a supplier's product; every edit is stored as a revision
+  // On approved products, material changes wait for admin approval while the live version stays as it is
+  static async updateSupplierProduct(
+    productId: string,
+    supplierId: string,
+    updates: UpdateSupplierProductData,
+    options: { resubmit?: boolean; note?: string } = {}
+  ): Promise<{ success: boolean; product?: Product; pendingReview?: boolean; error?: string }> {
+    try {
+      const { data: existing, error: fetchError } = await supabase
         .from('products')
-        .update(updateData)
+        .select(PRODUCT_SELECT)
         .eq('id', productId)
-        .eq('supplier_id', user.id) // Ensure user owns the product
-        .select()
+        .eq('supplier_id', supplierId) // Ensure supplier owns the product
         .single()
 
-      if (error) {
-        console.error('Error updating product:', error)
-        return null
+      if (fetchError || !existing) {
+        return { success: false, error: 'Product not found' }
       }
 
-      return data
+      if (options.resubmit && existing.status !== 'rejected') {
+        return { success: false, error: 'Only rejected products can be resubmitted' }
+      }
+
+      if (updates.title !== undefined && !updates.title.trim()) {
+        return { success: false, error: 'Title is required' }
+      }
+      if (updates.description !== undefined && !updates.description.trim()) {
+        return { success: false, error: 'Description is required' }
+      }
+      if (updates.price !== undefined && !(updates.price > 0)) {
+        return { success: false, error: 'Price must be greater than zero' }
+      }
+      if (updates.map_enforcement !== undefined && !['block', 'warn'].includes(updates.map_enforcement)) {
+        return { success: false, error: 'Invalid MAP enforcement' }
+      }
+
+      // Check the prices as they will be once the update is applied
+      const pricingError = validatePricing({
+        price: updates.price ?? existing.price,
+        suggested_retail_price: updates.suggested_retail_price !== undefined ? updates.suggested_retail_price : existing.suggested_retail_price,
+        map_price: updates.map_price !== undefined ? updates.map_price : existing.map_price
+      })
+      if (pricingError) {
+        return { success: false, error: pricingError }
+      }
+
+      const variantError = this.validateVariantEdits(existing, updates.variants || [])
+      if (variantError) {
+        return { success: false, error: variantError }
+      }
+
+      const live = buildProductSnapshot(existing)
+      const proposed = applySnapshotUpdates(live, {
+        ...updates,
+        tags: updates.tags !== undefined ? normalizeTags(updates.tags) : undefined
+      })
+      const changes = diffSnapshots(live, proposed)
+
+      const needsReview = existing.status === 'approved'
+      const liveFields = changes.filter(change => !(needsReview && change.material)).map(change => change.field)
+      const reviewFields = changes.filter(change => needsReview && change.material).map(change => change.field)
+
+      if (liveFields.length > 0) {
+        const applied = await ProductRevisionService.applySnapshot(productId, proposed, liveFields)
+        if (!applied) {
+          return { success: false, error: 'Failed to update product' }
+        }
+
+        await ProductRevisionService.recordRevision({
+          productId,
+          snapshot: mergeSnapshotFields(live, proposed, liveFields),
+          changedFields: liveFields,
+          status: 'applied',
+          author: supplierId,
+          authorType: 'supplier'
+        })
+      }
+
+      if (reviewFields.length > 0) {
+        const revision = await ProductRevisionService.submitPendingRevision({
+          productId,
+          snapshot: proposed,
+          changedFields: reviewFields,
+          author: supplierId,
+          authorType: 'supplier'
+        })
+        if (!revision) {
+          return { success: false, error: 'Failed to submit changes for review' }
+        }
+      }
+
+      if (options.resubmit) {
+        const { error } = await supabase
+          .from('products')
+          .update({
+            status: 'pending',
+            submission_count: (existing.submission_count || 1) + 1,
+            rejection_reasons: [],
+            rejection_feedback: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', productId)
+          .eq('supplier_id', supplierId)
+
+        if (error) {
+          console.error('Error resubmitting product:', error)
+          return { success: false, error: 'Failed to resubmit product' }
+        }
+
+        await this.recordModerationEvent(productId, 'resubmitted', supplierId, 'supplier', [], options.note?.trim() || null)
+      }
+
+      const product = await this.getProductById(productId)
+      return { success: true, product: product || undefined, pendingReview: reviewFields.length > 0 }
     } catch (error) {
-      console.error('Error in updateProduct:', error)
-      return null
+      console.error('Error in updateSupplierProduct:', error)
+      return { success: false, error: 'Failed to update product' }
     }
   }
 
-  // Delete a product
-  static async deleteProduct(productId: string): Promise<boolean> {
-    try {
-      const supplierName = localStorage.getItem('supplierName') || 'Unknown Supplier'
-      const supplierId = supplierName // Use name as ID for simplicity
+  // Check in-place variant edits against the product's current variants
+  private static validateVariantEdits(product: Product, edits: NonNullable<UpdateSupplierProductData['variants']>): string | null {
+    const variants = product.variants || []
+    const skus = new Map(variants.map(variant => [variant.id, variant.sku?.trim() || '']))
 
-      const { error } = await supabase
+    for (const edit of edits) {
+      if (!skus.has(edit.id)) return 'Variant not found'
+      if (edit.price !== undefined && !(edit.price > 0)) return 'Variant prices must be greater than zero'
+      if (edit.weight !== undefined && edit.weight !== null && edit.weight < 0) return 'Variant weight cannot be negative'
+      if (edit.sku !== undefined) skus.set(edit.id, edit.sku?.trim() || '')
+    }
+
+    const assigned = Array.from(skus.values()).filter(Boolean)
+    if (new Set(assigned).size !== assigned.length) return 'Variant SKUs must be unique'
+
+    return null
+  }
+
+  // Delete one of a supplier's products; returns false when the supplier does not own it
+  static async deleteSupplierProduct(productId: string, supplierId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
         .from('products')
         .delete()
         .eq('id', productId)
         .eq('supplier_id', supplierId) // Ensure supplier owns the product
+        .select('id')
 
       if (error) {
         console.error('Error deleting product:', error)
         return false
       }
 
-      return true
+      return (data || []).length > 0
     } catch (error) {
-      console.error('Error in deleteProduct:', error)
+      console.error('Error in deleteSupplierProduct:', error)
       return false
     }
   }
@@ -378,7 +488,7 @@ export class ProductService {
     try {
       const { data, error } = await supabase
         .from('products')
-        .select('*')
+        .select(PRODUCT_SELECT)
         .eq('id', productId)
         .single()
 
@@ -394,59 +504,49 @@ export class ProductService {
     }
   }
 
-  // Upload image to Supabase Storage
-  static async uploadImage(file: File): Promise<string | null> {
+  // Upload an image through the server pipeline, which validates, resizes and strips metadata
+  static async uploadImage(file: File, altText?: string): Promise<{ image?: ProductImage; duplicate?: ProductImage | null; error?: string }> {
     try {
-      // Get supplier name with fallback
-      let supplierName = 'unknown'
-      
-      // Try to get from localStorage first (most reliable fallback)
-      const supplierNameFromStorage = localStorage.getItem('supplierName')
-      if (supplierNameFromStorage) {
-        supplierName = supplierNameFromStorage
-      } else {
-        // Try Supabase auth as fallback
-        try {
-          const { data: { user }, error: userError } = await supabase.auth.getUser()
-          if (!userError && user) {
-            const { data: supplierData, error: supplierError } = await supabase
-              .from('suppliers')
-              .select('username')
-              .eq('email', user.email)
-              .single()
-            
-            if (!supplierError && supplierData) {
-              supplierName = supplierData.username
-            }
-          }
-        } catch (error) {
-          console.log('⚠️ Upload image - Supabase auth failed, using default supplier name')
-        }
+      const body = new FormData()
+      body.append('file', file)
+      if (altText) body.append('alt', altText)
+
+      console.log('📤 Uploading image:', file.name)
+
+      const response = await fetch('/api/products/images', { method: 'POST', body })
+      const data = await response.json()
+
+      if (!response.ok) {
+        console.error('Error uploading image:', data.error)
+        return { error: data.error || 'Failed to upload image' }
       }
-      
-      const fileExt = file.name.split('.').pop()
-      const fileName = `${supplierName}/${Date.now()}.${fileExt}`
 
-      console.log('📤 Uploading image:', fileName)
+      console.log('✅ Image uploaded successfully:', data.image.url)
+      return { image: data.image, duplicate: data.duplicate }
+    } catch (error) {
+      console.error('Error in uploadImage:', error)
+      return { error: 'Failed to upload image' }
+    }
+  }
 
-      const { data, error } = await supabase.storage
-        .from('product-images')
-        .upload(fileName, file)
+  // Save the alt text shown to shoppers and screen readers for an uploaded image
+  static async updateImageAltText(imageId: string, altText: string): Promise<ProductImage | null> {
+    try {
+      const response = await fetch(`/api/products/images/${imageId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ alt_text: altText })
+      })
+      const data = await response.json()
 
-      if (error) {
-        console.error('Error uploading image:', error)
+      if (!response.ok) {
+        console.error('Error updating image alt text:', data.error)
         return null
       }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('product-images')
-        .getPublicUrl(fileName)
-
-      console.log('✅ Image uploaded successfully:', urlData.publicUrl)
-      return urlData.publicUrl
+      return data.image
     } catch (error) {
-      console.error('Error in uploadImage:', error)
+      console.error('Error in updateImageAltText:', error)
       return null
     }
   }
@@ -0,0 +1,36 @@
+import { parseVariantField } from './product-revisions'
+import { ContentSyncField, UnlinkAction } from './types/product-sync'
+
+export const CONTENT_SYNC_FIELDS: { value: ContentSyncField; label: string }[] = [
+  { value: 'title', label: 'Title' },
+  { value: 'description', label: 'Description' },
+  { value: 'images', label: 'Images' },
+  { value: 'price', label: 'Price' },
+]
+
+export const UNLINK_ACTIONS: { value: UnlinkAction; label: string; description: string }[] = [
+  { value: 'draft', label: 'Unpublish', description: 'Set the product to draft in Shopify so customers can no longer buy it' },
+  { value: 'delete', label: 'Delete', description: 'Delete the product from Shopify' },
+  { value: 'unlink', label: 'Unlink only', description: 'Leave the product in Shopify as it is; the supplier no longer fulfils new orders for it' },
+]
+
+// Listing content affected by a set of changed product fields (revision field names)
+export function toContentSyncFields(changedFields: string[]): ContentSyncField[] {
+  const fields = new Set<ContentSyncField>()
+  for (const field of changedFields) {
+    if (field === 'title' || field === 'description' || field === 'images' || field === 'price') {
+      fields.add(field)
+    } else if (parseVariantField(field)?.key === 'price') {
+      fields.add('price')
+    }
+  }
+  return CONTENT_SYNC_FIELDS.map(entry => entry.value).filter(field => fields.has(field))
+}
+
+export function isContentSyncField(value: unknown): value is ContentSyncField {
+  return CONTENT_SYNC_FIELDS.some(entry => entry.value === value)
+}
+
+export function isUnlinkAction(value: unknown): value is UnlinkAction {
+  return UNLINK_ACTIONS.some(entry => entry.value === value)
+}
@@ -0,0 +1,84 @@
+import { Category, CategoryNode } from './types/category'
+import { ProductCategoryRef } from './types/product'
+
+// Shopify caps tags at 255 characters; keep each tag short and the list bounded
+export const MAX_TAG_LENGTH = 40
+export const MAX_TAGS_PER_PRODUCT = 20
+
+// Trim, lower-case and de-duplicate tags; accepts a list or a comma separated string
+export function normalizeTags(tags: string[] | string | null | undefined): string[] {
+  const list = typeof tags === 'string' ? tags.split(',') : tags || []
+  const normalized = list
+    .map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean)
+
+  return Array.from(new Set(normalized)).slice(0, MAX_TAGS_PER_PRODUCT)
+}
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+// Nest a flat category list; siblings are ordered by position, then name
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>()
+  categories.forEach(category => nodes.set(category.id, { ...category, children: [], depth: 0 }))
+
+  const roots: CategoryNode[] = []
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const sortLevel = (level: CategoryNode[], depth: number) => {
+    level.sort((a, b) => a.position - b.position || a.name.localeCompare(b.name))
+    level.forEach(node => {
+      node.depth = depth
+      sortLevel(node.children, depth + 1)
+    })
+  }
+  sortLevel(roots, 0)
+
+  return roots
+}
+
+// Depth-first list of the tree, handy for indented selects
+export function flattenCategoryTree(tree: CategoryNode[]): CategoryNode[] {
+  return tree.flatMap(node => [node, ...flattenCategoryTree(node.children)])
+}
+
+// A category together with every category below it
+export function getDescendantIds(categories: Category[], categoryId: string): string[] {
+  const ids = [categoryId]
+  for (let i = 0; i < ids.length; i++) {
+    categories.filter(category => category.parent_id === ids[i]).forEach(category => ids.push(category.id))
+  }
+  return ids
+}
+
+// Names from the root down to the category, e.g. ["Apparel", "T-Shirts"]
+export function getCategoryPath(categories: Category[], categoryId: string | null): string[] {
+  const byId = new Map(categories.map(category => [category.id, category]))
+  const path: string[] = []
+  let current = categoryId ? byId.get(categoryId) : undefined
+
+  while (current && path.length <= categories.length) {
+    path.unshift(current.name)
+    current = current.parent_id ? byId.get(current.parent_id) : undefined
+  }
+
+  return path
+}
+
+// Shopify product_type for a product's category: the explicit mapping, else the category name
+export function getShopifyProductType(category: ProductCategoryRef | null | undefined): string {
+  if (!category) return ''
+  return category.shopify_product_type?.trim() || category.name
+}
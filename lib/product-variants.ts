@@ -0,0 +1,121 @@
+import { CreateProductVariantData, ProductOption } from './types/product'
+
+// Shopify supports at most three option axes per product
+export const MAX_PRODUCT_OPTIONS = 3
+
+type VariantOptionValues = Pick<CreateProductVariantData, 'option1' | 'option2' | 'option3'>
+
+// Anything carrying option values: submitted variants, stored variants or Shopify variants
+interface HasOptionValues {
+  option1?: string | null
+  option2?: string | null
+  option3?: string | null
+}
+
+// Drop empty option names/values so they never reach the database or Shopify
+export function cleanOptions(options: ProductOption[] = []): ProductOption[] {
+  return options
+    .map(option => ({
+      name: option.name.trim(),
+      values: Array.from(new Set(option.values.map(value => value.trim()).filter(Boolean)))
+    }))
+    .filter(option => option.name && option.values.length > 0)
+    .slice(0, MAX_PRODUCT_OPTIONS)
+}
+
+// Build every combination of option values, e.g. Size x Color
+export function generateVariantCombinations(options: ProductOption[]): VariantOptionValues[] {
+  const cleaned = cleanOptions(options)
+  if (cleaned.length === 0) return []
+
+  let combinations: string[][] = [[]]
+  for (const option of cleaned) {
+    combinations = combinations.flatMap(combo => option.values.map(value => [...combo, value]))
+  }
+
+  return combinations.map(combo => ({
+    option1: combo[0],
+    option2: combo[1],
+    option3: combo[2]
+  }))
+}
+
+// Human readable title such as "M / Red", matching how Shopify names variants
+export function getVariantTitle(variant: HasOptionValues): string {
+  const values = [variant.option1, variant.option2, variant.option3].filter(Boolean)
+  return values.length > 0 ? values.join(' / ') : 'Default'
+}
+
+export function variantKey(variant: HasOptionValues): string {
+  return [variant.option1, variant.option2, variant.option3].map(value => value || '').join('|')
+}
+
+// Returns a list of problems with the submitted variants; empty when valid
+export function validateVariants(options: ProductOption[] = [], variants: CreateProductVariantData[] = []): string[] {
+  const errors: string[] = []
+  const cleaned = cleanOptions(options)
+
+  if (variants.length === 0) return errors
+
+  if (cleaned.length === 0) {
+    errors.push('Variants require at least one option such as Size or Color')
+    return errors
+  }
+
+  const seenKeys = new Set<string>()
+  const seenSkus = new Set<string>()
+
+  variants.forEach((variant, index) => {
+    const label = `Variant ${index + 1} (${getVariantTitle(variant)})`
+
+    if (!variant.price || variant.price <= 0) {
+      errors.push(`${label}: price must be greater than zero`)
+    }
+    if (variant.inventory_quantity !== undefined && variant.inventory_quantity < 0) {
+      errors.push(`${label}: stock cannot be negative`)
+    }
+    if (variant.weight !== undefined && variant.weight < 0) {
+      errors.push(`${label}: weight cannot be negative`)
+    }
+
+    const values = [variant.option1, variant.option2, variant.option3]
+    cleaned.forEach((option, optionIndex) => {
+      const value = values[optionIndex]
+      if (!value || !option.values.includes(value)) {
+        errors.push(`${label}: invalid value for ${option.name}`)
+      }
+    })
+
+    const key = variantKey(variant)
+    if (seenKeys.has(key)) {
+      errors.push(`${label}: duplicate option combination`)
+    }
+    seenKeys.add(key)
+
+    if (variant.sku) {
+      const sku = variant.sku.trim()
+      if (seenSkus.has(sku)) {
+        errors.push(`${label}: duplicate SKU ${sku}`)
+      }
+      seenSkus.add(sku)
+    }
+  })
+
+  return errors
+}
+
+// Map submitted variants to product_variants rows
+export function toVariantRows(productId: string, variants: CreateProductVariantData[]) {
+  return variants.map((variant, index) => ({
+    product_id: productId,
+    sku: variant.sku?.trim() || null,
+    price: variant.price,
+    weight: variant.weight ?? null,
+    weight_unit: variant.weight_unit || 'kg',
+    inventory_quantity: variant.inventory_quantity ?? 0,
+    option1: variant.option1 || null,
+    option2: variant.option2 || null,
+    option3: variant.option3 || null,
+    position: index + 1
+  }))
+}
@@ -0,0 +1,139 @@
+import { supabase } from '@/lib/supabase'
+import { PRODUCT_SELECT } from '@/lib/product-service'
+import { CategoryService } from '@/lib/services/category-service'
+import { buildCategoryTree, flattenCategoryTree, getDescendantIds } from '@/lib/product-taxonomy'
+import { Category } from '@/lib/types/category'
+import { Product } from '@/lib/types/product'
+import {
+  CatalogBrowseParams,
+  CatalogBrowseResult,
+  CatalogFacets,
+  CategoryFacetCount,
+  FacetCount,
+  PriceRangeFacetCount,
+} from '@/lib/types/catalog-browse'
+
+// Supplier prices are in rupees
+const PRICE_RANGES: { value: string; label: string; min: number; max: number | null }[] = [
+  { value: '0-500', label: 'Under ₹500', min: 0, max: 500 },
+  { value: '500-1000', label: '₹500 – ₹1,000', min: 500, max: 1000 },
+  { value: '1000-2500', label: '₹1,000 – ₹2,500', min: 1000, max: 2500 },
+  { value: '2500-5000', label: '₹2,500 – ₹5,000', min: 2500, max: 5000 },
+  { value: '5000+', label: '₹5,000 and above', min: 5000, max: null },
+]
+
+const MAX_TAG_FACETS = 30
+
+// Raw counts from the browse_catalog function; categories are rolled up to their ancestors here
+interface BrowseCounts {
+  total: number
+  ids: string[]
+  categories: { id: string; count: number }[]
+  suppliers: { id: string; name: string | null; count: number }[]
+  tags: { tag: string; count: number }[]
+  prices: { bucket: number; count: number }[]
+}
+
+export class CatalogBrowseService {
+  /**
+   * Search the approved catalog with filters, sorting, paging and facet counts
+   *
+   * Each facet is counted with every filter applied except its own, so choosing one
+   * supplier still shows how many products the other suppliers would add.
+   */
+  static async browse(params: CatalogBrowseParams): Promise<CatalogBrowseResult> {
+    const page = Math.max(1, params.page || 1)
+    const pageSize = Math.min(100, Math.max(1, params.pageSize || 24))
+
+    const categories = await CategoryService.getCategories()
+
+    const { data, error } = await supabase.rpc('browse_catalog', {
+      p_search: params.q?.trim().toLowerCase() || null,
+      p_category_ids: params.categoryId ? getDescendantIds(categories, params.categoryId) : null,
+      p_supplier_ids: params.supplierIds?.length ? params.supplierIds : null,
+      p_tags: params.tags?.length ? params.tags.map(tag => tag.toLowerCase()) : null,
+      p_min_price: params.minPrice ?? null,
+      p_max_price: params.maxPrice ?? null,
+      p_sort: params.sort || 'newest',
+      p_limit: pageSize,
+      p_offset: (page - 1) * pageSize,
+      p_price_bounds: PRICE_RANGES.slice(1).map(range => range.min),
+      p_tag_limit: MAX_TAG_FACETS,
+    })
+
+    if (error || !data) {
+      console.error('Error browsing catalog:', error)
+      return { products: [], total: 0, page, pageSize, facets: { categories: [], suppliers: [], tags: [], priceRanges: [] } }
+    }
+
+    const counts = data as BrowseCounts
+    return {
+      products: await this.getProductsByIds(counts.ids),
+      total: counts.total,
+      page,
+      pageSize,
+      facets: this.buildFacets(counts, categories),
+    }
+  }
+
+  private static buildFacets(counts: BrowseCounts, categories: Category[]): CatalogFacets {
+    // Categories: a product counts toward its own category and every ancestor
+    const parentOf = new Map(categories.map(category => [category.id, category.parent_id]))
+    const categoryCounts = new Map<string, number>()
+    for (const { id, count } of counts.categories) {
+      let current: string | null = id
+      const seen = new Set<string>()
+      while (current && !seen.has(current)) {
+        seen.add(current)
+        categoryCounts.set(current, (categoryCounts.get(current) || 0) + count)
+        current = parentOf.get(current) || null
+      }
+    }
+
+    const categoryFacets: CategoryFacetCount[] = flattenCategoryTree(buildCategoryTree(categories))
+      .filter(node => categoryCounts.has(node.id))
+      .map(node => ({
+        value: node.id,
+        label: node.name,
+        count: categoryCounts.get(node.id) || 0,
+        parentId: node.parent_id,
+        depth: node.depth,
+      }))
+
+    const suppliers: FacetCount[] = counts.suppliers.map(supplier => ({
+      value: supplier.id,
+      label: supplier.name || supplier.id,
+      count: supplier.count,
+    }))
+
+    const priceCounts = new Map(counts.prices.map(price => [price.bucket, price.count]))
+    const priceRanges: PriceRangeFacetCount[] = PRICE_RANGES.map((range, bucket) => ({
+      ...range,
+      count: priceCounts.get(bucket) || 0,
+    }))
+
+    return {
+      categories: categoryFacets,
+      suppliers: suppliers.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+      tags: counts.tags.map(({ tag, count }) => ({ value: tag, label: tag, count })),
+      priceRanges,
+    }
+  }
+
+  private static async getProductsByIds(ids: string[]): Promise<Product[]> {
+    if (ids.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('products')
+      .select(PRODUCT_SELECT)
+      .in('id', ids)
+
+    if (error) {
+      console.error('Error fetching browse page products:', error)
+      return []
+    }
+
+    const byId = new Map((data || []).map((product: Product) => [product.id, product]))
+    return ids.map(id => byId.get(id)).filter((product): product is Product => !!product)
+  }
+}
@@ -0,0 +1,181 @@
+import { supabase } from '@/lib/supabase'
+import { Category, CategoryNode, CreateCategoryData, UpdateCategoryData } from '@/lib/types/category'
+import { buildCategoryTree, getDescendantIds, slugify } from '@/lib/product-taxonomy'
+
+export class CategoryService {
+  /**
+   * Get every category as a flat list
+   */
+  static async getCategories(): Promise<Category[]> {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .order('position', { ascending: true })
+        .order('name', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching categories:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getCategories:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get the categories nested under their parents
+   */
+  static async getCategoryTree(): Promise<CategoryNode[]> {
+    return buildCategoryTree(await this.getCategories())
+  }
+
+  /**
+   * Create a category (admin only)
+   */
+  static async createCategory(input: CreateCategoryData): Promise<{ success: boolean; category?: Category; error?: string }> {
+    const name = input.name?.trim()
+    if (!name) {
+      return { success: false, error: 'Category name is required' }
+    }
+
+    const categories = await this.getCategories()
+    if (input.parent_id && !categories.some(category => category.id === input.parent_id)) {
+      return { success: false, error: 'Parent category not found' }
+    }
+
+    const { data, error } = await supabase
+      .from('categories')
+      .insert({
+        name,
+        slug: this.uniqueSlug(name, categories),
+        parent_id: input.parent_id || null,
+        shopify_product_type: input.shopify_product_type?.trim() || null,
+        position: input.position ?? 0
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating category:', error)
+      return { success: false, error: 'Failed to create category' }
+    }
+
+    return { success: true, category: data }
+  }
+
+  /**
+   * Rename, move or remap a category (admin only); a category cannot move under itself
+   */
+  static async updateCategory(
+    categoryId: string,
+    input: UpdateCategoryData
+  ): Promise<{ success: boolean; category?: Category; error?: string }> {
+    const categories = await this.getCategories()
+    const existing = categories.find(category => category.id === categoryId)
+    if (!existing) {
+      return { success: false, error: 'Category not found' }
+    }
+
+    const updates: Record<string, unknown> = {}
+
+    if (input.name !== undefined) {
+      const name = input.name.trim()
+      if (!name) {
+        return { success: false, error: 'Category name is required' }
+      }
+      if (name !== existing.name) {
+        updates.name = name
+        updates.slug = this.uniqueSlug(name, categories.filter(category => category.id !== categoryId))
+      }
+    }
+
+    if (input.parent_id !== undefined) {
+      if (input.parent_id && getDescendantIds(categories, categoryId).includes(input.parent_id)) {
+        return { success: false, error: 'A category cannot be moved under itself' }
+      }
+      updates.parent_id = input.parent_id || null
+    }
+
+    if (input.shopify_product_type !== undefined) {
+      updates.shopify_product_type = input.shopify_product_type?.trim() || null
+    }
+
+    if (input.position !== undefined) {
+      updates.position = input.position
+    }
+
+    const { data, error } = await supabase
+      .from('categories')
+      .update(updates)
+      .eq('id', categoryId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating category:', error)
+      return { success: false, error: 'Failed to update category' }
+    }
+
+    return { success: true, category: data }
+  }
+
+  /**
+   * Delete a category without subcategories (admin only); its products become uncategorised
+   */
+  static async deleteCategory(categoryId: string): Promise<{ success: boolean; error?: string }> {
+    const { count } = await supabase
+      .from('categories')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', categoryId)
+
+    if (count && count > 0) {
+      return { success: false, error: 'Move or delete its subcategories first' }
+    }
+
+    const { error } = await supabase
+      .from('categories')
+      .delete()
+      .eq('id', categoryId)
+
+    if (error) {
+      console.error('Error deleting category:', error)
+      return { success: false, error: 'Failed to delete category' }
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * Count products per category id
+   */
+  static async getProductCounts(): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('products')
+      .select('category_id')
+      .not('category_id', 'is', null)
+
+    if (error) {
+      console.error('Error counting category products:', error)
+      return {}
+    }
+
+    return (data || []).reduce<Record<string, number>>((counts, row) => {
+      counts[row.category_id] = (counts[row.category_id] || 0) + 1
+      return counts
+    }, {})
+  }
+
+  private static uniqueSlug(name: string, categories: Category[]): string {
+    const base = slugify(name) || 'category'
+    const taken = new Set(categories.map(category => category.slug))
+    let slug = base
+    for (let suffix = 2; taken.has(slug); suffix++) {
+      slug = `${base}-${suffix}`
+    }
+    return slug
+  }
+}
@@ -0,0 +1,132 @@
+import { randomUUID } from 'crypto'
+import { supabase } from '@/lib/supabase'
+import { ImageValidationError, processImage } from '@/lib/image-pipeline'
+import { hammingDistance, IMAGE_SIZES, NEAR_DUPLICATE_DISTANCE } from '@/lib/product-images'
+import { ImageSizeName, ProductImage, ProductImageSize } from '@/lib/types/product-image'
+
+// Server-only: processing runs on sharp, so keep this out of client components
+
+const BUCKET = 'product-images'
+
+export interface ImageUploadInput {
+  buffer: Buffer
+  fileName: string
+  contentType: string
+  supplierId: string
+  altText?: string | null
+}
+
+export class ImageUploadService {
+  /**
+   * Validate, resize and store an upload, flagging exact and near duplicates of the supplier's other images
+   */
+  static async uploadImage(input: ImageUploadInput): Promise<{ success: boolean; image?: ProductImage; duplicate?: ProductImage; error?: string }> {
+    let processed
+    try {
+      processed = await processImage(input.buffer, input.contentType)
+    } catch (error) {
+      if (error instanceof ImageValidationError) {
+        return { success: false, error: error.message }
+      }
+      console.error('Error processing image:', error)
+      return { success: false, error: 'Failed to process image' }
+    }
+
+    const id = randomUUID()
+    const storagePrefix = `${input.supplierId}/${id}`
+    const sizes: Partial<Record<ImageSizeName, ProductImageSize>> = {}
+
+    for (const size of processed.sizes) {
+      const path = `${storagePrefix}/${size.name}.jpg`
+      const { error } = await supabase.storage
+        .from(BUCKET)
+        .upload(path, size.buffer, { contentType: 'image/jpeg', cacheControl: '31536000' })
+
+      if (error) {
+        console.error('Error uploading image size:', error)
+        await this.removeStoredFiles(storagePrefix)
+        return { success: false, error: 'Failed to store image' }
+      }
+
+      const { data } = supabase.storage.from(BUCKET).getPublicUrl(path)
+      sizes[size.name] = { url: data.publicUrl, width: size.width, height: size.height }
+    }
+
+    const duplicate = await this.findDuplicate(input.supplierId, processed.contentHash, processed.perceptualHash)
+
+    const { data, error } = await supabase
+      .from('product_images')
+      .insert({
+        id,
+        supplier_id: input.supplierId,
+        url: sizes.large!.url,
+        thumbnail_url: sizes.thumbnail!.url,
+        sizes,
+        alt_text: input.altText?.trim() || null,
+        original_name: input.fileName.slice(0, 255),
+        original_type: input.contentType,
+        original_size: input.buffer.length,
+        width: processed.width,
+        height: processed.height,
+        content_hash: processed.contentHash,
+        perceptual_hash: processed.perceptualHash,
+        duplicate_of: duplicate?.image.id || null,
+        duplicate_type: duplicate?.type || null,
+        storage_prefix: storagePrefix
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving image record:', error)
+      await this.removeStoredFiles(storagePrefix)
+      return { success: false, error: 'Failed to save image' }
+    }
+
+    return { success: true, image: data, duplicate: duplicate?.image }
+  }
+
+  private static async findDuplicate(
+    supplierId: string,
+    contentHash: string,
+    perceptualHash: string
+  ): Promise<{ image: ProductImage; type: 'exact' | 'near' } | null> {
+    const { data: exact } = await supabase
+      .from('product_images')
+      .select('*')
+      .eq('supplier_id', supplierId)
+      .eq('content_hash', contentHash)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (exact) return { image: exact, type: 'exact' }
+
+    const { data: hashes, error } = await supabase
+      .from('product_images')
+      .select('id, perceptual_hash')
+      .eq('supplier_id', supplierId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error checking for duplicate images:', error)
+      return null
+    }
+
+    const near = (hashes || []).find(image => hammingDistance(image.perceptual_hash, perceptualHash) <= NEAR_DUPLICATE_DISTANCE)
+    if (!near) return null
+
+    const { data: image } = await supabase
+      .from('product_images')
+      .select('*')
+      .eq('id', near.id)
+      .single()
+
+    return image ? { image, type: 'near' } : null
+  }
+
+  private static async removeStoredFiles(storagePrefix: string): Promise<void> {
+    const paths = Object.keys(IMAGE_SIZES).map(name => `${storagePrefix}/${name}.jpg`)
+    await supabase.storage.from(BUCKET).remove(paths)
+  }
+}
@@ -0,0 +1,430 @@
+import { supabase } from '@/lib/supabase'
+import { Product } from '@/lib/types/product'
+import { InventoryLevel, OrderStockLine, StockMovement, StockMovementType } from '@/lib/types/inventory'
+import { StockSyncService } from '@/lib/services/stock-sync-service'
+import { StockLookup, stockKey } from '@/lib/catalog-export'
+
+const LEVEL_SELECT = '*, product:products(title, images), variant:product_variants(sku, option1, option2, option3, position)'
+
+interface MovementInput {
+  levelId: string
+  type: StockMovementType
+  onHandDelta: number
+  reservedDelta: number
+  supplierOrderId?: string
+  lineItemId?: string
+  reason?: string
+  createdBy?: string
+}
+
+export class InventoryService {
+  /**
+   * Get every inventory level owned by a supplier, with product and variant details
+   */
+  static async getSupplierInventory(supplierId: string): Promise<InventoryLevel[]> {
+    try {
+      const { data, error } = await supabase
+        .from('inventory_levels')
+        .select(LEVEL_SELECT)
+        .eq('supplier_id', supplierId)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching supplier inventory:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getSupplierInventory:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get a single inventory level
+   */
+  static async getLevel(levelId: string): Promise<InventoryLevel | null> {
+    const { data, error } = await supabase
+      .from('inventory_levels')
+      .select(LEVEL_SELECT)
+      .eq('id', levelId)
+      .single()
+
+    if (error) {
+      console.error('Error fetching inventory level:', error)
+      return null
+    }
+
+    return data
+  }
+
+  /**
+   * Available stock (on hand minus reserved) for a set of products, keyed by stockKey(productId, variantId)
+   */
+  static async getAvailableStock(productIds: string[]): Promise<StockLookup> {
+    const stock: StockLookup = new Map()
+    if (productIds.length === 0) return stock
+
+    // Batched so large catalogs stay within URL length limits
+    for (let i = 0; i < productIds.length; i += 100) {
+      const { data, error } = await supabase
+        .from('inventory_levels')
+        .select('product_id, variant_id, on_hand, reserved')
+        .in('product_id', productIds.slice(i, i + 100))
+
+      if (error) {
+        console.error('Error fetching available stock:', error)
+        continue
+      }
+
+      for (const level of data || []) {
+        stock.set(stockKey(level.product_id, level.variant_id), Math.max(level.on_hand - level.reserved, 0))
+      }
+    }
+
+    return stock
+  }
+
+  /**
+   * Get the most recent ledger entries for an inventory level
+   */
+  static async getMovements(levelId: string, limit = 50): Promise<StockMovement[]> {
+    try {
+      const { data, error } = await supabase
+        .from('stock_movements')
+        .select('*')
+        .eq('inventory_level_id', levelId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        console.error('Error fetching stock movements:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getMovements:', error)
+      return []
+    }
+  }
+
+  /**
+   * Create inventory levels for a newly listed product, seeded from the stock entered per variant
+   */
+  static async initializeProduct(product: Product, initialStock = 0): Promise<void> {
+    try {
+      const variants = product.variants || []
+      const seeds = variants.length > 0
+        ? variants.map(variant => ({ variantId: variant.id, quantity: variant.inventory_quantity || 0 }))
+        : [{ variantId: null, quantity: Math.max(0, Math.floor(initialStock)) }]
+
+      for (const seed of seeds) {
+        const { data: level, error } = await supabase
+          .from('inventory_levels')
+          .insert({
+            supplier_id: product.supplier_id,
+            product_id: product.id,
+            variant_id: seed.variantId,
+            on_hand: 0
+          })
+          .select()
+          .single()
+
+        if (error) {
+          console.error('Error creating inventory level:', error)
+          continue
+        }
+
+        await this.applyMovement({
+          levelId: level.id,
+          type: 'initial',
+          onHandDelta: seed.quantity,
+          reservedDelta: 0,
+          reason: 'Initial stock on listing',
+          createdBy: product.supplier_id
+        })
+      }
+    } catch (error) {
+      console.error('Error in initializeProduct:', error)
+    }
+  }
+
+  /**
+   * Manually change on-hand stock (positive to receive goods, negative for write-offs)
+   */
+  static async adjustStock(
+    levelId: string,
+    supplierId: string,
+    delta: number,
+    reason: string
+  ): Promise<{ success: boolean; movement?: StockMovement; error?: string }> {
+    if (!Number.isInteger(delta) || delta === 0) {
+      return { success: false, error: 'Adjustment must be a non-zero whole number' }
+    }
+
+    const level = await this.getLevel(levelId)
+    if (!level || level.supplier_id !== supplierId) {
+      return { success: false, error: 'Inventory item not found' }
+    }
+
+    if (level.on_hand + delta < 0) {
+      return { success: false, error: `Only ${level.on_hand} units on hand` }
+    }
+
+    const movement = await this.applyMovement({
+      levelId,
+      type: 'adjustment',
+      onHandDelta: delta,
+      reservedDelta: 0,
+      reason: reason || 'Manual adjustment',
+      createdBy: supplierId
+    })
+
+    if (!movement) {
+      return { success: false, error: 'Failed to record stock adjustment' }
+    }
+
+    await StockSyncService.syncProduct(level.product_id)
+
+    return { success: true, movement }
+  }
+
+  /**
+   * Reserve stock for the lines of a supplier order; lines reserved before, even if since shipped or released,
+   * are skipped. Safe to call on every sync and from concurrent deliveries of the same order
+   */
+  static async reserveForOrder(supplierOrderId: string, lines: OrderStockLine[]): Promise<void> {
+    try {
+      const touchedProducts: string[] = []
+
+      for (const line of lines) {
+        if (line.quantity <= 0) continue
+
+        const level = await this.findLevel(line.productId, line.variantId)
+        if (!level) {
+          console.warn(`No inventory level for product ${line.productId} variant ${line.variantId}, skipping reservation`)
+          continue
+        }
+
+        // reserve_order_line checks the ledger and reserves under a per-line lock
+        const { data: reserved, error } = await supabase.rpc('reserve_order_line', {
+          p_level_id: level.id,
+          p_supplier_order_id: supplierOrderId,
+          p_shopify_line_item_id: line.lineItemId,
+          p_quantity: line.quantity,
+          p_reason: 'Reserved for synced order'
+        })
+
+        if (error) {
+          console.error('Error reserving stock for order line:', error)
+          continue
+        }
+        if (!reserved) continue
+
+        if (level.on_hand - level.reserved < line.quantity) {
+          console.warn(`Oversold: order ${supplierOrderId} needs ${line.quantity}, available ${level.on_hand - level.reserved}`)
+        }
+        touchedProducts.push(level.product_id)
+      }
+
+      await StockSyncService.syncProducts(touchedProducts)
+    } catch (error) {
+      console.error('Error in reserveForOrder:', error)
+    }
+  }
+
+  /**
+   * Return every outstanding reservation of a supplier order to available stock
+   */
+  static async releaseOrder(supplierOrderId: string, reason = 'Order cancelled'): Promise<number> {
+    const outstanding = await this.getOutstandingReservations(supplierOrderId)
+    const lineItemIds = Array.from(outstanding.values()).map(entry => entry.lineItemId)
+    return this.releaseLines(supplierOrderId, lineItemIds, reason)
+  }
+
+  /**
+   * Return what the given lines of a supplier order still hold, e.g. lines removed when the order was edited
+   */
+  static async releaseLines(supplierOrderId: string, lineItemIds: string[], reason = 'Removed from order'): Promise<number> {
+    try {
+      const outstanding = Array.from((await this.getOutstandingReservations(supplierOrderId)).values())
+        .filter(entry => lineItemIds.includes(entry.lineItemId))
+      let released = 0
+
+      // release_order_line only gives back what is still outstanding, so repeating a release is harmless
+      for (const lineItemId of Array.from(new Set(outstanding.map(entry => entry.lineItemId)))) {
+        const { data, error } = await supabase.rpc('release_order_line', {
+          p_supplier_order_id: supplierOrderId,
+          p_shopify_line_item_id: lineItemId,
+          p_reason: reason
+        })
+
+        if (error) {
+          console.error('Error releasing stock for order line:', error)
+          continue
+        }
+        released += data || 0
+      }
+
+      await this.syncLevels(outstanding.map(entry => entry.levelId))
+
+      return released
+    } catch (error) {
+      console.error('Error in releaseLines:', error)
+      return 0
+    }
+  }
+
+  /**
+   * Convert the outstanding reservations of a shipped order into on-hand decrements; shipping again is harmless
+   */
+  static async shipOrder(supplierOrderId: string): Promise<number> {
+    try {
+      const outstanding = Array.from((await this.getOutstandingReservations(supplierOrderId)).values())
+      let shipped = 0
+
+      // ship_order_line only ships what is still outstanding, under the same per-line lock as reservations
+      for (const lineItemId of Array.from(new Set(outstanding.map(entry => entry.lineItemId)))) {
+        const { data, error } = await supabase.rpc('ship_order_line', {
+          p_supplier_order_id: supplierOrderId,
+          p_shopify_line_item_id: lineItemId,
+          p_reason: 'Order shipped'
+        })
+
+        if (error) {
+          console.error('Error shipping stock for order line:', error)
+          continue
+        }
+        shipped += data || 0
+      }
+
+      await this.syncLevels(outstanding.map(entry => entry.levelId))
+
+      return shipped
+    } catch (error) {
+      console.error('Error in shipOrder:', error)
+      return 0
+    }
+  }
+
+  /**
+   * Get the supplier_orders rows created for a Shopify order, optionally only one supplier's
+   */
+  static async getSupplierOrderIds(shopifyOrderId: string, storeUrl: string, supplierId?: string): Promise<string[]> {
+    let query = supabase
+      .from('supplier_orders')
+      .select('id')
+      .eq('shopify_order_id', shopifyOrderId)
+      .eq('store_url', storeUrl)
+
+    if (supplierId) {
+      query = query.eq('supplier_id', supplierId)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      console.error('Error fetching supplier orders for inventory:', error)
+      return []
+    }
+
+    return (data || []).map(row => row.id.toString())
+  }
+
+  /**
+   * Find the level for a product, or for one of its variants
+   */
+  private static async findLevel(productId: string, variantId: string | null): Promise<InventoryLevel | null> {
+    let query = supabase
+      .from('inventory_levels')
+      .select('*')
+      .eq('product_id', productId)
+
+    query = variantId ? query.eq('variant_id', variantId) : query.is('variant_id', null)
+
+    const { data, error } = await query.maybeSingle()
+    if (error) {
+      console.error('Error finding inventory level:', error)
+      return null
+    }
+
+    return data
+  }
+
+  /**
+   * Push the products behind a set of levels to their linked Shopify stores
+   */
+  private static async syncLevels(levelIds: string[]): Promise<void> {
+    if (levelIds.length === 0) return
+
+    const { data, error } = await supabase
+      .from('inventory_levels')
+      .select('product_id')
+      .in('id', levelIds)
+
+    if (error) {
+      console.error('Error fetching levels for stock sync:', error)
+      return
+    }
+
+    await StockSyncService.syncProducts((data || []).map(level => level.product_id))
+  }
+
+  /**
+   * Net reserved quantity per order line, derived from the ledger
+   */
+  private static async getOutstandingReservations(supplierOrderId: string) {
+    const outstanding = new Map<string, { levelId: string; lineItemId: string; quantity: number }>()
+
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .select('inventory_level_id, shopify_line_item_id, reserved_delta')
+      .eq('supplier_order_id', supplierOrderId)
+
+    if (error) {
+      console.error('Error fetching order stock movements:', error)
+      return outstanding
+    }
+
+    for (const movement of data || []) {
+      const key = `${movement.inventory_level_id}:${movement.shopify_line_item_id}`
+      const entry = outstanding.get(key) || {
+        levelId: movement.inventory_level_id,
+        lineItemId: movement.shopify_line_item_id,
+        quantity: 0
+      }
+      entry.quantity += movement.reserved_delta
+      outstanding.set(key, entry)
+    }
+
+    for (const [key, entry] of outstanding) {
+      if (entry.quantity <= 0) outstanding.delete(key)
+    }
+
+    return outstanding
+  }
+
+  /**
+   * Apply a movement through the apply_stock_movement database function so counters and ledger stay in step
+   */
+  private static async applyMovement(input: MovementInput): Promise<StockMovement | null> {
+    const { data, error } = await supabase.rpc('apply_stock_movement', {
+      p_level_id: input.levelId,
+      p_movement_type: input.type,
+      p_on_hand_delta: input.onHandDelta,
+      p_reserved_delta: input.reservedDelta,
+      p_supplier_order_id: input.supplierOrderId || null,
+      p_shopify_line_item_id: input.lineItemId || null,
+      p_reason: input.reason || null,
+      p_created_by: input.createdBy || 'system'
+    })
+
+    if (error) {
+      console.error(`Error applying ${input.type} stock movement:`, error)
+      return null
+    }
+
+    return data
+  }
+}
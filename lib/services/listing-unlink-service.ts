@@ -0,0 +1,138 @@
+import { supabase } from '@/lib/supabase'
+import { getShopifyHeaders, shopifyAdminUrl } from '@/lib/services/shopify-credentials'
+import { OpenListingOrder, UnlinkAction, UnlinkImpact } from '@/lib/types/product-sync'
+
+// Orders in these states need nothing more from the supplier
+const CLOSED_ORDER_STATUSES = ['fulfilled', 'delivered', 'cancelled']
+
+// PostgREST returns the joined order as one object, which the inferred type does not know
+interface OpenOrderItem {
+  quantity: number
+  order: {
+    id: string
+    order_name: string | null
+    order_number: string | null
+    status: string
+    order_date: string
+    store_url: string
+  }
+}
+
+export class ListingUnlinkService {
+  /**
+   * Describe a listing and the open orders that still contain it, so the seller can see what unlinking affects
+   */
+  static async getImpact(mappingId: string, storeUrl: string): Promise<UnlinkImpact | null> {
+    const { data: mapping, error } = await supabase
+      .from('product_shopify_mappings')
+      .select('id, supplier_product_id, shopify_product_id, overridden_fields, pending_content_fields, content_synced_at, pushed_at')
+      .eq('id', mappingId)
+      .eq('shopify_store_url', storeUrl)
+      .is('unlinked_at', null)
+      .maybeSingle()
+
+    if (error || !mapping) {
+      if (error) console.error('Error fetching listing:', error)
+      return null
+    }
+
+    const { data: product } = await supabase
+      .from('products')
+      .select('title')
+      .eq('id', mapping.supplier_product_id)
+      .maybeSingle()
+
+    return {
+      listing: {
+        ...mapping,
+        product_title: product?.title || null,
+        overridden_fields: mapping.overridden_fields || [],
+        pending_content_fields: mapping.pending_content_fields || []
+      },
+      open_orders: await this.getOpenOrders(mapping.shopify_product_id, storeUrl)
+    }
+  }
+
+  /**
+   * Take a listing out of the store and archive its mapping; open orders placed before now are still fulfilled
+   */
+  static async unlink(
+    mappingId: string,
+    storeUrl: string,
+    action: UnlinkAction
+  ): Promise<{ success: boolean; error?: string; openOrders?: number }> {
+    const impact = await this.getImpact(mappingId, storeUrl)
+    if (!impact) {
+      return { success: false, error: 'Listing not found' }
+    }
+
+    const shopifyProductId = impact.listing.shopify_product_id
+    if (action !== 'unlink') {
+      const { headers, error: credentialsError } = await getShopifyHeaders(storeUrl)
+      if (!headers) {
+        return { success: false, error: credentialsError }
+      }
+
+      const response = action === 'delete'
+        ? await fetch(shopifyAdminUrl(storeUrl, `products/${shopifyProductId}.json`), { method: 'DELETE', headers })
+        : await fetch(shopifyAdminUrl(storeUrl, `products/${shopifyProductId}.json`), {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ product: { id: shopifyProductId, status: 'draft' } })
+        })
+
+      // Already gone from Shopify: nothing left to unpublish or delete
+      if (!response.ok && response.status !== 404) {
+        console.error(`Failed to ${action} Shopify product ${shopifyProductId}:`, await response.text())
+        return { success: false, error: `Shopify returned ${response.status}; the listing was left linked` }
+      }
+    }
+
+    const { error } = await supabase
+      .from('product_shopify_mappings')
+      .update({ unlinked_at: new Date().toISOString(), unlink_action: action })
+      .eq('id', mappingId)
+
+    if (error) {
+      console.error('Error archiving product mapping:', error)
+      return { success: false, error: 'Failed to unlink listing' }
+    }
+
+    return { success: true, openOrders: impact.open_orders.length }
+  }
+
+  private static async getOpenOrders(shopifyProductId: string, storeUrl: string): Promise<OpenListingOrder[]> {
+    const { data, error } = await supabase
+      .from('supplier_order_items')
+      .select('quantity, order:supplier_orders!inner(id, order_name, order_number, status, order_date, store_url)')
+      .eq('shopify_product_id', shopifyProductId)
+      .eq('order.store_url', storeUrl)
+      .not('order.status', 'in', `(${CLOSED_ORDER_STATUSES.join(',')})`)
+
+    if (error) {
+      console.error('Error fetching open orders for listing:', error)
+      return []
+    }
+
+    // An order can hold several variants of the product
+    const orders = new Map<string, OpenListingOrder>()
+    for (const item of (data || []) as unknown as OpenOrderItem[]) {
+      const order = item.order
+      const existing = orders.get(order.id)
+      if (existing) {
+        existing.quantity += item.quantity
+      } else {
+        orders.set(order.id, {
+          id: order.id,
+          order_name: order.order_name,
+          order_number: order.order_number,
+          status: order.status,
+          order_date: order.order_date,
+          quantity: item.quantity
+        })
+      }
+    }
+
+    return Array.from(orders.values()).sort((a, b) => b.order_date.localeCompare(a.order_date))
+  }
+}
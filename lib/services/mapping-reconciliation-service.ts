@@ -0,0 +1,256 @@
+import { supabase } from '@/lib/supabase'
+import { getShopifyHeaders } from '@/lib/services/shopify-credentials'
+import { ProductLinkService } from '@/lib/services/product-link-service'
+import { ProductService } from '@/lib/product-service'
+import { buildVariantMappings } from '@/lib/product-matching'
+import { VariantMapping } from '@/lib/types/product-link'
+import { MappingFix, MappingIssue, ReconciliationRun } from '@/lib/types/mapping-reconciliation'
+
+interface ActiveMapping {
+  id: string
+  supplier_product_id: string
+  shopify_product_id: string
+  variant_mappings: VariantMapping[] | null
+  pushed_at: string | null
+}
+
+export class MappingReconciliationService {
+  /**
+   * Check every active mapping of a store against Shopify and the products table and save the report
+   */
+  static async reconcileStore(storeUrl: string): Promise<ReconciliationRun | null> {
+    const { data: mappings, error } = await supabase
+      .from('product_shopify_mappings')
+      .select('id, supplier_product_id, shopify_product_id, variant_mappings, pushed_at')
+      .eq('shopify_store_url', storeUrl)
+      .is('unlinked_at', null)
+
+    if (error) {
+      console.error('Error fetching mappings for reconciliation:', error)
+      return null
+    }
+
+    const { headers, error: credentialsError } = await getShopifyHeaders(storeUrl)
+    const listings = headers ? await ProductLinkService.fetchListings(storeUrl, headers) : null
+    if (!listings) {
+      return this.saveRun(storeUrl, 0, [], credentialsError || 'Failed to read products from Shopify')
+    }
+
+    const active = (mappings || []) as ActiveMapping[]
+    const productIds = Array.from(new Set(active.map(mapping => mapping.supplier_product_id)))
+    const { data: products } = productIds.length > 0
+      ? await supabase.from('products').select('id, title, variants:product_variants(id)').in('id', productIds)
+      : { data: [] }
+
+    const productsById = new Map((products || []).map(product => [product.id, product]))
+    const listingsById = new Map(listings.map(listing => [listing.id, listing]))
+
+    // The most recently made mapping for a Shopify product is the one kept
+    const newestByListing = new Map<string, ActiveMapping>()
+    for (const mapping of active) {
+      const current = newestByListing.get(mapping.shopify_product_id)
+      if (!current || (mapping.pushed_at || '') > (current.pushed_at || '')) {
+        newestByListing.set(mapping.shopify_product_id, mapping)
+      }
+    }
+
+    const issues: MappingIssue[] = []
+    for (const mapping of active) {
+      const product = productsById.get(mapping.supplier_product_id)
+      const listing = listingsById.get(mapping.shopify_product_id)
+      const issue = (type: MappingIssue['type'], detail: string, fix: MappingFix) => issues.push({
+        mapping_id: mapping.id,
+        supplier_product_id: mapping.supplier_product_id,
+        product_title: product?.title || null,
+        shopify_product_id: mapping.shopify_product_id,
+        type,
+        detail,
+        fix
+      })
+
+      if (!listing) {
+        issue('missing_listing', 'The product was deleted from Shopify', 'archive')
+        continue
+      }
+      if (!product) {
+        issue('missing_product', `The supplier product behind "${listing.title}" was deleted`, 'archive')
+        continue
+      }
+      if (newestByListing.get(mapping.shopify_product_id)!.id !== mapping.id) {
+        issue('duplicate', `"${listing.title}" is also linked to a newer supplier product`, 'archive')
+        continue
+      }
+
+      const variantMappings = mapping.variant_mappings || []
+      const mappedShopify = new Set(variantMappings.map(entry => entry.shopify_variant_id))
+      const supplierVariantIds = new Set(((product.variants || []) as { id: string }[]).map(variant => variant.id))
+      const removedInShopify = variantMappings.filter(entry => !listing.variants.some(variant => variant.id === entry.shopify_variant_id)).length
+      const addedInShopify = listing.variants.filter(variant => !mappedShopify.has(variant.id)).length
+      const removedBySupplier = variantMappings.filter(entry => entry.supplier_variant_id && !supplierVariantIds.has(entry.supplier_variant_id)).length
+
+      if (removedInShopify + addedInShopify + removedBySupplier > 0) {
+        const changes = [
+          removedInShopify && `${removedInShopify} variant${removedInShopify !== 1 ? 's' : ''} removed in Shopify`,
+          addedInShopify && `${addedInShopify} added in Shopify`,
+          removedBySupplier && `${removedBySupplier} removed by the supplier`
+        ].filter(Boolean)
+        issue('variant_mismatch', changes.join(', '), 'rebuild_variants')
+      }
+    }
+
+    return this.saveRun(storeUrl, active.length, issues, null)
+  }
+
+  /**
+   * Reconcile every store that has active mappings; run by the job endpoint
+   */
+  static async reconcileAll(): Promise<{ stores: number; issues: number }> {
+    const { data, error } = await supabase
+      .from('product_shopify_mappings')
+      .select('shopify_store_url')
+      .is('unlinked_at', null)
+
+    if (error) {
+      console.error('Error fetching stores for reconciliation:', error)
+      return { stores: 0, issues: 0 }
+    }
+
+    const stores = Array.from(new Set((data || []).map(row => row.shopify_store_url)))
+    let issues = 0
+    for (const storeUrl of stores) {
+      const run = await this.reconcileStore(storeUrl)
+      issues += run?.issues.length || 0
+    }
+
+    return { stores: stores.length, issues }
+  }
+
+  /**
+   * Most recent reconciliation report for a store
+   */
+  static async getLatestRun(storeUrl: string): Promise<ReconciliationRun | null> {
+    const { data, error } = await supabase
+      .from('mapping_reconciliation_runs')
+      .select('*')
+      .eq('store_url', storeUrl)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching reconciliation run:', error)
+      return null
+    }
+
+    return data
+  }
+
+  /**
+   * Apply the suggested fix for one issue of a store's latest report and drop it from the report
+   */
+  static async applyFix(storeUrl: string, mappingId: string, fix: MappingFix): Promise<{ success: boolean; error?: string }> {
+    const { data: mapping } = await supabase
+      .from('product_shopify_mappings')
+      .select('id, supplier_product_id, shopify_product_id, variant_mappings')
+      .eq('id', mappingId)
+      .eq('shopify_store_url', storeUrl)
+      .is('unlinked_at', null)
+      .maybeSingle()
+
+    if (!mapping) {
+      return { success: false, error: 'Mapping not found' }
+    }
+
+    const result = fix === 'archive'
+      ? await this.archiveMapping(mappingId)
+      : await this.rebuildVariants(storeUrl, mapping)
+    if (!result.success) return result
+
+    const run = await this.getLatestRun(storeUrl)
+    if (run) {
+      await supabase
+        .from('mapping_reconciliation_runs')
+        .update({ issues: run.issues.filter(issue => issue.mapping_id !== mappingId) })
+        .eq('id', run.id)
+    }
+
+    return { success: true }
+  }
+
+  private static async archiveMapping(mappingId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase
+      .from('product_shopify_mappings')
+      .update({ unlinked_at: new Date().toISOString(), unlink_action: 'unlink' })
+      .eq('id', mappingId)
+
+    if (error) {
+      console.error('Error archiving mapping:', error)
+      return { success: false, error: 'Failed to archive mapping' }
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * Pair the variants again as they are now, keeping the recorded wholesale cost of variants that were already paired
+   */
+  private static async rebuildVariants(
+    storeUrl: string,
+    mapping: { id: string; supplier_product_id: string; shopify_product_id: string; variant_mappings: VariantMapping[] | null }
+  ): Promise<{ success: boolean; error?: string }> {
+    const { headers, error: credentialsError } = await getShopifyHeaders(storeUrl)
+    if (!headers) {
+      return { success: false, error: credentialsError }
+    }
+
+    const { listing, error: listingError } = await ProductLinkService.fetchListing(storeUrl, headers, mapping.shopify_product_id)
+    if (!listing) {
+      return { success: false, error: listingError }
+    }
+
+    const supplierProduct = await ProductService.getProductById(mapping.supplier_product_id)
+    if (!supplierProduct) {
+      return { success: false, error: 'Supplier product no longer exists' }
+    }
+
+    const previous = new Map((mapping.variant_mappings || []).map(entry => [entry.shopify_variant_id, entry]))
+    const variantMappings = buildVariantMappings(supplierProduct, listing.variants).map(entry => {
+      const before = previous.get(entry.shopify_variant_id)
+      return before && before.supplier_variant_id === entry.supplier_variant_id
+        ? { ...entry, supplier_price: before.supplier_price ?? entry.supplier_price }
+        : entry
+    })
+
+    const { error } = await supabase
+      .from('product_shopify_mappings')
+      .update({ variant_mappings: variantMappings })
+      .eq('id', mapping.id)
+
+    if (error) {
+      console.error('Error rebuilding variant mappings:', error)
+      return { success: false, error: 'Failed to update mapping' }
+    }
+
+    return { success: true }
+  }
+
+  private static async saveRun(
+    storeUrl: string,
+    checkedMappings: number,
+    issues: MappingIssue[],
+    runError: string | null
+  ): Promise<ReconciliationRun | null> {
+    const { data, error } = await supabase
+      .from('mapping_reconciliation_runs')
+      .insert({ store_url: storeUrl, checked_mappings: checkedMappings, issues, error: runError })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving reconciliation run:', error)
+      return null
+    }
+
+    return data
+  }
+}
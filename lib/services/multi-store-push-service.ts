@@ -0,0 +1,73 @@
+import { ProductService } from '@/lib/product-service'
+import { describePushError, ProductPushService } from '@/lib/services/product-push-service'
+import { PricingRuleService } from '@/lib/services/pricing-rule-service'
+import { PushTemplateService } from '@/lib/services/push-template-service'
+import { computeRetailPrice } from '@/lib/pricing-rules'
+import { buildShopifyProduct } from '@/lib/shopify-product'
+import { StorePushResult, StorePushTarget } from '@/lib/types/multi-store-push'
+
+export class MultiStorePushService {
+  /**
+   * Push one supplier product to each target store; a failure in one store does not stop the others
+   */
+  static async pushToStores(
+    sellerId: string,
+    productId: string,
+    targets: StorePushTarget[],
+    updateExisting = false
+  ): Promise<{ success: boolean; results?: StorePushResult[]; error?: string }> {
+    const product = await ProductService.getProductById(productId)
+    if (!product || product.status !== 'approved') {
+      return { success: false, error: 'Product is not available to push' }
+    }
+
+    // Stores have separate rate limits, so they are pushed side by side
+    const results = await Promise.all(targets.map(async (target): Promise<StorePushResult> => {
+      let sellingPrice = target.selling_price
+      let compareAtPrice = target.compare_at_price
+      if (sellingPrice === null) {
+        const rules = await PricingRuleService.getRules(sellerId, target.store_url)
+        const computed = computeRetailPrice(product, rules, target.store_url)
+        sellingPrice = computed.sellingPrice
+        compareAtPrice = computed.compareAtPrice
+      }
+
+      const fail = (error: string, warnings: string[] = []): StorePushResult =>
+        ({ store_url: target.store_url, success: false, selling_price: sellingPrice!, warnings, error })
+
+      try {
+        const template = await PushTemplateService.getTemplate(target.store_url)
+        const payload = buildShopifyProduct(product, sellingPrice, compareAtPrice, template)
+        const result = await ProductPushService.pushProduct(target.store_url, payload, product.id, updateExisting ? 'update' : 'create')
+
+        if (result.existing) {
+          return {
+            store_url: target.store_url,
+            success: true,
+            already_listed: true,
+            selling_price: sellingPrice,
+            shopify_product_id: result.existing.shopify_product_id,
+            warnings: ['Already in this store; left unchanged']
+          }
+        }
+        if (!result.success) {
+          return fail(describePushError(result.error), result.warnings)
+        }
+
+        return {
+          store_url: target.store_url,
+          success: true,
+          updated: !!result.updated,
+          selling_price: sellingPrice,
+          shopify_product_id: result.product?.id?.toString(),
+          warnings: result.warnings
+        }
+      } catch (error) {
+        console.error(`Error pushing product ${productId} to ${target.store_url}:`, error)
+        return fail('Failed to push product to Shopify')
+      }
+    }))
+
+    return { success: true, results }
+  }
+}
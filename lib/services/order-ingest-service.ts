@@ -0,0 +1,285 @@
+import { supabase } from '@/lib/supabase'
+import { InventoryService } from '@/lib/services/inventory-service'
+import { getShopifyHeaders } from '@/lib/services/shopify-credentials'
+import { ShopifyOrderService } from '@/lib/services/shopify-order-service'
+import { VariantMapping } from '@/lib/types/product-link'
+import { OrderProcessResult, SyncLineItem, SyncOrder } from '@/lib/types/order-sync'
+
+export interface OrderRoutingMapping {
+  supplier_product_id: string
+  shopify_product_id: string
+  shopify_store_url: string
+  variant_mappings: VariantMapping[] | null
+  unlinked_at: string | null
+}
+
+interface SupplierLine extends SyncLineItem {
+  supplierProductId: string
+  supplierVariantId: string | null
+}
+
+export class OrderIngestService {
+  /**
+   * Mappings a store's orders are routed with; unlinked ones are kept for orders placed before the unlink
+   */
+  static async getStoreMappings(storeUrl: string): Promise<OrderRoutingMapping[] | null> {
+    const { data, error } = await supabase
+      .from('product_shopify_mappings')
+      .select('supplier_product_id, shopify_product_id, shopify_store_url, variant_mappings, unlinked_at')
+      .eq('shopify_store_url', storeUrl)
+
+    if (error) {
+      console.error('Error fetching product mappings:', error)
+      return null
+    }
+
+    return data || []
+  }
+
+  /**
+   * Read one order from Shopify and store the supplier's share of it; used when Shopify notifies a change
+   */
+  static async ingestOrder(storeUrl: string, shopifyOrderId: string): Promise<{ success: boolean; error?: string; result?: OrderProcessResult }> {
+    const mappings = await this.getStoreMappings(storeUrl)
+    if (!mappings) {
+      return { success: false, error: 'Failed to fetch product mappings' }
+    }
+    // Stores that sell no supplier products have nothing to route
+    if (mappings.length === 0) {
+      return { success: true }
+    }
+
+    const { headers, error: credentialsError } = await getShopifyHeaders(storeUrl)
+    if (!headers) {
+      return { success: false, error: credentialsError }
+    }
+
+    // Reading the order back, rather than trusting the notification body, keeps late or repeated deliveries harmless
+    const order = await ShopifyOrderService.fetchOrder(storeUrl, headers, shopifyOrderId)
+    if (!order) {
+      return { success: false, error: `Failed to read order ${shopifyOrderId} from Shopify` }
+    }
+
+    const result = await this.processOrders([order], mappings, storeUrl)
+    if (result.failedOrderIds.length > 0) {
+      return { success: false, error: result.errors.join('; ') || `Failed to store order ${shopifyOrderId}`, result }
+    }
+
+    return { success: true, result }
+  }
+
+  /**
+   * Split each order by supplier and create or update their supplier_orders, reserving stock for new orders
+   * and releasing it for cancelled ones. Safe to run again for the same orders
+   */
+  static async processOrders(orders: SyncOrder[], mappings: OrderRoutingMapping[], storeUrl: string): Promise<OrderProcessResult> {
+    let ordersSynced = 0
+    let itemsSynced = 0
+    const errors: string[] = []
+    const failedOrderIds: string[] = []
+
+    // An active mapping wins over one the seller unlinked for the same Shopify product
+    const shopifyToSupplierMap = new Map<string, OrderRoutingMapping>()
+    for (const mapping of mappings) {
+      const current = shopifyToSupplierMap.get(mapping.shopify_product_id)
+      if (!current || current.unlinked_at) {
+        shopifyToSupplierMap.set(mapping.shopify_product_id, mapping)
+      }
+    }
+
+    const supplierProductIds = Array.from(new Set(mappings.map(mapping => mapping.supplier_product_id)))
+    const { data: supplierProducts, error: productsError } = await supabase
+      .from('products')
+      .select('id, supplier_id')
+      .in('id', supplierProductIds)
+
+    if (productsError) {
+      console.error('Error fetching supplier products:', productsError)
+      return { ordersSynced: 0, itemsSynced: 0, errors: ['Failed to fetch supplier products'], failedOrderIds: orders.map(order => order.id) }
+    }
+
+    const productToSupplierMap = new Map<string, string>()
+    supplierProducts?.forEach(product => {
+      productToSupplierMap.set(product.id, product.supplier_id)
+    })
+
+    for (const order of orders) {
+      try {
+        // Unlinked listings only route orders placed before they were unlinked
+        const orderDate = new Date(order.date)
+        const relevantItems = order.lineItems.filter(item => {
+          const mapping = shopifyToSupplierMap.get(item.productId || '')
+          return mapping && (!mapping.unlinked_at || orderDate < new Date(mapping.unlinked_at))
+        })
+
+        if (relevantItems.length === 0) {
+          continue // Skip orders without mapped products
+        }
+
+        // Group items by supplier
+        const supplierOrdersMap = new Map<string, { items: SupplierLine[]; totalRevenue: number }>()
+        for (const item of relevantItems) {
+          const mapping = shopifyToSupplierMap.get(item.productId!)!
+          const supplierId = productToSupplierMap.get(mapping.supplier_product_id)
+          if (!supplierId) continue
+
+          if (!supplierOrdersMap.has(supplierId)) {
+            supplierOrdersMap.set(supplierId, { items: [], totalRevenue: 0 })
+          }
+
+          const supplierOrder = supplierOrdersMap.get(supplierId)!
+          const variantMapping = mapping.variant_mappings?.find(entry => entry.shopify_variant_id === item.variantId)
+          supplierOrder.items.push({
+            ...item,
+            supplierProductId: mapping.supplier_product_id,
+            supplierVariantId: variantMapping?.supplier_variant_id || null
+          })
+          supplierOrder.totalRevenue += item.price * item.quantity
+        }
+
+        for (const [supplierId, supplierOrderData] of Array.from(supplierOrdersMap.entries())) {
+          try {
+            const stored = await this.storeSupplierOrder(order, supplierId, supplierOrderData.items, supplierOrderData.totalRevenue, storeUrl)
+            if (!stored) {
+              failedOrderIds.push(order.id)
+              continue
+            }
+
+            if (stored.isNew) ordersSynced++
+            itemsSynced += stored.itemsSynced
+          } catch (error) {
+            console.error(`Error processing order ${order.id} for supplier ${supplierId}:`, error)
+            errors.push(`Order ${order.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+            failedOrderIds.push(order.id)
+          }
+        }
+      } catch (error) {
+        console.error(`Error processing order ${order.id}:`, error)
+        errors.push(`Order ${order.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        failedOrderIds.push(order.id)
+      }
+    }
+
+    return { ordersSynced, itemsSynced, errors, failedOrderIds: Array.from(new Set(failedOrderIds)) }
+  }
+
+  /**
+   * Create or update one supplier's part of an order; null when the order row could not be saved
+   */
+  private static async storeSupplierOrder(
+    order: SyncOrder,
+    supplierId: string,
+    items: SupplierLine[],
+    supplierRevenue: number,
+    storeUrl: string
+  ): Promise<{ isNew: boolean; itemsSynced: number } | null> {
+    const orderFields = {
+      order_number: order.orderNumber,
+      order_name: order.name,
+      customer_name: order.customerName || 'Guest',
+      customer_email: order.customerEmail || 'No email',
+      customer_phone: order.customerPhone || null,
+      status: order.status || 'pending',
+      financial_status: order.financialStatus || 'pending',
+      total_amount: order.amount || 0,
+      currency: order.currency || 'INR',
+      order_date: order.date,
+      supplier_revenue: supplierRevenue,
+      shipping_address: order.shippingAddress,
+      billing_address: order.billingAddress,
+      tags: order.tags,
+      note: order.note
+    }
+
+    // Read first only to tell a new order from a known one and to see whether it was already cancelled
+    const { data: existingOrder } = await supabase
+      .from('supplier_orders')
+      .select('id, status')
+      .eq('shopify_order_id', order.id)
+      .eq('supplier_id', supplierId)
+      .eq('store_url', storeUrl)
+      .maybeSingle()
+
+    const { data: savedOrder, error: orderError } = await supabase
+      .from('supplier_orders')
+      .upsert(
+        { ...orderFields, shopify_order_id: order.id, store_url: storeUrl, supplier_id: supplierId, last_synced_at: new Date().toISOString() },
+        { onConflict: 'shopify_order_id,supplier_id,store_url' }
+      )
+      .select('id')
+      .single()
+
+    if (orderError || !savedOrder) {
+      console.error('Error saving order:', orderError)
+      return null
+    }
+
+    const supplierOrderId = savedOrder.id.toString()
+
+    // Upserting by line item keeps each item's row, and the packing, tracking and stock state attached to it
+    const orderItems = items.map(item => ({
+      supplier_order_id: supplierOrderId,
+      shopify_line_item_id: item.id,
+      shopify_product_id: item.productId,
+      supplier_product_id: item.supplierProductId,
+      product_name: item.name,
+      quantity: item.quantity,
+      price: item.price,
+      variant_id: item.variantId,
+      sku: item.sku
+    }))
+
+    const { error: itemsError } = await supabase
+      .from('supplier_order_items')
+      .upsert(orderItems, { onConflict: 'supplier_order_id,shopify_line_item_id' })
+
+    if (itemsError) {
+      console.error('Error saving order items:', itemsError)
+    } else if (existingOrder) {
+      // Lines no longer in the order for this supplier, e.g. after the order was edited in Shopify
+      const { data: staleItems, error: staleError } = await supabase
+        .from('supplier_order_items')
+        .delete()
+        .eq('supplier_order_id', supplierOrderId)
+        .not('shopify_line_item_id', 'in', `(${items.map(item => `"${item.id}"`).join(',')})`)
+        .select('shopify_line_item_id')
+
+      if (staleError) {
+        console.error('Error removing stale order items:', staleError)
+      } else if (staleItems && staleItems.length > 0) {
+        // Stock held for removed lines would otherwise be taken from on-hand when the order ships
+        await InventoryService.releaseLines(
+          supplierOrderId,
+          staleItems.map(item => item.shopify_line_item_id),
+          'Removed from order in Shopify'
+        )
+      }
+    }
+
+    if (order.status === 'cancelled') {
+      // Cancelled in Shopify: whatever stock the order still holds goes back to the supplier
+      if (existingOrder && existingOrder.status !== 'cancelled') {
+        await InventoryService.releaseOrder(supplierOrderId, 'Order cancelled in Shopify')
+      }
+    } else if (order.status === 'fulfilled') {
+      // Fulfilled in Shopify: what the order still holds has left the warehouse. Orders first seen fulfilled
+      // never reserved anything, and shipping again is harmless
+      if (existingOrder && existingOrder.status !== 'fulfilled') {
+        await InventoryService.shipOrder(supplierOrderId)
+      }
+    } else {
+      // Lines reserved before are skipped, so this only holds stock for new orders and lines added by an edit
+      await InventoryService.reserveForOrder(
+        supplierOrderId,
+        items.map(item => ({
+          productId: item.supplierProductId,
+          variantId: item.supplierVariantId,
+          lineItemId: item.id,
+          quantity: item.quantity
+        }))
+      )
+    }
+
+    return { isNew: !existingOrder, itemsSynced: itemsError ? 0 : orderItems.length }
+  }
+}
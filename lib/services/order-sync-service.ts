@@ -0,0 +1,251 @@
+import { randomUUID } from 'crypto'
+import { supabase } from '@/lib/supabase'
+import { TokenManager } from '@/lib/token-manager'
+import { OrderIngestService } from '@/lib/services/order-ingest-service'
+import { getShopifyHeaders } from '@/lib/services/shopify-credentials'
+import { ShopifyOrderService } from '@/lib/services/shopify-order-service'
+import { OrderSyncRun, OrderSyncRunStatus, OrderSyncSummary, OrderSyncTrigger } from '@/lib/types/order-sync-run'
+
+// How often the scheduled runner syncs each store
+const SYNC_INTERVAL_MINUTES = Number(process.env.ORDER_SYNC_INTERVAL_MINUTES) || 15
+// A lock older than this belongs to a run that died, e.g. in a server restart; it must outlast the slowest backfill
+const LOCK_MINUTES = 30
+
+interface SyncOutcome {
+  ordersFetched: number
+  ordersSynced: number
+  itemsSynced: number
+  failedOrders: number
+  errors: string[]
+  fatal: boolean
+}
+
+export class OrderSyncService {
+  /**
+   * Sync stores one after another; with dueOnly, only those not synced within the interval.
+   * Stores another run is already syncing are skipped rather than waited for
+   */
+  static async syncStores(trigger: OrderSyncTrigger, dueOnly = false): Promise<OrderSyncSummary> {
+    const stores = await TokenManager.getAllStores()
+    let storeUrls = Array.from(new Set(stores.map(store => store.shop)))
+    if (dueOnly) {
+      storeUrls = await this.filterDue(storeUrls)
+    }
+
+    const summary: OrderSyncSummary = { runs: [], skipped: [] }
+    for (const storeUrl of storeUrls) {
+      const run = await this.syncStore(storeUrl, trigger)
+      if (run) {
+        summary.runs.push(run)
+      } else {
+        summary.skipped.push(storeUrl)
+      }
+    }
+
+    return summary
+  }
+
+  /**
+   * Sync one store's changed orders under its lock and record the run; null when the store was not synced
+   */
+  static async syncStore(storeUrl: string, trigger: OrderSyncTrigger): Promise<OrderSyncRun | null> {
+    const lockToken = randomUUID()
+    if (!(await this.acquireLock(storeUrl, lockToken))) {
+      console.log(`Order sync for ${storeUrl} is already running, skipping`)
+      return null
+    }
+
+    try {
+      // Holding the lock means no earlier run is still going; any left as running were cut off
+      await supabase
+        .from('order_sync_runs')
+        .update({ status: 'failed', errors: ['Run was interrupted before it finished'], finished_at: new Date().toISOString() })
+        .eq('store_url', storeUrl)
+        .eq('status', 'running')
+
+      const { data: run, error } = await supabase
+        .from('order_sync_runs')
+        .insert({ store_url: storeUrl, trigger })
+        .select()
+        .single()
+
+      if (error || !run) {
+        console.error('Error recording order sync run:', error)
+        return null
+      }
+
+      const outcome = await this.runSync(storeUrl)
+      return await this.finishRun(run as OrderSyncRun, outcome)
+    } finally {
+      await this.releaseLock(storeUrl, lockToken)
+    }
+  }
+
+  /**
+   * Most recent runs first, optionally for one store or status
+   */
+  static async listRuns(filters: { storeUrl?: string; status?: OrderSyncRunStatus; limit?: number } = {}): Promise<OrderSyncRun[] | null> {
+    let query = supabase
+      .from('order_sync_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(filters.limit || 100)
+
+    if (filters.storeUrl) {
+      query = query.eq('store_url', filters.storeUrl)
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      console.error('Error fetching order sync runs:', error)
+      return null
+    }
+
+    return (data || []) as OrderSyncRun[]
+  }
+
+  /**
+   * Fetch the orders changed since the store's cursor page by page, storing each page and moving the cursor past it,
+   * so a run cut off part way resumes from the last stored page; never throws
+   */
+  private static async runSync(storeUrl: string): Promise<SyncOutcome> {
+    const outcome: SyncOutcome = { ordersFetched: 0, ordersSynced: 0, itemsSynced: 0, failedOrders: 0, errors: [], fatal: false }
+    const fail = (message: string): SyncOutcome => ({ ...outcome, errors: [...outcome.errors, message], fatal: true })
+
+    try {
+      const mappings = await OrderIngestService.getStoreMappings(storeUrl)
+      if (!mappings) {
+        return fail('Failed to fetch product mappings')
+      }
+
+      // Nothing to route yet; still counts as synced so the store is not due again until the next interval
+      if (mappings.length === 0) {
+        await ShopifyOrderService.saveSyncCursor(storeUrl, null)
+        return outcome
+      }
+
+      const { headers, error: credentialsError } = await getShopifyHeaders(storeUrl)
+      if (!headers) {
+        return fail(credentialsError || 'Missing Shopify credentials')
+      }
+
+      // Only orders changed since the last run; the first run backfills from pull_orders_from
+      const window = await ShopifyOrderService.getSyncWindow(storeUrl)
+      let failedAt: string | null = null
+      const read = await ShopifyOrderService.forEachOrderPage(storeUrl, headers, window, async orders => {
+        // Webhooks feed single orders through the same processing
+        const result = await OrderIngestService.processOrders(orders, mappings, storeUrl)
+        outcome.ordersFetched += orders.length
+        outcome.ordersSynced += result.ordersSynced
+        outcome.itemsSynced += result.itemsSynced
+        outcome.failedOrders += result.failedOrderIds.length
+        outcome.errors.push(...result.errors)
+
+        // Orders come oldest change first, so the mark stops at the first failure and the next run retries from there
+        if (failedAt) return
+        const firstFailed = orders.find(order => result.failedOrderIds.includes(order.id))
+        failedAt = firstFailed?.updatedAt || null
+        await ShopifyOrderService.saveSyncCursor(storeUrl, firstFailed?.updatedAt || orders[orders.length - 1]?.updatedAt || null)
+      })
+
+      if (!read) {
+        return fail('Failed to fetch orders from Shopify')
+      }
+
+      return outcome
+    } catch (error) {
+      console.error(`Error syncing orders from store ${storeUrl}:`, error)
+      return fail(error instanceof Error ? error.message : 'Unknown error')
+    }
+  }
+
+  private static async finishRun(run: OrderSyncRun, outcome: SyncOutcome): Promise<OrderSyncRun> {
+    const status: OrderSyncRunStatus = outcome.fatal ? 'failed' : outcome.failedOrders > 0 ? 'partial' : 'completed'
+    const fields = {
+      status,
+      orders_fetched: outcome.ordersFetched,
+      orders_synced: outcome.ordersSynced,
+      items_synced: outcome.itemsSynced,
+      failed_orders: outcome.failedOrders,
+      errors: outcome.errors,
+      finished_at: new Date().toISOString()
+    }
+
+    const { data, error } = await supabase
+      .from('order_sync_runs')
+      .update(fields)
+      .eq('id', run.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving order sync run:', error)
+    }
+
+    return (data || { ...run, ...fields }) as OrderSyncRun
+  }
+
+  // Stores not synced or tried within the interval; a store whose runs keep failing is retried once per interval, not every tick
+  private static async filterDue(storeUrls: string[]): Promise<string[]> {
+    if (storeUrls.length === 0) return []
+
+    const { data: cursors, error } = await supabase
+      .from('order_sync_cursors')
+      .select('store_url, last_synced_at, last_attempted_at')
+      .in('store_url', storeUrls)
+
+    if (error) {
+      console.error('Error fetching order sync cursors:', error)
+      return storeUrls
+    }
+
+    const dueBefore = Date.now() - SYNC_INTERVAL_MINUTES * 60 * 1000
+    const lastRun = new Map((cursors || []).map(cursor => [
+      cursor.store_url,
+      Math.max(new Date(cursor.last_synced_at || 0).getTime(), new Date(cursor.last_attempted_at || 0).getTime())
+    ]))
+    return storeUrls.filter(storeUrl => (lastRun.get(storeUrl) || 0) < dueBefore)
+  }
+
+  // Take the store's lock unless another run holds one that has not expired
+  private static async acquireLock(storeUrl: string, lockToken: string): Promise<boolean> {
+    await supabase
+      .from('order_sync_cursors')
+      .upsert({ store_url: storeUrl }, { onConflict: 'store_url', ignoreDuplicates: true })
+
+    const now = new Date()
+    const { data: locked, error } = await supabase
+      .from('order_sync_cursors')
+      .update({
+        locked_until: new Date(now.getTime() + LOCK_MINUTES * 60 * 1000).toISOString(),
+        lock_token: lockToken,
+        last_attempted_at: now.toISOString()
+      })
+      .eq('store_url', storeUrl)
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .select('store_url')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error locking order sync:', error)
+      return false
+    }
+
+    return !!locked
+  }
+
+  private static async releaseLock(storeUrl: string, lockToken: string): Promise<void> {
+    const { error } = await supabase
+      .from('order_sync_cursors')
+      .update({ locked_until: null, lock_token: null })
+      .eq('store_url', storeUrl)
+      .eq('lock_token', lockToken)
+
+    if (error) {
+      console.error('Error unlocking order sync:', error)
+    }
+  }
+}
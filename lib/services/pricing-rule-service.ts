@@ -0,0 +1,136 @@
+import { supabase } from '@/lib/supabase'
+import { validatePricingRule } from '@/lib/pricing-rules'
+import { PricingRule, PricingRuleInput } from '@/lib/types/pricing-rule'
+
+type RuleResult = { success: boolean; rule?: PricingRule; error?: string }
+
+// The only columns a seller may set; seller_id, id and timestamps never come from the request body
+const INPUT_FIELDS: (keyof PricingRuleInput)[] = [
+  'store_url', 'name', 'priority', 'category_id', 'min_cost', 'max_cost', 'markup_type', 'markup_value',
+  'price_ending', 'compare_at_type', 'compare_at_value', 'is_active'
+]
+
+function pickInput(input: Partial<PricingRuleInput>): Partial<PricingRuleInput> {
+  const picked: Record<string, unknown> = {}
+  for (const key of INPUT_FIELDS) {
+    if (key in input) picked[key] = input[key]
+  }
+  return picked as Partial<PricingRuleInput>
+}
+
+// Empty optional conditions are stored as null so they match every product
+function toRow(body: Partial<PricingRuleInput>) {
+  const input = pickInput(body)
+  const row: Record<string, unknown> = { ...input }
+  if (input.name !== undefined) row.name = input.name.trim()
+  for (const key of ['store_url', 'category_id', 'min_cost', 'max_cost', 'compare_at_value'] as const) {
+    if (key in input) row[key] = input[key] ?? null
+  }
+  if (input.compare_at_type === 'none') row.compare_at_value = null
+  return row
+}
+
+export class PricingRuleService {
+  /**
+   * Get a seller's pricing rules; with a store, only the rules that apply to it
+   */
+  static async getRules(sellerId: string, storeUrl?: string): Promise<PricingRule[]> {
+    let query = supabase
+      .from('seller_pricing_rules')
+      .select('*')
+      .eq('seller_id', sellerId)
+
+    if (storeUrl) {
+      query = query.or(`store_url.is.null,store_url.eq."${storeUrl}"`)
+    }
+
+    const { data, error } = await query
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching pricing rules:', error)
+      return []
+    }
+
+    return data || []
+  }
+
+  /**
+   * Add a pricing rule for a seller
+   */
+  static async createRule(sellerId: string, input: PricingRuleInput): Promise<RuleResult> {
+    const validationError = validatePricingRule(input)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const { data, error } = await supabase
+      .from('seller_pricing_rules')
+      .insert({ ...toRow(input), seller_id: sellerId })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating pricing rule:', error)
+      return { success: false, error: 'Failed to create pricing rule' }
+    }
+
+    return { success: true, rule: data }
+  }
+
+  /**
+   * Change one of the seller's pricing rules
+   */
+  static async updateRule(ruleId: string, sellerId: string, updates: Partial<PricingRuleInput>): Promise<RuleResult> {
+    const { data: existing } = await supabase
+      .from('seller_pricing_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('seller_id', sellerId)
+      .single()
+
+    if (!existing) {
+      return { success: false, error: 'Pricing rule not found' }
+    }
+
+    const validationError = validatePricingRule({ ...existing, ...pickInput(updates) })
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const { data, error } = await supabase
+      .from('seller_pricing_rules')
+      .update(toRow(updates))
+      .eq('id', ruleId)
+      .eq('seller_id', sellerId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating pricing rule:', error)
+      return { success: false, error: 'Failed to update pricing rule' }
+    }
+
+    return { success: true, rule: data }
+  }
+
+  /**
+   * Remove one of the seller's pricing rules; returns false when the seller does not own it
+   */
+  static async deleteRule(ruleId: string, sellerId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('seller_pricing_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('seller_id', sellerId)
+      .select('id')
+
+    if (error) {
+      console.error('Error deleting pricing rule:', error)
+      return false
+    }
+
+    return (data || []).length > 0
+  }
+}
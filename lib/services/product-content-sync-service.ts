@@ -0,0 +1,445 @@
+import { supabase } from '@/lib/supabase'
+import { getShopifyHeaders, shopifyAdminUrl } from '@/lib/services/shopify-credentials'
+import { PushTemplateService } from '@/lib/services/push-template-service'
+import { buildShopifyProduct } from '@/lib/shopify-product'
+import { getVariantMapPrice } from '@/lib/product-pricing'
+import { CONTENT_SYNC_FIELDS } from '@/lib/product-sync'
+import { Product } from '@/lib/types/product'
+import { VariantMapping } from '@/lib/types/product-link'
+import { ContentSyncField, ContentSyncLog, ContentSyncStatus, SyncedListing } from '@/lib/types/product-sync'
+
+interface ContentMapping {
+  id: string
+  supplier_product_id: string
+  shopify_product_id: string
+  shopify_store_url: string
+  variant_mappings: VariantMapping[] | null
+  overridden_fields: ContentSyncField[] | null
+  pending_content_fields: ContentSyncField[] | null
+  syncing_content_fields: ContentSyncField[] | null
+}
+
+const SYNC_PRODUCT_SELECT = '*, variants:product_variants(*), media:product_images(id, url, thumbnail_url, sizes, alt_text, position, duplicate_type)'
+
+// A claim older than this belongs to a run that died; its fields are sent again by the next run
+const CLAIM_MINUTES = 10
+
+// PostgREST literal for comparing a whole text[] column
+function toArrayLiteral(fields: ContentSyncField[]): string {
+  return `{${fields.join(',')}}`
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export class ProductContentSyncService {
+  /**
+   * Queue changed content of a supplier product for every Shopify listing created from it
+   */
+  static async markChanged(productId: string, fields: ContentSyncField[]): Promise<void> {
+    if (fields.length === 0) return
+
+    const { data: mappings, error } = await supabase
+      .from('product_shopify_mappings')
+      .select('id, pending_content_fields')
+      .eq('supplier_product_id', productId)
+      .is('unlinked_at', null)
+
+    if (error) {
+      console.error('Error fetching product mappings for content sync:', error)
+      return
+    }
+
+    for (const mapping of mappings || []) {
+      const pending = Array.from(new Set([...(mapping.pending_content_fields || []), ...fields]))
+      const { error: updateError } = await supabase
+        .from('product_shopify_mappings')
+        .update({ pending_content_fields: pending })
+        .eq('id', mapping.id)
+
+      if (updateError) {
+        console.error('Error queueing content sync:', updateError)
+      }
+    }
+  }
+
+  /**
+   * Send queued content changes to Shopify, for every product with queued changes or only one product or store
+   */
+  static async syncPending(productId?: string, storeUrl?: string): Promise<{ processed: number }> {
+    let query = supabase
+      .from('product_shopify_mappings')
+      .select('id, supplier_product_id, shopify_product_id, shopify_store_url, variant_mappings, overridden_fields, pending_content_fields, syncing_content_fields')
+      .or('pending_content_fields.neq.{},syncing_content_fields.neq.{}')
+      .is('unlinked_at', null)
+
+    if (productId) {
+      query = query.eq('supplier_product_id', productId)
+    }
+    if (storeUrl) {
+      query = query.eq('shopify_store_url', storeUrl)
+    }
+
+    const { data: mappings, error } = await query
+    if (error) {
+      console.error('Error fetching pending content syncs:', error)
+      return { processed: 0 }
+    }
+
+    const products = new Map<string, Product | null>()
+    let processed = 0
+    for (const row of (mappings || []) as ContentMapping[]) {
+      const mapping = await this.claimMapping(row)
+      if (!mapping) continue
+      processed++
+
+      if (!products.has(mapping.supplier_product_id)) {
+        const { data } = await supabase
+          .from('products')
+          .select(SYNC_PRODUCT_SELECT)
+          .eq('id', mapping.supplier_product_id)
+          .maybeSingle()
+        products.set(mapping.supplier_product_id, data)
+      }
+
+      const product = products.get(mapping.supplier_product_id)
+      if (!product) {
+        await this.finishMapping(mapping, [], [])
+        await this.writeLog(mapping, 'failed', [], [], 'Supplier product no longer exists', [])
+        continue
+      }
+
+      await this.syncMapping(mapping, product)
+    }
+
+    return { processed }
+  }
+
+  /**
+   * Listings of a store with their overrides and sync state
+   */
+  static async getListings(storeUrl: string): Promise<SyncedListing[]> {
+    const { data, error } = await supabase
+      .from('product_shopify_mappings')
+      .select('id, supplier_product_id, shopify_product_id, overridden_fields, pending_content_fields, content_synced_at, pushed_at')
+      .eq('shopify_store_url', storeUrl)
+      .is('unlinked_at', null)
+      .order('pushed_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching synced listings:', error)
+      return []
+    }
+
+    const productIds = Array.from(new Set((data || []).map(row => row.supplier_product_id)))
+    const { data: products } = productIds.length > 0
+      ? await supabase.from('products').select('id, title').in('id', productIds)
+      : { data: [] }
+    const titles = new Map((products || []).map(product => [product.id, product.title]))
+
+    return (data || []).map(row => ({
+      ...row,
+      product_title: titles.get(row.supplier_product_id) || null,
+      overridden_fields: row.overridden_fields || [],
+      pending_content_fields: row.pending_content_fields || []
+    }))
+  }
+
+  /**
+   * Choose which fields of a listing the seller keeps their own version of
+   */
+  static async setOverriddenFields(
+    mappingId: string,
+    storeUrl: string,
+    fields: ContentSyncField[]
+  ): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabase
+      .from('product_shopify_mappings')
+      .update({ overridden_fields: fields })
+      .eq('id', mappingId)
+      .eq('shopify_store_url', storeUrl)
+      .is('unlinked_at', null)
+      .select('id')
+
+    if (error) {
+      console.error('Error saving overridden fields:', error)
+      return { success: false, error: 'Failed to save overrides' }
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Listing not found' }
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * Get recent content sync results for a store
+   */
+  static async getLogs(storeUrl: string, limit = 100): Promise<ContentSyncLog[]> {
+    const { data, error } = await supabase
+      .from('product_content_sync_logs')
+      .select('*')
+      .eq('store_url', storeUrl)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching content sync logs:', error)
+      return []
+    }
+
+    return data || []
+  }
+
+  /**
+   * Update one listing with the queued fields the seller has not overridden and record the outcome
+   */
+  private static async syncMapping(mapping: ContentMapping, product: Product): Promise<void> {
+    const pending = mapping.pending_content_fields || []
+    const overridden = mapping.overridden_fields || []
+    const fields = pending.filter(field => !overridden.includes(field))
+    const skipped = pending.filter(field => overridden.includes(field))
+
+    if (fields.length === 0) {
+      await this.finishMapping(mapping, [], [])
+      await this.writeLog(mapping, 'skipped', [], skipped, 'Every changed field is overridden in the store', [])
+      return
+    }
+
+    const { headers, error: credentialsError } = await getShopifyHeaders(mapping.shopify_store_url)
+    if (!headers) {
+      await this.finishMapping(mapping, fields, [])
+      await this.writeLog(mapping, 'failed', [], skipped, credentialsError || 'Missing store credentials', [])
+      return
+    }
+
+    const synced: ContentSyncField[] = []
+    const errors: string[] = []
+    let variantMappings = mapping.variant_mappings || []
+
+    // Title, description and images share one product update; the payload matches what a fresh push would send
+    const contentFields = fields.filter(field => field !== 'price')
+    if (contentFields.length > 0) {
+      const template = await PushTemplateService.getTemplate(mapping.shopify_store_url)
+      const payload = buildShopifyProduct(product, product.price, null, template)
+      const update: Record<string, unknown> = { id: mapping.shopify_product_id }
+      if (contentFields.includes('title')) update.title = payload.title
+      if (contentFields.includes('description')) update.body_html = payload.body_html
+      if (contentFields.includes('images')) update.images = payload.images
+
+      const error = await this.shopifyRequest(mapping.shopify_store_url, headers, `products/${mapping.shopify_product_id}.json`, { product: update })
+      if (error) {
+        errors.push(error)
+      } else {
+        synced.push(...contentFields)
+      }
+    }
+
+    if (fields.includes('price')) {
+      const result = await this.syncPrices(mapping, product, headers)
+      variantMappings = result.variantMappings
+      if (result.errors.length > 0) {
+        errors.push(...result.errors)
+      } else {
+        synced.push('price')
+      }
+    }
+
+    const status: ContentSyncStatus = errors.length === 0 ? 'success' : synced.length > 0 ? 'partial' : 'failed'
+    await this.finishMapping(mapping, fields.filter(field => !synced.includes(field)), variantMappings, synced.length > 0)
+    await this.writeLog(mapping, status, synced, skipped, null, errors)
+  }
+
+  /**
+   * Move each variant's retail price by the same proportion as its wholesale cost, never below the MAP
+   */
+  private static async syncPrices(
+    mapping: ContentMapping,
+    product: Product,
+    headers: Record<string, string>
+  ): Promise<{ errors: string[]; variantMappings: VariantMapping[] }> {
+    const variantMappings = (mapping.variant_mappings || []).map(variantMapping => ({ ...variantMapping }))
+    if (variantMappings.length === 0) {
+      return { errors: ['No variants mapped to this listing'], variantMappings }
+    }
+
+    let current = new Map<string, { price: string; compare_at_price: string | null }>()
+    try {
+      const response = await fetch(
+        shopifyAdminUrl(mapping.shopify_store_url, `products/${mapping.shopify_product_id}.json?fields=variants`),
+        { headers }
+      )
+      if (!response.ok) {
+        return { errors: [`Shopify returned ${response.status} when reading prices`], variantMappings }
+      }
+      const data = await response.json()
+      current = new Map((data.product?.variants || []).map((variant: any) => [variant.id.toString(), variant]))
+    } catch (error) {
+      return { errors: [error instanceof Error ? error.message : 'Unknown error'], variantMappings }
+    }
+
+    const errors: string[] = []
+    for (const variantMapping of variantMappings) {
+      const source = variantMapping.supplier_variant_id
+        ? product.variants?.find(variant => variant.id === variantMapping.supplier_variant_id)
+        : { price: product.price }
+      if (!source || source.price === variantMapping.supplier_price) continue
+
+      const listed = current.get(variantMapping.shopify_variant_id)
+      if (!listed) {
+        errors.push(`Variant ${variantMapping.shopify_variant_id} no longer exists in Shopify`)
+        continue
+      }
+      if (!variantMapping.supplier_price) {
+        errors.push(`Variant ${variantMapping.shopify_variant_id} was pushed without a recorded wholesale cost; update its price in Shopify`)
+        continue
+      }
+
+      const ratio = source.price / variantMapping.supplier_price
+      const minimum = getVariantMapPrice(product, source)
+      const price = Math.max(roundMoney(Number(listed.price) * ratio), minimum || 0)
+      const compareAt = listed.compare_at_price ? roundMoney(Number(listed.compare_at_price) * ratio) : null
+
+      const error = await this.shopifyRequest(mapping.shopify_store_url, headers, `variants/${variantMapping.shopify_variant_id}.json`, {
+        variant: {
+          id: variantMapping.shopify_variant_id,
+          price: price.toFixed(2),
+          compare_at_price: compareAt && compareAt > price ? compareAt.toFixed(2) : null
+        }
+      })
+      if (error) {
+        errors.push(error)
+      } else {
+        variantMapping.supplier_price = source.price
+      }
+    }
+
+    return { errors, variantMappings }
+  }
+
+  /**
+   * PUT to the Admin API; returns an error message or null
+   */
+  private static async shopifyRequest(shop: string, headers: Record<string, string>, path: string, body: unknown): Promise<string | null> {
+    try {
+      const response = await fetch(shopifyAdminUrl(shop, path), {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify(body)
+      })
+
+      if (!response.ok) {
+        return `Shopify returned ${response.status}: ${await response.text()}`
+      }
+
+      return null
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+
+  /**
+   * Take a listing's queued fields for this run, along with any a run that died left claimed; null when another run
+   * holds it or its queue changed since it was read. Fields queued from now on wait in pending_content_fields
+   */
+  private static async claimMapping(mapping: ContentMapping): Promise<ContentMapping | null> {
+    const queued = mapping.pending_content_fields || []
+    const leftOver = mapping.syncing_content_fields || []
+    const fields = CONTENT_SYNC_FIELDS
+      .map(entry => entry.value)
+      .filter(field => queued.includes(field) || leftOver.includes(field))
+
+    const now = new Date()
+    const { data: claimed, error } = await supabase
+      .from('product_shopify_mappings')
+      .update({
+        pending_content_fields: [],
+        syncing_content_fields: fields,
+        content_sync_claimed_until: new Date(now.getTime() + CLAIM_MINUTES * 60 * 1000).toISOString()
+      })
+      .eq('id', mapping.id)
+      .filter('pending_content_fields', 'eq', toArrayLiteral(queued))
+      .or(`content_sync_claimed_until.is.null,content_sync_claimed_until.lt.${now.toISOString()}`)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error claiming content sync:', error)
+      return null
+    }
+
+    return claimed ? { ...mapping, pending_content_fields: fields, syncing_content_fields: fields } : null
+  }
+
+  /**
+   * Release the claim, queueing the fields that still need sending alongside any queued while this sync ran
+   */
+  private static async finishMapping(
+    mapping: ContentMapping,
+    remaining: ContentSyncField[],
+    variantMappings: VariantMapping[],
+    synced = false
+  ): Promise<void> {
+    const update: Record<string, unknown> = { syncing_content_fields: [], content_sync_claimed_until: null }
+    if (variantMappings.length > 0) update.variant_mappings = variantMappings
+    if (synced) update.content_synced_at = new Date().toISOString()
+
+    // Only written if nothing was queued between reading the queue and writing it back; otherwise read it again.
+    // The last attempt writes regardless, as leaving the claim to expire would send the prices a second time
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data: latest } = await supabase
+        .from('product_shopify_mappings')
+        .select('pending_content_fields')
+        .eq('id', mapping.id)
+        .maybeSingle()
+
+      const queuedSince: ContentSyncField[] = latest?.pending_content_fields || []
+      const pending = CONTENT_SYNC_FIELDS
+        .map(entry => entry.value)
+        .filter(field => remaining.includes(field) || queuedSince.includes(field))
+
+      let query = supabase
+        .from('product_shopify_mappings')
+        .update({ ...update, pending_content_fields: pending })
+        .eq('id', mapping.id)
+      if (attempt < 2) {
+        query = query.filter('pending_content_fields', 'eq', toArrayLiteral(queuedSince))
+      }
+
+      const { data: saved, error } = await query.select('id')
+      if (error) {
+        console.error('Error updating content sync state:', error)
+        return
+      }
+      if (saved && saved.length > 0) return
+    }
+  }
+
+  private static async writeLog(
+    mapping: ContentMapping,
+    status: ContentSyncStatus,
+    syncedFields: ContentSyncField[],
+    skippedFields: ContentSyncField[],
+    message: string | null,
+    errors: string[]
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('product_content_sync_logs')
+      .insert({
+        mapping_id: mapping.id,
+        supplier_product_id: mapping.supplier_product_id,
+        store_url: mapping.shopify_store_url,
+        shopify_product_id: mapping.shopify_product_id,
+        status,
+        synced_fields: syncedFields,
+        skipped_fields: skippedFields,
+        message,
+        errors
+      })
+
+    if (error) {
+      console.error('Error writing content sync log:', error)
+    }
+  }
+}
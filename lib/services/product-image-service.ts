@@ -0,0 +1,76 @@
+import { supabase } from '@/lib/supabase'
+import { ProductImage } from '@/lib/types/product-image'
+
+export class ProductImageService {
+  /**
+   * Get a product's images in display order
+   */
+  static async getProductImages(productId: string): Promise<ProductImage[]> {
+    const { data, error } = await supabase
+      .from('product_images')
+      .select('*')
+      .eq('product_id', productId)
+      .order('position', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching product images:', error)
+      return []
+    }
+
+    return data || []
+  }
+
+  /**
+   * Update the alt text of one of the supplier's images
+   */
+  static async updateAltText(imageId: string, supplierId: string, altText: string): Promise<{ success: boolean; image?: ProductImage; error?: string }> {
+    const { data, error } = await supabase
+      .from('product_images')
+      .update({ alt_text: altText.trim().slice(0, 512) || null })
+      .eq('id', imageId)
+      .eq('supplier_id', supplierId)
+      .select()
+      .single()
+
+    if (error || !data) {
+      return { success: false, error: 'Image not found' }
+    }
+
+    return { success: true, image: data }
+  }
+
+  /**
+   * Link uploaded images to a product and record their order; images no longer listed are detached
+   */
+  static async syncProductImages(productId: string, urls: string[]): Promise<void> {
+    const { data: product } = await supabase
+      .from('products')
+      .select('supplier_id')
+      .eq('id', productId)
+      .single()
+
+    if (!product) return
+
+    const { data: current } = await supabase
+      .from('product_images')
+      .select('id, url')
+      .eq('supplier_id', product.supplier_id)
+      .or(`product_id.eq.${productId},product_id.is.null`)
+
+    for (const image of current || []) {
+      const position = urls.indexOf(image.url)
+      if (position === -1) {
+        await supabase
+          .from('product_images')
+          .update({ product_id: null })
+          .eq('id', image.id)
+          .eq('product_id', productId)
+      } else {
+        await supabase
+          .from('product_images')
+          .update({ product_id: productId, position })
+          .eq('id', image.id)
+      }
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { supabase } from '@/lib/supabase'
+import { getShopifyHeaders, shopifyAdminUrl } from '@/lib/services/shopify-credentials'
+import { StockSyncService } from '@/lib/services/stock-sync-service'
+import { ProductService } from '@/lib/product-service'
+import { buildVariantMappings, findLinkMatch } from '@/lib/product-matching'
+import { LinkProposal, LinkRequest, LinkResult, ShopifyListing } from '@/lib/types/product-link'
+
+const LISTING_FIELDS = 'id,title,image,variants'
+const PAGE_LIMIT = 250
+
+function toListing(product: any): ShopifyListing {
+  return {
+    id: product.id.toString(),
+    title: product.title,
+    image: product.image?.src || null,
+    variants: (product.variants || []).map((variant: any) => ({
+      id: variant.id.toString(),
+      sku: variant.sku || null,
+      barcode: variant.barcode || null,
+      option1: variant.option1 || null,
+      option2: variant.option2 || null,
+      option3: variant.option3 || null,
+      inventory_item_id: variant.inventory_item_id?.toString() || null
+    }))
+  }
+}
+
+// Shopify paginates with a page_info cursor in the Link header
+function nextPageUrl(linkHeader: string | null): string | null {
+  const next = linkHeader?.split(',').find(part => part.includes('rel="next"'))
+  return next?.match(/<([^>]+)>/)?.[1] || null
+}
+
+export class ProductLinkService {
+  /**
+   * Products in the store that are not linked to a supplier product yet, each with its best match
+   */
+  static async getProposals(storeUrl: string): Promise<{
+    proposals?: LinkProposal[]
+    products?: { id: string; title: string }[]
+    error?: string
+  }> {
+    const { headers, error: credentialsError } = await getShopifyHeaders(storeUrl)
+    if (!headers) {
+      return { error: credentialsError }
+    }
+
+    const listings = await this.fetchListings(storeUrl, headers)
+    if (!listings) {
+      return { error: 'Failed to read products from Shopify' }
+    }
+
+    const { data: mappings, error } = await supabase
+      .from('product_shopify_mappings')
+      .select('supplier_product_id, shopify_product_id')
+      .eq('shopify_store_url', storeUrl)
+      .is('unlinked_at', null)
+
+    if (error) {
+      console.error('Error fetching product mappings:', error)
+      return { error: 'Failed to load linked products' }
+    }
+
+    const linkedListings = new Set((mappings || []).map(mapping => mapping.shopify_product_id))
+    const linkedProducts = new Set((mappings || []).map(mapping => mapping.supplier_product_id))
+    const products = (await ProductService.getApprovedProducts()).filter(product => !linkedProducts.has(product.id))
+
+    const proposals = listings
+      .filter(listing => !linkedListings.has(listing.id))
+      .map(listing => ({ listing, match: findLinkMatch(listing, products) }))
+
+    return {
+      proposals,
+      products: products.map(product => ({ id: product.id, title: product.title }))
+    }
+  }
+
+  /**
+   * Create mappings for the matches the seller confirmed, so orders for those listings reach the supplier
+   */
+  static async linkProducts(storeUrl: string, links: LinkRequest[]): Promise<LinkResult[]> {
+    const { headers, error: credentialsError } = await getShopifyHeaders(storeUrl)
+    if (!headers) {
+      return links.map(link => ({ shopify_product_id: link.shopify_product_id, success: false, error: credentialsError }))
+    }
+
+    const results: LinkResult[] = []
+    for (const link of links) {
+      results.push(await this.linkProduct(storeUrl, headers, link))
+    }
+    return results
+  }
+
+  /**
+   * One product of a store with its variant codes
+   */
+  static async fetchListing(
+    storeUrl: string,
+    headers: Record<string, string>,
+    shopifyProductId: string
+  ): Promise<{ listing?: ShopifyListing; error?: string }> {
+    const response = await fetch(
+      shopifyAdminUrl(storeUrl, `products/${shopifyProductId}.json?fields=${LISTING_FIELDS}`),
+      { headers, cache: 'no-store' }
+    )
+    if (!response.ok) {
+      return { error: response.status === 404 ? 'Product no longer exists in Shopify' : `Shopify returned ${response.status}` }
+    }
+
+    return { listing: toListing((await response.json()).product) }
+  }
+
+  /**
+   * Every product in a store with the variant codes used for matching; null when Shopify could not be read
+   */
+  static async fetchListings(storeUrl: string, headers: Record<string, string>): Promise<ShopifyListing[] | null> {
+    const listings: ShopifyListing[] = []
+    let url: string | null = shopifyAdminUrl(storeUrl, `products.json?limit=${PAGE_LIMIT}&fields=${LISTING_FIELDS}`)
+
+    try {
+      while (url) {
+        const response: Response = await fetch(url, { headers, cache: 'no-store' })
+        if (!response.ok) {
+          console.error('Error fetching Shopify products for linking:', await response.text())
+          return null
+        }
+
+        const data = await response.json()
+        listings.push(...(data.products || []).map(toListing))
+        url = nextPageUrl(response.headers.get('Link'))
+      }
+    } catch (error) {
+      console.error('Error fetching Shopify products for linking:', error)
+      return null
+    }
+
+    return listings
+  }
+
+  private static async linkProduct(storeUrl: string, headers: Record<string, string>, link: LinkRequest): Promise<LinkResult> {
+    const fail = (error: string): LinkResult => ({ shopify_product_id: link.shopify_product_id, success: false, error })
+
+    const supplierProduct = await ProductService.getProductById(link.supplier_product_id)
+    if (!supplierProduct || supplierProduct.status !== 'approved') {
+      return fail('Supplier product is not available')
+    }
+
+    const { listing, error: listingError } = await this.fetchListing(storeUrl, headers, link.shopify_product_id)
+    if (!listing) {
+      return fail(listingError!)
+    }
+
+    const { data: linked, error: linkedError } = await supabase
+      .from('product_shopify_mappings')
+      .select('id')
+      .eq('shopify_product_id', listing.id)
+      .eq('shopify_store_url', storeUrl)
+      .is('unlinked_at', null)
+      .limit(1)
+
+    if (linkedError) {
+      console.error('Error checking product mappings:', linkedError)
+      return fail('Failed to save the link')
+    }
+    if (linked && linked.length > 0) {
+      return fail(`${listing.title} is already linked to a supplier product`)
+    }
+
+    const variantMappings = buildVariantMappings(supplierProduct, listing.variants)
+    const { error } = await supabase
+      .from('product_shopify_mappings')
+      .insert({
+        supplier_product_id: supplierProduct.id,
+        shopify_product_id: listing.id,
+        shopify_store_url: storeUrl,
+        variant_mappings: variantMappings,
+        link_source: 'link',
+        pushed_at: new Date().toISOString()
+      })
+
+    if (error?.code === '23505') {
+      // Either side may have been linked by another request since the checks above
+      return fail(error.message.includes('unique_active_listing_mapping')
+        ? `${listing.title} is already linked to a supplier product`
+        : `${supplierProduct.title} is already linked to another product in this store`)
+    }
+    if (error) {
+      console.error('Error linking product:', error)
+      return fail('Failed to save the link')
+    }
+
+    // From now on the supplier's stock is what the listing sells
+    await StockSyncService.syncProduct(supplierProduct.id, storeUrl)
+
+    return {
+      shopify_product_id: link.shopify_product_id,
+      success: true,
+      matched_variants: variantMappings.filter(mapping => mapping.supplier_variant_id).length
+    }
+  }
+}
@@ -0,0 +1,283 @@
+import { supabase } from '@/lib/supabase'
+import { getShopifyHeaders, shopifyAdminUrl } from '@/lib/services/shopify-credentials'
+import { StockSyncService } from '@/lib/services/stock-sync-service'
+import { ProductService } from '@/lib/product-service'
+import { variantKey } from '@/lib/product-variants'
+import { buildVariantMappings } from '@/lib/product-matching'
+import { findMapViolations, MapViolation } from '@/lib/product-pricing'
+import { ShopifyProductInput } from '@/lib/shopify-product'
+import { Product } from '@/lib/types/product'
+import { VariantMapping } from '@/lib/types/product-link'
+
+// 'create' refuses to push a product the store already has; 'update' changes that listing in place
+export type PushMode = 'create' | 'update'
+
+export interface ExistingListing {
+  shopify_product_id: string
+  pushed_at: string | null
+}
+
+export interface PushResult {
+  success: boolean
+  status: number // HTTP status to report; Shopify's own status when it rejected the product
+  product?: any
+  updated?: boolean // An existing listing was updated rather than a new one created
+  warnings: string[]
+  error?: unknown
+  violations?: MapViolation[]
+  existing?: ExistingListing // Set with status 409 when the store already has this product
+  retryAfter?: number // Seconds Shopify asked us to wait before retrying
+}
+
+interface StoredMapping {
+  id: string
+  shopify_product_id: string
+  pushed_at: string | null
+  variant_mappings: VariantMapping[] | null
+}
+
+const ALREADY_PUSHED_ERROR = 'This product is already in the store'
+
+// PushResult.error may be a message, Shopify's error body or a thrown error; readable text for job and store results
+export function describePushError(error: unknown): string {
+  if (typeof error === 'string') return error
+  if (error instanceof Error) return error.message
+  return JSON.stringify(error)
+}
+
+function retryAfterSeconds(response: Response): number | undefined {
+  const seconds = parseFloat(response.headers.get('Retry-After') || '')
+  return seconds > 0 ? seconds : undefined
+}
+
+function toExisting(mapping: StoredMapping): ExistingListing {
+  return { shopify_product_id: mapping.shopify_product_id, pushed_at: mapping.pushed_at }
+}
+
+export class ProductPushService {
+  /**
+   * Create a product in a Shopify store, or update the listing already made from the same supplier product
+   */
+  static async pushProduct(
+    shop: string,
+    product: ShopifyProductInput,
+    supplierProductId: string,
+    mode: PushMode = 'create'
+  ): Promise<PushResult> {
+    const supplierProduct = await ProductService.getProductById(supplierProductId)
+    if (!supplierProduct || supplierProduct.status !== 'approved') {
+      return { success: false, status: 404, error: 'Product is not available to push', warnings: [] }
+    }
+
+    // Enforce the supplier's minimum advertised price against the prices being pushed
+    let warnings: string[] = []
+    const violations = findMapViolations(supplierProduct, product.variants)
+    if (violations.length > 0) {
+      warnings = violations.map(violation =>
+        `${violation.variant} is priced at ₹${violation.price}, below the minimum advertised price of ₹${violation.minimum}`
+      )
+      if (supplierProduct.map_enforcement !== 'warn') {
+        return {
+          success: false,
+          status: 422,
+          error: "Selling price is below the supplier's minimum advertised price",
+          violations,
+          warnings
+        }
+      }
+    }
+
+    const { headers, error: credentialsError } = await getShopifyHeaders(shop)
+    if (!headers) {
+      return { success: false, status: 401, error: credentialsError, warnings }
+    }
+
+    const existing = await this.getMapping(supplierProductId, shop)
+    if (existing && mode === 'create') {
+      return { success: false, status: 409, error: ALREADY_PUSHED_ERROR, existing: toExisting(existing), warnings }
+    }
+    if (existing) {
+      const result = await this.updateListing(shop, headers, existing, product, supplierProduct)
+      if (result) return { ...result, warnings: [...warnings, ...result.warnings] }
+
+      // The listing was deleted in Shopify; archive the mapping, which still routes orders placed before now, and create a fresh one
+      const { error: archiveError } = await supabase
+        .from('product_shopify_mappings')
+        .update({ unlinked_at: new Date().toISOString(), unlink_action: 'deleted_in_shopify' })
+        .eq('id', existing.id)
+
+      if (archiveError) {
+        console.error('Error archiving product mapping:', archiveError)
+        return { success: false, status: 500, error: 'Failed to archive the mapping of the deleted listing', warnings }
+      }
+    }
+
+    console.log(`Pushing product to ${shop}:`, JSON.stringify(product, null, 2))
+
+    const response = await fetch(shopifyAdminUrl(shop, 'products.json'), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ product }),
+    })
+    const data = await response.json().catch(() => ({}))
+
+    console.log(`Push response status: ${response.status}`)
+
+    if (!response.ok) {
+      console.error('Shopify API error:', data)
+      return {
+        success: false,
+        status: response.status,
+        error: data.errors || data || 'Shopify error',
+        warnings,
+        retryAfter: retryAfterSeconds(response)
+      }
+    }
+
+    console.log(`Successfully pushed product: "${data.product?.title}" with ID: ${data.product?.id}`)
+
+    if (data.product?.id) {
+      const duplicate = await this.storeMapping(shop, supplierProductId, supplierProduct, data.product)
+      if (duplicate) {
+        // Another push of the same product won the race; take back the listing we just made
+        await fetch(shopifyAdminUrl(shop, `products/${data.product.id}.json`), { method: 'DELETE', headers })
+        return { success: false, status: 409, error: ALREADY_PUSHED_ERROR, existing: toExisting(duplicate), warnings }
+      }
+    }
+
+    return { success: true, status: 200, product: data.product, warnings }
+  }
+
+  private static async getMapping(supplierProductId: string, shop: string): Promise<StoredMapping | null> {
+    const { data, error } = await supabase
+      .from('product_shopify_mappings')
+      .select('id, shopify_product_id, pushed_at, variant_mappings')
+      .eq('supplier_product_id', supplierProductId)
+      .eq('shopify_store_url', shop)
+      .is('unlinked_at', null)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching product mapping:', error)
+    }
+
+    return data
+  }
+
+  /**
+   * Send the new content and prices to an existing listing; null when Shopify no longer has it.
+   * Variants are updated one by one so their ids, and the stock and order links that use them, stay the same
+   */
+  private static async updateListing(
+    shop: string,
+    headers: Record<string, string>,
+    mapping: StoredMapping,
+    product: ShopifyProductInput,
+    supplierProduct: Product | null
+  ): Promise<PushResult | null> {
+    const { title, body_html, vendor, product_type, tags, images } = product
+    const response = await fetch(shopifyAdminUrl(shop, `products/${mapping.shopify_product_id}.json`), {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ product: { id: mapping.shopify_product_id, title, body_html, vendor, product_type, tags, images } }),
+    })
+
+    if (response.status === 404) return null
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      console.error('Shopify API error:', data)
+      return {
+        success: false,
+        status: response.status,
+        error: data.errors || data || 'Shopify error',
+        warnings: [],
+        retryAfter: retryAfterSeconds(response)
+      }
+    }
+
+    const warnings: string[] = []
+    const supplierVariants = supplierProduct?.variants || []
+    const variantMappings = (mapping.variant_mappings || []).map(variantMapping => ({ ...variantMapping }))
+
+    for (const variantMapping of variantMappings) {
+      const source = supplierVariants.find(variant => variant.id === variantMapping.supplier_variant_id)
+      const target = source
+        ? product.variants.find(variant => variantKey(variant) === variantKey(source))
+        : product.variants.length === 1 ? product.variants[0] : undefined
+      if (!target) continue
+
+      const variantResponse = await fetch(shopifyAdminUrl(shop, `variants/${variantMapping.shopify_variant_id}.json`), {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({
+          variant: {
+            id: variantMapping.shopify_variant_id,
+            price: target.price,
+            compare_at_price: target.compare_at_price || null
+          }
+        }),
+      })
+
+      if (variantResponse.ok) {
+        variantMapping.supplier_price = source ? source.price : supplierProduct?.price ?? null
+      } else {
+        warnings.push(`Price of variant ${variantMapping.shopify_variant_id} was not updated (Shopify returned ${variantResponse.status})`)
+      }
+    }
+
+    // Everything the supplier changed has now been sent, so nothing is left for content sync
+    const { error: mappingError } = await supabase
+      .from('product_shopify_mappings')
+      .update({
+        variant_mappings: variantMappings,
+        pending_content_fields: [],
+        content_synced_at: new Date().toISOString()
+      })
+      .eq('id', mapping.id)
+
+    if (mappingError) {
+      console.error('Error updating product mapping:', mappingError)
+    }
+
+    return { success: true, status: 200, product: data.product, updated: true, warnings }
+  }
+
+  /**
+   * Record the new listing and publish the supplier's current stock to it.
+   * Returns the mapping that already exists when a concurrent push stored one first
+   */
+  private static async storeMapping(
+    shop: string,
+    supplierProductId: string,
+    supplierProduct: Product | null,
+    shopifyProduct: any
+  ): Promise<StoredMapping | null> {
+    try {
+      const variantMappings = buildVariantMappings(supplierProduct, shopifyProduct.variants || [])
+
+      const { error: mappingError } = await supabase
+        .from('product_shopify_mappings')
+        .insert({
+          supplier_product_id: supplierProductId,
+          shopify_product_id: shopifyProduct.id.toString(),
+          shopify_store_url: shop,
+          variant_mappings: variantMappings,
+          pushed_at: new Date().toISOString()
+        })
+
+      if (mappingError?.code === '23505') {
+        return this.getMapping(supplierProductId, shop)
+      }
+      if (mappingError) {
+        console.error('Error storing product mapping:', mappingError)
+        return null
+      }
+
+      await StockSyncService.syncProduct(supplierProductId, shop)
+    } catch (error) {
+      console.error('Error in mapping storage:', error)
+    }
+    return null
+  }
+}
@@ -0,0 +1,283 @@
+import { supabase } from '@/lib/supabase'
+import { Product } from '@/lib/types/product'
+import { ProductRevision, ProductRevisionStatus, ProductSnapshot } from '@/lib/types/product-revision'
+import { buildProductSnapshot, mergeSnapshotFields, parseVariantField } from '@/lib/product-revisions'
+import { ProductImageService } from '@/lib/services/product-image-service'
+import { ProductContentSyncService } from '@/lib/services/product-content-sync-service'
+import { toContentSyncFields } from '@/lib/product-sync'
+
+interface RecordRevisionInput {
+  productId: string
+  snapshot: ProductSnapshot
+  changedFields: string[]
+  status: ProductRevisionStatus
+  author: string
+  authorType: 'supplier' | 'admin'
+}
+
+export class ProductRevisionService {
+  /**
+   * Get every revision of a product, newest first
+   */
+  static async getRevisions(productId: string): Promise<ProductRevision[]> {
+    try {
+      const { data, error } = await supabase
+        .from('product_revisions')
+        .select('*')
+        .eq('product_id', productId)
+        .order('revision_number', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching product revisions:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getRevisions:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get a single revision
+   */
+  static async getRevision(revisionId: string): Promise<ProductRevision | null> {
+    const { data, error } = await supabase
+      .from('product_revisions')
+      .select('*')
+      .eq('id', revisionId)
+      .single()
+
+    if (error) {
+      console.error('Error fetching product revision:', error)
+      return null
+    }
+
+    return data
+  }
+
+  /**
+   * Get the changes to approved products that are waiting for admin review
+   */
+  static async getPendingRevisions(): Promise<ProductRevision[]> {
+    const { data, error } = await supabase
+      .from('product_revisions')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching pending revisions:', error)
+      return []
+    }
+
+    return data || []
+  }
+
+  /**
+   * Store a product's state as its next revision
+   */
+  static async recordRevision(input: RecordRevisionInput): Promise<ProductRevision | null> {
+    const { data: latest } = await supabase
+      .from('product_revisions')
+      .select('revision_number')
+      .eq('product_id', input.productId)
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data, error } = await supabase
+      .from('product_revisions')
+      .insert({
+        product_id: input.productId,
+        revision_number: (latest?.revision_number || 0) + 1,
+        snapshot: input.snapshot,
+        changed_fields: input.changedFields,
+        status: input.status,
+        author: input.author,
+        author_type: input.authorType
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error recording product revision:', error)
+      return null
+    }
+
+    return data
+  }
+
+  /**
+   * Record a newly created product as revision 1
+   */
+  static async recordInitialRevision(product: Product): Promise<void> {
+    await this.recordRevision({
+      productId: product.id,
+      snapshot: buildProductSnapshot(product),
+      changedFields: [],
+      status: 'applied',
+      author: product.supplier_id,
+      authorType: 'supplier'
+    })
+  }
+
+  /**
+   * Hold material changes to an approved product for review. An earlier pending change is superseded by one
+   * that carries its fields forward, so nothing waiting for review is lost
+   */
+  static async submitPendingRevision(input: Omit<RecordRevisionInput, 'status'>): Promise<ProductRevision | null> {
+    const { data: current } = await supabase
+      .from('product_revisions')
+      .select('*')
+      .eq('product_id', input.productId)
+      .eq('status', 'pending')
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (current) {
+      // Fields this edit changes again take the new value; the rest keep the value still under review
+      const carried = (current.changed_fields as string[]).filter(field => !input.changedFields.includes(field))
+      input = {
+        ...input,
+        snapshot: mergeSnapshotFields(input.snapshot, current.snapshot, carried),
+        changedFields: [...input.changedFields, ...carried]
+      }
+    }
+
+    await supabase
+      .from('product_revisions')
+      .update({ status: 'superseded' })
+      .eq('product_id', input.productId)
+      .eq('status', 'pending')
+
+    const revision = await this.recordRevision({ ...input, status: 'pending' })
+    if (!revision) return null
+
+    const { error } = await supabase
+      .from('products')
+      .update({ pending_revision_id: revision.id })
+      .eq('id', input.productId)
+
+    if (error) {
+      console.error('Error linking pending revision:', error)
+      return null
+    }
+
+    return revision
+  }
+
+  /**
+   * Write the given snapshot fields to the live product and its variants
+   */
+  static async applySnapshot(productId: string, snapshot: ProductSnapshot, fields: string[]): Promise<boolean> {
+    const productFields: Record<string, unknown> = {}
+    const variantFields = new Map<string, Record<string, unknown>>()
+
+    for (const field of fields) {
+      const variantField = parseVariantField(field)
+      if (variantField) {
+        const variant = snapshot.variants.find(item => item.id === variantField.id)
+        if (!variant) continue
+        variantFields.set(variant.id, { ...variantFields.get(variant.id), [variantField.key]: variant[variantField.key] })
+      } else if (field in snapshot && field !== 'variants') {
+        productFields[field] = snapshot[field as keyof ProductSnapshot]
+      }
+    }
+
+    if (Object.keys(productFields).length > 0) {
+      const { error } = await supabase
+        .from('products')
+        .update({ ...productFields, updated_at: new Date().toISOString() })
+        .eq('id', productId)
+
+      if (error) {
+        console.error('Error applying product revision:', error)
+        return false
+      }
+
+      if (productFields.images) {
+        await ProductImageService.syncProductImages(productId, snapshot.images)
+      }
+    }
+
+    for (const [variantId, values] of Array.from(variantFields.entries())) {
+      const { error } = await supabase
+        .from('product_variants')
+        .update(values)
+        .eq('id', variantId)
+        .eq('product_id', productId)
+
+      if (error) {
+        console.error('Error applying variant revision:', error)
+        return false
+      }
+    }
+
+    // Listings already pushed to seller stores pick the change up on the next content sync
+    await ProductContentSyncService.markChanged(productId, toContentSyncFields(fields))
+
+    return true
+  }
+
+  /**
+   * Publish a pending revision's changes to the live product (admin only)
+   */
+  static async approveRevision(revisionId: string, adminName = 'admin'): Promise<{ success: boolean; error?: string }> {
+    const revision = await this.getRevision(revisionId)
+    if (!revision || revision.status !== 'pending') {
+      return { success: false, error: 'Revision is not awaiting review' }
+    }
+
+    const applied = await this.applySnapshot(revision.product_id, revision.snapshot, revision.changed_fields)
+    if (!applied) {
+      return { success: false, error: 'Failed to apply revision' }
+    }
+
+    return this.closeRevision(revision, 'approved', adminName, null)
+  }
+
+  /**
+   * Discard a pending revision; the live product is left unchanged (admin only)
+   */
+  static async rejectRevision(revisionId: string, adminName = 'admin', note = ''): Promise<{ success: boolean; error?: string }> {
+    const revision = await this.getRevision(revisionId)
+    if (!revision || revision.status !== 'pending') {
+      return { success: false, error: 'Revision is not awaiting review' }
+    }
+
+    return this.closeRevision(revision, 'rejected', adminName, note.trim() || null)
+  }
+
+  private static async closeRevision(
+    revision: ProductRevision,
+    status: 'approved' | 'rejected',
+    adminName: string,
+    note: string | null
+  ): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase
+      .from('product_revisions')
+      .update({
+        status,
+        reviewed_by: adminName,
+        reviewed_at: new Date().toISOString(),
+        review_note: note
+      })
+      .eq('id', revision.id)
+
+    if (error) {
+      console.error('Error updating product revision:', error)
+      return { success: false, error: 'Failed to update revision' }
+    }
+
+    await supabase
+      .from('products')
+      .update({ pending_revision_id: null })
+      .eq('id', revision.product_id)
+      .eq('pending_revision_id', revision.id)
+
+    return { success: true }
+  }
+}
@@ -0,0 +1,385 @@
+import { supabase } from '@/lib/supabase'
+import { ProductService } from '@/lib/product-service'
+import { describePushError, ProductPushService, PushResult } from '@/lib/services/product-push-service'
+import { PricingRuleService } from '@/lib/services/pricing-rule-service'
+import { PushTemplateService } from '@/lib/services/push-template-service'
+import { computeRetailPrice } from '@/lib/pricing-rules'
+import { buildShopifyProduct } from '@/lib/shopify-product'
+import { PushJob, PushJobItem, PushJobStatus, PushJobWithItems } from '@/lib/types/push-job'
+
+const MAX_ATTEMPTS = 4
+const MAX_RETRY_DELAY_SECONDS = 30
+// A push that has not finished after this long was cut off, e.g. by a server restart
+const STALE_PUSH_MINUTES = 10
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Rate limits and Shopify outages are worth retrying; anything else will fail the same way again
+function isRetryable(result: PushResult): boolean {
+  return result.status === 429 || result.status >= 500
+}
+
+export class PushJobService {
+  /**
+   * Queue a bulk push, pricing every product with the seller's rules for the store
+   */
+  static async createJob(
+    sellerId: string,
+    storeUrl: string,
+    productIds: string[],
+    updateExisting = false
+  ): Promise<{ success: boolean; job?: PushJob; error?: string }> {
+    const uniqueIds = Array.from(new Set(productIds))
+    if (uniqueIds.length === 0) {
+      return { success: false, error: 'Select at least one product' }
+    }
+
+    const rules = await PricingRuleService.getRules(sellerId, storeUrl)
+    const items = []
+    for (const productId of uniqueIds) {
+      const product = await ProductService.getProductById(productId)
+      if (!product || product.status !== 'approved') {
+        return { success: false, error: `Product ${productId} is not available to push` }
+      }
+
+      const { sellingPrice, compareAtPrice } = computeRetailPrice(product, rules, storeUrl)
+      items.push({
+        supplier_product_id: product.id,
+        product_title: product.title,
+        selling_price: sellingPrice,
+        compare_at_price: compareAtPrice
+      })
+    }
+
+    const { data: job, error } = await supabase
+      .from('bulk_push_jobs')
+      .insert({ seller_id: sellerId, store_url: storeUrl, update_existing: updateExisting, total_items: items.length })
+      .select()
+      .single()
+
+    if (error || !job) {
+      console.error('Error creating push job:', error)
+      return { success: false, error: 'Failed to create push job' }
+    }
+
+    const { error: itemsError } = await supabase
+      .from('bulk_push_job_items')
+      .insert(items.map(item => ({ ...item, job_id: job.id })))
+
+    if (itemsError) {
+      console.error('Error creating push job items:', itemsError)
+      await supabase.from('bulk_push_jobs').delete().eq('id', job.id)
+      return { success: false, error: 'Failed to create push job' }
+    }
+
+    return { success: true, job }
+  }
+
+  /**
+   * Get a seller's recent push jobs for a store
+   */
+  static async getJobs(sellerId: string, storeUrl: string, limit = 20): Promise<PushJob[]> {
+    const { data, error } = await supabase
+      .from('bulk_push_jobs')
+      .select('*')
+      .eq('seller_id', sellerId)
+      .eq('store_url', storeUrl)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching push jobs:', error)
+      return []
+    }
+
+    return data || []
+  }
+
+  /**
+   * Get one of the seller's push jobs with the status of every product in it
+   */
+  static async getJob(jobId: string, sellerId: string): Promise<PushJobWithItems | null> {
+    const { data: job, error } = await supabase
+      .from('bulk_push_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('seller_id', sellerId)
+      .maybeSingle()
+
+    if (error || !job) {
+      if (error) console.error('Error fetching push job:', error)
+      return null
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from('bulk_push_job_items')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('created_at', { ascending: true })
+
+    if (itemsError) {
+      console.error('Error fetching push job items:', itemsError)
+    }
+
+    return { ...job, items: items || [] }
+  }
+
+  /**
+   * Put a job's failed products back in the queue, along with any a run that was cut off left pushing.
+   * A queued or running job can only be resumed once none of its products has moved for STALE_PUSH_MINUTES
+   */
+  static async resumeJob(jobId: string, sellerId: string): Promise<{ success: boolean; error?: string }> {
+    const { data: job } = await supabase
+      .from('bulk_push_jobs')
+      .select('id, status')
+      .eq('id', jobId)
+      .eq('seller_id', sellerId)
+      .maybeSingle()
+
+    if (!job) {
+      return { success: false, error: 'Push job not found' }
+    }
+    if ((job.status === 'queued' || job.status === 'running') && !(await this.isStalled(jobId))) {
+      return { success: false, error: 'Push job is still running' }
+    }
+
+    const { error } = await supabase
+      .from('bulk_push_job_items')
+      .update({ status: 'pending', attempts: 0, error: null })
+      .eq('job_id', jobId)
+      .in('status', ['failed', 'pushing'])
+
+    if (error) {
+      console.error('Error resuming push job:', error)
+      return { success: false, error: 'Failed to resume push job' }
+    }
+
+    await supabase
+      .from('bulk_push_jobs')
+      .update({ status: 'queued', finished_at: null })
+      .eq('id', jobId)
+
+    await this.updateProgress(jobId)
+    return { success: true }
+  }
+
+  /**
+   * Push the pending products of a job one at a time until none are left
+   */
+  static async processJob(jobId: string): Promise<void> {
+    const { data: job } = await supabase
+      .from('bulk_push_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle()
+
+    if (!job) return
+
+    await supabase
+      .from('bulk_push_jobs')
+      .update({ status: 'running', started_at: job.started_at || new Date().toISOString() })
+      .eq('id', jobId)
+
+    while (true) {
+      const item = await this.claimNextItem(jobId)
+      if (!item) break
+
+      await this.pushItem(job, item)
+      await this.updateProgress(jobId)
+    }
+
+    await this.finishJob(jobId)
+  }
+
+  /**
+   * Pick up jobs that were interrupted or never started; run by the job endpoint
+   */
+  static async processQueued(): Promise<{ processed: number }> {
+    const staleBefore = new Date(Date.now() - STALE_PUSH_MINUTES * 60 * 1000).toISOString()
+
+    // The product may or may not have reached Shopify, so let the seller decide whether to resume it
+    const { error: staleError } = await supabase
+      .from('bulk_push_job_items')
+      .update({ status: 'failed', error: 'Push was interrupted; check the store before resuming' })
+      .eq('status', 'pushing')
+      .lt('updated_at', staleBefore)
+
+    if (staleError) {
+      console.error('Error releasing interrupted pushes:', staleError)
+    }
+
+    const { data: jobs, error } = await supabase
+      .from('bulk_push_jobs')
+      .select('id')
+      .in('status', ['queued', 'running'])
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching queued push jobs:', error)
+      return { processed: 0 }
+    }
+
+    for (const job of jobs || []) {
+      await this.processJob(job.id)
+    }
+
+    return { processed: (jobs || []).length }
+  }
+
+  // No product of the job was updated within STALE_PUSH_MINUTES, so no run is working on it
+  private static async isStalled(jobId: string): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - STALE_PUSH_MINUTES * 60 * 1000).toISOString()
+    const { data: recent, error } = await supabase
+      .from('bulk_push_job_items')
+      .select('id')
+      .eq('job_id', jobId)
+      .gte('updated_at', staleBefore)
+      .limit(1)
+
+    if (error) {
+      console.error('Error checking push job activity:', error)
+      return false
+    }
+
+    return !recent || recent.length === 0
+  }
+
+  /**
+   * Mark the next pending item as pushing; null when another run already took it or none are left
+   */
+  private static async claimNextItem(jobId: string): Promise<PushJobItem | null> {
+    const { data: next } = await supabase
+      .from('bulk_push_job_items')
+      .select('id')
+      .eq('job_id', jobId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (!next) return null
+
+    const { data: claimed } = await supabase
+      .from('bulk_push_job_items')
+      .update({ status: 'pushing' })
+      .eq('id', next.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle()
+
+    // Lost the race to a concurrent run; move on to the next item
+    return claimed || this.claimNextItem(jobId)
+  }
+
+  /**
+   * Push one product, retrying rate limits and server errors with backoff
+   */
+  private static async pushItem(job: PushJob, item: PushJobItem): Promise<void> {
+    const product = await ProductService.getProductById(item.supplier_product_id)
+    if (!product) {
+      await this.saveItem(item.id, { status: 'failed', error: 'Supplier product no longer exists' })
+      return
+    }
+
+    const template = await PushTemplateService.getTemplate(job.store_url)
+    const payload = buildShopifyProduct(product, Number(item.selling_price), item.compare_at_price ? Number(item.compare_at_price) : null, template)
+    let attempts = item.attempts
+
+    while (true) {
+      attempts++
+      let result: PushResult
+      try {
+        result = await ProductPushService.pushProduct(job.store_url, payload, product.id, job.update_existing ? 'update' : 'create')
+      } catch (error) {
+        result = { success: false, status: 503, error: describePushError(error), warnings: [] }
+      }
+
+      if (result.success) {
+        await this.saveItem(item.id, {
+          status: 'pushed',
+          attempts,
+          error: null,
+          warnings: result.warnings,
+          shopify_product_id: result.product?.id?.toString() || null
+        })
+        return
+      }
+
+      if (result.existing) {
+        await this.saveItem(item.id, {
+          status: 'pushed',
+          attempts,
+          error: null,
+          warnings: ['Already in this store; left unchanged'],
+          shopify_product_id: result.existing.shopify_product_id
+        })
+        return
+      }
+
+      if (!isRetryable(result) || attempts >= MAX_ATTEMPTS) {
+        await this.saveItem(item.id, { status: 'failed', attempts, error: describePushError(result.error), warnings: result.warnings })
+        return
+      }
+
+      await this.saveItem(item.id, { attempts, error: `Retrying: ${describePushError(result.error)}` })
+      const delay = Math.min(result.retryAfter ?? 2 ** attempts, MAX_RETRY_DELAY_SECONDS)
+      await sleep(delay * 1000)
+    }
+  }
+
+  private static async saveItem(itemId: string, update: Partial<PushJobItem>): Promise<void> {
+    const { error } = await supabase
+      .from('bulk_push_job_items')
+      .update(update)
+      .eq('id', itemId)
+
+    if (error) {
+      console.error('Error updating push job item:', error)
+    }
+  }
+
+  /**
+   * Recount the job's pushed and failed products
+   */
+  private static async updateProgress(jobId: string): Promise<{ total: number; pushed: number; failed: number }> {
+    const { data: items } = await supabase
+      .from('bulk_push_job_items')
+      .select('status')
+      .eq('job_id', jobId)
+
+    const counts = {
+      total: (items || []).length,
+      pushed: (items || []).filter(item => item.status === 'pushed').length,
+      failed: (items || []).filter(item => item.status === 'failed').length
+    }
+
+    await supabase
+      .from('bulk_push_jobs')
+      .update({ total_items: counts.total, pushed_items: counts.pushed, failed_items: counts.failed })
+      .eq('id', jobId)
+
+    return counts
+  }
+
+  /**
+   * Settle the job's status once no pending products are left, unless another run is still pushing one
+   */
+  private static async finishJob(jobId: string): Promise<void> {
+    const { data: inFlight } = await supabase
+      .from('bulk_push_job_items')
+      .select('id')
+      .eq('job_id', jobId)
+      .in('status', ['pending', 'pushing'])
+      .limit(1)
+
+    if (inFlight && inFlight.length > 0) return
+
+    const counts = await this.updateProgress(jobId)
+    const status: PushJobStatus = counts.failed === 0 ? 'completed' : counts.pushed > 0 ? 'partial' : 'failed'
+
+    await supabase
+      .from('bulk_push_jobs')
+      .update({ status, finished_at: new Date().toISOString() })
+      .eq('id', jobId)
+  }
+}
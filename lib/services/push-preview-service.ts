@@ -0,0 +1,73 @@
+import { supabase } from '@/lib/supabase'
+import { getShopifyHeaders, shopifyAdminUrl } from '@/lib/services/shopify-credentials'
+import { PushTemplateService } from '@/lib/services/push-template-service'
+import { ProductService } from '@/lib/product-service'
+import { buildShopifyProduct, diffShopifyProduct } from '@/lib/shopify-product'
+import { PushPreview } from '@/lib/types/push-template'
+
+const LIVE_FIELDS = 'id,title,body_html,vendor,product_type,tags,images,variants'
+
+export class PushPreviewService {
+  /**
+   * The exact product a push would send to the store, compared with the live listing when the store already has one
+   */
+  static async preview(
+    storeUrl: string,
+    productId: string,
+    sellingPrice: number,
+    compareAtPrice: number | null
+  ): Promise<{ preview?: PushPreview; error?: string }> {
+    const product = await ProductService.getProductById(productId)
+    if (!product || product.status !== 'approved') {
+      return { error: 'Product is not available to push' }
+    }
+
+    const template = await PushTemplateService.getTemplate(storeUrl)
+    const payload = buildShopifyProduct(product, sellingPrice, compareAtPrice, template)
+
+    const { data: mapping } = await supabase
+      .from('product_shopify_mappings')
+      .select('shopify_product_id')
+      .eq('supplier_product_id', productId)
+      .eq('shopify_store_url', storeUrl)
+      .is('unlinked_at', null)
+      .maybeSingle()
+
+    if (!mapping) {
+      return { preview: { product: payload, existing: null, diff: null } }
+    }
+
+    return {
+      preview: {
+        product: payload,
+        existing: { shopify_product_id: mapping.shopify_product_id },
+        diff: await this.diffLive(storeUrl, mapping.shopify_product_id, payload)
+      }
+    }
+  }
+
+  private static async diffLive(
+    storeUrl: string,
+    shopifyProductId: string,
+    payload: PushPreview['product']
+  ): Promise<PushPreview['diff']> {
+    const { headers } = await getShopifyHeaders(storeUrl)
+    if (!headers) return null
+
+    try {
+      const response = await fetch(
+        shopifyAdminUrl(storeUrl, `products/${shopifyProductId}.json?fields=${LIVE_FIELDS}`),
+        { headers, cache: 'no-store' }
+      )
+      if (!response.ok) {
+        console.error(`Error fetching live listing ${shopifyProductId}:`, response.status)
+        return null
+      }
+
+      return diffShopifyProduct((await response.json()).product, payload)
+    } catch (error) {
+      console.error(`Error fetching live listing ${shopifyProductId}:`, error)
+      return null
+    }
+  }
+}
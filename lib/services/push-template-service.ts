@@ -0,0 +1,50 @@
+import { supabase } from '@/lib/supabase'
+import { DEFAULT_PUSH_TEMPLATE, validatePushTemplate } from '@/lib/shopify-product'
+import { PushTemplate } from '@/lib/types/push-template'
+
+export class PushTemplateService {
+  /**
+   * The template a store's listings are written with; the default when the store has none
+   */
+  static async getTemplate(storeUrl: string): Promise<PushTemplate> {
+    const { data, error } = await supabase
+      .from('store_push_templates')
+      .select('title_template, body_template, vendor_template, extra_tags')
+      .eq('store_url', storeUrl)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching push template:', error)
+    }
+
+    return data || DEFAULT_PUSH_TEMPLATE
+  }
+
+  /**
+   * Save a store's template; it applies to pushes and content syncs from now on
+   */
+  static async saveTemplate(storeUrl: string, input: PushTemplate): Promise<{ success: boolean; template?: PushTemplate; error?: string }> {
+    const template: PushTemplate = {
+      title_template: input.title_template?.trim() || '',
+      body_template: input.body_template?.trim() || '',
+      vendor_template: input.vendor_template?.trim() || '',
+      extra_tags: input.extra_tags?.trim() || ''
+    }
+
+    const validationError = validatePushTemplate(template)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const { error } = await supabase
+      .from('store_push_templates')
+      .upsert({ store_url: storeUrl, ...template }, { onConflict: 'store_url' })
+
+    if (error) {
+      console.error('Error saving push template:', error)
+      return { success: false, error: 'Failed to save template' }
+    }
+
+    return { success: true, template }
+  }
+}
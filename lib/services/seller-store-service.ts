@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase'
+import { TokenManager } from '@/lib/token-manager'
 
 export interface SellerStoreConnection {
   id: string
@@ -278,6 +279,15 @@ export class SellerStoreService {
     }
   }
 
+  /**
+   * Check if a seller may manage a store, connected either through seller_store_connections or a legacy OAuth token
+   */
+  static async canAccessStore(sellerUsername: string, storeUrl: string): Promise<boolean> {
+    if (await this.hasStoreAccess(sellerUsername, storeUrl)) return true
+    const tokenStores = await TokenManager.getUserStores(sellerUsername)
+    return tokenStores.some(store => store.shop === storeUrl)
+  }
+
   /**
    * Get all sellers connected to a specific store
    */
@@ -0,0 +1,47 @@
+import { supabase } from '@/lib/supabase'
+import { TokenManager } from '@/lib/token-manager'
+
+export const SHOPIFY_API_VERSION = '2023-10'
+
+/**
+ * Resolve Admin API headers for a store: direct API credentials from store_configs first,
+ * then the OAuth token saved by /api/auth/shopify
+ */
+export async function getShopifyHeaders(shop: string): Promise<{ headers?: Record<string, string>; error?: string }> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  }
+
+  const { data: storeConfig } = await supabase
+    .from('store_configs')
+    .select('*')
+    .eq('store_url', shop)
+    .eq('is_active', true)
+    .single()
+
+  if (storeConfig) {
+    if (storeConfig.access_token) {
+      headers['X-Shopify-Access-Token'] = storeConfig.access_token
+    } else if (storeConfig.api_key && storeConfig.api_secret) {
+      const credentials = Buffer.from(`${storeConfig.api_key}:${storeConfig.api_secret}`).toString('base64')
+      headers['Authorization'] = `Basic ${credentials}`
+    } else {
+      return { error: 'No valid credentials found for direct API store' }
+    }
+    return { headers }
+  }
+
+  const accessToken = await TokenManager.getToken(shop)
+  if (!accessToken) {
+    return { error: 'Missing access token. Please connect to Shopify first.' }
+  }
+  headers['X-Shopify-Access-Token'] = accessToken
+  return { headers }
+}
+
+/**
+ * Build a full Admin REST API URL for a store
+ */
+export function shopifyAdminUrl(shop: string, path: string): string {
+  return `https://${shop}/admin/api/${SHOPIFY_API_VERSION}/${path}`
+}
@@ -0,0 +1,281 @@
+import { supabase } from '@/lib/supabase'
+import { shopifyAdminUrl } from '@/lib/services/shopify-credentials'
+import { OrderFetchWindow, SyncLineItem, SyncOrder } from '@/lib/types/order-sync'
+
+// Kept small enough that orders × line items stays under Shopify's query cost limit of 1000
+const ORDERS_PAGE_SIZE = 25
+const LINE_ITEMS_PAGE_SIZE = 25
+const EXTRA_LINE_ITEMS_PAGE_SIZE = 100
+const MAX_THROTTLE_RETRIES = 5
+
+const LINE_ITEM_FIELDS = `
+  pageInfo { hasNextPage endCursor }
+  edges {
+    node {
+      id
+      name
+      quantity
+      sku
+      originalUnitPriceSet { shopMoney { amount } }
+      variant { id product { id } }
+    }
+  }
+`
+
+const ADDRESS_FIELDS = 'firstName lastName address1 address2 city province country zip phone'
+
+const ORDER_FIELDS = `
+  id
+  name
+  orderNumber
+  totalPriceSet { shopMoney { amount currencyCode } }
+  fulfillmentStatus
+  financialStatus
+  cancelledAt
+  createdAt
+  updatedAt
+  lineItems(first: ${LINE_ITEMS_PAGE_SIZE}) { ${LINE_ITEM_FIELDS} }
+  customer { id firstName lastName email phone }
+  shippingAddress { ${ADDRESS_FIELDS} }
+  billingAddress { ${ADDRESS_FIELDS} }
+  tags
+  note
+`
+
+const ORDERS_QUERY = `
+  query Orders($first: Int!, $after: String, $query: String) {
+    orders(first: $first, after: $after, query: $query, sortKey: UPDATED_AT) {
+      pageInfo { hasNextPage endCursor }
+      edges { node { ${ORDER_FIELDS} } }
+    }
+  }
+`
+
+const ORDER_QUERY = `
+  query Order($id: ID!) {
+    order(id: $id) { ${ORDER_FIELDS} }
+  }
+`
+
+const LINE_ITEMS_QUERY = `
+  query OrderLineItems($id: ID!, $first: Int!, $after: String) {
+    order(id: $id) {
+      lineItems(first: $first, after: $after) { ${LINE_ITEM_FIELDS} }
+    }
+  }
+`
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const numericId = (globalId: string | undefined) => globalId?.split('/').pop()
+
+function toLineItem(item: any): SyncLineItem {
+  return {
+    id: numericId(item.id)!,
+    name: item.name,
+    quantity: item.quantity,
+    price: parseFloat(item.originalUnitPriceSet?.shopMoney?.amount || '0'),
+    sku: item.sku || null,
+    variantId: numericId(item.variant?.id),
+    productId: numericId(item.variant?.product?.id)
+  }
+}
+
+function toOrder(order: any, lineItems: SyncLineItem[]): SyncOrder {
+  return {
+    id: numericId(order.id)!,
+    orderNumber: order.orderNumber,
+    name: order.name,
+    customerName: order.customer ? `${order.customer.firstName || ''} ${order.customer.lastName || ''}`.trim() : 'Guest',
+    customerEmail: order.customer?.email || 'No email',
+    customerPhone: order.customer?.phone || order.billingAddress?.phone || order.shippingAddress?.phone || null,
+    status: order.cancelledAt ? 'cancelled' : order.fulfillmentStatus?.toLowerCase() || 'pending',
+    financialStatus: order.financialStatus,
+    amount: parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'),
+    currency: order.totalPriceSet?.shopMoney?.currencyCode || 'INR',
+    date: order.createdAt,
+    updatedAt: order.updatedAt,
+    lineItems,
+    shippingAddress: order.shippingAddress,
+    billingAddress: order.billingAddress,
+    tags: order.tags,
+    note: order.note
+  }
+}
+
+// Shopify's search syntax; quoting keeps the timestamp's colons out of the parser
+function searchQuery(window: OrderFetchWindow): string | null {
+  const terms = []
+  if (window.createdFrom) terms.push(`created_at:>='${window.createdFrom}'`)
+  if (window.updatedFrom) terms.push(`updated_at:>='${window.updatedFrom}'`)
+  return terms.length > 0 ? terms.join(' AND ') : null
+}
+
+export class ShopifyOrderService {
+  /**
+   * Every order in the window with all of its line items, oldest change first; null when Shopify could not be read
+   */
+  static async fetchOrders(shop: string, headers: Record<string, string>, window: OrderFetchWindow = {}): Promise<SyncOrder[] | null> {
+    const orders: SyncOrder[] = []
+    const read = await this.forEachOrderPage(shop, headers, window, async page => {
+      orders.push(...page)
+    })
+
+    return read ? orders : null
+  }
+
+  /**
+   * Hand the orders in the window to onPage one page at a time, oldest change first, so each page can be stored
+   * and checkpointed before the next is read; false when Shopify could not be read
+   */
+  static async forEachOrderPage(
+    shop: string,
+    headers: Record<string, string>,
+    window: OrderFetchWindow,
+    onPage: (orders: SyncOrder[]) => Promise<void>
+  ): Promise<boolean> {
+    let after: string | null = null
+
+    do {
+      const data = await this.query(shop, headers, ORDERS_QUERY, { first: ORDERS_PAGE_SIZE, after, query: searchQuery(window) })
+      if (!data) return false
+
+      const orders: SyncOrder[] = []
+      for (const edge of data.orders.edges) {
+        const order = await this.completeOrder(shop, headers, edge.node)
+        if (!order) return false
+        orders.push(order)
+      }
+
+      await onPage(orders)
+      after = data.orders.pageInfo.hasNextPage ? data.orders.pageInfo.endCursor : null
+    } while (after)
+
+    return true
+  }
+
+  /**
+   * One order with all of its line items; null when Shopify could not be read or has no such order
+   */
+  static async fetchOrder(shop: string, headers: Record<string, string>, orderId: string): Promise<SyncOrder | null> {
+    const data = await this.query(shop, headers, ORDER_QUERY, { id: `gid://shopify/Order/${orderId}` })
+    if (!data?.order) return null
+
+    return this.completeOrder(shop, headers, data.order)
+  }
+
+  /**
+   * Where the next sync of a store starts: the high-water mark of the last one, or the store's pull_orders_from for the backfill
+   */
+  static async getSyncWindow(storeUrl: string): Promise<OrderFetchWindow> {
+    const [{ data: cursor }, { data: config }] = await Promise.all([
+      supabase.from('order_sync_cursors').select('last_order_updated_at').eq('store_url', storeUrl).maybeSingle(),
+      supabase.from('store_configs').select('pull_orders_from').eq('store_url', storeUrl).maybeSingle()
+    ])
+
+    return {
+      createdFrom: config?.pull_orders_from || null,
+      updatedFrom: cursor?.last_order_updated_at || null
+    }
+  }
+
+  /**
+   * Record how far a store's orders have been synced; the mark never moves backwards
+   */
+  static async saveSyncCursor(storeUrl: string, lastOrderUpdatedAt: string | null): Promise<void> {
+    const { data: current } = await supabase
+      .from('order_sync_cursors')
+      .select('last_order_updated_at')
+      .eq('store_url', storeUrl)
+      .maybeSingle()
+
+    const previous = current?.last_order_updated_at || null
+    const next = !previous || (lastOrderUpdatedAt && new Date(lastOrderUpdatedAt) > new Date(previous))
+      ? lastOrderUpdatedAt || previous
+      : previous
+
+    const { error } = await supabase
+      .from('order_sync_cursors')
+      .upsert({ store_url: storeUrl, last_order_updated_at: next, last_synced_at: new Date().toISOString() }, { onConflict: 'store_url' })
+
+    if (error) {
+      console.error('Error saving order sync cursor:', error)
+    }
+  }
+
+  /**
+   * Convert an order node, reading the line items that did not fit in its first page
+   */
+  private static async completeOrder(shop: string, headers: Record<string, string>, order: any): Promise<SyncOrder | null> {
+    const lineItems = order.lineItems.edges.map((edge: any) => toLineItem(edge.node))
+    if (order.lineItems.pageInfo.hasNextPage) {
+      const rest = await this.fetchRemainingLineItems(shop, headers, order.id, order.lineItems.pageInfo.endCursor)
+      if (!rest) return null
+      lineItems.push(...rest)
+    }
+    return toOrder(order, lineItems)
+  }
+
+  private static async fetchRemainingLineItems(
+    shop: string,
+    headers: Record<string, string>,
+    orderId: string,
+    after: string
+  ): Promise<SyncLineItem[] | null> {
+    const lineItems: SyncLineItem[] = []
+    let cursor: string | null = after
+
+    while (cursor) {
+      const data = await this.query(shop, headers, LINE_ITEMS_QUERY, { id: orderId, first: EXTRA_LINE_ITEMS_PAGE_SIZE, after: cursor })
+      if (!data?.order) return null
+
+      lineItems.push(...data.order.lineItems.edges.map((edge: any) => toLineItem(edge.node)))
+      cursor = data.order.lineItems.pageInfo.hasNextPage ? data.order.lineItems.pageInfo.endCursor : null
+    }
+
+    return lineItems
+  }
+
+  /**
+   * Run a GraphQL query, waiting out Shopify's rate limit when the query is throttled
+   */
+  private static async query(shop: string, headers: Record<string, string>, query: string, variables: Record<string, unknown>): Promise<any | null> {
+    for (let attempt = 1; attempt <= MAX_THROTTLE_RETRIES; attempt++) {
+      try {
+        const response = await fetch(shopifyAdminUrl(shop, 'graphql.json'), {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ query, variables }),
+          cache: 'no-store'
+        })
+
+        if (response.status === 429) {
+          await sleep(2 ** attempt * 1000)
+          continue
+        }
+        if (!response.ok) {
+          console.error(`Shopify GraphQL error for ${shop}:`, response.status, (await response.text()).substring(0, 500))
+          return null
+        }
+
+        const data = await response.json()
+        if (data.errors?.some((error: any) => error.extensions?.code === 'THROTTLED')) {
+          await sleep(2 ** attempt * 1000)
+          continue
+        }
+        if (data.errors) {
+          console.error(`Shopify GraphQL errors for ${shop}:`, data.errors)
+          return null
+        }
+
+        return data.data
+      } catch (error) {
+        console.error(`Error querying Shopify orders for ${shop}:`, error)
+        return null
+      }
+    }
+
+    console.error(`Shopify kept throttling order queries for ${shop}`)
+    return null
+  }
+}
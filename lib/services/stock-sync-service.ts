@@ -0,0 +1,383 @@
+import { supabase } from '@/lib/supabase'
+import { getShopifyHeaders, shopifyAdminUrl } from '@/lib/services/shopify-credentials'
+import { InventorySyncLog, InventorySyncStatus, InventorySyncVariantResult, StoreSyncSettings } from '@/lib/types/inventory-sync'
+import { VariantMapping } from '@/lib/types/product-link'
+
+interface ProductMapping {
+  id: string
+  supplier_product_id: string
+  shopify_product_id: string
+  shopify_store_url: string
+  variant_mappings: VariantMapping[] | null
+  drafted_out_of_stock: boolean
+}
+
+const DEFAULT_LEVEL_KEY = 'default'
+
+export class StockSyncService {
+  /**
+   * Push current availability of several supplier products to their linked stores
+   */
+  static async syncProducts(productIds: string[]): Promise<void> {
+    for (const productId of Array.from(new Set(productIds))) {
+      await this.syncProduct(productId)
+    }
+  }
+
+  /**
+   * Push current availability of a supplier product to every linked store (or only one)
+   */
+  static async syncProduct(productId: string, storeUrl?: string): Promise<void> {
+    try {
+      let query = supabase
+        .from('product_shopify_mappings')
+        .select('*')
+        .eq('supplier_product_id', productId)
+        .is('unlinked_at', null)
+
+      if (storeUrl) {
+        query = query.eq('shopify_store_url', storeUrl)
+      }
+
+      const { data: mappings, error } = await query
+      if (error) {
+        console.error('Error fetching product mappings for stock sync:', error)
+        return
+      }
+      if (!mappings || mappings.length === 0) return
+
+      const available = await this.getAvailability(productId)
+      const { count: variantCount } = await supabase
+        .from('product_variants')
+        .select('id', { count: 'exact', head: true })
+        .eq('product_id', productId)
+
+      for (const mapping of mappings as ProductMapping[]) {
+        await this.syncMapping(mapping, available, (variantCount || 0) > 0)
+      }
+    } catch (error) {
+      console.error('Error in syncProduct:', error)
+    }
+  }
+
+  /**
+   * Get recent sync results for a store
+   */
+  static async getLogs(storeUrl: string, limit = 100): Promise<InventorySyncLog[]> {
+    const { data, error } = await supabase
+      .from('inventory_sync_logs')
+      .select('*')
+      .eq('store_url', storeUrl)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching inventory sync logs:', error)
+      return []
+    }
+
+    return data || []
+  }
+
+  /**
+   * Get the sync settings of a store, falling back to defaults
+   */
+  static async getSettings(storeUrl: string): Promise<StoreSyncSettings> {
+    const { data } = await supabase
+      .from('store_sync_settings')
+      .select('store_url, draft_when_out_of_stock, shopify_location_id')
+      .eq('store_url', storeUrl)
+      .maybeSingle()
+
+    return data || { store_url: storeUrl, draft_when_out_of_stock: false, shopify_location_id: null }
+  }
+
+  /**
+   * Save the sync settings of a store
+   */
+  static async updateSettings(
+    storeUrl: string,
+    settings: { draftWhenOutOfStock: boolean }
+  ): Promise<{ success: boolean; settings?: StoreSyncSettings; error?: string }> {
+    const { data, error } = await supabase
+      .from('store_sync_settings')
+      .upsert({
+        store_url: storeUrl,
+        draft_when_out_of_stock: settings.draftWhenOutOfStock,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'store_url' })
+      .select('store_url, draft_when_out_of_stock, shopify_location_id')
+      .single()
+
+    if (error) {
+      console.error('Error saving store sync settings:', error)
+      return { success: false, error: 'Failed to save sync settings' }
+    }
+
+    return { success: true, settings: data }
+  }
+
+  /**
+   * Available quantity (on hand minus reserved) per supplier variant id, or 'default' for products without variants
+   */
+  private static async getAvailability(productId: string): Promise<Map<string, number>> {
+    const available = new Map<string, number>()
+
+    const { data, error } = await supabase
+      .from('inventory_levels')
+      .select('variant_id, on_hand, reserved')
+      .eq('product_id', productId)
+
+    if (error) {
+      console.error('Error fetching inventory levels for stock sync:', error)
+      return available
+    }
+
+    for (const level of data || []) {
+      available.set(level.variant_id || DEFAULT_LEVEL_KEY, Math.max(level.on_hand - level.reserved, 0))
+    }
+
+    return available
+  }
+
+  /**
+   * Set inventory for every mapped variant of one listing and record the outcome
+   */
+  private static async syncMapping(mapping: ProductMapping, available: Map<string, number>, hasVariants: boolean): Promise<void> {
+    const shop = mapping.shopify_store_url
+    const results: InventorySyncVariantResult[] = []
+    let statusChange: 'draft' | 'active' | null = null
+    let message: string | null = null
+
+    const { headers, error: credentialsError } = await getShopifyHeaders(shop)
+    if (!headers) {
+      await this.writeLog(mapping, 'failed', 0, null, credentialsError || 'Missing store credentials', [])
+      return
+    }
+
+    const settings = await this.getSettings(shop)
+    const locationId = settings.shopify_location_id || await this.resolveLocationId(shop, headers)
+    if (!locationId) {
+      await this.writeLog(mapping, 'failed', 0, null, 'No active Shopify location found', [])
+      return
+    }
+
+    const variantMappings = await this.getVariantMappings(mapping, headers)
+    let totalAvailable = 0
+    let linked = 0
+
+    for (const variantMapping of variantMappings) {
+      // The product-level stock belongs to none of the variants, so such a listing variant is left alone
+      if (hasVariants && !variantMapping.supplier_variant_id) {
+        console.error(`Shopify variant ${variantMapping.shopify_variant_id} of mapping ${mapping.id} has no supplier variant, skipping`)
+        results.push({
+          supplier_variant_id: null,
+          shopify_variant_id: variantMapping.shopify_variant_id,
+          available: 0,
+          success: false,
+          error: 'Not linked to a supplier variant'
+        })
+        continue
+      }
+
+      const quantity = available.get(variantMapping.supplier_variant_id || DEFAULT_LEVEL_KEY) ?? 0
+      totalAvailable += quantity
+      linked++
+
+      const error = variantMapping.shopify_inventory_item_id
+        ? await this.setInventoryLevel(shop, headers, locationId, variantMapping.shopify_inventory_item_id, quantity)
+        : 'Variant has no Shopify inventory item'
+
+      results.push({
+        supplier_variant_id: variantMapping.supplier_variant_id,
+        shopify_variant_id: variantMapping.shopify_variant_id,
+        available: quantity,
+        success: !error,
+        error: error || undefined
+      })
+    }
+
+    if (variantMappings.length === 0) {
+      message = 'No variants mapped to this listing'
+    }
+
+    // Only move listings between draft and active when the seller opted in, and only undo our own drafts
+    if (settings.draft_when_out_of_stock && linked > 0 && totalAvailable === 0 && !mapping.drafted_out_of_stock) {
+      if (await this.setProductStatus(shop, headers, mapping.shopify_product_id, 'draft')) {
+        statusChange = 'draft'
+        await this.markDrafted(mapping.id, true)
+      }
+    } else if (mapping.drafted_out_of_stock && totalAvailable > 0) {
+      if (await this.setProductStatus(shop, headers, mapping.shopify_product_id, 'active')) {
+        statusChange = 'active'
+        await this.markDrafted(mapping.id, false)
+      }
+    }
+
+    const failed = results.filter(result => !result.success).length
+    const status: InventorySyncStatus = variantMappings.length === 0 || failed === results.length
+      ? 'failed'
+      : failed > 0 ? 'partial' : 'success'
+
+    await this.writeLog(mapping, status, totalAvailable, statusChange, message, results)
+  }
+
+  /**
+   * Variant mappings stored at push time; listings pushed before variants existed are looked up on Shopify
+   */
+  private static async getVariantMappings(mapping: ProductMapping, headers: Record<string, string>): Promise<VariantMapping[]> {
+    if (mapping.variant_mappings && mapping.variant_mappings.length > 0) {
+      return mapping.variant_mappings
+    }
+
+    try {
+      const response = await fetch(
+        shopifyAdminUrl(mapping.shopify_store_url, `products/${mapping.shopify_product_id}.json?fields=variants`),
+        { headers }
+      )
+      if (!response.ok) return []
+
+      const data = await response.json()
+      const variants = data.product?.variants || []
+      if (variants.length !== 1) return []
+
+      return [{
+        supplier_variant_id: null,
+        shopify_variant_id: variants[0].id.toString(),
+        shopify_inventory_item_id: variants[0].inventory_item_id?.toString() || null,
+        sku: variants[0].sku || null,
+        supplier_price: null
+      }]
+    } catch (error) {
+      console.error('Error fetching Shopify variants for stock sync:', error)
+      return []
+    }
+  }
+
+  /**
+   * Find the store's first active location and remember it in store_sync_settings
+   */
+  private static async resolveLocationId(shop: string, headers: Record<string, string>): Promise<string | null> {
+    try {
+      const response = await fetch(shopifyAdminUrl(shop, 'locations.json'), { headers })
+      if (!response.ok) {
+        console.error(`Failed to fetch locations for ${shop}:`, response.status)
+        return null
+      }
+
+      const data = await response.json()
+      const location = (data.locations || []).find((loc: { active: boolean }) => loc.active)
+      if (!location) return null
+
+      const locationId = location.id.toString()
+      await supabase
+        .from('store_sync_settings')
+        .upsert({ store_url: shop, shopify_location_id: locationId }, { onConflict: 'store_url' })
+
+      return locationId
+    } catch (error) {
+      console.error('Error resolving Shopify location:', error)
+      return null
+    }
+  }
+
+  /**
+   * Set the available quantity of an inventory item; returns an error message or null
+   */
+  private static async setInventoryLevel(
+    shop: string,
+    headers: Record<string, string>,
+    locationId: string,
+    inventoryItemId: string,
+    available: number
+  ): Promise<string | null> {
+    const set = () => fetch(shopifyAdminUrl(shop, 'inventory_levels/set.json'), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ location_id: locationId, inventory_item_id: inventoryItemId, available })
+    })
+
+    try {
+      let response = await set()
+
+      // Items pushed before tracking was enabled reject the update until tracking is turned on
+      if (response.status === 422) {
+        await fetch(shopifyAdminUrl(shop, `inventory_items/${inventoryItemId}.json`), {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ inventory_item: { id: inventoryItemId, tracked: true } })
+        })
+        response = await set()
+      }
+
+      if (!response.ok) {
+        return `Shopify returned ${response.status}: ${await response.text()}`
+      }
+
+      return null
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+
+  private static async setProductStatus(
+    shop: string,
+    headers: Record<string, string>,
+    shopifyProductId: string,
+    status: 'draft' | 'active'
+  ): Promise<boolean> {
+    try {
+      const response = await fetch(shopifyAdminUrl(shop, `products/${shopifyProductId}.json`), {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ product: { id: shopifyProductId, status } })
+      })
+
+      if (!response.ok) {
+        console.error(`Failed to set product ${shopifyProductId} to ${status}:`, await response.text())
+      }
+
+      return response.ok
+    } catch (error) {
+      console.error('Error updating Shopify product status:', error)
+      return false
+    }
+  }
+
+  private static async markDrafted(mappingId: string, drafted: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('product_shopify_mappings')
+      .update({ drafted_out_of_stock: drafted })
+      .eq('id', mappingId)
+
+    if (error) {
+      console.error('Error updating mapping draft flag:', error)
+    }
+  }
+
+  private static async writeLog(
+    mapping: ProductMapping,
+    status: InventorySyncStatus,
+    totalAvailable: number,
+    statusChange: 'draft' | 'active' | null,
+    message: string | null,
+    details: InventorySyncVariantResult[]
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('inventory_sync_logs')
+      .insert({
+        supplier_product_id: mapping.supplier_product_id,
+        store_url: mapping.shopify_store_url,
+        shopify_product_id: mapping.shopify_product_id,
+        status,
+        total_available: totalAvailable,
+        product_status_change: statusChange,
+        message,
+        details
+      })
+
+    if (error) {
+      console.error('Error writing inventory sync log:', error)
+    }
+  }
+}
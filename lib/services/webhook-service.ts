@@ -0,0 +1,327 @@
+import { supabase } from '@/lib/supabase'
+import { getShopifyHeaders, shopifyAdminUrl } from '@/lib/services/shopify-credentials'
+import { OrderIngestService } from '@/lib/services/order-ingest-service'
+import { WebhookEvent, WebhookEventFilters, WebhookRegistrationResult } from '@/lib/types/webhook'
+
+// Topics the app subscribes every connected store to
+export const WEBHOOK_TOPICS = [
+  'orders/create',
+  'orders/updated',
+  'orders/cancelled',
+  'fulfillments/create',
+  'fulfillments/update',
+  'app/uninstalled'
+]
+
+interface IncomingWebhook {
+  webhookId: string | null
+  topic: string | null
+  shop: string | null
+  payload: any
+  hmacValid: boolean | null
+}
+
+export class WebhookService {
+  /**
+   * Address Shopify delivers webhooks to
+   */
+  static getCallbackUrl(): string {
+    const appUrl = process.env.SHOPIFY_APP_URL || 'http://localhost:3000'
+    return `${appUrl}/api/shopify-webhook`
+  }
+
+  /**
+   * Subscribe a store to every topic in WEBHOOK_TOPICS, skipping subscriptions it already has,
+   * then list them again to confirm Shopify kept each one
+   */
+  static async registerWebhooks(shop: string): Promise<WebhookRegistrationResult> {
+    const result: WebhookRegistrationResult = { success: false, created: [], existing: [], errors: [] }
+
+    const { headers, error: credentialsError } = await getShopifyHeaders(shop)
+    if (!headers) {
+      result.errors.push(credentialsError || 'Missing Shopify credentials')
+      return result
+    }
+
+    const address = this.getCallbackUrl()
+    const subscribed = await this.fetchSubscribedTopics(shop, headers, address)
+    if (!subscribed) {
+      result.errors.push('Failed to read webhook subscriptions from Shopify')
+      return result
+    }
+
+    for (const topic of WEBHOOK_TOPICS) {
+      if (subscribed.has(topic)) {
+        result.existing.push(topic)
+        continue
+      }
+
+      try {
+        const response = await fetch(shopifyAdminUrl(shop, 'webhooks.json'), {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ webhook: { topic, address, format: 'json' } })
+        })
+
+        if (!response.ok) {
+          const body = await response.text()
+          result.errors.push(`${topic}: ${response.status} ${body}`)
+          continue
+        }
+
+        result.created.push(topic)
+      } catch (error) {
+        result.errors.push(`${topic}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    if (result.created.length > 0) {
+      const verified = await this.fetchSubscribedTopics(shop, headers, address)
+      const missing = verified ? result.created.filter(topic => !verified.has(topic)) : []
+      if (!verified) {
+        result.errors.push('Failed to verify webhook subscriptions')
+      } else if (missing.length > 0) {
+        result.errors.push(`Not subscribed after registration: ${missing.join(', ')}`)
+      }
+    }
+
+    result.success = result.errors.length === 0
+    return result
+  }
+
+  /**
+   * Store a delivery once per X-Shopify-Webhook-Id. A repeated delivery returns the row saved the first time,
+   * with its payload replaced by this delivery's when this one was not rejected, so only the request that
+   * passed verification is ever processed
+   */
+  static async recordEvent(incoming: IncomingWebhook): Promise<{ event: WebhookEvent; duplicate: boolean } | null> {
+    if (incoming.webhookId) {
+      const existing = await this.getEventByWebhookId(incoming.webhookId)
+      if (existing) {
+        return this.refreshDuplicate(existing, incoming)
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .insert({
+        webhook_id: incoming.webhookId,
+        topic: incoming.topic,
+        shop_domain: incoming.shop,
+        payload: incoming.payload,
+        hmac_valid: incoming.hmacValid
+      })
+      .select()
+      .single()
+
+    if (error) {
+      // Two deliveries of the same webhook racing each other; the first insert wins
+      if (error.code === '23505' && incoming.webhookId) {
+        const existing = await this.getEventByWebhookId(incoming.webhookId)
+        if (existing) {
+          return this.refreshDuplicate(existing, incoming)
+        }
+      }
+      console.error('Error recording webhook event:', error)
+      return null
+    }
+
+    return { event: data as WebhookEvent, duplicate: false }
+  }
+
+  /**
+   * Overwrite a stored delivery with a repeat of it that was not rejected. The stored row may come from a
+   * delivery that failed verification or could not be parsed, and must not be processed as it was saved
+   */
+  private static async refreshDuplicate(
+    existing: WebhookEvent,
+    incoming: IncomingWebhook
+  ): Promise<{ event: WebhookEvent; duplicate: boolean } | null> {
+    if (incoming.hmacValid === false || incoming.payload === null) {
+      return { event: existing, duplicate: true }
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .update({
+        topic: incoming.topic,
+        shop_domain: incoming.shop,
+        payload: incoming.payload,
+        hmac_valid: incoming.hmacValid
+      })
+      .eq('id', existing.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating repeated webhook event:', error)
+      return null
+    }
+
+    return { event: data as WebhookEvent, duplicate: true }
+  }
+
+  /**
+   * Act on a stored delivery and save the outcome. Order topics read the order back from Shopify,
+   * so processing the same event again is safe
+   */
+  static async processEvent(event: WebhookEvent): Promise<{ success: boolean; error?: string }> {
+    const orderId = this.orderIdForTopic(event.topic, event.payload)
+
+    let outcome: { success: boolean; error?: string; ignored?: boolean }
+    if (orderId && event.shop_domain) {
+      // Order changes go through the same processing as /api/sync-orders, which still runs as a fallback
+      const result = await OrderIngestService.ingestOrder(event.shop_domain, orderId)
+      outcome = { success: result.success, error: result.error }
+      if (!result.success) {
+        console.error(`Failed to ingest order ${orderId} from ${event.shop_domain}:`, result.error)
+      }
+    } else if (event.topic === 'app/uninstalled') {
+      console.log('App uninstalled from shop:', event.shop_domain)
+      outcome = { success: true, ignored: true }
+    } else {
+      console.log(`Unhandled webhook topic: ${event.topic}`)
+      outcome = { success: true, ignored: true }
+    }
+
+    const { error } = await supabase
+      .from('webhook_events')
+      .update({
+        status: outcome.success ? (outcome.ignored ? 'ignored' : 'processed') : 'failed',
+        error: outcome.error || null,
+        attempts: event.attempts + 1,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', event.id)
+
+    if (error) {
+      console.error('Error updating webhook event:', error)
+    }
+
+    return { success: outcome.success, error: outcome.error }
+  }
+
+  /**
+   * Mark a delivery as failed without processing it, e.g. when its signature does not match
+   */
+  static async failEvent(event: WebhookEvent, reason: string): Promise<void> {
+    const { error } = await supabase
+      .from('webhook_events')
+      .update({ status: 'failed', error: reason, attempts: event.attempts + 1, processed_at: new Date().toISOString() })
+      .eq('id', event.id)
+
+    if (error) {
+      console.error('Error updating webhook event:', error)
+    }
+  }
+
+  /**
+   * Process a stored delivery again on request from the admin area
+   */
+  static async replayEvent(id: string): Promise<{ success: boolean; error?: string; event?: WebhookEvent }> {
+    const { data: event, error } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching webhook event:', error)
+      return { success: false, error: 'Failed to fetch webhook event' }
+    }
+    if (!event) {
+      return { success: false, error: 'Webhook event not found' }
+    }
+    if (event.hmac_valid === false) {
+      return { success: false, error: 'Deliveries with an invalid signature cannot be replayed' }
+    }
+    if (!event.payload) {
+      return { success: false, error: 'Deliveries without a readable payload cannot be replayed' }
+    }
+
+    const result = await this.processEvent(event as WebhookEvent)
+    const { data: updated } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    return { ...result, event: (updated || event) as WebhookEvent }
+  }
+
+  /**
+   * Most recent deliveries first, optionally narrowed by status, shop or topic
+   */
+  static async listEvents(filters: WebhookEventFilters = {}): Promise<WebhookEvent[] | null> {
+    let query = supabase
+      .from('webhook_events')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 100)
+
+    if (filters.status) {
+      query = query.eq('status', filters.status)
+    }
+    if (filters.shop) {
+      query = query.eq('shop_domain', filters.shop)
+    }
+    if (filters.topic) {
+      query = query.eq('topic', filters.topic)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      console.error('Error fetching webhook events:', error)
+      return null
+    }
+
+    return (data || []) as WebhookEvent[]
+  }
+
+  private static async getEventByWebhookId(webhookId: string): Promise<WebhookEvent | null> {
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .eq('webhook_id', webhookId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching webhook event:', error)
+      return null
+    }
+
+    return data as WebhookEvent | null
+  }
+
+  // Shopify order id a topic is about; order topics carry the order, fulfillment topics reference it
+  private static orderIdForTopic(topic: string | null, payload: any): string | null {
+    switch (topic) {
+      case 'orders/create':
+      case 'orders/updated':
+      case 'orders/cancelled':
+        return payload?.id?.toString() || null
+      case 'fulfillments/create':
+      case 'fulfillments/update':
+        return payload?.order_id?.toString() || null
+      default:
+        return null
+    }
+  }
+
+  // Topics the store already delivers to the app's callback address; null when Shopify could not be read
+  private static async fetchSubscribedTopics(shop: string, headers: Record<string, string>, address: string): Promise<Set<string> | null> {
+    try {
+      const response = await fetch(shopifyAdminUrl(shop, `webhooks.json?limit=250&address=${encodeURIComponent(address)}`), { headers })
+      if (!response.ok) {
+        console.error(`Error listing webhooks for ${shop}:`, response.status)
+        return null
+      }
+
+      const data = await response.json()
+      return new Set<string>((data.webhooks || []).map((webhook: any) => webhook.topic))
+    } catch (error) {
+      console.error(`Error listing webhooks for ${shop}:`, error)
+      return null
+    }
+  }
+}
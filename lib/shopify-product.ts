@@ -0,0 +1,191 @@
+import { ProductCategoryRef, ProductOption, ProductVariant } from './types/product'
+import { ProductMediaRef } from './types/product-image'
+import { PushFieldDiff, PushTemplate } from './types/push-template'
+import { getShopifyProductType } from './product-taxonomy'
+import { getVariantTitle, variantKey } from './product-variants'
+
+export interface ShopifyVariantInput {
+  price: string
+  compare_at_price?: string
+  sku?: string
+  option1?: string
+  option2?: string
+  option3?: string
+  weight?: number
+  weight_unit?: string
+  inventory_management?: 'shopify'
+}
+
+export interface ShopifyProductInput {
+  title: string
+  body_html: string
+  vendor?: string // Shopify uses the store name when no vendor is sent
+  product_type: string
+  tags?: string
+  images: { src: string; alt?: string }[]
+  options?: { name: string; values: string[] }[]
+  variants: ShopifyVariantInput[]
+}
+
+export interface PushableProduct {
+  title: string
+  description: string | null
+  price: number
+  images: string[]
+  media?: ProductMediaRef[]
+  options?: ProductOption[]
+  variants?: ProductVariant[]
+  category?: ProductCategoryRef | null
+  tags?: string[]
+  supplier_name?: string | null
+}
+
+// Listings are written from the supplier's own title and description unless the store has a template
+export const DEFAULT_PUSH_TEMPLATE: PushTemplate = {
+  title_template: '{{title}}',
+  body_template: '{{description}}',
+  vendor_template: '{{supplier}}',
+  extra_tags: '',
+}
+
+export const TEMPLATE_PLACEHOLDERS = ['title', 'description', 'supplier', 'category'] as const
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Plain-text descriptions become paragraphs; descriptions that already contain HTML are used as written
+export function descriptionToHtml(description: string | null): string {
+  const text = (description || '').trim()
+  if (!text) return ''
+  if (/<[a-z][\s\S]*>/i.test(text)) return text
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('')
+}
+
+// Replace {{placeholder}} with its value; unknown placeholders are left in place so typos are visible
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match).trim()
+}
+
+// Returns a problem with the template, or null when every part of it can be rendered
+export function validatePushTemplate(template: PushTemplate): string | null {
+  if (!template.title_template.trim()) return 'Title template is required'
+  if (template.title_template.length > 255) return 'Title template must be 255 characters or fewer'
+
+  for (const part of [template.title_template, template.body_template, template.vendor_template]) {
+    const unknown = Array.from(part.matchAll(/\{\{\s*(\w+)\s*\}\}/g))
+      .map(match => match[1])
+      .find(name => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name))
+    if (unknown) return `Unknown placeholder {{${unknown}}}`
+  }
+  return null
+}
+
+function splitTags(tags: string): string[] {
+  return tags.split(',').map(tag => tag.trim()).filter(Boolean)
+}
+
+// Scale a supplier variant price by the markup the seller chose for the base price
+function scaleVariantPrice(variantPrice: number, basePrice: number, sellingPrice: number): string {
+  if (!basePrice) return sellingPrice.toFixed(2)
+  return (variantPrice * (sellingPrice / basePrice)).toFixed(2)
+}
+
+// Build the payload sent to POST /admin/api/<version>/products.json
+// A compare-at price is scaled across variants the same way as the selling price
+export function buildShopifyProduct(
+  product: PushableProduct,
+  sellingPrice: number,
+  compareAtPrice: number | null = null,
+  template: PushTemplate = DEFAULT_PUSH_TEMPLATE
+): ShopifyProductInput {
+  const altText = new Map((product.media || []).map(image => [image.url, image.alt_text]))
+  const images = product.images
+    .filter(img => img && !img.includes('placeholder'))
+    .map(img => (altText.get(img) ? { src: img, alt: altText.get(img)! } : { src: img }))
+
+  const values = {
+    title: product.title,
+    description: descriptionToHtml(product.description),
+    supplier: product.supplier_name || '',
+    category: product.category?.name || '',
+  }
+  const vendor = renderTemplate(template.vendor_template, values)
+  const tags = Array.from(new Set([...(product.tags || []), ...splitTags(template.extra_tags)]))
+
+  const shopifyProduct: ShopifyProductInput = {
+    title: renderTemplate(template.title_template, values) || product.title,
+    body_html: renderTemplate(template.body_template, values),
+    ...(vendor ? { vendor } : {}),
+    product_type: getShopifyProductType(product.category),
+    tags: tags.join(', '),
+    images,
+    variants: [
+      {
+        price: sellingPrice.toString(),
+        ...(compareAtPrice ? { compare_at_price: compareAtPrice.toString() } : {}),
+        inventory_management: 'shopify',
+      },
+    ],
+  }
+
+  if (product.options && product.options.length > 0 && product.variants && product.variants.length > 0) {
+    shopifyProduct.options = product.options.map(option => ({ name: option.name, values: option.values }))
+    shopifyProduct.variants = [...product.variants]
+      .sort((a, b) => a.position - b.position)
+      .map(variant => ({
+        price: scaleVariantPrice(variant.price, product.price, sellingPrice),
+        ...(compareAtPrice ? { compare_at_price: scaleVariantPrice(variant.price, product.price, compareAtPrice) } : {}),
+        sku: variant.sku || undefined,
+        option1: variant.option1 || undefined,
+        option2: variant.option2 || undefined,
+        option3: variant.option3 || undefined,
+        weight: variant.weight ?? undefined,
+        weight_unit: variant.weight_unit,
+        inventory_management: 'shopify',
+      }))
+  }
+
+  return shopifyProduct
+}
+
+const normalizeTags = (tags: string | undefined | null) =>
+  (tags || '').split(',').map(tag => tag.trim()).filter(Boolean).sort().join(', ')
+
+const normalizePrice = (price: string | number | undefined | null) =>
+  price === undefined || price === null || price === '' || Number(price) === 0 ? null : Number(price).toFixed(2)
+
+// Field-by-field comparison of a payload with the product live in Shopify, limited to what an update sends:
+// product content is replaced, while variants only have their prices changed
+export function diffShopifyProduct(live: any, proposed: ShopifyProductInput): PushFieldDiff[] {
+  const entry = (field: string, label: string, liveValue: string | null, proposedValue: string | null): PushFieldDiff =>
+    ({ field, label, live: liveValue, proposed: proposedValue, changed: liveValue !== proposedValue })
+
+  const diff = [
+    entry('title', 'Title', live.title || null, proposed.title || null),
+    entry('body_html', 'Description', live.body_html || null, proposed.body_html || null),
+    entry('vendor', 'Vendor', live.vendor || null, proposed.vendor || null),
+    entry('product_type', 'Product type', live.product_type || null, proposed.product_type || null),
+    entry('tags', 'Tags', normalizeTags(live.tags) || null, normalizeTags(proposed.tags) || null),
+    // Shopify serves images from its own CDN, so only the number of images can be compared
+    entry('images', 'Images', `${(live.images || []).length}`, `${proposed.images.length}`),
+  ]
+
+  const liveVariants: any[] = live.variants || []
+  for (const variant of proposed.variants) {
+    const title = getVariantTitle(variant)
+    const match = liveVariants.find(candidate => variantKey(candidate) === variantKey(variant)) ||
+      (proposed.variants.length === 1 && liveVariants.length === 1 ? liveVariants[0] : undefined)
+    const label = match ? title : `${title} (not in the live listing)`
+
+    diff.push(
+      entry(`variant:${variantKey(variant)}:price`, `${label} price`, normalizePrice(match?.price), normalizePrice(variant.price)),
+      entry(`variant:${variantKey(variant)}:compare_at_price`, `${label} compare-at price`,
+        normalizePrice(match?.compare_at_price), normalizePrice(variant.compare_at_price))
+    )
+  }
+
+  return diff
+}
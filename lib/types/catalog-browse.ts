@@ -0,0 +1,46 @@
+import { Product } from './product'
+
+export type CatalogSort = 'newest' | 'price_asc' | 'price_desc' | 'title'
+
+export interface CatalogBrowseParams {
+  q?: string
+  categoryId?: string
+  supplierIds?: string[]
+  tags?: string[]
+  minPrice?: number
+  maxPrice?: number
+  sort?: CatalogSort
+  page?: number
+  pageSize?: number
+}
+
+export interface FacetCount {
+  value: string
+  label: string
+  count: number
+}
+
+export interface CategoryFacetCount extends FacetCount {
+  parentId: string | null
+  depth: number
+}
+
+export interface PriceRangeFacetCount extends FacetCount {
+  min: number
+  max: number | null
+}
+
+export interface CatalogFacets {
+  categories: CategoryFacetCount[]
+  suppliers: FacetCount[]
+  tags: FacetCount[]
+  priceRanges: PriceRangeFacetCount[]
+}
+
+export interface CatalogBrowseResult {
+  products: Product[]
+  total: number
+  page: number
+  pageSize: number
+  facets: CatalogFacets
+}
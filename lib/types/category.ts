@@ -0,0 +1,29 @@
+export interface Category {
+  id: string
+  name: string
+  slug: string
+  parent_id: string | null
+  shopify_product_type: string | null
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[]
+  depth: number
+}
+
+export interface CreateCategoryData {
+  name: string
+  parent_id?: string | null
+  shopify_product_type?: string | null
+  position?: number
+}
+
+export interface UpdateCategoryData {
+  name?: string
+  parent_id?: string | null
+  shopify_product_type?: string | null
+  position?: number
+}
@@ -0,0 +1,28 @@
+export type InventorySyncStatus = 'success' | 'partial' | 'failed'
+
+export interface StoreSyncSettings {
+  store_url: string
+  draft_when_out_of_stock: boolean
+  shopify_location_id: string | null
+}
+
+export interface InventorySyncVariantResult {
+  supplier_variant_id: string | null
+  shopify_variant_id: string
+  available: number
+  success: boolean
+  error?: string
+}
+
+export interface InventorySyncLog {
+  id: string
+  supplier_product_id: string
+  store_url: string
+  shopify_product_id: string
+  status: InventorySyncStatus
+  total_available: number
+  product_status_change: 'draft' | 'active' | null
+  message: string | null
+  details: InventorySyncVariantResult[]
+  created_at: string
+}
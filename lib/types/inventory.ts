@@ -0,0 +1,49 @@
+export type StockMovementType = 'initial' | 'adjustment' | 'reservation' | 'release' | 'shipment'
+
+export interface InventoryLevel {
+  id: string
+  supplier_id: string
+  product_id: string
+  variant_id: string | null
+  on_hand: number
+  reserved: number
+  created_at: string
+  updated_at: string
+  product?: {
+    title: string
+    images: string[]
+  }
+  variant?: {
+    sku: string | null
+    option1: string | null
+    option2: string | null
+    option3: string | null
+    position: number
+  } | null
+}
+
+export interface StockMovement {
+  id: string
+  inventory_level_id: string
+  supplier_id: string
+  product_id: string
+  variant_id: string | null
+  movement_type: StockMovementType
+  on_hand_delta: number
+  reserved_delta: number
+  on_hand_after: number
+  reserved_after: number
+  supplier_order_id: string | null
+  shopify_line_item_id: string | null
+  reason: string | null
+  created_by: string | null
+  created_at: string
+}
+
+// A supplier order line that holds (or should hold) stock
+export interface OrderStockLine {
+  productId: string
+  variantId: string | null
+  lineItemId: string
+  quantity: number
+}
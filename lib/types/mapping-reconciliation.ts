@@ -0,0 +1,28 @@
+// Problems found when checking product_shopify_mappings against Shopify and the products table
+export type MappingIssueType =
+  | 'missing_listing' // The Shopify product was deleted
+  | 'missing_product' // The supplier product was deleted
+  | 'duplicate' // Another supplier product is linked to the same Shopify product
+  | 'variant_mismatch' // Variants were added or removed on either side since the mapping was made
+
+// 'archive' unlinks the mapping; 'rebuild_variants' pairs the variants again as they are now
+export type MappingFix = 'archive' | 'rebuild_variants'
+
+export interface MappingIssue {
+  mapping_id: string
+  supplier_product_id: string
+  product_title: string | null
+  shopify_product_id: string
+  type: MappingIssueType
+  detail: string
+  fix: MappingFix
+}
+
+export interface ReconciliationRun {
+  id: string
+  store_url: string
+  checked_mappings: number
+  issues: MappingIssue[]
+  error: string | null
+  created_at: string
+}
@@ -0,0 +1,22 @@
+export type ModerationAction = 'submitted' | 'approved' | 'rejected' | 'resubmitted'
+
+export type RejectionReasonCode =
+  | 'poor_images'
+  | 'incomplete_description'
+  | 'pricing'
+  | 'prohibited_item'
+  | 'duplicate_listing'
+  | 'incorrect_category'
+  | 'variant_issues'
+  | 'other'
+
+export interface ModerationEvent {
+  id: string
+  product_id: string
+  action: ModerationAction
+  reasons: RejectionReasonCode[]
+  feedback: string | null
+  actor: string
+  actor_type: 'supplier' | 'admin'
+  created_at: string
+}
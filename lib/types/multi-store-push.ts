@@ -0,0 +1,17 @@
+// One product pushed to several of the seller's stores at once
+export interface StorePushTarget {
+  store_url: string
+  selling_price: number | null // null prices the product with the seller's rules for this store
+  compare_at_price: number | null
+}
+
+export interface StorePushResult {
+  store_url: string
+  success: boolean
+  updated?: boolean // The store already had the product and its listing was updated
+  already_listed?: boolean // The store already had the product and it was left unchanged
+  selling_price: number
+  shopify_product_id?: string
+  warnings: string[]
+  error?: string
+}
@@ -0,0 +1,23 @@
+// Order sync runs as recorded in order_sync_runs; 'partial' means some orders failed and will be retried
+export type OrderSyncTrigger = 'schedule' | 'manual'
+
+export type OrderSyncRunStatus = 'running' | 'completed' | 'partial' | 'failed'
+
+export interface OrderSyncRun {
+  id: string
+  store_url: string
+  trigger: OrderSyncTrigger
+  status: OrderSyncRunStatus
+  orders_fetched: number
+  orders_synced: number
+  items_synced: number
+  failed_orders: number
+  errors: string[]
+  started_at: string
+  finished_at: string | null
+}
+
+export interface OrderSyncSummary {
+  runs: OrderSyncRun[]
+  skipped: string[] // Stores another run was already syncing
+}
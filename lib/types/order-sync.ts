@@ -0,0 +1,43 @@
+// Shopify orders as the order sync and the order pages read them; ids are the numeric part of Shopify's global ids
+export interface SyncLineItem {
+  id: string
+  name: string
+  quantity: number
+  price: number
+  sku: string | null
+  variantId?: string
+  productId?: string
+}
+
+export interface SyncOrder {
+  id: string
+  orderNumber: number
+  name: string
+  customerName: string
+  customerEmail: string
+  customerPhone: string | null
+  status: string
+  financialStatus: string | null
+  amount: number
+  currency: string
+  date: string
+  updatedAt: string
+  lineItems: SyncLineItem[]
+  shippingAddress: any
+  billingAddress: any
+  tags: string[]
+  note: string | null
+}
+
+// Which orders a fetch asks Shopify for; both bounds are inclusive
+export interface OrderFetchWindow {
+  createdFrom?: string | null // The store's pull_orders_from
+  updatedFrom?: string | null // High-water mark of the previous sync
+}
+
+export interface OrderProcessResult {
+  ordersSynced: number // supplier_orders rows created
+  itemsSynced: number
+  errors: string[]
+  failedOrderIds: string[] // Shopify orders that were not stored completely and should be processed again
+}
@@ -0,0 +1,39 @@
+export type MarkupType = 'percent' | 'fixed'
+
+// Cents a rounded price ends in; 'none' keeps the computed price
+export type PriceEnding = 'none' | '99' | '49'
+
+export type CompareAtType = 'none' | 'percent' | 'fixed'
+
+export interface PricingRule {
+  id: string
+  seller_id: string
+  store_url: string | null // null applies to every store of the seller
+  name: string
+  priority: number // Lower numbers are tried first
+  category_id: string | null
+  min_cost: number | null
+  max_cost: number | null
+  markup_type: MarkupType
+  markup_value: number
+  price_ending: PriceEnding
+  compare_at_type: CompareAtType
+  compare_at_value: number | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type PricingRuleInput = Pick<
+  PricingRule,
+  'store_url' | 'name' | 'priority' | 'category_id' | 'min_cost' | 'max_cost' | 'markup_type' | 'markup_value' |
+  'price_ending' | 'compare_at_type' | 'compare_at_value' | 'is_active'
+>
+
+// The retail price a rule (or the default markup) produces for one product
+export interface ComputedPrice {
+  sellingPrice: number
+  compareAtPrice: number | null
+  rule: Pick<PricingRule, 'id' | 'name'> | null
+  raisedToMap: boolean
+}
@@ -0,0 +1,34 @@
+export type ImageSizeName = 'thumbnail' | 'small' | 'medium' | 'large'
+
+export interface ProductImageSize {
+  url: string
+  width: number
+  height: number
+}
+
+export interface ProductImage {
+  id: string
+  supplier_id: string
+  product_id: string | null
+  // The "large" size; this is the URL stored in products.images
+  url: string
+  thumbnail_url: string
+  sizes: Partial<Record<ImageSizeName, ProductImageSize>>
+  alt_text: string | null
+  position: number
+  original_name: string | null
+  original_type: string | null
+  original_size: number | null
+  width: number
+  height: number
+  content_hash: string
+  perceptual_hash: string
+  duplicate_of: string | null
+  duplicate_type: 'exact' | 'near' | null
+  storage_prefix: string
+  created_at: string
+  updated_at: string
+}
+
+// Image columns joined onto products (see PRODUCT_SELECT)
+export type ProductMediaRef = Pick<ProductImage, 'id' | 'url' | 'thumbnail_url' | 'sizes' | 'alt_text' | 'position' | 'duplicate_type'>
@@ -0,0 +1,54 @@
+// Connecting listings a seller created in Shopify themselves to supplier products
+export type LinkMatchReason = 'sku' | 'barcode' | 'title'
+
+// Stored in product_shopify_mappings.variant_mappings, one entry per Shopify variant
+export interface VariantMapping {
+  supplier_variant_id: string | null
+  shopify_variant_id: string
+  shopify_inventory_item_id: string | null
+  sku: string | null
+  supplier_price: number | null // Wholesale cost the listing's retail price was set against
+}
+
+export interface ShopifyListingVariant {
+  id: string
+  sku: string | null
+  barcode: string | null
+  option1: string | null
+  option2: string | null
+  option3: string | null
+  inventory_item_id: string | null
+}
+
+export interface ShopifyListing {
+  id: string
+  title: string
+  image: string | null
+  variants: ShopifyListingVariant[]
+}
+
+export interface LinkMatch {
+  supplier_product_id: string
+  supplier_title: string
+  reason: LinkMatchReason
+  score: number // 0-1: share of variants matched by code, or title similarity
+  matched_variants: number
+}
+
+// A Shopify product not yet linked to anything, with the best supplier product for it when one was found
+export interface LinkProposal {
+  listing: ShopifyListing
+  match: LinkMatch | null
+}
+
+export interface LinkRequest {
+  shopify_product_id: string
+  supplier_product_id: string
+}
+
+export interface LinkResult {
+  shopify_product_id: string
+  success: boolean
+  error?: string
+  matched_variants?: number
+}
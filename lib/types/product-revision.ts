@@ -0,0 +1,50 @@
+import { MapEnforcement } from './product'
+
+export type ProductRevisionStatus = 'applied' | 'pending' | 'approved' | 'rejected' | 'superseded'
+
+export interface VariantSnapshot {
+  id: string
+  title: string
+  sku: string | null
+  price: number
+  weight: number | null
+}
+
+// The editable content of a product at one point in time
+export interface ProductSnapshot {
+  title: string
+  description: string | null
+  price: number
+  // Pricing fields are missing from revisions recorded before suppliers could set them
+  suggested_retail_price?: number | null
+  map_price?: number | null
+  map_enforcement?: MapEnforcement
+  images: string[]
+  category_id: string | null
+  tags: string[]
+  variants: VariantSnapshot[]
+}
+
+export interface ProductRevision {
+  id: string
+  product_id: string
+  revision_number: number
+  snapshot: ProductSnapshot
+  // Top-level keys ('price') or variant paths ('variants.<id>.price') that differ from the previous live version
+  changed_fields: string[]
+  status: ProductRevisionStatus
+  author: string
+  author_type: 'supplier' | 'admin'
+  reviewed_by: string | null
+  reviewed_at: string | null
+  review_note: string | null
+  created_at: string
+}
+
+export interface RevisionFieldChange {
+  field: string
+  label: string
+  before: unknown
+  after: unknown
+  material: boolean
+}
@@ -0,0 +1,48 @@
+// Supplier content kept in step with pushed Shopify listings
+export type ContentSyncField = 'title' | 'description' | 'images' | 'price'
+
+export type ContentSyncStatus = 'success' | 'partial' | 'failed' | 'skipped'
+
+export interface ContentSyncLog {
+  id: string
+  mapping_id: string
+  supplier_product_id: string
+  store_url: string
+  shopify_product_id: string
+  status: ContentSyncStatus
+  synced_fields: ContentSyncField[]
+  skipped_fields: ContentSyncField[] // Changed by the supplier but overridden by the seller
+  message: string | null
+  errors: string[]
+  created_at: string
+}
+
+// A pushed listing as shown to the seller, with the fields they keep their own version of
+export interface SyncedListing {
+  id: string
+  supplier_product_id: string
+  product_title: string | null
+  shopify_product_id: string
+  overridden_fields: ContentSyncField[]
+  pending_content_fields: ContentSyncField[]
+  content_synced_at: string | null
+  pushed_at: string | null
+}
+
+// What happens to the Shopify product when the seller unlinks a listing; the mapping is archived in every case
+export type UnlinkAction = 'unlink' | 'draft' | 'delete'
+
+// An order received before the unlink that the supplier still has to fulfil
+export interface OpenListingOrder {
+  id: string
+  order_name: string | null
+  order_number: string | null
+  status: string
+  order_date: string
+  quantity: number
+}
+
+export interface UnlinkImpact {
+  listing: SyncedListing
+  open_orders: OpenListingOrder[]
+}
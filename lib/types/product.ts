@@ -1,27 +1,102 @@
+import { ProductMediaRef } from './product-image'
+
+export type WeightUnit = 'g' | 'kg' | 'lb' | 'oz'
+
+// Whether pushes below the minimum advertised price are refused or only flagged
+export type MapEnforcement = 'block' | 'warn'
+
+// An option axis such as Size or Color (Shopify allows up to three)
+export interface ProductOption {
+  name: string
+  values: string[]
+}
+
+export interface ProductVariant {
+  id: string
+  product_id: string
+  sku: string | null
+  price: number
+  weight: number | null
+  weight_unit: WeightUnit
+  inventory_quantity: number
+  option1: string | null
+  option2: string | null
+  option3: string | null
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+// Category columns joined onto products (see PRODUCT_SELECT)
+export interface ProductCategoryRef {
+  id: string
+  name: string
+  shopify_product_type: string | null
+}
+
 export interface Product {
   id: string
   title: string
   description: string | null
-  price: number
+  price: number // Wholesale cost charged to sellers
+  suggested_retail_price: number | null
+  map_price: number | null // Minimum advertised price for the base price; variants scale with their price
+  map_enforcement: MapEnforcement
   images: string[]
+  // Processed uploads behind images (alt text, sizes); images uploaded before processing existed have none
+  media?: ProductMediaRef[]
+  options: ProductOption[]
+  variants?: ProductVariant[]
+  category_id: string | null
+  category?: ProductCategoryRef | null
+  tags: string[]
   supplier_id: string
   supplier_name: string | null
   status: 'pending' | 'approved' | 'rejected'
+  rejection_reasons: string[]
+  rejection_feedback: string | null
+  submission_count: number
+  pending_revision_id: string | null
   created_at: string
   updated_at: string
 }
 
+export interface CreateProductVariantData {
+  sku?: string
+  price: number
+  weight?: number
+  weight_unit?: WeightUnit
+  inventory_quantity?: number
+  option1?: string
+  option2?: string
+  option3?: string
+}
+
 export interface CreateProductData {
   title: string
   description: string
   price: number
+  suggested_retail_price?: number | null
+  map_price?: number | null
+  map_enforcement?: MapEnforcement
   images?: string[]
+  options?: ProductOption[]
+  variants?: CreateProductVariantData[]
+  category_id?: string | null
+  tags?: string[]
+  initial_stock?: number // Opening stock for products without variants
 }
 
-export interface UpdateProductData {
+// Changes a supplier may make to their product; variants are edited in place
+export interface UpdateSupplierProductData {
   title?: string
   description?: string
   price?: number
+  suggested_retail_price?: number | null
+  map_price?: number | null
+  map_enforcement?: MapEnforcement
   images?: string[]
-  status?: 'pending' | 'approved' | 'rejected'
-} 
\ No newline at end of file
+  category_id?: string | null
+  tags?: string[]
+  variants?: { id: string; sku?: string | null; price?: number; weight?: number | null }[]
+}
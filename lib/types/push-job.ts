@@ -0,0 +1,39 @@
+// Bulk pushes run on the server so they survive the seller closing the tab
+export type PushJobStatus = 'queued' | 'running' | 'completed' | 'partial' | 'failed'
+
+export type PushJobItemStatus = 'pending' | 'pushing' | 'pushed' | 'failed'
+
+export interface PushJob {
+  id: string
+  seller_id: string
+  store_url: string
+  status: PushJobStatus
+  update_existing: boolean // Products already in the store are updated in place instead of left alone
+  total_items: number
+  pushed_items: number
+  failed_items: number
+  created_at: string
+  started_at: string | null
+  finished_at: string | null
+  updated_at: string
+}
+
+export interface PushJobItem {
+  id: string
+  job_id: string
+  supplier_product_id: string
+  product_title: string
+  selling_price: number // Priced when the job was submitted, from the seller's rules
+  compare_at_price: number | null
+  status: PushJobItemStatus
+  attempts: number
+  shopify_product_id: string | null
+  error: string | null
+  warnings: string[]
+  created_at: string
+  updated_at: string
+}
+
+export interface PushJobWithItems extends PushJob {
+  items: PushJobItem[]
+}
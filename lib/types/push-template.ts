@@ -0,0 +1,31 @@
+import { ShopifyProductInput } from '../shopify-product'
+
+// How a store's Shopify listings are written from supplier products
+export interface PushTemplate {
+  title_template: string
+  body_template: string // HTML; {{description}} is the supplier description as HTML
+  vendor_template: string
+  extra_tags: string // Comma-separated, added to the product's own tags
+}
+
+export interface StorePushTemplate extends PushTemplate {
+  id: string
+  store_url: string
+  created_at: string
+  updated_at: string
+}
+
+// One field of a pushed product compared with the listing live in the store
+export interface PushFieldDiff {
+  field: string
+  label: string
+  live: string | null
+  proposed: string | null
+  changed: boolean
+}
+
+export interface PushPreview {
+  product: ShopifyProductInput
+  existing: { shopify_product_id: string } | null // Set when the store already has a listing for this product
+  diff: PushFieldDiff[] | null // null when there is no live listing to compare with
+}
@@ -0,0 +1,35 @@
+// Shopify webhook deliveries as stored in webhook_events
+export type WebhookEventStatus =
+  | 'received' // Stored, not processed yet
+  | 'processed'
+  | 'failed' // Processing failed or the HMAC did not match; can be replayed
+  | 'ignored' // A topic the app does not act on
+
+export interface WebhookEvent {
+  id: string
+  webhook_id: string | null
+  topic: string | null
+  shop_domain: string | null
+  payload: any
+  hmac_valid: boolean | null
+  status: WebhookEventStatus
+  error: string | null
+  attempts: number
+  processed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface WebhookEventFilters {
+  status?: WebhookEventStatus
+  shop?: string
+  topic?: string
+  limit?: number
+}
+
+export interface WebhookRegistrationResult {
+  success: boolean
+  created: string[]
+  existing: string[]
+  errors: string[]
+}
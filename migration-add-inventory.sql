@@ -1 +1,130 @@
- 
\ No newline at end of file
+-- Supplier inventory: on-hand stock per product/variant and an append-only movement ledger
+-- Run after migrations/add-product-variants.sql
+
+CREATE TABLE IF NOT EXISTS inventory_levels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id VARCHAR(255) NOT NULL,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE,
+  on_hand INTEGER NOT NULL DEFAULT 0 CHECK (on_hand >= 0),
+  reserved INTEGER NOT NULL DEFAULT 0 CHECK (reserved >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One level per product (variant_id NULL) or per variant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_levels_product_variant
+ON inventory_levels(product_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid));
+CREATE INDEX IF NOT EXISTS idx_inventory_levels_supplier_id ON inventory_levels(supplier_id);
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inventory_level_id UUID NOT NULL, -- no FK: movements outlive deleted products
+  supplier_id VARCHAR(255) NOT NULL,
+  product_id UUID NOT NULL,
+  variant_id UUID,
+  movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('initial', 'adjustment', 'reservation', 'release', 'shipment')),
+  on_hand_delta INTEGER NOT NULL DEFAULT 0,
+  reserved_delta INTEGER NOT NULL DEFAULT 0,
+  on_hand_after INTEGER NOT NULL,
+  reserved_after INTEGER NOT NULL,
+  supplier_order_id VARCHAR(255),
+  shopify_line_item_id VARCHAR(255),
+  reason TEXT,
+  created_by VARCHAR(255) DEFAULT 'system',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_level ON stock_movements(inventory_level_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order ON stock_movements(supplier_order_id);
+
+-- The ledger is append-only
+CREATE OR REPLACE FUNCTION prevent_stock_movement_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'stock_movements is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_stock_movement_changes
+    BEFORE UPDATE OR DELETE ON stock_movements
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_stock_movement_changes();
+
+-- Apply a movement atomically: lock the level, update the counters and append to the ledger.
+-- Adjustments may not take on_hand below zero; reservations may exceed on_hand (oversold orders).
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_level_id UUID,
+  p_movement_type VARCHAR,
+  p_on_hand_delta INTEGER,
+  p_reserved_delta INTEGER,
+  p_supplier_order_id VARCHAR DEFAULT NULL,
+  p_shopify_line_item_id VARCHAR DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_created_by VARCHAR DEFAULT 'system'
+)
+RETURNS stock_movements AS $$
+DECLARE
+  level inventory_levels%ROWTYPE;
+  movement stock_movements%ROWTYPE;
+BEGIN
+  SELECT * INTO level FROM inventory_levels WHERE id = p_level_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory level % not found', p_level_id;
+  END IF;
+
+  IF level.on_hand + p_on_hand_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock: on hand %, change %', level.on_hand, p_on_hand_delta;
+  END IF;
+
+  UPDATE inventory_levels
+  SET on_hand = on_hand + p_on_hand_delta,
+      reserved = GREATEST(reserved + p_reserved_delta, 0),
+      updated_at = NOW()
+  WHERE id = p_level_id
+  RETURNING * INTO level;
+
+  INSERT INTO stock_movements (
+    inventory_level_id, supplier_id, product_id, variant_id, movement_type,
+    on_hand_delta, reserved_delta, on_hand_after, reserved_after,
+    supplier_order_id, shopify_line_item_id, reason, created_by
+  ) VALUES (
+    level.id, level.supplier_id, level.product_id, level.variant_id, p_movement_type,
+    p_on_hand_delta, p_reserved_delta, level.on_hand, level.reserved,
+    p_supplier_order_id, p_shopify_line_item_id, p_reason, p_created_by
+  )
+  RETURNING * INTO movement;
+
+  RETURN movement;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION update_inventory_levels_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_inventory_levels_updated_at
+    BEFORE UPDATE ON inventory_levels
+    FOR EACH ROW
+    EXECUTE FUNCTION update_inventory_levels_updated_at();
+
+-- Backfill levels for existing products from the stock entered on their variants
+INSERT INTO inventory_levels (supplier_id, product_id, variant_id, on_hand)
+SELECT p.supplier_id, p.id, v.id, v.inventory_quantity
+FROM products p
+JOIN product_variants v ON v.product_id = p.id
+ON CONFLICT DO NOTHING;
+
+INSERT INTO inventory_levels (supplier_id, product_id, variant_id, on_hand)
+SELECT p.supplier_id, p.id, NULL, 0
+FROM products p
+WHERE NOT EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO stock_movements (inventory_level_id, supplier_id, product_id, variant_id, movement_type, on_hand_delta, on_hand_after, reserved_after, reason)
+SELECT id, supplier_id, product_id, variant_id, 'initial', on_hand, on_hand, 0, 'Backfilled from variant stock'
+FROM inventory_levels;
@@ -0,0 +1,67 @@
+-- Server-side bulk pushes with per-product status, so a batch can be followed and resumed later
+-- Run after add-pricing-rules.sql
+
+CREATE TABLE IF NOT EXISTS bulk_push_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id VARCHAR(255) NOT NULL,
+  store_url VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'partial', 'failed')),
+  total_items INTEGER NOT NULL DEFAULT 0,
+  pushed_items INTEGER NOT NULL DEFAULT 0,
+  failed_items INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per product in a job; prices are fixed when the seller submits the job
+CREATE TABLE IF NOT EXISTS bulk_push_job_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES bulk_push_jobs(id) ON DELETE CASCADE,
+  supplier_product_id UUID NOT NULL,
+  product_title VARCHAR(255) NOT NULL,
+  selling_price NUMERIC(12, 2) NOT NULL,
+  compare_at_price NUMERIC(12, 2),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'pushing', 'pushed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  shopify_product_id VARCHAR(255),
+  error TEXT,
+  warnings TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bulk_push_jobs_seller_store ON bulk_push_jobs(seller_id, store_url, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bulk_push_jobs_active ON bulk_push_jobs(status) WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_bulk_push_job_items_job ON bulk_push_job_items(job_id, status);
+
+CREATE OR REPLACE FUNCTION update_bulk_push_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_bulk_push_jobs_updated_at ON bulk_push_jobs;
+CREATE TRIGGER update_bulk_push_jobs_updated_at
+    BEFORE UPDATE ON bulk_push_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_bulk_push_jobs_updated_at();
+
+CREATE OR REPLACE FUNCTION update_bulk_push_job_items_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_bulk_push_job_items_updated_at ON bulk_push_job_items;
+CREATE TRIGGER update_bulk_push_job_items_updated_at
+    BEFORE UPDATE ON bulk_push_job_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_bulk_push_job_items_updated_at();
@@ -0,0 +1,108 @@
+-- Catalog browsing for sellers: filters, sorting, paging and facet counts run in the database
+-- instead of loading every approved product into the app on each request
+-- Run after add-product-categories.sql
+
+CREATE INDEX IF NOT EXISTS idx_products_status_created_at ON products(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_products_status_price ON products(status, price);
+
+-- One page of matching product ids with the total and raw facet counts. Each facet is counted with every
+-- filter applied except its own; categories are counted per product category and rolled up by the caller.
+-- p_search must already be lower case; p_price_bounds are the lower bounds of the price facet ranges after the first
+CREATE OR REPLACE FUNCTION browse_catalog(
+  p_search TEXT,
+  p_category_ids UUID[],
+  p_supplier_ids TEXT[],
+  p_tags TEXT[],
+  p_min_price NUMERIC,
+  p_max_price NUMERIC,
+  p_sort TEXT,
+  p_limit INTEGER,
+  p_offset INTEGER,
+  p_price_bounds NUMERIC[],
+  p_tag_limit INTEGER
+)
+RETURNS JSONB AS $$
+  WITH searchable AS (
+    SELECT
+      id,
+      title,
+      price,
+      supplier_id::TEXT AS supplier_id,
+      supplier_name,
+      category_id,
+      tags,
+      created_at,
+      (p_category_ids IS NULL OR category_id = ANY(p_category_ids)) AS in_category,
+      (p_supplier_ids IS NULL OR supplier_id::TEXT = ANY(p_supplier_ids)) AS in_supplier,
+      (p_tags IS NULL OR tags && p_tags) AS in_tag,
+      ((p_min_price IS NULL OR price >= p_min_price) AND (p_max_price IS NULL OR price < p_max_price)) AS in_price
+    FROM products
+    WHERE status = 'approved'
+      AND (
+        p_search IS NULL
+        OR strpos(lower(title), p_search) > 0
+        OR strpos(lower(COALESCE(description, '')), p_search) > 0
+        OR EXISTS (SELECT 1 FROM unnest(tags) AS tag WHERE strpos(tag, p_search) > 0)
+      )
+  ),
+  matching AS (
+    SELECT * FROM searchable WHERE in_category AND in_supplier AND in_tag AND in_price
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM matching),
+    'ids', COALESCE((
+      SELECT jsonb_agg(page.id ORDER BY page.position)
+      FROM (
+        SELECT id, ROW_NUMBER() OVER (
+          ORDER BY
+            CASE WHEN p_sort = 'price_asc' THEN price END ASC,
+            CASE WHEN p_sort = 'price_desc' THEN price END DESC,
+            CASE WHEN p_sort = 'title' THEN lower(title) END ASC,
+            created_at DESC,
+            id
+        ) AS position
+        FROM matching
+      ) page
+      WHERE page.position > p_offset AND page.position <= p_offset + p_limit
+    ), '[]'::JSONB),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', counts.category_id, 'count', counts.count))
+      FROM (
+        SELECT category_id, COUNT(*) AS count
+        FROM searchable
+        WHERE in_supplier AND in_tag AND in_price AND category_id IS NOT NULL
+        GROUP BY category_id
+      ) counts
+    ), '[]'::JSONB),
+    'suppliers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', counts.supplier_id, 'name', counts.supplier_name, 'count', counts.count))
+      FROM (
+        SELECT supplier_id, MAX(supplier_name) AS supplier_name, COUNT(*) AS count
+        FROM searchable
+        WHERE in_category AND in_tag AND in_price
+        GROUP BY supplier_id
+      ) counts
+    ), '[]'::JSONB),
+    'tags', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('tag', counts.tag, 'count', counts.count) ORDER BY counts.count DESC, counts.tag)
+      FROM (
+        SELECT tag, COUNT(*) AS count
+        FROM searchable, unnest(tags) AS tag
+        WHERE in_category AND in_supplier AND in_price
+        GROUP BY tag
+        ORDER BY COUNT(*) DESC, tag
+        LIMIT p_tag_limit
+      ) counts
+    ), '[]'::JSONB),
+    -- Bucket 0 is below the first bound, bucket n at or above the nth
+    'prices', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('bucket', counts.bucket, 'count', counts.count))
+      FROM (
+        SELECT width_bucket(price, p_price_bounds) AS bucket, COUNT(*) AS count
+        FROM searchable
+        WHERE in_category AND in_supplier AND in_tag
+        GROUP BY 1
+      ) counts
+    ), '[]'::JSONB)
+  );
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,32 @@
+-- Propagate supplier stock to the Shopify stores a product was pushed to
+-- Run after migration-add-inventory.sql
+
+-- Per-store sync preferences chosen by the seller
+CREATE TABLE IF NOT EXISTS store_sync_settings (
+  store_url VARCHAR(255) PRIMARY KEY,
+  draft_when_out_of_stock BOOLEAN NOT NULL DEFAULT false,
+  shopify_location_id VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Remember which listings we drafted so we only re-activate those
+ALTER TABLE product_shopify_mappings
+ADD COLUMN IF NOT EXISTS drafted_out_of_stock BOOLEAN NOT NULL DEFAULT false;
+
+-- One row per store per sync attempt
+CREATE TABLE IF NOT EXISTS inventory_sync_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_product_id UUID NOT NULL,
+  store_url VARCHAR(255) NOT NULL,
+  shopify_product_id VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('success', 'partial', 'failed')),
+  total_available INTEGER NOT NULL DEFAULT 0,
+  product_status_change VARCHAR(20),
+  message TEXT,
+  details JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_sync_logs_store ON inventory_sync_logs(store_url, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_sync_logs_product ON inventory_sync_logs(supplier_product_id);
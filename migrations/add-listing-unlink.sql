@@ -0,0 +1,7 @@
+-- Let sellers take a pushed product back out of their store
+-- Run after add-push-idempotency.sql
+
+-- Unlinking sets unlinked_at, added with add-push-idempotency.sql, and records what happened to the listing
+-- ('deleted_in_shopify' when a push found it gone); the product can be pushed again, as only active mappings must be unique
+ALTER TABLE product_shopify_mappings
+ADD COLUMN IF NOT EXISTS unlink_action VARCHAR(20) CHECK (unlink_action IN ('unlink', 'draft', 'delete', 'deleted_in_shopify'));
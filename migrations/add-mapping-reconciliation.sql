@@ -0,0 +1,14 @@
+-- Periodic checks that product_shopify_mappings still point at real Shopify and supplier products
+-- Run after add-product-linking.sql
+
+-- One row per store per reconciliation; issues holds the problems found, minus any fixed since
+CREATE TABLE IF NOT EXISTS mapping_reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_url VARCHAR(255) NOT NULL,
+  checked_mappings INTEGER NOT NULL DEFAULT 0,
+  issues JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT, -- Set when the store could not be read, in which case nothing was checked
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mapping_reconciliation_runs_store ON mapping_reconciliation_runs(store_url, created_at DESC);
@@ -0,0 +1,36 @@
+-- Idempotent shipment per order line, so tracking entered twice at once cannot take the goods off on-hand stock twice
+-- Run after add-order-line-stock-functions.sql
+
+-- Turn what a line still holds into a shipment; an oversold line only takes what is physically on hand.
+-- Returns the quantity shipped, 0 when nothing was outstanding
+CREATE OR REPLACE FUNCTION ship_order_line(
+  p_supplier_order_id VARCHAR,
+  p_shopify_line_item_id VARCHAR,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  entry RECORD;
+  quantity INTEGER;
+  shipped INTEGER := 0;
+BEGIN
+  -- Same lock as reserve_order_line and release_order_line, so the line's ledger cannot change underneath
+  PERFORM pg_advisory_xact_lock(hashtext('order-line:' || p_supplier_order_id || ':' || p_shopify_line_item_id));
+
+  FOR entry IN
+    SELECT movements.inventory_level_id, SUM(movements.reserved_delta)::INTEGER AS outstanding, levels.on_hand
+    FROM stock_movements movements
+    JOIN inventory_levels levels ON levels.id = movements.inventory_level_id
+    WHERE movements.supplier_order_id = p_supplier_order_id
+      AND movements.shopify_line_item_id = p_shopify_line_item_id
+    GROUP BY movements.inventory_level_id, levels.on_hand
+    HAVING SUM(movements.reserved_delta) > 0
+  LOOP
+    quantity := LEAST(entry.outstanding, GREATEST(entry.on_hand, 0));
+    PERFORM apply_stock_movement(entry.inventory_level_id, 'shipment', -quantity, -entry.outstanding, p_supplier_order_id, p_shopify_line_item_id, p_reason);
+    shipped := shipped + quantity;
+  END LOOP;
+
+  RETURN shipped;
+END;
+$$ language 'plpgsql';
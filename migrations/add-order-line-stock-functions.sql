@@ -0,0 +1,60 @@
+-- Idempotent stock reservation and release per order line, so the order sync and webhook deliveries
+-- for the same order (orders/create and orders/updated arrive almost together) cannot reserve or release twice
+-- Run after migration-add-inventory.sql
+
+-- Reserve stock for a line unless it was ever reserved before; a line that was shipped or released is not reserved again.
+-- Returns whether a reservation was made
+CREATE OR REPLACE FUNCTION reserve_order_line(
+  p_level_id UUID,
+  p_supplier_order_id VARCHAR,
+  p_shopify_line_item_id VARCHAR,
+  p_quantity INTEGER,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Held until the end of the transaction, so a concurrent call sees this one's reservation once it gets the lock
+  PERFORM pg_advisory_xact_lock(hashtext('order-line:' || p_supplier_order_id || ':' || p_shopify_line_item_id));
+
+  IF EXISTS (
+    SELECT 1 FROM stock_movements
+    WHERE supplier_order_id = p_supplier_order_id
+      AND shopify_line_item_id = p_shopify_line_item_id
+      AND movement_type = 'reservation'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  PERFORM apply_stock_movement(p_level_id, 'reservation', 0, p_quantity, p_supplier_order_id, p_shopify_line_item_id, p_reason);
+  RETURN TRUE;
+END;
+$$ language 'plpgsql';
+
+-- Release whatever a line still holds; returns the quantity released, 0 when nothing was outstanding
+CREATE OR REPLACE FUNCTION release_order_line(
+  p_supplier_order_id VARCHAR,
+  p_shopify_line_item_id VARCHAR,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  entry RECORD;
+  released INTEGER := 0;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('order-line:' || p_supplier_order_id || ':' || p_shopify_line_item_id));
+
+  FOR entry IN
+    SELECT inventory_level_id, SUM(reserved_delta)::INTEGER AS outstanding
+    FROM stock_movements
+    WHERE supplier_order_id = p_supplier_order_id
+      AND shopify_line_item_id = p_shopify_line_item_id
+    GROUP BY inventory_level_id
+    HAVING SUM(reserved_delta) > 0
+  LOOP
+    PERFORM apply_stock_movement(entry.inventory_level_id, 'release', 0, -entry.outstanding, p_supplier_order_id, p_shopify_line_item_id, p_reason);
+    released := released + entry.outstanding;
+  END LOOP;
+
+  RETURN released;
+END;
+$$ language 'plpgsql';
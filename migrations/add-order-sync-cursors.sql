@@ -0,0 +1,23 @@
+-- Per-store high-water marks so order sync only asks Shopify for orders changed since the last run
+
+CREATE TABLE IF NOT EXISTS order_sync_cursors (
+  store_url VARCHAR(255) PRIMARY KEY,
+  last_order_updated_at TIMESTAMP WITH TIME ZONE, -- NULL until the initial backfill has finished
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION update_order_sync_cursors_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_order_sync_cursors_updated_at ON order_sync_cursors;
+CREATE TRIGGER update_order_sync_cursors_updated_at
+    BEFORE UPDATE ON order_sync_cursors
+    FOR EACH ROW
+    EXECUTE FUNCTION update_order_sync_cursors_updated_at();
@@ -0,0 +1,25 @@
+-- Scheduled order sync: a per-store lock so runs never overlap, and a history of every run
+-- Run after add-order-sync-cursors.sql
+
+-- A run holds a store's lock until it finishes or locked_until passes, whichever comes first
+ALTER TABLE order_sync_cursors ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE order_sync_cursors ADD COLUMN IF NOT EXISTS lock_token UUID;
+-- Set whenever a run starts, so a store whose syncs fail waits out the interval like one that synced
+ALTER TABLE order_sync_cursors ADD COLUMN IF NOT EXISTS last_attempted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS order_sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_url VARCHAR(255) NOT NULL,
+  trigger VARCHAR(20) NOT NULL DEFAULT 'schedule' CHECK (trigger IN ('schedule', 'manual')),
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'partial', 'failed')),
+  orders_fetched INTEGER NOT NULL DEFAULT 0,
+  orders_synced INTEGER NOT NULL DEFAULT 0,
+  items_synced INTEGER NOT NULL DEFAULT 0,
+  failed_orders INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]',
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_sync_runs_store ON order_sync_runs(store_url, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_sync_runs_started ON order_sync_runs(started_at DESC);
@@ -0,0 +1,44 @@
+-- Unique keys that let order sync upsert supplier orders and their line items instead of deleting and re-inserting them
+-- Run after add-order-line-stock-functions.sql
+
+-- Two syncs racing on a new order could each insert it; the copy with the lowest id is kept
+CREATE TEMP TABLE duplicate_supplier_orders AS
+SELECT a.id FROM supplier_orders a
+WHERE EXISTS (
+  SELECT 1 FROM supplier_orders b
+  WHERE b.shopify_order_id = a.shopify_order_id
+    AND b.supplier_id = a.supplier_id
+    AND b.store_url = a.store_url
+    AND b.id < a.id
+);
+
+-- Give back the stock the removed copies still hold; the ledger is append-only, so this records releases.
+-- The kept copy reserves its lines on its next sync if it never did
+SELECT release_order_line(lines.supplier_order_id, lines.shopify_line_item_id, 'Duplicate order removed')
+FROM (
+  SELECT DISTINCT supplier_order_id, shopify_line_item_id
+  FROM stock_movements
+  WHERE supplier_order_id IN (SELECT id::text FROM duplicate_supplier_orders)
+    AND shopify_line_item_id IS NOT NULL
+) lines;
+
+DELETE FROM supplier_order_items
+WHERE supplier_order_id::text IN (SELECT id::text FROM duplicate_supplier_orders);
+
+DELETE FROM supplier_orders
+WHERE id IN (SELECT id FROM duplicate_supplier_orders);
+
+DROP TABLE duplicate_supplier_orders;
+
+-- An interrupted delete-and-reinsert could leave the same line twice; the copy with the lowest id is kept
+DELETE FROM supplier_order_items a
+USING supplier_order_items b
+WHERE a.supplier_order_id = b.supplier_order_id
+  AND a.shopify_line_item_id = b.shopify_line_item_id
+  AND a.id > b.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_orders_shopify_order
+  ON supplier_orders(shopify_order_id, supplier_id, store_url);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_order_items_line_item
+  ON supplier_order_items(supplier_order_id, shopify_line_item_id);
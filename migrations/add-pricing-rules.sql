@@ -0,0 +1,40 @@
+-- Seller pricing rules: how retail prices are derived from supplier wholesale costs on push
+-- A rule applies to every store of the seller, or only to one store when store_url is set
+
+CREATE TABLE IF NOT EXISTS seller_pricing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id VARCHAR(255) NOT NULL,
+  store_url VARCHAR(255),
+  name VARCHAR(255) NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0,
+  -- Conditions; a rule without any matches every product
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  min_cost NUMERIC(12, 2),
+  max_cost NUMERIC(12, 2),
+  -- Outcome
+  markup_type VARCHAR(10) NOT NULL CHECK (markup_type IN ('percent', 'fixed')),
+  markup_value NUMERIC(12, 2) NOT NULL CHECK (markup_value >= 0),
+  price_ending VARCHAR(4) NOT NULL DEFAULT 'none' CHECK (price_ending IN ('none', '99', '49')),
+  compare_at_type VARCHAR(10) NOT NULL DEFAULT 'none' CHECK (compare_at_type IN ('none', 'percent', 'fixed')),
+  compare_at_value NUMERIC(12, 2),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (min_cost IS NULL OR max_cost IS NULL OR min_cost <= max_cost)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seller_pricing_rules_seller ON seller_pricing_rules(seller_id, priority);
+
+CREATE OR REPLACE FUNCTION update_seller_pricing_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_seller_pricing_rules_updated_at ON seller_pricing_rules;
+CREATE TRIGGER update_seller_pricing_rules_updated_at
+    BEFORE UPDATE ON seller_pricing_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_seller_pricing_rules_updated_at();
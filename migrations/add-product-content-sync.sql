@@ -0,0 +1,38 @@
+-- Push supplier edits (title, description, images, price) to the Shopify listings created from a product
+
+-- Fields the seller edits in Shopify themselves, changes waiting to be sent, and the last successful sync
+ALTER TABLE product_shopify_mappings
+ADD COLUMN IF NOT EXISTS overridden_fields TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS pending_content_fields TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS content_synced_at TIMESTAMP WITH TIME ZONE;
+
+-- A run moves the queued fields to syncing_content_fields while it sends them, so two runs never send the same
+-- change and fields queued meanwhile wait for the next run; a claim that expires belongs to a run that died
+ALTER TABLE product_shopify_mappings
+ADD COLUMN IF NOT EXISTS syncing_content_fields TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS content_sync_claimed_until TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_product_shopify_mappings_pending_content
+ON product_shopify_mappings(supplier_product_id)
+WHERE pending_content_fields <> '{}';
+
+-- One row per listing per sync attempt
+CREATE TABLE IF NOT EXISTS product_content_sync_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mapping_id UUID NOT NULL REFERENCES product_shopify_mappings(id) ON DELETE CASCADE,
+  supplier_product_id UUID NOT NULL,
+  store_url VARCHAR(255) NOT NULL,
+  shopify_product_id VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('success', 'partial', 'failed', 'skipped')),
+  synced_fields TEXT[] NOT NULL DEFAULT '{}',
+  skipped_fields TEXT[] NOT NULL DEFAULT '{}',
+  message TEXT,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_content_sync_logs_store ON product_content_sync_logs(store_url, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_product_content_sync_logs_mapping ON product_content_sync_logs(mapping_id, created_at DESC);
+
+-- variant_mappings entries also record supplier_price, the wholesale cost the listing's retail price was set against,
+-- so a supplier price change can move the retail price by the same proportion
@@ -0,0 +1,46 @@
+-- Processed product images
+-- Uploads are validated, stripped of metadata and resized on the server; each row keeps the
+-- generated sizes, alt text, display order and perceptual hash used to flag duplicates.
+-- products.images keeps the ordered list of display URLs (the "large" size) used by the catalog and Shopify pushes.
+
+CREATE TABLE IF NOT EXISTS product_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id VARCHAR(255) NOT NULL,
+  -- NULL until the product the image was uploaded for is saved, or after it is removed from the product
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  thumbnail_url TEXT NOT NULL,
+  sizes JSONB NOT NULL DEFAULT '{}',
+  alt_text TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  original_name VARCHAR(255),
+  original_type VARCHAR(50),
+  original_size INTEGER,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  content_hash VARCHAR(64) NOT NULL,
+  perceptual_hash VARCHAR(16) NOT NULL,
+  duplicate_of UUID REFERENCES product_images(id) ON DELETE SET NULL,
+  duplicate_type VARCHAR(10) CHECK (duplicate_type IN ('exact', 'near')),
+  storage_prefix TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_images_product ON product_images(product_id, position);
+CREATE INDEX IF NOT EXISTS idx_product_images_supplier ON product_images(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_product_images_content_hash ON product_images(supplier_id, content_hash);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_images_url ON product_images(url);
+
+CREATE OR REPLACE FUNCTION update_product_images_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_product_images_updated_at
+    BEFORE UPDATE ON product_images
+    FOR EACH ROW
+    EXECUTE FUNCTION update_product_images_updated_at();
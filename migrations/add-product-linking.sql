@@ -0,0 +1,21 @@
+-- Connect listings a seller created in Shopify themselves to supplier products
+-- Run after add-listing-unlink.sql
+
+-- 'push' for listings created by /api/push-to-shopify, 'link' for existing listings matched by the seller
+ALTER TABLE product_shopify_mappings
+ADD COLUMN IF NOT EXISTS link_source VARCHAR(10) NOT NULL DEFAULT 'push' CHECK (link_source IN ('push', 'link'));
+
+-- A listing routes its orders to one supplier product; where it was linked more than once,
+-- keep the most recent mapping active and archive the others
+UPDATE product_shopify_mappings older
+SET unlinked_at = NOW(), unlink_action = 'unlink'
+FROM product_shopify_mappings newer
+WHERE older.shopify_product_id = newer.shopify_product_id
+  AND older.shopify_store_url = newer.shopify_store_url
+  AND older.unlinked_at IS NULL
+  AND newer.unlinked_at IS NULL
+  AND (COALESCE(older.pushed_at, 'epoch'), older.id) < (COALESCE(newer.pushed_at, 'epoch'), newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_listing_mapping
+ON product_shopify_mappings(shopify_product_id, shopify_store_url)
+WHERE unlinked_at IS NULL;
@@ -0,0 +1,29 @@
+-- Structured rejection feedback and a moderation history for supplier products
+
+-- Latest moderation outcome, shown to the supplier next to the product
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS rejection_reasons TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS rejection_feedback TEXT,
+ADD COLUMN IF NOT EXISTS submission_count INTEGER NOT NULL DEFAULT 1;
+
+-- Every submission, approval, rejection and resubmission of a product
+CREATE TABLE IF NOT EXISTS product_moderation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('submitted', 'approved', 'rejected', 'resubmitted')),
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  feedback TEXT,
+  actor VARCHAR(255) NOT NULL,
+  actor_type VARCHAR(20) NOT NULL CHECK (actor_type IN ('supplier', 'admin')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_moderation_events_product ON product_moderation_events(product_id, created_at);
+
+-- Existing products start their history with the original submission
+INSERT INTO product_moderation_events (product_id, action, actor, actor_type, created_at)
+SELECT p.id, 'submitted', p.supplier_id, 'supplier', p.created_at
+FROM products p
+WHERE NOT EXISTS (
+  SELECT 1 FROM product_moderation_events e WHERE e.product_id = p.id
+);
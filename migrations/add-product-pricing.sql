@@ -0,0 +1,9 @@
+-- Supplier pricing: products.price is the wholesale cost sellers pay; suppliers may add a
+-- suggested retail price and a minimum advertised price (MAP) for pushes to seller stores
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS suggested_retail_price NUMERIC(12, 2) CHECK (suggested_retail_price IS NULL OR suggested_retail_price > 0),
+ADD COLUMN IF NOT EXISTS map_price NUMERIC(12, 2) CHECK (map_price IS NULL OR map_price > 0),
+ADD COLUMN IF NOT EXISTS map_enforcement VARCHAR(10) NOT NULL DEFAULT 'block' CHECK (map_enforcement IN ('block', 'warn'));
+
+COMMENT ON COLUMN products.price IS 'Wholesale cost charged to sellers';
@@ -0,0 +1,57 @@
+-- Versioned product revisions
+-- Material edits (title, price, images) to an approved product are held as a pending revision
+-- until an admin approves them; the products row always holds the live version
+
+CREATE TABLE IF NOT EXISTS product_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'pending', 'approved', 'rejected', 'superseded')),
+  author VARCHAR(255) NOT NULL,
+  author_type VARCHAR(20) NOT NULL CHECK (author_type IN ('supplier', 'admin')),
+  reviewed_by VARCHAR(255),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (product_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_revisions_status ON product_revisions(status);
+
+-- The change currently waiting for admin review, if any
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS pending_revision_id UUID REFERENCES product_revisions(id) ON DELETE SET NULL;
+
+-- Existing products start with their current state as revision 1
+INSERT INTO product_revisions (product_id, revision_number, snapshot, author, author_type, created_at)
+SELECT
+  p.id,
+  1,
+  jsonb_build_object(
+    'title', p.title,
+    'description', p.description,
+    'price', p.price,
+    'images', to_jsonb(COALESCE(p.images, '{}')),
+    'category_id', p.category_id,
+    'tags', to_jsonb(COALESCE(p.tags, '{}')),
+    'variants', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', v.id,
+        'title', COALESCE(NULLIF(concat_ws(' / ', v.option1, v.option2, v.option3), ''), 'Default'),
+        'sku', v.sku,
+        'price', v.price,
+        'weight', v.weight
+      ) ORDER BY v.position)
+      FROM product_variants v
+      WHERE v.product_id = p.id
+    ), '[]'::jsonb)
+  ),
+  p.supplier_id,
+  'supplier',
+  p.created_at
+FROM products p
+WHERE NOT EXISTS (
+  SELECT 1 FROM product_revisions r WHERE r.product_id = p.id
+);
@@ -0,0 +1,45 @@
+-- Add variant support to supplier products
+-- Option axes (e.g. Size, Color) live on the product, one row per sellable variant
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS options JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  sku VARCHAR(255),
+  price NUMERIC(12, 2) NOT NULL,
+  weight NUMERIC(10, 3),
+  weight_unit VARCHAR(2) NOT NULL DEFAULT 'kg',
+  inventory_quantity INTEGER NOT NULL DEFAULT 0,
+  option1 VARCHAR(255),
+  option2 VARCHAR(255),
+  option3 VARCHAR(255),
+  position INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_variants_sku ON product_variants(sku);
+
+-- A product cannot list the same option combination twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_options
+ON product_variants(product_id, COALESCE(option1, ''), COALESCE(option2, ''), COALESCE(option3, ''));
+
+-- Per-variant mapping recorded on push: [{ supplier_variant_id, shopify_variant_id, shopify_inventory_item_id, sku }]
+ALTER TABLE product_shopify_mappings
+ADD COLUMN IF NOT EXISTS variant_mappings JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION update_product_variants_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_product_variants_updated_at
+    BEFORE UPDATE ON product_variants
+    FOR EACH ROW
+    EXECUTE FUNCTION update_product_variants_updated_at();
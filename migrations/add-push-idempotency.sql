@@ -0,0 +1,29 @@
+-- One listing per supplier product per store, so pushing again updates it instead of creating a duplicate
+-- Run after add-bulk-push-jobs.sql
+
+-- Mappings archived here are kept so orders placed before then still reach the supplier;
+-- orders placed afterwards, stock sync and content sync ignore them
+ALTER TABLE product_shopify_mappings
+ADD COLUMN IF NOT EXISTS unlinked_at TIMESTAMP WITH TIME ZONE;
+
+-- Keep the most recent mapping active where a product was pushed to the same store more than once;
+-- the older Shopify listings are left in the store for the seller to remove
+UPDATE product_shopify_mappings older
+SET unlinked_at = NOW()
+FROM product_shopify_mappings newer
+WHERE older.supplier_product_id = newer.supplier_product_id
+  AND older.shopify_store_url = newer.shopify_store_url
+  AND older.unlinked_at IS NULL
+  AND newer.unlinked_at IS NULL
+  AND (COALESCE(older.pushed_at, 'epoch'), older.id) < (COALESCE(newer.pushed_at, 'epoch'), newer.id);
+
+-- Only active mappings must be unique, so archived ones can stay
+ALTER TABLE product_shopify_mappings
+DROP CONSTRAINT IF EXISTS unique_product_store_mapping;
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_product_store_mapping
+ON product_shopify_mappings(supplier_product_id, shopify_store_url)
+WHERE unlinked_at IS NULL;
+
+-- Bulk pushes either leave products already in the store alone or update them in place
+ALTER TABLE bulk_push_jobs
+ADD COLUMN IF NOT EXISTS update_existing BOOLEAN NOT NULL DEFAULT false;
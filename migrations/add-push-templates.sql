@@ -0,0 +1,28 @@
+-- Per-store templates for the title, description, vendor and tags of pushed Shopify products
+-- Run after add-product-linking.sql
+
+CREATE TABLE IF NOT EXISTS store_push_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_url VARCHAR(255) NOT NULL UNIQUE,
+  -- Placeholders: {{title}}, {{description}}, {{supplier}}, {{category}}
+  title_template TEXT NOT NULL DEFAULT '{{title}}',
+  body_template TEXT NOT NULL DEFAULT '{{description}}',
+  vendor_template TEXT NOT NULL DEFAULT '{{supplier}}',
+  extra_tags TEXT NOT NULL DEFAULT '', -- Comma-separated, added to the product's own tags
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION update_store_push_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_store_push_templates_updated_at ON store_push_templates;
+CREATE TRIGGER update_store_push_templates_updated_at
+    BEFORE UPDATE ON store_push_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_store_push_templates_updated_at();
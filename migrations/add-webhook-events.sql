@@ -0,0 +1,33 @@
+-- Every webhook delivery Shopify sends, kept so failed ones can be inspected and replayed from the admin area
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  webhook_id VARCHAR(255) UNIQUE, -- X-Shopify-Webhook-Id; the same delivery retried by Shopify keeps it
+  topic VARCHAR(100),
+  shop_domain VARCHAR(255),
+  payload JSONB,
+  hmac_valid BOOLEAN, -- NULL when no SHOPIFY_WEBHOOK_SECRET is set to check against
+  status VARCHAR(20) NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'failed', 'ignored')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_shop ON webhook_events(shop_domain, created_at DESC);
+
+CREATE OR REPLACE FUNCTION update_webhook_events_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_webhook_events_updated_at ON webhook_events;
+CREATE TRIGGER update_webhook_events_updated_at
+    BEFORE UPDATE ON webhook_events
+    FOR EACH ROW
+    EXECUTE FUNCTION update_webhook_events_updated_at();
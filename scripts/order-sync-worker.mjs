@@ -0,0 +1,112 @@
+// Local stand-in for a cron job: asks the app to sync due stores, run queued bulk pushes, send queued product
+// content changes and, once a day, reconcile mappings; waits, and asks again.
+// The app decides which stores are due and holds a lock per store, and push items are claimed one at a time,
+// so running this next to a real cron is harmless.
+//
+// The app only accepts these calls with its CRON_SECRET, sent as a bearer token.
+//
+//   APP_URL=http://localhost:3000 CRON_SECRET=... ORDER_SYNC_POLL_SECONDS=60 npm run sync:worker
+
+const appUrl = process.env.APP_URL || process.env.SHOPIFY_APP_URL || 'http://localhost:3000'
+const pollSeconds = Number(process.env.ORDER_SYNC_POLL_SECONDS) || 60
+// Reconciliation reads every linked store's products, so it runs far less often than the rest
+const reconcileHours = Number(process.env.MAPPING_RECONCILIATION_HOURS) || 24
+let lastReconciledAt = 0
+
+if (!process.env.CRON_SECRET) {
+  console.error('Set CRON_SECRET to the value the app is configured with')
+  process.exit(1)
+}
+const headers = { Authorization: `Bearer ${process.env.CRON_SECRET}` }
+
+let stopping = false
+const stop = () => {
+  stopping = true
+  console.log('Stopping after the current run...')
+}
+process.on('SIGINT', stop)
+process.on('SIGTERM', stop)
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function syncOrders() {
+  try {
+    const response = await fetch(`${appUrl}/api/order-sync/run`, { method: 'POST', headers })
+    const result = await response.json()
+    if (!response.ok) {
+      console.error(`[${new Date().toISOString()}] Order sync failed:`, result.error || response.status)
+      return
+    }
+    console.log(`[${new Date().toISOString()}] Synced ${result.synced} store(s), ${result.failed} failed, ${result.skipped.length} already running`)
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Could not reach ${appUrl}:`, error.message)
+  }
+}
+
+// Picks up bulk pushes whose run was cut off, e.g. by a server restart
+async function runPushJobs() {
+  try {
+    const response = await fetch(`${appUrl}/api/push-jobs/run`, { method: 'POST', headers })
+    const result = await response.json()
+    if (!response.ok) {
+      console.error(`[${new Date().toISOString()}] Bulk push run failed:`, result.error || response.status)
+      return
+    }
+    if (result.processed > 0) {
+      console.log(`[${new Date().toISOString()}] Ran ${result.processed} bulk push job(s)`)
+    }
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Could not reach ${appUrl}:`, error.message)
+  }
+}
+
+// Sends supplier product edits to the listings made from them
+async function syncProductContent() {
+  try {
+    const response = await fetch(`${appUrl}/api/product-sync`, { method: 'POST', headers })
+    const result = await response.json()
+    if (!response.ok) {
+      console.error(`[${new Date().toISOString()}] Product content sync failed:`, result.error || response.status)
+      return
+    }
+    if (result.processed > 0) {
+      console.log(`[${new Date().toISOString()}] Synced content of ${result.processed} listing(s)`)
+    }
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Could not reach ${appUrl}:`, error.message)
+  }
+}
+
+// Flags mappings whose Shopify listing or variants changed
+async function reconcileMappings() {
+  if (Date.now() - lastReconciledAt < reconcileHours * 60 * 60 * 1000) return
+  lastReconciledAt = Date.now()
+
+  try {
+    const response = await fetch(`${appUrl}/api/mapping-reconciliation/run`, { method: 'POST', headers })
+    const result = await response.json()
+    if (!response.ok) {
+      console.error(`[${new Date().toISOString()}] Mapping reconciliation failed:`, result.error || response.status)
+      return
+    }
+    console.log(`[${new Date().toISOString()}] Reconciled ${result.stores} store(s), ${result.issues} issue(s)`)
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Could not reach ${appUrl}:`, error.message)
+  }
+}
+
+async function tick() {
+  await syncOrders()
+  await runPushJobs()
+  await syncProductContent()
+  await reconcileMappings()
+}
+
+console.log(`Background worker polling ${appUrl} every ${pollSeconds}s`)
+while (!stopping) {
+  await tick()
+  // Sleep in short steps so a stop request does not wait out the whole interval
+  for (let waited = 0; waited < pollSeconds && !stopping; waited++) {
+    await sleep(1000)
+  }
+}